@@ -24,15 +24,20 @@ import {
     DbCacheAdapter,
     defaultCharacter,
     elizaLogger,
+    embed,
     FsCacheAdapter,
     IAgentRuntime,
     ICacheManager,
     IDatabaseAdapter,
     IDatabaseCacheAdapter,
+    importDatabase,
     ModelProviderName,
+    readDatabaseArchive,
     settings,
     stringToUuid,
     validateCharacterConfig,
+    validateUuid,
+    writeDatabaseArchive,
 } from "@elizaos/core";
 import { zgPlugin } from "@elizaos/plugin-0g";
 
@@ -123,6 +128,9 @@ const logFetch = async (url: string, options: any) => {
 export function parseArguments(): {
     character?: string;
     characters?: string;
+    exportDb?: string;
+    importDb?: string;
+    agent?: string;
 } {
     try {
         return yargs(process.argv.slice(3))
@@ -135,6 +143,21 @@ export function parseArguments(): {
                 description:
                     "Comma separated list of paths to character JSON files",
             })
+            .option("export-db", {
+                type: "string",
+                description:
+                    "Write the database to a JSONL archive at this path and exit",
+            })
+            .option("import-db", {
+                type: "string",
+                description:
+                    "Restore a JSONL archive at this path into the database and exit",
+            })
+            .option("agent", {
+                type: "string",
+                description:
+                    "Agent id or character name whose records --export-db writes",
+            })
             .parseSync();
     } catch (error) {
         elizaLogger.error("Error parsing arguments:", error);
@@ -997,6 +1020,63 @@ async function startAgent(
     }
 }
 
+/**
+ * Exports the configured database to a JSONL archive, or restores one into
+ * it. Embeddings of other dimensions than the configured embedding model's
+ * are computed again with the first character's runtime.
+ */
+async function runDatabaseCommand(
+    args: { exportDb?: string; importDb?: string; agent?: string },
+    characters: Character[]
+) {
+    const dataDir = path.join(__dirname, "../data");
+    if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    const db = initializeDatabase(dataDir) as IDatabaseAdapter &
+        IDatabaseCacheAdapter;
+    await db.init();
+
+    try {
+        if (args.exportDb) {
+            const agentId = args.agent
+                ? (validateUuid(args.agent) ?? stringToUuid(args.agent))
+                : undefined;
+            const counts = await writeDatabaseArchive(db, args.exportDb, {
+                agentId,
+            });
+            elizaLogger.success(
+                `Exported database to ${args.exportDb}`,
+                counts
+            );
+            return;
+        }
+
+        const character = characters[0];
+        character.id ??= stringToUuid(character.name);
+        const runtime = await createAgent(
+            character,
+            db,
+            initializeCache(
+                process.env.CACHE_STORE ?? CacheStore.DATABASE,
+                character,
+                "",
+                db
+            ),
+            getTokenForProvider(character.modelProvider, character)
+        );
+        const result = await importDatabase(
+            db,
+            readDatabaseArchive(args.importDb),
+            { embed: (text) => embed(runtime, text) }
+        );
+        elizaLogger.success(`Imported database from ${args.importDb}`, result);
+    } finally {
+        await db.close();
+    }
+}
+
 const checkPortAvailable = (port: number): Promise<boolean> => {
     return new Promise((resolve) => {
         const server = net.createServer();
@@ -1027,6 +1107,11 @@ const startAgents = async () => {
         characters = await loadCharacters(charactersArg);
     }
 
+    if (args.exportDb || args.importDb) {
+        await runDatabaseCommand(args, characters);
+        process.exit(0);
+    }
+
     try {
         for (const character of characters) {
             await startAgent(character, directClient);
@@ -8,6 +8,9 @@ import { BrowserRouter, Route, Routes } from "react-router";
 import Chat from "./routes/chat";
 import Overview from "./routes/overview";
 import Home from "./routes/home";
+import Calendar from "./routes/calendar";
+import Gallery from "./routes/gallery";
+import Character from "./routes/character";
 import useVersion from "./hooks/use-version";
 
 const queryClient = new QueryClient({
@@ -44,6 +47,18 @@ function App() {
                                             path="settings/:agentId"
                                             element={<Overview />}
                                         />
+                                        <Route
+                                            path="calendar/:agentId"
+                                            element={<Calendar />}
+                                        />
+                                        <Route
+                                            path="gallery/:agentId"
+                                            element={<Gallery />}
+                                        />
+                                        <Route
+                                            path="character/:agentId"
+                                            element={<Character />}
+                                        />
                                     </Routes>
                                 </div>
                             </SidebarInset>
@@ -12,11 +12,14 @@ import {
     SidebarMenuButton,
     SidebarMenuItem,
     SidebarMenuSkeleton,
+    SidebarMenuSub,
+    SidebarMenuSubButton,
+    SidebarMenuSubItem,
 } from "@/components/ui/sidebar";
 import { apiClient } from "@/lib/api";
 import { NavLink, useLocation } from "react-router";
 import { type UUID } from "@elizaos/core";
-import { Book, Cog, User } from "lucide-react";
+import { Book, CalendarClock, Cog, Images, PenLine, User } from "lucide-react";
 import ConnectionStatus from "./connection-status";
 
 export function AppSidebar() {
@@ -88,6 +91,62 @@ export function AppSidebar() {
                                                         </span>
                                                     </SidebarMenuButton>
                                                 </NavLink>
+                                                <SidebarMenuSub>
+                                                    <SidebarMenuSubItem>
+                                                        <SidebarMenuSubButton
+                                                            asChild
+                                                            isActive={
+                                                                location.pathname ===
+                                                                `/calendar/${agent.id}`
+                                                            }
+                                                        >
+                                                            <NavLink
+                                                                to={`/calendar/${agent.id}`}
+                                                            >
+                                                                <CalendarClock />
+                                                                <span>
+                                                                    Calendar
+                                                                </span>
+                                                            </NavLink>
+                                                        </SidebarMenuSubButton>
+                                                    </SidebarMenuSubItem>
+                                                    <SidebarMenuSubItem>
+                                                        <SidebarMenuSubButton
+                                                            asChild
+                                                            isActive={
+                                                                location.pathname ===
+                                                                `/gallery/${agent.id}`
+                                                            }
+                                                        >
+                                                            <NavLink
+                                                                to={`/gallery/${agent.id}`}
+                                                            >
+                                                                <Images />
+                                                                <span>
+                                                                    Gallery
+                                                                </span>
+                                                            </NavLink>
+                                                        </SidebarMenuSubButton>
+                                                    </SidebarMenuSubItem>
+                                                    <SidebarMenuSubItem>
+                                                        <SidebarMenuSubButton
+                                                            asChild
+                                                            isActive={
+                                                                location.pathname ===
+                                                                `/character/${agent.id}`
+                                                            }
+                                                        >
+                                                            <NavLink
+                                                                to={`/character/${agent.id}`}
+                                                            >
+                                                                <PenLine />
+                                                                <span>
+                                                                    Character
+                                                                </span>
+                                                            </NavLink>
+                                                        </SidebarMenuSubButton>
+                                                    </SidebarMenuSubItem>
+                                                </SidebarMenuSub>
                                             </SidebarMenuItem>
                                         )
                                     )}
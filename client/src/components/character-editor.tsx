@@ -0,0 +1,500 @@
+import { useEffect, useState } from "react";
+import { type Character, type UUID } from "@elizaos/core";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useDebounce } from "@uidotdev/usehooks";
+import { History, Plus, Save, X } from "lucide-react";
+import { apiClient } from "@/lib/api";
+import { moment } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Textarea } from "./ui/textarea";
+import PageTitle from "./page-title";
+
+const formatValue = (value: unknown) =>
+    value === undefined ? "(none)" : JSON.stringify(value, null, 2);
+
+function ListField({
+    title,
+    values,
+    onChange,
+}: {
+    title: string;
+    values: string[];
+    onChange: (values: string[]) => void;
+}) {
+    return (
+        <div className="space-y-2">
+            <Label>{title}</Label>
+            <div className="space-y-2 rounded-md border bg-card p-2">
+                {values.map((value, index) => (
+                    <div key={index} className="flex items-start gap-2">
+                        <Textarea
+                            value={value}
+                            rows={Math.min(4, value.split("\n").length)}
+                            className="min-h-9 bg-background"
+                            onChange={(e) =>
+                                onChange(
+                                    values.map((item, i) =>
+                                        i === index ? e.target.value : item
+                                    )
+                                )
+                            }
+                        />
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() =>
+                                onChange(values.filter((_, i) => i !== index))
+                            }
+                        >
+                            <X />
+                            <span className="sr-only">Remove</span>
+                        </Button>
+                    </div>
+                ))}
+                <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onChange([...values, ""])}
+                >
+                    <Plus /> Add
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+function TemplatesField({
+    templates,
+    onChange,
+}: {
+    templates: Record<string, string>;
+    onChange: (templates: Record<string, string>) => void;
+}) {
+    const [name, setName] = useState("");
+
+    return (
+        <div className="space-y-4">
+            {Object.entries(templates).map(([key, value]) => (
+                <div key={key} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <Label>{key}</Label>
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                                const { [key]: _removed, ...rest } = templates;
+                                onChange(rest);
+                            }}
+                        >
+                            <X /> Remove
+                        </Button>
+                    </div>
+                    <Textarea
+                        value={value}
+                        rows={8}
+                        className="font-mono text-xs"
+                        onChange={(e) =>
+                            onChange({ ...templates, [key]: e.target.value })
+                        }
+                    />
+                </div>
+            ))}
+            <div className="flex gap-2">
+                <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Template name, e.g. twitterPostTemplate"
+                    className="max-w-sm"
+                />
+                <Button
+                    variant="outline"
+                    disabled={!name.trim() || name.trim() in templates}
+                    onClick={() => {
+                        onChange({ ...templates, [name.trim()]: "" });
+                        setName("");
+                    }}
+                >
+                    <Plus /> Add template
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+function JsonField({
+    title,
+    value,
+    onChange,
+    onError,
+}: {
+    title: string;
+    value: unknown;
+    onChange: (value: unknown) => void;
+    onError: (error: string | null) => void;
+}) {
+    const [text, setText] = useState(() =>
+        JSON.stringify(value ?? {}, null, 2)
+    );
+
+    return (
+        <div className="space-y-2">
+            <Label>{title}</Label>
+            <Textarea
+                value={text}
+                rows={16}
+                className="font-mono text-xs"
+                onChange={(e) => {
+                    setText(e.target.value);
+                    try {
+                        onChange(JSON.parse(e.target.value));
+                        onError(null);
+                    } catch (error) {
+                        onError((error as Error).message);
+                    }
+                }}
+            />
+        </div>
+    );
+}
+
+function VersionHistory({ agentId }: { agentId: UUID }) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const versionsQuery = useQuery({
+        queryKey: ["character-versions", agentId],
+        queryFn: () => apiClient.getCharacterVersions(agentId),
+    });
+    const rollbackMutation = useMutation({
+        mutationFn: (version: number) =>
+            apiClient.rollbackCharacter(agentId, version),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["character", agentId] });
+            queryClient.invalidateQueries({
+                queryKey: ["character-versions", agentId],
+            });
+            queryClient.invalidateQueries({ queryKey: ["agent", agentId] });
+        },
+        onError: (e) => {
+            toast({
+                variant: "destructive",
+                title: "Unable to roll back",
+                description: e.message,
+            });
+        },
+    });
+
+    const versions = versionsQuery.data?.versions ?? [];
+    if (!versions.length) {
+        return (
+            <p className="text-sm text-muted-foreground">
+                No edits yet. The character loaded at startup becomes version 1
+                on the first edit.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-2">
+            {versions.map((version, index) => (
+                <div
+                    key={version.version}
+                    className="flex flex-col gap-1 rounded-md border p-3"
+                >
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant={index === 0 ? "secondary" : "outline"}>
+                            v{version.version}
+                        </Badge>
+                        <span>{moment(version.createdAt).format("lll")}</span>
+                        {version.note ? <span>· {version.note}</span> : null}
+                        <span>
+                            · {version.changes.length}{" "}
+                            {version.changes.length === 1
+                                ? "change"
+                                : "changes"}
+                        </span>
+                    </div>
+                    {version.changes.length ? (
+                        <p className="text-xs">
+                            {version.changes
+                                .map((change) => change.path)
+                                .join(", ")}
+                        </p>
+                    ) : null}
+                    {index > 0 ? (
+                        <div>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={rollbackMutation.isPending}
+                                onClick={() =>
+                                    rollbackMutation.mutate(version.version)
+                                }
+                            >
+                                <History /> Roll back to v{version.version}
+                            </Button>
+                        </div>
+                    ) : null}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export default function CharacterEditor({ agentId }: { agentId: UUID }) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [draft, setDraft] = useState<Character | null>(null);
+    const [jsonError, setJsonError] = useState<string | null>(null);
+    const [note, setNote] = useState("");
+    // Remounts the fields that keep their own text when the draft is reset
+    const [revision, setRevision] = useState(0);
+
+    const resetDraft = (character: Character) => {
+        setDraft(structuredClone(character));
+        setJsonError(null);
+        setRevision((old) => old + 1);
+    };
+
+    const characterQuery = useQuery({
+        queryKey: ["character", agentId],
+        queryFn: () => apiClient.getCharacter(agentId),
+    });
+
+    // A new draft starts from each character the server sends
+    useEffect(() => {
+        if (characterQuery.data) resetDraft(characterQuery.data.character);
+    }, [characterQuery.data]);
+
+    const debouncedDraft = useDebounce(draft, 400);
+    const validationQuery = useQuery({
+        queryKey: ["character-validation", agentId, debouncedDraft],
+        queryFn: () => apiClient.validateCharacter(agentId, debouncedDraft!),
+        enabled: !!debouncedDraft,
+    });
+
+    const saveMutation = useMutation({
+        mutationFn: () => apiClient.saveCharacter(agentId, draft!, note),
+        onSuccess: () => {
+            setNote("");
+            queryClient.invalidateQueries({ queryKey: ["character", agentId] });
+            queryClient.invalidateQueries({
+                queryKey: ["character-versions", agentId],
+            });
+            queryClient.invalidateQueries({ queryKey: ["agent", agentId] });
+        },
+        onError: (e) => {
+            toast({
+                variant: "destructive",
+                title: "Unable to apply character",
+                description: e.message,
+            });
+        },
+    });
+
+    if (!draft) {
+        return <div className="p-4">Loading character...</div>;
+    }
+
+    const update = (changes: Partial<Character>) =>
+        setDraft((old) => (old ? { ...old, ...changes } : old));
+    const toList = (value: string | string[] | undefined) =>
+        typeof value === "string" ? [value] : (value ?? []);
+
+    const issues = validationQuery.data?.issues ?? [];
+    const changes = validationQuery.data?.changes ?? [];
+    const pending = draft !== debouncedDraft || validationQuery.isFetching;
+
+    return (
+        <div className="p-4 space-y-4">
+            <PageTitle
+                title="Character"
+                subtitle="Edit the running agent's character. Changes apply without a restart and are versioned."
+            />
+            <Tabs defaultValue="profile">
+                <TabsList>
+                    <TabsTrigger value="profile">Profile</TabsTrigger>
+                    <TabsTrigger value="style">Style</TabsTrigger>
+                    <TabsTrigger value="posts">Post Examples</TabsTrigger>
+                    <TabsTrigger value="templates">Templates</TabsTrigger>
+                    <TabsTrigger value="images">Image Settings</TabsTrigger>
+                    <TabsTrigger value="history">History</TabsTrigger>
+                </TabsList>
+                <TabsContent value="profile" className="space-y-4">
+                    <div className="space-y-2">
+                        <Label>System</Label>
+                        <Textarea
+                            value={draft.system ?? ""}
+                            rows={4}
+                            onChange={(e) =>
+                                update({
+                                    system: e.target.value || undefined,
+                                })
+                            }
+                        />
+                    </div>
+                    <ListField
+                        title="Bio"
+                        values={toList(draft.bio)}
+                        onChange={(bio) => update({ bio })}
+                    />
+                    <ListField
+                        title="Lore"
+                        values={draft.lore ?? []}
+                        onChange={(lore) => update({ lore })}
+                    />
+                    <ListField
+                        title="Topics"
+                        values={draft.topics ?? []}
+                        onChange={(topics) => update({ topics })}
+                    />
+                    <ListField
+                        title="Adjectives"
+                        values={draft.adjectives ?? []}
+                        onChange={(adjectives) => update({ adjectives })}
+                    />
+                </TabsContent>
+                <TabsContent value="style" className="space-y-4">
+                    {(["all", "chat", "post"] as const).map((key) => (
+                        <ListField
+                            key={key}
+                            title={`Style: ${key}`}
+                            values={draft.style?.[key] ?? []}
+                            onChange={(values) =>
+                                update({
+                                    style: { ...draft.style, [key]: values },
+                                })
+                            }
+                        />
+                    ))}
+                </TabsContent>
+                <TabsContent value="posts">
+                    <ListField
+                        title="Post Examples"
+                        values={draft.postExamples ?? []}
+                        onChange={(postExamples) => update({ postExamples })}
+                    />
+                </TabsContent>
+                <TabsContent value="templates">
+                    <TemplatesField
+                        templates={
+                            (draft.templates ?? {}) as Record<string, string>
+                        }
+                        onChange={(templates) => update({ templates })}
+                    />
+                </TabsContent>
+                <TabsContent value="images">
+                    <JsonField
+                        key={revision}
+                        title="settings.imageSettings"
+                        value={draft.settings?.imageSettings}
+                        onChange={(imageSettings) =>
+                            update({
+                                settings: {
+                                    ...draft.settings,
+                                    imageSettings: imageSettings as NonNullable<
+                                        Character["settings"]
+                                    >["imageSettings"],
+                                },
+                            })
+                        }
+                        onError={setJsonError}
+                    />
+                </TabsContent>
+                <TabsContent value="history">
+                    <VersionHistory agentId={agentId} />
+                </TabsContent>
+            </Tabs>
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        Changes
+                        <Badge variant="outline">
+                            v{characterQuery.data?.version}
+                        </Badge>
+                        {pending ? (
+                            <Badge variant="outline">validating...</Badge>
+                        ) : null}
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {jsonError || issues.length ? (
+                        <ul className="space-y-1 text-sm text-destructive">
+                            {jsonError ? (
+                                <li>Image settings: {jsonError}</li>
+                            ) : null}
+                            {issues.map((issue, index) => (
+                                <li key={index}>
+                                    <span className="font-mono">
+                                        {issue.path || "character"}
+                                    </span>
+                                    : {issue.message}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : null}
+                    {changes.length ? (
+                        <div className="space-y-2">
+                            {changes.map((change) => (
+                                <div
+                                    key={change.path}
+                                    className="rounded-md border p-2 text-xs"
+                                >
+                                    <p className="mb-1 font-mono">
+                                        {change.path}
+                                    </p>
+                                    <pre className="whitespace-pre-wrap text-red-400">
+                                        - {formatValue(change.before)}
+                                    </pre>
+                                    <pre className="whitespace-pre-wrap text-green-400">
+                                        + {formatValue(change.after)}
+                                    </pre>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            No changes.
+                        </p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                        <Input
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder="What changed, for the history"
+                            className="max-w-sm"
+                        />
+                        <Button
+                            disabled={
+                                pending ||
+                                !!jsonError ||
+                                issues.length > 0 ||
+                                !changes.length ||
+                                saveMutation.isPending
+                            }
+                            onClick={() => saveMutation.mutate()}
+                        >
+                            <Save /> Apply
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            disabled={!changes.length}
+                            onClick={() =>
+                                characterQuery.data &&
+                                resetDraft(characterQuery.data.character)
+                            }
+                        >
+                            Discard
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
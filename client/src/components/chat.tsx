@@ -19,7 +19,7 @@ import ChatTtsButton from "./ui/chat/chat-tts-button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "./ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
 import AIWriter from "react-aiwriter";
-import { IAttachment } from "@/types";
+import { IAttachment, IMessageStreamEvent } from "@/types";
 import { AudioRecorder } from "./audio-recorder";
 import { Badge } from "./ui/badge";
 
@@ -27,6 +27,12 @@ interface ExtraContentFields {
     user: string;
     createdAt: number;
     isLoading?: boolean;
+    /** Shown as it arrived, so it is not typed out again */
+    streamed?: boolean;
+    /** Streamed for the answer in progress, replaced once it is done */
+    pending?: boolean;
+    /** What the agent is busy with while it answers */
+    status?: string;
 }
 
 type ContentWithUser = Content & ExtraContentFields;
@@ -87,9 +93,11 @@ export default function Page({ agentId }: { agentId: UUID }) {
                 attachments,
             },
             {
-                text: input,
+                text: "",
                 user: "system",
                 isLoading: true,
+                streamed: true,
+                pending: true,
                 createdAt: Date.now(),
             },
         ];
@@ -115,6 +123,68 @@ export default function Page({ agentId }: { agentId: UUID }) {
         }
     }, []);
 
+    const updateMessages = (
+        update: (old: ContentWithUser[]) => ContentWithUser[]
+    ) =>
+        queryClient.setQueryData(
+            ["messages", agentId],
+            (old: ContentWithUser[] = []) => update(old)
+        );
+
+    const updateLoadingMessage = (
+        update: (msg: ContentWithUser) => ContentWithUser
+    ) =>
+        updateMessages((old) =>
+            old.map((msg) => (msg.isLoading ? update(msg) : msg))
+        );
+
+    const handleStreamEvent = (event: IMessageStreamEvent) => {
+        switch (event.type) {
+            case "token":
+                updateLoadingMessage((msg) => ({
+                    ...msg,
+                    text: msg.text + event.delta,
+                }));
+                break;
+            case "retry":
+                // The response is written again from the start
+                updateLoadingMessage((msg) => ({ ...msg, text: "" }));
+                break;
+            case "response":
+                updateLoadingMessage((msg) => ({
+                    ...msg,
+                    text: event.content.text,
+                }));
+                break;
+            case "action_started":
+                updateLoadingMessage((msg) => ({
+                    ...msg,
+                    status: `Running ${event.action}`,
+                }));
+                break;
+            case "action_finished":
+                updateLoadingMessage((msg) => ({ ...msg, status: undefined }));
+                break;
+            case "message":
+                // Messages sent by actions, e.g. generated images, go in
+                // above the answer that is still streaming
+                updateMessages((old) => {
+                    const index = old.findIndex((msg) => msg.isLoading);
+                    const msg = {
+                        ...event.content,
+                        user: "system",
+                        createdAt: Date.now(),
+                        streamed: true,
+                        pending: true,
+                    };
+                    return index === -1
+                        ? [...old, msg]
+                        : [...old.slice(0, index), msg, ...old.slice(index)];
+                });
+                break;
+        }
+    };
+
     const sendMessageMutation = useMutation({
         mutationKey: ["send_message", agentId],
         mutationFn: ({
@@ -123,20 +193,26 @@ export default function Page({ agentId }: { agentId: UUID }) {
         }: {
             message: string;
             selectedFile?: File | null;
-        }) => apiClient.sendMessage(agentId, message, selectedFile),
-        onSuccess: (newMessages: ContentWithUser[]) => {
-            queryClient.setQueryData(
-                ["messages", agentId],
-                (old: ContentWithUser[] = []) => [
-                    ...old.filter((msg) => !msg.isLoading),
-                    ...newMessages.map((msg) => ({
-                        ...msg,
-                        createdAt: Date.now(),
-                    })),
-                ]
-            );
+        }) =>
+            apiClient.streamMessage(
+                agentId,
+                message,
+                selectedFile,
+                handleStreamEvent
+            ),
+        onSuccess: (newMessages: Content[]) => {
+            // The final messages replace the ones streamed so far
+            updateMessages((old) => [
+                ...old.filter((msg) => !msg.pending),
+                ...(newMessages as ContentWithUser[]).map((msg) => ({
+                    ...msg,
+                    createdAt: Date.now(),
+                    streamed: true,
+                })),
+            ]);
         },
         onError: (e) => {
+            updateMessages((old) => old.filter((msg) => !msg.pending));
             toast({
                 variant: "destructive",
                 title: "Unable to send message",
@@ -158,7 +234,9 @@ export default function Page({ agentId }: { agentId: UUID }) {
 
     const transitions = useTransition(messages, {
         keys: (message) =>
-            `${message.createdAt}-${message.user}-${message.text}`,
+            message.isLoading
+                ? `${message.createdAt}-${message.user}`
+                : `${message.createdAt}-${message.user}-${message.text}`,
         from: { opacity: 0, transform: "translateY(50px)" },
         enter: { opacity: 1, transform: "translateY(0px)" },
         leave: { opacity: 0, transform: "translateY(10px)" },
@@ -187,9 +265,13 @@ export default function Page({ agentId }: { agentId: UUID }) {
                                     ) : null}
                                     <div className="flex flex-col">
                                         <ChatBubbleMessage
-                                            isLoading={message?.isLoading}
+                                            isLoading={
+                                                message?.isLoading &&
+                                                !message?.text
+                                            }
                                         >
-                                            {message?.user !== "user" ? (
+                                            {message?.user !== "user" &&
+                                            !message?.streamed ? (
                                                 <AIWriter>
                                                     {message?.text}
                                                 </AIWriter>
@@ -247,6 +329,11 @@ export default function Page({ agentId }: { agentId: UUID }) {
                                                         {message.source}
                                                     </Badge>
                                                 ) : null}
+                                                {message?.status ? (
+                                                    <Badge variant="outline">
+                                                        {message.status}
+                                                    </Badge>
+                                                ) : null}
                                                 {message?.action ? (
                                                     <Badge variant="outline">
                                                         {message.action}
@@ -0,0 +1,394 @@
+import { useRef, useState } from "react";
+import { type UUID } from "@elizaos/core";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ImagePlus, Pencil, Send, Trash2, X } from "lucide-react";
+import { apiClient, getMediaUrl } from "@/lib/api";
+import { moment } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { IPlatformSchedule, IScheduledPost } from "@/types";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Textarea } from "./ui/textarea";
+import PageTitle from "./page-title";
+
+function PostImages({ post }: { post: IScheduledPost }) {
+    const images = post.content.images?.filter((image) => image.previewUrl);
+    if (!images?.length) return null;
+
+    return (
+        <div className="flex flex-wrap gap-2">
+            {images.map((image, index) => (
+                <img
+                    key={index}
+                    src={getMediaUrl(image.previewUrl!)}
+                    alt={image.prompt ?? "Post image"}
+                    className="w-48 rounded-md"
+                />
+            ))}
+        </div>
+    );
+}
+
+function QueuedPost({
+    agentId,
+    post,
+}: {
+    agentId: UUID;
+    post: IScheduledPost;
+}) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [editing, setEditing] = useState(false);
+    const [text, setText] = useState(post.content.text);
+
+    const onSuccess = () => {
+        queryClient.invalidateQueries({
+            queryKey: ["upcoming-posts", agentId],
+        });
+        queryClient.invalidateQueries({
+            queryKey: ["published-posts", agentId],
+        });
+    };
+    const onError = (e: Error) => {
+        toast({
+            variant: "destructive",
+            title: "Unable to update post",
+            description: e.message,
+        });
+    };
+
+    const updateMutation = useMutation({
+        mutationFn: () => apiClient.updatePost(agentId, post.id, { text }),
+        onSuccess: () => {
+            setEditing(false);
+            onSuccess();
+        },
+        onError,
+    });
+    const deleteMutation = useMutation({
+        mutationFn: () => apiClient.deletePost(agentId, post.id),
+        onSuccess,
+        onError,
+    });
+    const publishMutation = useMutation({
+        mutationFn: () => apiClient.publishPost(agentId, post.id),
+        onSuccess,
+        onError,
+    });
+    const imageMutation = useMutation({
+        mutationFn: (image: File | null) =>
+            image
+                ? apiClient.setPostImage(agentId, post.id, image)
+                : apiClient.removePostImage(agentId, post.id),
+        onSuccess,
+        onError,
+    });
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file && file.type.startsWith("image/")) {
+            imageMutation.mutate(file);
+        }
+        e.target.value = "";
+    };
+
+    const busy =
+        updateMutation.isPending ||
+        deleteMutation.isPending ||
+        publishMutation.isPending ||
+        imageMutation.isPending;
+
+    return (
+        <div className="flex flex-col gap-2 rounded-md border p-3">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>Queued {moment(post.createdAt).format("lll")}</span>
+                {post.notBefore ? (
+                    <span>
+                        · not before {moment(post.notBefore).format("lll")}
+                    </span>
+                ) : null}
+                {post.status === "publishing" ? (
+                    <Badge variant="secondary">publishing</Badge>
+                ) : null}
+            </div>
+            {editing ? (
+                <Textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    rows={4}
+                />
+            ) : (
+                <p className="whitespace-pre-wrap text-sm">
+                    {post.content.text}
+                </p>
+            )}
+            <PostImages post={post} />
+            {post.error ? (
+                <p className="text-xs text-destructive">
+                    Attempt {post.attempts} failed: {post.error}
+                </p>
+            ) : null}
+            <div className="flex flex-wrap gap-2">
+                {editing ? (
+                    <>
+                        <Button
+                            size="sm"
+                            disabled={busy || !text.trim()}
+                            onClick={() => updateMutation.mutate()}
+                        >
+                            Save
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                                setText(post.content.text);
+                                setEditing(false);
+                            }}
+                        >
+                            Cancel
+                        </Button>
+                    </>
+                ) : (
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busy}
+                        onClick={() => setEditing(true)}
+                    >
+                        <Pencil /> Edit
+                    </Button>
+                )}
+                <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() => publishMutation.mutate()}
+                >
+                    <Send /> Post now
+                </Button>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() => fileInputRef.current?.click()}
+                >
+                    <ImagePlus />
+                    {post.content.images?.length
+                        ? "Replace image"
+                        : "Attach image"}
+                </Button>
+                {post.content.images?.length ? (
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busy}
+                        onClick={() => imageMutation.mutate(null)}
+                    >
+                        <X /> Remove image
+                    </Button>
+                ) : null}
+                <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={busy}
+                    onClick={() => deleteMutation.mutate()}
+                >
+                    <Trash2 /> Delete
+                </Button>
+                <input
+                    type="file"
+                    ref={fileInputRef}
+                    accept="image/*"
+                    className="hidden"
+                    onChange={handleFileChange}
+                />
+            </div>
+        </div>
+    );
+}
+
+function PlatformQueue({
+    agentId,
+    schedule,
+}: {
+    agentId: UUID;
+    schedule: IPlatformSchedule;
+}) {
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 capitalize">
+                    {schedule.platform}
+                    <Badge variant="outline">
+                        {schedule.nextPublishAt
+                            ? `next ${moment(schedule.nextPublishAt).format("lll")}`
+                            : "no window this week"}
+                    </Badge>
+                    <Badge variant="outline">
+                        {schedule.publishedLastDay}
+                        {schedule.maxPerDay !== undefined
+                            ? `/${schedule.maxPerDay}`
+                            : ""}{" "}
+                        in 24h
+                    </Badge>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-2">
+                {schedule.queued.length ? (
+                    schedule.queued.map((post) => (
+                        <QueuedPost
+                            key={post.id}
+                            agentId={agentId}
+                            post={post}
+                        />
+                    ))
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        {schedule.generates
+                            ? "Nothing queued. A new post will be generated."
+                            : "Nothing queued."}
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+function PublishedPost({ post }: { post: IScheduledPost }) {
+    return (
+        <div className="flex flex-col gap-2 rounded-md border p-3">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="outline" className="capitalize">
+                    {post.platform}
+                </Badge>
+                <Badge
+                    variant={
+                        post.status === "failed" ? "destructive" : "secondary"
+                    }
+                >
+                    {post.status.replace("_", " ")}
+                </Badge>
+                <span>
+                    {moment(post.publishedAt ?? post.createdAt).format("lll")}
+                </span>
+                {post.result?.url ? (
+                    <a
+                        href={post.result.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="underline"
+                    >
+                        View post
+                    </a>
+                ) : null}
+            </div>
+            <p className="whitespace-pre-wrap text-sm">{post.content.text}</p>
+            <PostImages post={post} />
+            {post.error ? (
+                <p className="text-xs text-destructive">{post.error}</p>
+            ) : null}
+        </div>
+    );
+}
+
+export default function ContentCalendar({ agentId }: { agentId: UUID }) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [text, setText] = useState("");
+
+    const upcomingQuery = useQuery({
+        queryKey: ["upcoming-posts", agentId],
+        queryFn: () => apiClient.getUpcomingPosts(agentId),
+        refetchInterval: 5_000,
+    });
+    const publishedQuery = useQuery({
+        queryKey: ["published-posts", agentId],
+        queryFn: () => apiClient.getPublishedPosts(agentId),
+        refetchInterval: 5_000,
+    });
+
+    const queueMutation = useMutation({
+        mutationFn: () => apiClient.queuePost(agentId, text),
+        onSuccess: () => {
+            setText("");
+            queryClient.invalidateQueries({
+                queryKey: ["upcoming-posts", agentId],
+            });
+        },
+        onError: (e) => {
+            toast({
+                variant: "destructive",
+                title: "Unable to queue post",
+                description: e.message,
+            });
+        },
+    });
+
+    const schedule = upcomingQuery.data?.schedule ?? [];
+    const published = publishedQuery.data?.posts ?? [];
+
+    return (
+        <div className="p-4 space-y-4">
+            <PageTitle
+                title="Content Calendar"
+                subtitle="Posts queued for your agent's platforms, and what it has already posted."
+            />
+            <div className="flex flex-col gap-2">
+                <Textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder="Write a post to queue on every platform..."
+                    rows={3}
+                />
+                <div>
+                    <Button
+                        disabled={
+                            !text.trim() ||
+                            !schedule.length ||
+                            queueMutation.isPending
+                        }
+                        onClick={() => queueMutation.mutate()}
+                    >
+                        Queue post
+                    </Button>
+                </div>
+            </div>
+            <Tabs defaultValue="upcoming">
+                <TabsList>
+                    <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+                    <TabsTrigger value="published">Published</TabsTrigger>
+                </TabsList>
+                <TabsContent value="upcoming" className="space-y-4">
+                    {schedule.length ? (
+                        schedule.map((item) => (
+                            <PlatformQueue
+                                key={item.platform}
+                                agentId={agentId}
+                                schedule={item}
+                            />
+                        ))
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            No posting clients are running for this agent.
+                        </p>
+                    )}
+                </TabsContent>
+                <TabsContent value="published" className="space-y-2">
+                    {published.length ? (
+                        published.map((post) => (
+                            <PublishedPost key={post.id} post={post} />
+                        ))
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            Nothing published yet.
+                        </p>
+                    )}
+                </TabsContent>
+            </Tabs>
+        </div>
+    );
+}
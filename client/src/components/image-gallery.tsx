@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { type UUID } from "@elizaos/core";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ListPlus, RefreshCw, Trash2 } from "lucide-react";
+import { apiClient, getMediaUrl } from "@/lib/api";
+import { moment } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { IGalleryImage, IImageGenerationOptions } from "@/types";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Textarea } from "./ui/textarea";
+import PageTitle from "./page-title";
+
+const STATUSES = ["completed", "rejected", "error"];
+
+const NUMBER_OPTIONS: { key: keyof IImageGenerationOptions; label: string }[] =
+    [
+        { key: "width", label: "Width" },
+        { key: "height", label: "Height" },
+        { key: "count", label: "Count" },
+        { key: "numIterations", label: "Iterations" },
+        { key: "guidanceScale", label: "Guidance scale" },
+        { key: "seed", label: "Seed" },
+    ];
+
+const TEXT_OPTIONS: { key: keyof IImageGenerationOptions; label: string }[] = [
+    { key: "negativePrompt", label: "Negative prompt" },
+    { key: "modelId", label: "Model" },
+    { key: "stylePreset", label: "Style preset" },
+    { key: "jobId", label: "Job id" },
+];
+
+/** Providers answer with URLs, data URLs or bare base64 */
+const toImageSrc = (image: string) =>
+    /^(data:|https?:\/\/)/.test(image)
+        ? image
+        : `data:image/png;base64,${image}`;
+
+function GalleryImage({
+    agentId,
+    image,
+}: {
+    agentId: UUID;
+    image: IGalleryImage;
+}) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [queueing, setQueueing] = useState(false);
+    const [text, setText] = useState("");
+
+    const onError = (e: Error) => {
+        toast({
+            variant: "destructive",
+            title: "Unable to update image",
+            description: e.message,
+        });
+    };
+
+    const regenerateMutation = useMutation({
+        mutationFn: () => apiClient.regenerateImage(agentId, image.id),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["images", agentId] });
+        },
+        onError,
+    });
+    const deleteMutation = useMutation({
+        mutationFn: () => apiClient.deleteImage(agentId, image.id),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["images", agentId] });
+        },
+        onError,
+    });
+    const queueMutation = useMutation({
+        mutationFn: () =>
+            apiClient.queuePost(agentId, text, undefined, [image.id]),
+        onSuccess: () => {
+            setQueueing(false);
+            setText("");
+            queryClient.invalidateQueries({ queryKey: ["images", agentId] });
+            queryClient.invalidateQueries({
+                queryKey: ["upcoming-posts", agentId],
+            });
+        },
+        onError,
+    });
+
+    const busy =
+        regenerateMutation.isPending ||
+        deleteMutation.isPending ||
+        queueMutation.isPending;
+
+    return (
+        <Card>
+            <CardContent className="flex flex-col gap-2 p-3">
+                {image.previewUrl ? (
+                    <img
+                        src={getMediaUrl(image.previewUrl)}
+                        alt={image.prompt}
+                        className="w-full rounded-md"
+                    />
+                ) : null}
+                <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                    <Badge
+                        variant={
+                            image.status === "completed"
+                                ? "secondary"
+                                : "destructive"
+                        }
+                    >
+                        {image.status}
+                    </Badge>
+                    {image.provider ? (
+                        <Badge variant="outline">{image.provider}</Badge>
+                    ) : null}
+                    {image.seed !== undefined ? (
+                        <Badge variant="outline">seed {image.seed}</Badge>
+                    ) : null}
+                    {image.style ? (
+                        <Badge variant="outline">{image.style}</Badge>
+                    ) : null}
+                    {image.operation && image.operation !== "generate" ? (
+                        <Badge variant="outline">{image.operation}</Badge>
+                    ) : null}
+                    <span>{moment(image.createdAt).format("lll")}</span>
+                </div>
+                <p className="whitespace-pre-wrap text-sm">{image.prompt}</p>
+                {image.rejectionReason || image.error ? (
+                    <p className="text-xs text-destructive">
+                        {image.rejectionReason ?? image.error}
+                    </p>
+                ) : null}
+                {image.posts.length ? (
+                    <div className="flex flex-wrap items-center gap-1 text-xs">
+                        {image.posts.map((post) =>
+                            post.url ? (
+                                <a
+                                    key={post.id}
+                                    href={post.url}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                >
+                                    <Badge
+                                        variant="outline"
+                                        className="capitalize underline"
+                                    >
+                                        {post.platform} · {post.status}
+                                    </Badge>
+                                </a>
+                            ) : (
+                                <Badge
+                                    key={post.id}
+                                    variant="outline"
+                                    className="capitalize"
+                                >
+                                    {post.platform} · {post.status}
+                                </Badge>
+                            )
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-xs text-muted-foreground">
+                        Not posted yet.
+                    </p>
+                )}
+                {queueing ? (
+                    <div className="flex flex-col gap-2">
+                        <Textarea
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            placeholder="Write the post to go with this image..."
+                            rows={3}
+                        />
+                        <div className="flex gap-2">
+                            <Button
+                                size="sm"
+                                disabled={busy || !text.trim()}
+                                onClick={() => queueMutation.mutate()}
+                            >
+                                Queue post
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setQueueing(false)}
+                            >
+                                Cancel
+                            </Button>
+                        </div>
+                    </div>
+                ) : null}
+                <div className="flex flex-wrap gap-2">
+                    {image.status === "completed" && !queueing ? (
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() => setQueueing(true)}
+                        >
+                            <ListPlus /> Send to queue
+                        </Button>
+                    ) : null}
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busy}
+                        onClick={() => regenerateMutation.mutate()}
+                    >
+                        <RefreshCw />
+                        {regenerateMutation.isPending
+                            ? "Regenerating..."
+                            : "Regenerate"}
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={busy}
+                        onClick={() => deleteMutation.mutate()}
+                    >
+                        <Trash2 /> Delete
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
+
+function GenerationConsole({ agentId }: { agentId: UUID }) {
+    const { toast } = useToast();
+    const [prompt, setPrompt] = useState("");
+    const [values, setValues] = useState<Record<string, string>>({
+        width: "1024",
+        height: "1024",
+    });
+    const [hideWatermark, setHideWatermark] = useState(false);
+
+    const generateMutation = useMutation({
+        mutationFn: () => {
+            const options = { prompt } as IImageGenerationOptions;
+            for (const { key } of NUMBER_OPTIONS) {
+                if (values[key]) {
+                    Object.assign(options, { [key]: Number(values[key]) });
+                }
+            }
+            for (const { key } of TEXT_OPTIONS) {
+                if (values[key]) {
+                    Object.assign(options, { [key]: values[key] });
+                }
+            }
+            if (hideWatermark) options.hideWatermark = true;
+            return apiClient.generateImage(agentId, options);
+        },
+        onError: (e) => {
+            toast({
+                variant: "destructive",
+                title: "Unable to generate image",
+                description: e.message,
+            });
+        },
+    });
+
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (prompt.trim()) generateMutation.mutate();
+    };
+
+    const setValue = (key: string, value: string) =>
+        setValues((old) => ({ ...old, [key]: value }));
+
+    return (
+        <div className="flex flex-col gap-4">
+            <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="prompt">Prompt</Label>
+                    <Textarea
+                        id="prompt"
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        placeholder="Describe the image to generate..."
+                        rows={3}
+                    />
+                </div>
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+                    {NUMBER_OPTIONS.map(({ key, label }) => (
+                        <div key={key} className="flex flex-col gap-2">
+                            <Label htmlFor={key}>{label}</Label>
+                            <Input
+                                id={key}
+                                type="number"
+                                step={key === "guidanceScale" ? "any" : 1}
+                                value={values[key] ?? ""}
+                                onChange={(e) => setValue(key, e.target.value)}
+                            />
+                        </div>
+                    ))}
+                    {TEXT_OPTIONS.map(({ key, label }) => (
+                        <div key={key} className="flex flex-col gap-2">
+                            <Label htmlFor={key}>{label}</Label>
+                            <Input
+                                id={key}
+                                value={values[key] ?? ""}
+                                onChange={(e) => setValue(key, e.target.value)}
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2">
+                    <input
+                        id="hideWatermark"
+                        type="checkbox"
+                        checked={hideWatermark}
+                        onChange={(e) => setHideWatermark(e.target.checked)}
+                    />
+                    <Label htmlFor="hideWatermark">Hide watermark</Label>
+                </div>
+                <div>
+                    <Button
+                        type="submit"
+                        disabled={!prompt.trim() || generateMutation.isPending}
+                    >
+                        {generateMutation.isPending
+                            ? "Generating..."
+                            : "Generate"}
+                    </Button>
+                </div>
+            </form>
+            {generateMutation.data ? (
+                generateMutation.data.images.length ? (
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+                        {generateMutation.data.images.map((result, index) => (
+                            <div key={index} className="flex flex-col gap-1">
+                                <img
+                                    src={toImageSrc(result.image)}
+                                    alt={result.caption}
+                                    className="w-full rounded-md"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    {result.caption}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        No images were returned.
+                    </p>
+                )
+            ) : null}
+        </div>
+    );
+}
+
+export default function ImageGallery({ agentId }: { agentId: UUID }) {
+    const [status, setStatus] = useState<string | undefined>();
+    const [search, setSearch] = useState("");
+
+    const imagesQuery = useQuery({
+        queryKey: ["images", agentId, status, search],
+        queryFn: () => apiClient.getImages(agentId, { status, text: search }),
+        refetchInterval: 10_000,
+    });
+
+    const images = imagesQuery.data?.images ?? [];
+
+    return (
+        <div className="p-4 space-y-4">
+            <PageTitle
+                title="Gallery"
+                subtitle="Images your agent has generated, and where they were posted."
+            />
+            <Tabs defaultValue="gallery">
+                <TabsList>
+                    <TabsTrigger value="gallery">Gallery</TabsTrigger>
+                    <TabsTrigger value="console">Console</TabsTrigger>
+                </TabsList>
+                <TabsContent value="gallery" className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Input
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Search prompts..."
+                            className="max-w-xs"
+                        />
+                        <Button
+                            size="sm"
+                            variant={status ? "outline" : "secondary"}
+                            onClick={() => setStatus(undefined)}
+                        >
+                            All
+                        </Button>
+                        {STATUSES.map((item) => (
+                            <Button
+                                key={item}
+                                size="sm"
+                                variant={
+                                    status === item ? "secondary" : "outline"
+                                }
+                                className="capitalize"
+                                onClick={() => setStatus(item)}
+                            >
+                                {item}
+                            </Button>
+                        ))}
+                    </div>
+                    {images.length ? (
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+                            {images.map((image) => (
+                                <GalleryImage
+                                    key={image.id}
+                                    agentId={agentId}
+                                    image={image}
+                                />
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            {imagesQuery.isLoading
+                                ? "Loading images..."
+                                : "No generated images yet."}
+                        </p>
+                    )}
+                </TabsContent>
+                <TabsContent value="console">
+                    <GenerationConsole agentId={agentId} />
+                </TabsContent>
+            </Tabs>
+        </div>
+    );
+}
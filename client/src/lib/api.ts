@@ -1,7 +1,34 @@
-import { type UUID, type Character } from "@elizaos/core";
+import {
+    type UUID,
+    type Character,
+    type CharacterChange,
+    type CharacterIssue,
+    type CharacterVersion,
+    type Content,
+} from "@elizaos/core";
+import type {
+    IGalleryImage,
+    IImageGenerationOptions,
+    IMessageStreamEvent,
+    IPlatformSchedule,
+    IScheduledPost,
+} from "@/types";
 
 const BASE_URL = "http://localhost:3000";
 
+/** Resolves media paths served by the agent server, e.g. /media/uploads/... */
+export const getMediaUrl = (url: string) =>
+    url.startsWith("/") ? `${BASE_URL}${url}` : url;
+
+const getErrorMessage = (errorText: string) => {
+    try {
+        const errorObj = JSON.parse(errorText);
+        return errorObj.message || errorObj.error || "An error occurred.";
+    } catch {
+        return errorText || "An error occurred.";
+    }
+};
+
 const fetcher = async ({
     url,
     method,
@@ -9,7 +36,7 @@ const fetcher = async ({
     headers,
 }: {
     url: string;
-    method?: "GET" | "POST";
+    method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
     body?: object | FormData;
     headers?: HeadersInit;
 }) => {
@@ -23,7 +50,7 @@ const fetcher = async ({
               },
     };
 
-    if (method === "POST") {
+    if (body) {
         if (body instanceof FormData) {
             // @ts-expect-error - Supressing potentially undefined options header
             delete options.headers["Content-Type"];
@@ -46,15 +73,7 @@ const fetcher = async ({
         const errorText = await resp.text();
         console.error("Error: ", errorText);
 
-        let errorMessage = "An error occurred.";
-        try {
-            const errorObj = JSON.parse(errorText);
-            errorMessage = errorObj.message || errorMessage;
-        } catch {
-            errorMessage = errorText || errorMessage;
-        }
-
-        throw new Error(errorMessage);
+        throw new Error(getErrorMessage(errorText));
     });
 };
 
@@ -77,6 +96,63 @@ export const apiClient = {
             body: formData,
         });
     },
+    /**
+     * Sends a message and reads the answer as server-sent events, handing
+     * each to onEvent. Resolves with the messages of the final event.
+     */
+    streamMessage: async (
+        agentId: string,
+        message: string,
+        selectedFile: File | null | undefined,
+        onEvent: (event: IMessageStreamEvent) => void
+    ): Promise<Content[]> => {
+        const formData = new FormData();
+        formData.append("text", message);
+        formData.append("user", "user");
+
+        if (selectedFile) {
+            formData.append("file", selectedFile);
+        }
+
+        const resp = await fetch(`${BASE_URL}/${agentId}/message/stream`, {
+            method: "POST",
+            body: formData,
+            headers: { Accept: "text/event-stream" },
+        });
+        if (!resp.ok || !resp.body) {
+            throw new Error(getErrorMessage(await resp.text()));
+        }
+
+        const reader = resp.body
+            .pipeThrough(new TextDecoderStream())
+            .getReader();
+        let buffer = "";
+        let messages: Content[] = [];
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += value;
+
+            let end = buffer.indexOf("\n\n");
+            while (end !== -1) {
+                const data = buffer
+                    .slice(0, end)
+                    .split("\n")
+                    .filter((line) => line.startsWith("data:"))
+                    .map((line) => line.slice(5).trimStart())
+                    .join("\n");
+                buffer = buffer.slice(end + 2);
+                end = buffer.indexOf("\n\n");
+                if (!data) continue;
+
+                const event = JSON.parse(data) as IMessageStreamEvent;
+                if (event.type === "error") throw new Error(event.error);
+                if (event.type === "done") messages = event.messages;
+                onEvent(event);
+            }
+        }
+        return messages;
+    },
     getAgents: () => fetcher({ url: "/agents" }),
     getAgent: (agentId: string): Promise<{ id: UUID; character: Character }> =>
         fetcher({ url: `/agents/${agentId}` }),
@@ -102,4 +178,139 @@ export const apiClient = {
             body: formData,
         });
     },
+    getCharacter: (
+        agentId: string
+    ): Promise<{
+        character: Character;
+        version: number;
+        restartFields: string[];
+    }> => fetcher({ url: `/agents/${agentId}/character` }),
+    validateCharacter: (
+        agentId: string,
+        character: Character
+    ): Promise<{ issues: CharacterIssue[]; changes: CharacterChange[] }> =>
+        fetcher({
+            url: `/agents/${agentId}/character/validate`,
+            method: "POST",
+            body: { character },
+        }),
+    saveCharacter: (
+        agentId: string,
+        character: Character,
+        note?: string
+    ): Promise<{ version: CharacterVersion }> =>
+        fetcher({
+            url: `/agents/${agentId}/character`,
+            method: "PUT",
+            body: { character, note },
+        }),
+    getCharacterVersions: (
+        agentId: string
+    ): Promise<{ versions: CharacterVersion[] }> =>
+        fetcher({ url: `/agents/${agentId}/character/versions` }),
+    rollbackCharacter: (
+        agentId: string,
+        version: number
+    ): Promise<{ version: CharacterVersion }> =>
+        fetcher({
+            url: `/agents/${agentId}/character/versions/${version}/rollback`,
+            method: "POST",
+        }),
+    getUpcomingPosts: (
+        agentId: string
+    ): Promise<{ agentId: UUID; schedule: IPlatformSchedule[] }> =>
+        fetcher({ url: `/agents/${agentId}/posts/upcoming` }),
+    getPublishedPosts: (
+        agentId: string,
+        limit = 50
+    ): Promise<{ agentId: UUID; posts: IScheduledPost[] }> =>
+        fetcher({ url: `/agents/${agentId}/posts/published?limit=${limit}` }),
+    queuePost: (
+        agentId: string,
+        text: string,
+        platforms?: string[],
+        imageIds?: string[]
+    ): Promise<{ posts: IScheduledPost[] }> =>
+        fetcher({
+            url: `/agents/${agentId}/posts`,
+            method: "POST",
+            body: { text, platforms, imageIds },
+        }),
+    updatePost: (
+        agentId: string,
+        postId: string,
+        update: { text?: string; notBefore?: number | null }
+    ): Promise<{ post: IScheduledPost }> =>
+        fetcher({
+            url: `/agents/${agentId}/posts/${postId}`,
+            method: "PATCH",
+            body: update,
+        }),
+    deletePost: (agentId: string, postId: string) =>
+        fetcher({
+            url: `/agents/${agentId}/posts/${postId}`,
+            method: "DELETE",
+        }),
+    publishPost: (
+        agentId: string,
+        postId: string
+    ): Promise<{ post: IScheduledPost }> =>
+        fetcher({
+            url: `/agents/${agentId}/posts/${postId}/publish`,
+            method: "POST",
+        }),
+    setPostImage: (
+        agentId: string,
+        postId: string,
+        image: File
+    ): Promise<{ post: IScheduledPost }> => {
+        const formData = new FormData();
+        formData.append("file", image);
+        return fetcher({
+            url: `/agents/${agentId}/posts/${postId}/image`,
+            method: "POST",
+            body: formData,
+        });
+    },
+    getImages: (
+        agentId: string,
+        query: { status?: string; text?: string } = {}
+    ): Promise<{ agentId: UUID; images: IGalleryImage[] }> => {
+        const params = new URLSearchParams();
+        if (query.status) params.set("status", query.status);
+        if (query.text) params.set("text", query.text);
+        return fetcher({ url: `/agents/${agentId}/images?${params}` });
+    },
+    regenerateImage: (
+        agentId: string,
+        imageId: string,
+        seed?: number
+    ): Promise<{ images: IGalleryImage[] }> =>
+        fetcher({
+            url: `/agents/${agentId}/images/${imageId}/regenerate`,
+            method: "POST",
+            body: { seed },
+        }),
+    deleteImage: (agentId: string, imageId: string) =>
+        fetcher({
+            url: `/agents/${agentId}/images/${imageId}`,
+            method: "DELETE",
+        }),
+    generateImage: (
+        agentId: string,
+        options: IImageGenerationOptions
+    ): Promise<{ images: { image: string; caption: string }[] }> =>
+        fetcher({
+            url: `/${agentId}/image`,
+            method: "POST",
+            body: options,
+        }),
+    removePostImage: (
+        agentId: string,
+        postId: string
+    ): Promise<{ post: IScheduledPost }> =>
+        fetcher({
+            url: `/agents/${agentId}/posts/${postId}/image`,
+            method: "DELETE",
+        }),
 };
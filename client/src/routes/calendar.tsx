@@ -0,0 +1,11 @@
+import { useParams } from "react-router";
+import ContentCalendar from "@/components/content-calendar";
+import { UUID } from "@elizaos/core";
+
+export default function AgentRoute() {
+    const { agentId } = useParams<{ agentId: UUID }>();
+
+    if (!agentId) return <div>No data.</div>;
+
+    return <ContentCalendar agentId={agentId} />;
+}
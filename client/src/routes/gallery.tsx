@@ -0,0 +1,11 @@
+import { useParams } from "react-router";
+import ImageGallery from "@/components/image-gallery";
+import { UUID } from "@elizaos/core";
+
+export default function AgentRoute() {
+    const { agentId } = useParams<{ agentId: UUID }>();
+
+    if (!agentId) return <div>No data.</div>;
+
+    return <ImageGallery agentId={agentId} />;
+}
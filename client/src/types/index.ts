@@ -1,5 +1,75 @@
+import type {
+    ActionResult,
+    Content,
+    ImageGenerationRequest,
+    PlatformSchedule,
+    ScheduledContentImage,
+    ScheduledPost,
+    ScheduledPostStatus,
+    UUID,
+} from "@elizaos/core";
+
 export interface IAttachment {
     url: string;
     contentType: string;
     title: string;
-}
\ No newline at end of file
+}
+
+export interface IScheduledPost extends Omit<ScheduledPost, "content"> {
+    content: {
+        text: string;
+        images?: (ScheduledContentImage & { previewUrl?: string })[];
+    };
+}
+
+export interface IPlatformSchedule extends Omit<PlatformSchedule, "queued"> {
+    queued: IScheduledPost[];
+}
+
+/** A generated-image catalog entry, as listed by GET /agents/:agentId/images */
+export interface IGalleryImage {
+    id: UUID;
+    character: string;
+    prompt: string;
+    createdAt: number;
+    status: "completed" | "error" | "rejected";
+    contentType: string;
+    previewUrl?: string;
+    provider?: string;
+    seed?: number;
+    style?: string;
+    operation?: string;
+    duplicateOf?: UUID;
+    error?: string;
+    rejectionReason?: string;
+    /** Queued and published posts the image went into */
+    posts: {
+        id: UUID;
+        platform: string;
+        status: ScheduledPostStatus;
+        url?: string;
+        publishedAt?: number;
+    }[];
+}
+
+/** Text-to-image options of POST /:agentId/image */
+export type IImageGenerationOptions = Omit<
+    ImageGenerationRequest,
+    "operation" | "sourceImage" | "strength" | "scale"
+>;
+
+/** Events of POST /:agentId/message/stream, see client-direct's stream.ts */
+export type IMessageStreamEvent =
+    | { type: "token"; delta: string }
+    | { type: "retry" }
+    | { type: "response"; content: Content }
+    | {
+          type: "action_started";
+          action: string;
+          requested: string;
+          params: { [key: string]: unknown };
+      }
+    | { type: "action_finished"; result: ActionResult }
+    | { type: "message"; content: Content }
+    | { type: "done"; messages: Content[] }
+    | { type: "error"; error: string };
@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import {
+    getSchemaVersion,
+    runMigrations,
+    SchemaVersionError,
+    type Migration,
+} from "@elizaos/core";
+import { PGLiteDatabaseAdapter } from "../index";
+import { createPGliteMigrationDatabase, pgliteMigrations } from "../migrations";
+
+const latestVersion = pgliteMigrations[pgliteMigrations.length - 1].version;
+
+describe("PGLiteDatabaseAdapter - Migrations", () => {
+    let adapter: PGLiteDatabaseAdapter;
+
+    beforeEach(() => {
+        // No data directory keeps the database in memory
+        adapter = new PGLiteDatabaseAdapter({});
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    test("creates the schema and records its version", async () => {
+        await adapter.init();
+
+        expect(
+            await getSchemaVersion(createPGliteMigrationDatabase(adapter.db))
+        ).toBe(latestVersion);
+        const { rows } = await adapter.db.query<{ exists: boolean }>(`
+            SELECT EXISTS (
+                SELECT FROM information_schema.tables
+                WHERE table_name = 'memories'
+            );
+        `);
+        expect(rows[0].exists).toBe(true);
+    });
+
+    test("does not apply migrations twice", async () => {
+        await adapter.init();
+        await adapter.init();
+
+        const { rows } = await adapter.db.query(
+            "SELECT version FROM schema_migrations"
+        );
+        expect(rows).toHaveLength(pgliteMigrations.length);
+    });
+
+    test("applies a later migration to an existing schema", async () => {
+        await adapter.init();
+        const migrations: Migration[] = [
+            ...pgliteMigrations,
+            {
+                version: 1000,
+                name: "memories_image",
+                up: 'ALTER TABLE memories ADD COLUMN "image" JSONB',
+            },
+        ];
+
+        await runMigrations(
+            createPGliteMigrationDatabase(adapter.db),
+            migrations
+        );
+
+        const { rows } = await adapter.db.query<{ column_name: string }>(`
+            SELECT column_name FROM information_schema.columns
+            WHERE table_name = 'memories'
+        `);
+        expect(rows.map((row) => row.column_name)).toContain("image");
+    });
+
+    test("rolls back a failed migration", async () => {
+        await adapter.init();
+        const migrations: Migration[] = [
+            ...pgliteMigrations,
+            {
+                version: 1000,
+                name: "broken",
+                up: "CREATE TABLE images (id TEXT); SELECT * FROM missing",
+            },
+        ];
+
+        await expect(
+            runMigrations(createPGliteMigrationDatabase(adapter.db), migrations)
+        ).rejects.toThrow("missing");
+
+        const { rows } = await adapter.db.query<{ exists: boolean }>(`
+            SELECT EXISTS (
+                SELECT FROM information_schema.tables
+                WHERE table_name = 'images'
+            );
+        `);
+        expect(rows[0].exists).toBe(false);
+        expect(
+            await getSchemaVersion(createPGliteMigrationDatabase(adapter.db))
+        ).toBe(latestVersion);
+    });
+
+    test("refuses to start on a newer schema", async () => {
+        await adapter.init();
+        await adapter.db.query(
+            "INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)",
+            [1000, "from_a_newer_release", Date.now()]
+        );
+
+        await expect(adapter.init()).rejects.toBeInstanceOf(SchemaVersionError);
+    });
+});
@@ -5,6 +5,7 @@ import {
     Actor,
     GoalStatus,
     type Goal,
+    type LogEntry,
     type Memory,
     type Relationship,
     type UUID,
@@ -15,10 +16,10 @@ import {
     DatabaseAdapter,
     EmbeddingProvider,
     RAGKnowledgeItem,
+    runMigrations,
+    type DatabaseRecords,
+    type DatabaseRecordType,
 } from "@elizaos/core";
-import fs from "fs";
-import { fileURLToPath } from "url";
-import path from "path";
 import {
     PGlite,
     PGliteOptions,
@@ -27,9 +28,13 @@ import {
 } from "@electric-sql/pglite";
 import { vector } from "@electric-sql/pglite/vector";
 import { fuzzystrmatch } from "@electric-sql/pglite/contrib/fuzzystrmatch";
+import {
+    createPGliteMigrationDatabase,
+    pgliteMigrations,
+} from "./migrations.ts";
+import { getRecordsQuery, parseRecord } from "./records.ts";
 
-const __filename = fileURLToPath(import.meta.url); // get the resolved path to the file
-const __dirname = path.dirname(__filename); // get the name of the directory
+export * from "./migrations.ts";
 
 export class PGLiteDatabaseAdapter
     extends DatabaseAdapter<PGlite>
@@ -71,13 +76,12 @@ export class PGLiteDatabaseAdapter
                 await tx.query("SET app.use_ollama_embedding = 'false'");
                 await tx.query("SET app.use_gaianet_embedding = 'false'");
             }
-
-            const schema = fs.readFileSync(
-                path.resolve(__dirname, "../schema.sql"),
-                "utf8"
-            );
-            await tx.exec(schema);
         }, "init");
+
+        await runMigrations(
+            createPGliteMigrationDatabase(this.db),
+            pgliteMigrations
+        );
     }
 
     async close() {
@@ -926,6 +930,55 @@ export class PGLiteDatabaseAdapter
         }, "log");
     }
 
+    async getLogs(params: {
+        type: string;
+        userId?: UUID;
+        since?: number;
+        until?: number;
+        limit?: number;
+    }): Promise<LogEntry[]> {
+        return this.withDatabase(async () => {
+            let sql = `SELECT * FROM logs WHERE type = $1`;
+            const values: unknown[] = [params.type];
+            let paramCount = 1;
+
+            if (params.userId) {
+                paramCount++;
+                sql += ` AND "userId" = $${paramCount}`;
+                values.push(params.userId);
+            }
+
+            if (params.since) {
+                paramCount++;
+                sql += ` AND "createdAt" >= to_timestamp($${paramCount} / 1000.0)`;
+                values.push(params.since);
+            }
+
+            if (params.until) {
+                paramCount++;
+                sql += ` AND "createdAt" <= to_timestamp($${paramCount} / 1000.0)`;
+                values.push(params.until);
+            }
+
+            sql += ` ORDER BY "createdAt" DESC`;
+            if (params.limit) {
+                paramCount++;
+                sql += ` LIMIT $${paramCount}`;
+                values.push(params.limit);
+            }
+
+            const { rows } = await this.query<LogEntry>(sql, values);
+            return rows.reverse().map((row) => ({
+                ...row,
+                body:
+                    typeof row.body === "string"
+                        ? JSON.parse(row.body)
+                        : row.body,
+                createdAt: new Date(row.createdAt).getTime(),
+            }));
+        }, "getLogs");
+    }
+
     async searchMemoriesByEmbedding(
         embedding: number[],
         params: {
@@ -1524,6 +1577,19 @@ export class PGLiteDatabaseAdapter
             }
         }, "clearKnowledge");
     }
+
+    async getRecords<T extends DatabaseRecordType>(params: {
+        type: T;
+        agentId?: UUID;
+        offset: number;
+        count: number;
+    }): Promise<DatabaseRecords[T][]> {
+        return this.withDatabase(async () => {
+            const { sql, values } = getRecordsQuery(params);
+            const { rows } = await this.query(sql, values);
+            return rows.map((row) => parseRecord(params.type, row));
+        }, "getRecords");
+    }
 }
 
 export default PGLiteDatabaseAdapter;
@@ -0,0 +1,41 @@
+import type { Migration, MigrationDatabase } from "@elizaos/core";
+import type { PGlite } from "@electric-sql/pglite";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url); // get the resolved path to the file
+const __dirname = path.dirname(__filename); // get the name of the directory
+
+/**
+ * Schema changes of the PGlite adapter, oldest first. Add a change as a new
+ * migration with the next version, never by editing a released one.
+ */
+export const pgliteMigrations: Migration[] = [
+    {
+        version: 1,
+        name: "initial_schema",
+        // schema.sql creates what is missing, so databases made before
+        // migrations were tracked are adopted as they are
+        up: async (db) =>
+            db.exec(
+                fs.readFileSync(
+                    path.resolve(__dirname, "../schema.sql"),
+                    "utf8"
+                )
+            ),
+        transaction: false,
+    },
+];
+
+/** Lets the migration runner use a PGlite database */
+export function createPGliteMigrationDatabase(db: PGlite): MigrationDatabase {
+    return {
+        dialect: "postgres",
+        exec: async (sql) => {
+            await db.exec(sql);
+        },
+        query: async <T>(sql: string, params: unknown[] = []) =>
+            (await db.query<T>(sql, params)).rows,
+    };
+}
@@ -0,0 +1,129 @@
+import {
+    toEmbeddingArray,
+    type DatabaseRecords,
+    type DatabaseRecordType,
+    type UUID,
+} from "@elizaos/core";
+
+/** Rooms the agent takes part in or has memories in */
+const agentRooms = `SELECT "roomId" FROM participants WHERE "userId" = $1 UNION SELECT "roomId" FROM memories WHERE "agentId" = $1`;
+
+/**
+ * What database export reads of each record type, and which of the records
+ * belong to an agent: its own and those they refer to
+ */
+const recordQueries: Record<
+    DatabaseRecordType,
+    { select: string; agentFilter: string; orderBy: string }
+> = {
+    accounts: {
+        select: "SELECT * FROM accounts",
+        agentFilter: `id = $1
+            OR id IN (SELECT "userId" FROM participants WHERE "roomId" IN (${agentRooms}))
+            OR id IN (SELECT "userId" FROM memories WHERE "agentId" = $1)
+            OR id IN (SELECT "userA" FROM relationships WHERE "userB" = $1)
+            OR id IN (SELECT "userB" FROM relationships WHERE "userA" = $1)`,
+        orderBy: "id",
+    },
+    rooms: {
+        select: "SELECT id FROM rooms",
+        agentFilter: `id IN (${agentRooms})`,
+        orderBy: "id",
+    },
+    participants: {
+        select: `SELECT "userId", "roomId", "userState" FROM participants`,
+        agentFilter: `"roomId" IN (${agentRooms})`,
+        orderBy: "id",
+    },
+    memories: {
+        select: "SELECT * FROM memories",
+        agentFilter: `"agentId" = $1`,
+        orderBy: `"createdAt", id`,
+    },
+    goals: {
+        select: "SELECT * FROM goals",
+        agentFilter: `"roomId" IN (${agentRooms})`,
+        orderBy: `"createdAt", id`,
+    },
+    relationships: {
+        select: "SELECT * FROM relationships",
+        agentFilter: `"userA" = $1 OR "userB" = $1`,
+        orderBy: "id",
+    },
+    knowledge: {
+        select: "SELECT * FROM knowledge",
+        agentFilter: `"agentId" = $1 OR "isShared" = true`,
+        // Documents before the chunks that refer to them
+        orderBy: `"originalId" IS NOT NULL, id`,
+    },
+    cache: {
+        select: `SELECT "key", "agentId", "value"::TEXT AS "value" FROM cache`,
+        agentFilter: `"agentId" = $1`,
+        orderBy: `"key", "agentId"`,
+    },
+};
+
+/** Query reading a page of records of one type */
+export function getRecordsQuery(params: {
+    type: DatabaseRecordType;
+    agentId?: UUID;
+    offset: number;
+    count: number;
+}): { sql: string; values: unknown[] } {
+    const query = recordQueries[params.type];
+    if (!params.agentId) {
+        return {
+            sql: `${query.select} ORDER BY ${query.orderBy} LIMIT $1 OFFSET $2`,
+            values: [params.count, params.offset],
+        };
+    }
+    return {
+        sql: `${query.select} WHERE ${query.agentFilter} ORDER BY ${query.orderBy} LIMIT $2 OFFSET $3`,
+        values: [params.agentId, params.count, params.offset],
+    };
+}
+
+function parseTimestamp(value: Date | string | number): number {
+    if (value instanceof Date) return value.getTime();
+    return typeof value === "string" ? Date.parse(value) : value;
+}
+
+function parseJson<T>(value: unknown): T {
+    return typeof value === "string" ? JSON.parse(value) : (value as T);
+}
+
+/** Converts a row read with getRecordsQuery to its record */
+export function parseRecord<T extends DatabaseRecordType>(
+    type: T,
+    row: any
+): DatabaseRecords[T] {
+    switch (type) {
+        case "accounts":
+            return { ...row, details: parseJson(row.details) };
+        case "memories": {
+            const { type: tableName, ...memory } = row;
+            return {
+                ...memory,
+                content: parseJson(row.content),
+                embedding: toEmbeddingArray(row.embedding),
+                createdAt: parseTimestamp(row.createdAt),
+                unique: Boolean(row.unique),
+                tableName,
+            };
+        }
+        case "goals":
+            return { ...row, objectives: parseJson(row.objectives) };
+        case "knowledge": {
+            const embedding = toEmbeddingArray(row.embedding);
+            return {
+                id: row.id,
+                agentId: row.agentId,
+                content: parseJson(row.content),
+                embedding: embedding ? new Float32Array(embedding) : undefined,
+                createdAt: parseTimestamp(row.createdAt),
+            } as DatabaseRecords[T];
+        }
+        default:
+            return row;
+    }
+}
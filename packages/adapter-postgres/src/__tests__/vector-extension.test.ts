@@ -9,7 +9,7 @@ import { elizaLogger, type Memory, type Content } from '@elizaos/core';
 vi.setConfig({ testTimeout: 15000 });
 
 // Mock the @elizaos/core module
-vi.mock('@elizaos/core', () => ({
+vi.mock('@elizaos/core', async (importOriginal) => ({
     elizaLogger: {
         error: vi.fn().mockImplementation(console.error),
         info: vi.fn().mockImplementation(console.log),
@@ -34,7 +34,8 @@ vi.mock('@elizaos/core', () => ({
         OpenAI: 'OpenAI',
         Ollama: 'Ollama',
         BGE: 'BGE'
-    }
+    },
+    runMigrations: (await importOriginal<typeof import('@elizaos/core')>()).runMigrations
 }));
 
 // Helper function to parse vector string from PostgreSQL
@@ -93,6 +94,7 @@ describe('PostgresDatabaseAdapter - Vector Extension Validation', () => {
             await client.query('DROP TABLE IF EXISTS rooms CASCADE');
             await client.query('DROP TABLE IF EXISTS accounts CASCADE');
             await client.query('DROP TABLE IF EXISTS cache CASCADE');
+            await client.query('DROP TABLE IF EXISTS schema_migrations CASCADE');
             await client.query('DROP EXTENSION IF EXISTS vector CASCADE');
             await client.query('DROP SCHEMA IF EXISTS extensions CASCADE');
             elizaLogger.success('Database cleanup completed successfully');
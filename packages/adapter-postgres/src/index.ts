@@ -14,11 +14,15 @@ import {
     RAGKnowledgeItem,
     elizaLogger,
     getEmbeddingConfig,
+    runMigrations,
     type Goal,
+    type LogEntry,
     type IDatabaseCacheAdapter,
     type Memory,
     type Relationship,
     type UUID,
+    type DatabaseRecords,
+    type DatabaseRecordType,
 } from "@elizaos/core";
 import fs from "fs";
 import path from "path";
@@ -29,6 +33,13 @@ import {
     QueryResultRow,
 } from "pg";
 import { fileURLToPath } from "url";
+import {
+    createPostgresMigrationDatabase,
+    postgresMigrations,
+} from "./migrations.ts";
+import { getRecordsQuery, parseRecord } from "./records.ts";
+
+export * from "./migrations.ts";
 
 const __filename = fileURLToPath(import.meta.url); // get the resolved path to the file
 const __dirname = path.dirname(__filename); // get the name of the directory
@@ -210,8 +221,6 @@ export class PostgresDatabaseAdapter
 
         const client = await this.pool.connect();
         try {
-            await client.query("BEGIN");
-
             // Set application settings for embedding dimension
             const embeddingConfig = getEmbeddingConfig();
             if (embeddingConfig.provider === EmbeddingProvider.OpenAI) {
@@ -231,17 +240,16 @@ export class PostgresDatabaseAdapter
                 await client.query("SET app.use_ollama_embedding = 'false'");
             }
 
-            // Check if schema already exists (check for a core table)
-            const { rows } = await client.query(`
-                SELECT EXISTS (
-                    SELECT FROM information_schema.tables
-                    WHERE table_name = 'rooms'
-                );
-            `);
+            await runMigrations(
+                createPostgresMigrationDatabase(client),
+                postgresMigrations
+            );
 
-            if (!rows[0].exists || !(await this.validateVectorSetup())) {
+            // The schema is applied again when the vector setup is broken,
+            // which migrations already recorded would not notice
+            if (!(await this.validateVectorSetup())) {
                 elizaLogger.info(
-                    "Applying database schema - tables or vector extension missing"
+                    "Applying database schema - vector extension missing"
                 );
                 const schema = fs.readFileSync(
                     path.resolve(__dirname, "../schema.sql"),
@@ -249,11 +257,6 @@ export class PostgresDatabaseAdapter
                 );
                 await client.query(schema);
             }
-
-            await client.query("COMMIT");
-        } catch (error) {
-            await client.query("ROLLBACK");
-            throw error;
         } finally {
             client.release();
         }
@@ -1119,6 +1122,55 @@ export class PostgresDatabaseAdapter
         }, "log");
     }
 
+    async getLogs(params: {
+        type: string;
+        userId?: UUID;
+        since?: number;
+        until?: number;
+        limit?: number;
+    }): Promise<LogEntry[]> {
+        return this.withDatabase(async () => {
+            let sql = `SELECT * FROM logs WHERE type = $1`;
+            const values: any[] = [params.type];
+            let paramCount = 1;
+
+            if (params.userId) {
+                paramCount++;
+                sql += ` AND "userId" = $${paramCount}`;
+                values.push(params.userId);
+            }
+
+            if (params.since) {
+                paramCount++;
+                sql += ` AND "createdAt" >= to_timestamp($${paramCount} / 1000.0)`;
+                values.push(params.since);
+            }
+
+            if (params.until) {
+                paramCount++;
+                sql += ` AND "createdAt" <= to_timestamp($${paramCount} / 1000.0)`;
+                values.push(params.until);
+            }
+
+            sql += ` ORDER BY "createdAt" DESC`;
+            if (params.limit) {
+                paramCount++;
+                sql += ` LIMIT $${paramCount}`;
+                values.push(params.limit);
+            }
+
+            const { rows } = await this.pool.query(sql, values);
+            return rows.reverse().map((row) => ({
+                ...row,
+                body:
+                    typeof row.body === "string"
+                        ? JSON.parse(row.body)
+                        : row.body,
+                createdAt: new Date(row.createdAt).getTime(),
+            }));
+        }, "getLogs");
+    }
+
     async searchMemoriesByEmbedding(
         embedding: number[],
         params: {
@@ -1738,6 +1790,19 @@ export class PostgresDatabaseAdapter
         }, "clearKnowledge");
     }
 
+    async getRecords<T extends DatabaseRecordType>(params: {
+        type: T;
+        agentId?: UUID;
+        offset: number;
+        count: number;
+    }): Promise<DatabaseRecords[T][]> {
+        return this.withDatabase(async () => {
+            const { sql, values } = getRecordsQuery(params);
+            const { rows } = await this.query(sql, values);
+            return rows.map((row) => parseRecord(params.type, row));
+        }, "getRecords");
+    }
+
     private async createKnowledgeChunk(params: {
         id: UUID;
         originalId: UUID;
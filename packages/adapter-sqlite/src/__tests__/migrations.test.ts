@@ -0,0 +1,116 @@
+import Database from "better-sqlite3";
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import {
+    getSchemaVersion,
+    runMigrations,
+    SchemaVersionError,
+    type Migration,
+} from "@elizaos/core";
+import { SqliteDatabaseAdapter } from "../index";
+import { createSqliteMigrationDatabase, sqliteMigrations } from "../migrations";
+
+describe("SqliteDatabaseAdapter - Migrations", () => {
+    let db: Database.Database;
+    let adapter: SqliteDatabaseAdapter;
+
+    beforeEach(() => {
+        db = new Database(":memory:");
+        adapter = new SqliteDatabaseAdapter(db);
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    test("creates the schema and records its version", async () => {
+        await adapter.init();
+
+        const migrationDatabase = createSqliteMigrationDatabase(db);
+        expect(await getSchemaVersion(migrationDatabase)).toBe(
+            sqliteMigrations[sqliteMigrations.length - 1].version
+        );
+        const table = db
+            .prepare(
+                "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'memories'"
+            )
+            .get();
+        expect(table).toEqual({ name: "memories" });
+    });
+
+    test("does not apply migrations twice", async () => {
+        await adapter.init();
+        await adapter.init();
+
+        const rows = db.prepare("SELECT version FROM schema_migrations").all();
+        expect(rows).toHaveLength(sqliteMigrations.length);
+    });
+
+    test("adopts a database made before migrations were tracked", async () => {
+        db.exec(sqliteMigrations[0].up as string);
+        db.prepare("INSERT INTO accounts (id, name) VALUES (?, ?)").run(
+            "00000000-0000-0000-0000-000000000001",
+            "Existing"
+        );
+
+        await adapter.init();
+
+        const account = db
+            .prepare("SELECT name FROM accounts WHERE id = ?")
+            .get("00000000-0000-0000-0000-000000000001");
+        expect(account).toEqual({ name: "Existing" });
+    });
+
+    test("applies a later migration to an existing schema", async () => {
+        await adapter.init();
+        const migrations: Migration[] = [
+            ...sqliteMigrations,
+            {
+                version: 1000,
+                name: "memories_image",
+                up: "ALTER TABLE memories ADD COLUMN image TEXT",
+            },
+        ];
+
+        await runMigrations(createSqliteMigrationDatabase(db), migrations);
+
+        const columns = db.prepare("PRAGMA table_info(memories)").all() as {
+            name: string;
+        }[];
+        expect(columns.map((column) => column.name)).toContain("image");
+    });
+
+    test("rolls back a failed migration", async () => {
+        await adapter.init();
+        const migrations: Migration[] = [
+            ...sqliteMigrations,
+            {
+                version: 1000,
+                name: "broken",
+                up: "CREATE TABLE images (id TEXT); SELECT * FROM missing",
+            },
+        ];
+
+        await expect(
+            runMigrations(createSqliteMigrationDatabase(db), migrations)
+        ).rejects.toThrow("no such table");
+
+        const table = db
+            .prepare(
+                "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'images'"
+            )
+            .get();
+        expect(table).toBeUndefined();
+        expect(await getSchemaVersion(createSqliteMigrationDatabase(db))).toBe(
+            sqliteMigrations[sqliteMigrations.length - 1].version
+        );
+    });
+
+    test("refuses to start on a newer schema", async () => {
+        await adapter.init();
+        db.prepare(
+            "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)"
+        ).run(1000, "from_a_newer_release", Date.now());
+
+        await expect(adapter.init()).rejects.toBeInstanceOf(SchemaVersionError);
+    });
+});
@@ -0,0 +1,126 @@
+import Database from "better-sqlite3";
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import {
+    exportDatabase,
+    importDatabase,
+    stringToUuid,
+    type DatabaseArchiveLine,
+} from "@elizaos/core";
+import { SqliteDatabaseAdapter } from "../index";
+
+const agentId = stringToUuid("agent");
+const otherAgentId = stringToUuid("other-agent");
+const userId = stringToUuid("user");
+const roomId = stringToUuid("room");
+const embedding = Array.from({ length: 384 }, (_, i) => (i + 1) / 384);
+
+async function collect(lines: AsyncIterable<DatabaseArchiveLine>) {
+    const result: DatabaseArchiveLine[] = [];
+    for await (const line of lines) result.push(line);
+    return result;
+}
+
+describe("SqliteDatabaseAdapter - Records", () => {
+    let source: SqliteDatabaseAdapter;
+    let target: SqliteDatabaseAdapter;
+
+    beforeEach(async () => {
+        source = new SqliteDatabaseAdapter(new Database(":memory:"));
+        target = new SqliteDatabaseAdapter(new Database(":memory:"));
+        await source.init();
+        await target.init();
+
+        for (const id of [agentId, otherAgentId, userId]) {
+            await source.createAccount({
+                id,
+                name: id,
+                username: id,
+                email: `${id}@example.com`,
+            });
+        }
+        await source.createRoom(roomId);
+        await source.addParticipant(agentId, roomId);
+        await source.addParticipant(userId, roomId);
+        await source.setParticipantUserState(roomId, userId, "MUTED");
+        await source.createMemory(
+            {
+                id: stringToUuid("memory"),
+                userId,
+                agentId,
+                roomId,
+                content: { text: "Hello" },
+                embedding,
+                createdAt: 1,
+            },
+            "messages"
+        );
+        await source.setCache({ key: "key", agentId, value: '{"a":1}' });
+        await source.setCache({
+            key: "key",
+            agentId: otherAgentId,
+            value: "{}",
+        });
+    });
+
+    afterEach(async () => {
+        await source.close();
+        await target.close();
+    });
+
+    test("exports an agent's records and those they refer to", async () => {
+        const lines = await collect(exportDatabase(source, { agentId }));
+
+        const records = lines.slice(1) as Exclude<
+            DatabaseArchiveLine,
+            { type: "header" }
+        >[];
+        expect(
+            records
+                .filter((line) => line.type === "accounts")
+                .map((line) => (line.record as { id: string }).id)
+                .sort()
+        ).toEqual([agentId, userId].sort());
+        expect(records.filter((line) => line.type === "cache")).toEqual([
+            {
+                type: "cache",
+                record: { key: "key", agentId, value: '{"a":1}' },
+            },
+        ]);
+        const memory = records.find((line) => line.type === "memories");
+        expect(memory?.record).toMatchObject({
+            tableName: "messages",
+            content: { text: "Hello" },
+        });
+        expect(
+            (memory?.record as { embedding: number[] }).embedding[0]
+        ).toBeCloseTo(embedding[0]);
+    });
+
+    test("restores an archive into another database", async () => {
+        const lines = await collect(exportDatabase(source, { agentId }));
+
+        const result = await importDatabase(target, lines, {
+            embeddingDimensions: embedding.length,
+        });
+
+        expect(result.failed).toMatchObject({ accounts: 0, memories: 0 });
+        expect(result.imported).toMatchObject({
+            accounts: 2,
+            rooms: 1,
+            participants: 2,
+            memories: 1,
+            cache: 1,
+        });
+        expect(
+            await target.getMemoryById(stringToUuid("memory"))
+        ).toMatchObject({ content: { text: "Hello" } });
+        expect(await target.getParticipantUserState(roomId, userId)).toBe(
+            "MUTED"
+        );
+        expect(await target.getCache({ key: "key", agentId })).toBe('{"a":1}');
+
+        const again = await importDatabase(target, lines);
+        expect(again.imported.memories).toBe(0);
+        expect(again.skipped.memories).toBe(1);
+    });
+});
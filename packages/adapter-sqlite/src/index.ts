@@ -1,3 +1,4 @@
+export * from "./migrations.ts";
 export * from "./sqliteTables.ts";
 export * from "./sqlite_vec.ts";
 
@@ -5,6 +6,9 @@ import {
     DatabaseAdapter,
     elizaLogger,
     IDatabaseCacheAdapter,
+    runMigrations,
+    type DatabaseRecords,
+    type DatabaseRecordType,
 } from "@elizaos/core";
 import {
     Account,
@@ -12,6 +16,7 @@ import {
     GoalStatus,
     Participant,
     type Goal,
+    type LogEntry,
     type Memory,
     type Relationship,
     type UUID,
@@ -20,7 +25,11 @@ import {
 import { Database } from "better-sqlite3";
 import { v4 } from "uuid";
 import { load } from "./sqlite_vec.ts";
-import { sqliteTables } from "./sqliteTables.ts";
+import {
+    createSqliteMigrationDatabase,
+    sqliteMigrations,
+} from "./migrations.ts";
+import { getRecordsSql, parseRecord } from "./records.ts";
 
 export class SqliteDatabaseAdapter
     extends DatabaseAdapter<Database>
@@ -81,7 +90,10 @@ export class SqliteDatabaseAdapter
     }
 
     async init() {
-        this.db.exec(sqliteTables);
+        await runMigrations(
+            createSqliteMigrationDatabase(this.db),
+            sqliteMigrations
+        );
     }
 
     async close() {
@@ -426,6 +438,53 @@ export class SqliteDatabaseAdapter
             );
     }
 
+    async getLogs(params: {
+        type: string;
+        userId?: UUID;
+        since?: number;
+        until?: number;
+        limit?: number;
+    }): Promise<LogEntry[]> {
+        let sql = "SELECT * FROM logs WHERE type = ?";
+        const queryParams: (string | number)[] = [params.type];
+
+        if (params.userId) {
+            sql += " AND userId = ?";
+            queryParams.push(params.userId);
+        }
+
+        // createdAt holds UTC "YYYY-MM-DD HH:MM:SS" strings
+        if (params.since) {
+            sql += " AND createdAt >= datetime(?, 'unixepoch')";
+            queryParams.push(Math.floor(params.since / 1000));
+        }
+
+        if (params.until) {
+            sql += " AND createdAt <= datetime(?, 'unixepoch')";
+            queryParams.push(Math.floor(params.until / 1000));
+        }
+
+        sql += " ORDER BY createdAt DESC";
+        if (params.limit) {
+            sql += " LIMIT ?";
+            queryParams.push(params.limit);
+        }
+
+        const rows = this.db.prepare(sql).all(...queryParams) as {
+            id: UUID;
+            createdAt: string;
+            userId: UUID;
+            body: string;
+            type: string;
+            roomId: UUID;
+        }[];
+        return rows.reverse().map((row) => ({
+            ...row,
+            body: JSON.parse(row.body),
+            createdAt: Date.parse(row.createdAt.replace(" ", "T") + "Z"),
+        }));
+    }
+
     async getMemories(params: {
         roomId: UUID;
         count?: number;
@@ -947,4 +1006,19 @@ export class SqliteDatabaseAdapter
             throw error;
         }
     }
+
+    async getRecords<T extends DatabaseRecordType>(params: {
+        type: T;
+        agentId?: UUID;
+        offset: number;
+        count: number;
+    }): Promise<DatabaseRecords[T][]> {
+        const sql = getRecordsSql(params.type, !!params.agentId);
+        const rows = this.db.prepare(sql).all({
+            count: params.count,
+            offset: params.offset,
+            ...(params.agentId ? { agentId: params.agentId } : {}),
+        });
+        return rows.map((row) => parseRecord(params.type, row));
+    }
 }
@@ -0,0 +1,34 @@
+import type { Migration, MigrationDatabase } from "@elizaos/core";
+import { Database } from "better-sqlite3";
+import { sqliteTables } from "./sqliteTables.ts";
+
+/**
+ * Schema changes of the SQLite adapter, oldest first. Add a change as a new
+ * migration with the next version, never by editing a released one.
+ */
+export const sqliteMigrations: Migration[] = [
+    {
+        version: 1,
+        name: "initial_schema",
+        // Creates the tables if missing, so databases made before migrations
+        // were tracked are adopted as they are
+        up: sqliteTables,
+        transaction: false,
+    },
+];
+
+/** Lets the migration runner use a better-sqlite3 database */
+export function createSqliteMigrationDatabase(db: Database): MigrationDatabase {
+    return {
+        dialect: "sqlite",
+        exec: async (sql) => {
+            db.exec(sql);
+        },
+        query: async <T>(sql: string, params: unknown[] = []) => {
+            const statement = db.prepare(sql);
+            if (statement.reader) return statement.all(...params) as T[];
+            statement.run(...params);
+            return [];
+        },
+    };
+}
@@ -0,0 +1,121 @@
+import {
+    toEmbeddingArray,
+    type DatabaseRecords,
+    type DatabaseRecordType,
+} from "@elizaos/core";
+
+/** Rooms the agent takes part in or has memories in */
+const agentRooms =
+    "SELECT roomId FROM participants WHERE userId = @agentId UNION SELECT roomId FROM memories WHERE agentId = @agentId";
+
+/**
+ * What database export reads of each record type, and which of the records
+ * belong to an agent: its own and those they refer to
+ */
+const recordQueries: Record<
+    DatabaseRecordType,
+    { select: string; agentFilter: string; orderBy: string }
+> = {
+    accounts: {
+        select: "SELECT * FROM accounts",
+        agentFilter: `id = @agentId
+            OR id IN (SELECT userId FROM participants WHERE roomId IN (${agentRooms}))
+            OR id IN (SELECT userId FROM memories WHERE agentId = @agentId)
+            OR id IN (SELECT userA FROM relationships WHERE userB = @agentId)
+            OR id IN (SELECT userB FROM relationships WHERE userA = @agentId)`,
+        orderBy: "id",
+    },
+    rooms: {
+        select: "SELECT id FROM rooms",
+        agentFilter: `id IN (${agentRooms})`,
+        orderBy: "id",
+    },
+    participants: {
+        select: "SELECT userId, roomId, userState FROM participants",
+        agentFilter: `roomId IN (${agentRooms})`,
+        orderBy: "id",
+    },
+    memories: {
+        select: "SELECT * FROM memories",
+        agentFilter: "agentId = @agentId",
+        orderBy: "createdAt, id",
+    },
+    goals: {
+        select: "SELECT * FROM goals",
+        agentFilter: `roomId IN (${agentRooms})`,
+        orderBy: "createdAt, id",
+    },
+    relationships: {
+        select: "SELECT * FROM relationships",
+        agentFilter: "userA = @agentId OR userB = @agentId",
+        orderBy: "id",
+    },
+    knowledge: {
+        select: "SELECT * FROM knowledge",
+        agentFilter: "agentId = @agentId OR isShared = 1",
+        // Documents before the chunks that refer to them
+        orderBy: "originalId IS NOT NULL, id",
+    },
+    cache: {
+        select: "SELECT key, agentId, value FROM cache",
+        agentFilter: "agentId = @agentId",
+        orderBy: "key, agentId",
+    },
+};
+
+/**
+ * SQL reading a page of records of one type, with @agentId, @count and
+ * @offset parameters
+ */
+export function getRecordsSql(
+    type: DatabaseRecordType,
+    filterByAgent: boolean
+): string {
+    const query = recordQueries[type];
+    const where = filterByAgent ? ` WHERE ${query.agentFilter}` : "";
+    return `${query.select}${where} ORDER BY ${query.orderBy} LIMIT @count OFFSET @offset`;
+}
+
+function parseTimestamp(value: string | number): number {
+    return typeof value === "string" ? Date.parse(value) : value;
+}
+
+function parseJson<T>(value: unknown): T {
+    return typeof value === "string" ? JSON.parse(value) : (value as T);
+}
+
+/** Converts a row read with getRecordsSql to its record */
+export function parseRecord<T extends DatabaseRecordType>(
+    type: T,
+    row: any
+): DatabaseRecords[T] {
+    switch (type) {
+        case "accounts":
+            return { ...row, details: parseJson(row.details) };
+        case "memories": {
+            const { type: tableName, ...memory } = row;
+            return {
+                ...memory,
+                content: parseJson(row.content),
+                embedding: toEmbeddingArray(row.embedding),
+                createdAt: parseTimestamp(row.createdAt),
+                unique: Boolean(row.unique),
+                tableName,
+            };
+        }
+        case "goals":
+            return { ...row, objectives: parseJson(row.objectives) };
+        case "knowledge": {
+            const embedding = toEmbeddingArray(row.embedding);
+            return {
+                id: row.id,
+                agentId: row.agentId,
+                content: parseJson(row.content),
+                embedding: embedding ? new Float32Array(embedding) : undefined,
+                createdAt: parseTimestamp(row.createdAt),
+            } as DatabaseRecords[T];
+        }
+        default:
+            return row;
+    }
+}
@@ -1,3 +1,4 @@
+export * from "./migrations.ts";
 export * from "./sqliteTables.ts";
 export * from "./types.ts";
 
@@ -13,10 +14,14 @@ import {
     type Relationship,
     type UUID,
     RAGKnowledgeItem,
-    elizaLogger
+    elizaLogger,
+    runMigrations,
+    type DatabaseRecords,
+    type DatabaseRecordType,
 } from "@elizaos/core";
 import { v4 } from "uuid";
-import { sqliteTables } from "./sqliteTables.ts";
+import { createSqlJsMigrationDatabase, sqlJsMigrations } from "./migrations.ts";
+import { getRecordsSql, parseRecord } from "./records.ts";
 import { Database } from "./types.ts";
 
 export class SqlJsDatabaseAdapter
@@ -29,7 +34,10 @@ export class SqlJsDatabaseAdapter
     }
 
     async init() {
-        this.db.exec(sqliteTables);
+        await runMigrations(
+            createSqlJsMigrationDatabase(this.db),
+            sqlJsMigrations
+        );
     }
 
     async close() {
@@ -991,4 +999,25 @@ export class SqlJsDatabaseAdapter
         stmt.run([agentId]);
         stmt.free();
     }
+
+    async getRecords<T extends DatabaseRecordType>(params: {
+        type: T;
+        agentId?: UUID;
+        offset: number;
+        count: number;
+    }): Promise<DatabaseRecords[T][]> {
+        const sql = getRecordsSql(params.type, !!params.agentId);
+        const stmt = this.db.prepare(sql);
+        stmt.bind({
+            "@count": params.count,
+            "@offset": params.offset,
+            ...(params.agentId ? { "@agentId": params.agentId } : {}),
+        });
+        const records: DatabaseRecords[T][] = [];
+        while (stmt.step()) {
+            records.push(parseRecord(params.type, stmt.getAsObject()));
+        }
+        stmt.free();
+        return records;
+    }
 }
@@ -0,0 +1,41 @@
+import type { Migration, MigrationDatabase } from "@elizaos/core";
+import { sqliteTables } from "./sqliteTables.ts";
+import { Database } from "./types.ts";
+
+/**
+ * Schema changes of the sql.js adapter, oldest first. Add a change as a new
+ * migration with the next version, never by editing a released one.
+ */
+export const sqlJsMigrations: Migration[] = [
+    {
+        version: 1,
+        name: "initial_schema",
+        // Creates the tables if missing, so databases made before migrations
+        // were tracked are adopted as they are
+        up: sqliteTables,
+        transaction: false,
+    },
+];
+
+/** Lets the migration runner use a sql.js database */
+export function createSqlJsMigrationDatabase(db: Database): MigrationDatabase {
+    return {
+        dialect: "sqlite",
+        exec: async (sql) => {
+            db.exec(sql);
+        },
+        query: async <T>(sql: string, params: unknown[] = []) => {
+            const statement = db.prepare(sql);
+            try {
+                statement.bind(params as (string | number | null)[]);
+                const rows: T[] = [];
+                while (statement.step()) {
+                    rows.push(statement.getAsObject() as T);
+                }
+                return rows;
+            } finally {
+                statement.free();
+            }
+        },
+    };
+}
@@ -1,16 +1,42 @@
 import express from "express";
 import bodyParser from "body-parser";
 import cors from "cors";
+import multer from "multer";
+import * as fs from "fs";
+import * as path from "path";
 
 import {
     AgentRuntime,
+    applyCharacterEdit,
+    CharacterValidationError,
+    diffCharacters,
     elizaLogger,
+    getBudgetStatus,
+    getCharacterVersions,
+    getContentScheduler,
     getEnvVariable,
+    MODEL_TRACE_GROUPINGS,
+    ModelTraceGrouping,
+    queryModelTraces,
+    RESTART_CHARACTER_FIELDS,
+    rollbackCharacter,
+    ScheduledContentImage,
+    ScheduledPost,
+    summarizeModelTraces,
     UUID,
     validateCharacterConfig,
+    validateCharacterEdit,
     ServiceType,
+    withoutSecrets,
+    withTraceOrigin,
 } from "@elizaos/core";
 
+import {
+    CatalogImage,
+    GeneratedImageStatus,
+    getImageCatalog,
+    regenerateImage,
+} from "@elizaos/plugin-image-generation";
 import { TeeLogQuery, TeeLogService } from "@elizaos/plugin-tee-log";
 import { REST, Routes } from "discord.js";
 import { DirectClient } from ".";
@@ -47,6 +73,149 @@ function validateUUIDParams(
     return { agentId };
 }
 
+function validatePostId(postId: string, res: express.Response): UUID | null {
+    const id = validateUuid(postId);
+    if (!id) {
+        res.status(400).json({
+            error: "Invalid PostId format. Expected to be a UUID: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+        });
+        return null;
+    }
+    return id;
+}
+
+function validateImageId(imageId: string, res: express.Response): UUID | null {
+    const id = validateUuid(imageId);
+    if (!id) {
+        res.status(400).json({
+            error: "Invalid ImageId format. Expected to be a UUID: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+        });
+        return null;
+    }
+    return id;
+}
+
+/**
+ * Reads an optional earliest publish time given as a timestamp or date
+ * string. Returns undefined when it is invalid.
+ */
+function parseNotBefore(value: unknown): number | null | undefined {
+    if (value === null || value === "") return null;
+    const time =
+        typeof value === "number" ? value : new Date(String(value)).getTime();
+    return Number.isFinite(time) ? time : undefined;
+}
+
+const postImageUpload = multer({
+    storage: multer.diskStorage({
+        destination: (req, file, cb) => {
+            const uploadDir = path.join(process.cwd(), "data", "uploads");
+            fs.mkdirSync(uploadDir, { recursive: true });
+            cb(null, uploadDir);
+        },
+        filename: (req, file, cb) => {
+            const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+            cb(null, `${uniqueSuffix}-${file.originalname}`);
+        },
+    }),
+    fileFilter: (req, file, cb) => {
+        cb(null, file.mimetype.startsWith("image/"));
+    },
+});
+
+/**
+ * Returns the /media URL a local image is served under, if any.
+ */
+function getMediaUrl(filepath: string): string | undefined {
+    const relative = path
+        .relative(process.cwd(), path.resolve(filepath))
+        .split(path.sep)
+        .join("/");
+    if (relative.startsWith("generatedImages/")) {
+        return `/media/generated/${relative.slice("generatedImages/".length)}`;
+    }
+    if (relative.startsWith("data/uploads/")) {
+        return `/media/uploads/${relative.slice("data/uploads/".length)}`;
+    }
+    return undefined;
+}
+
+/** What the metrics routes use of the Twitter client's post analytics */
+interface TwitterPostAnalytics {
+    getReport(since?: number): Promise<unknown>;
+    getPosts(since?: number): Promise<Record<string, unknown>[]>;
+}
+
+const POST_METRICS_COLUMNS = [
+    "id",
+    "url",
+    "createdAt",
+    "collectedAt",
+    "hasImage",
+    "imageStyle",
+    "imageProvider",
+    "topic",
+    "experiments",
+    "likes",
+    "retweets",
+    "replies",
+    "impressions",
+];
+
+function formatCsvValue(value: unknown): string {
+    if (value === undefined || value === null) return "";
+    const text =
+        typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatScheduledPost(post: ScheduledPost) {
+    return {
+        ...post,
+        content: {
+            ...post.content,
+            images: post.content.images?.map((image) => ({
+                ...image,
+                previewUrl: image.url ?? getMediaUrl(image.filepath),
+            })),
+        },
+    };
+}
+
+const IMAGE_STATUSES: GeneratedImageStatus[] = [
+    "completed",
+    "error",
+    "rejected",
+];
+
+function usesImage(post: ScheduledPost, image: CatalogImage): boolean {
+    return !!post.content.images?.some(
+        (postImage) =>
+            postImage.imageId === image.id ||
+            postImage.filepath === image.filepath
+    );
+}
+
+/**
+ * Adds the URL a catalog image can be previewed at and the queued and
+ * published posts it went into.
+ */
+function formatCatalogImage(image: CatalogImage, posts: ScheduledPost[]) {
+    return {
+        ...image,
+        previewUrl: image.url ?? getMediaUrl(image.filepath),
+        posts: posts
+            .filter((post) => usesImage(post, image))
+            .map((post) => ({
+                id: post.id,
+                platform: post.platform,
+                status: post.status,
+                url: post.result?.url,
+                publishedAt: post.publishedAt,
+            })),
+    };
+}
+
 export function createApiRouter(
     agents: Map<string, AgentRuntime>,
     directClient: DirectClient
@@ -92,14 +261,9 @@ export function createApiRouter(
             return;
         }
 
-        const character = agent?.character;
-        if (character?.settings?.secrets) {
-            delete character.settings.secrets;
-        }
-
         res.json({
             id: agent.agentId,
-            character: agent.character,
+            character: withoutSecrets(agent.character),
         });
     });
 
@@ -237,6 +401,566 @@ export function createApiRouter(
         }
     });
 
+    const getAgentRuntime = (
+        params: { agentId: string },
+        res: express.Response
+    ): AgentRuntime | null => {
+        const { agentId } = validateUUIDParams(params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return null;
+
+        const runtime = agents.get(agentId);
+        if (!runtime) {
+            res.status(404).json({ error: "Agent not found" });
+            return null;
+        }
+        return runtime;
+    };
+
+    router.get("/agents/:agentId/character", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        const versions = await getCharacterVersions(runtime);
+        res.json({
+            character: withoutSecrets(runtime.character),
+            version: versions[versions.length - 1]?.version ?? 1,
+            restartFields: RESTART_CHARACTER_FIELDS,
+        });
+    });
+
+    router.post("/agents/:agentId/character/validate", (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        const { character } = req.body;
+        res.json({
+            issues: validateCharacterEdit(runtime.character, character),
+            changes: diffCharacters(
+                withoutSecrets(runtime.character),
+                character
+            ),
+        });
+    });
+
+    router.put("/agents/:agentId/character", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        const { character, note } = req.body;
+        try {
+            const version = await applyCharacterEdit(runtime, character, note);
+            res.json({ version });
+        } catch (error) {
+            if (error instanceof CharacterValidationError) {
+                res.status(400).json({
+                    error: error.message,
+                    issues: error.issues,
+                });
+                return;
+            }
+            elizaLogger.error("Error applying character:", error);
+            res.status(500).json({ error: "Failed to apply character" });
+        }
+    });
+
+    router.get("/agents/:agentId/character/versions", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        const versions = await getCharacterVersions(runtime);
+        res.json({ versions: versions.reverse() });
+    });
+
+    router.post(
+        "/agents/:agentId/character/versions/:version/rollback",
+        async (req, res) => {
+            const runtime = getAgentRuntime(req.params, res);
+            if (!runtime) return;
+
+            try {
+                const version = await rollbackCharacter(
+                    runtime,
+                    parseInt(req.params.version)
+                );
+                if (!version) {
+                    res.status(404).json({ error: "Version not found" });
+                    return;
+                }
+                res.json({ version });
+            } catch (error) {
+                if (error instanceof CharacterValidationError) {
+                    res.status(409).json({
+                        error: error.message,
+                        issues: error.issues,
+                    });
+                    return;
+                }
+                elizaLogger.error("Error rolling back character:", error);
+                res.status(500).json({
+                    error: "Failed to roll back character",
+                });
+            }
+        }
+    );
+
+    router.get("/agents/:agentId/posts/upcoming", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        const platform = req.query.platform as string | undefined;
+        try {
+            const schedule = await getContentScheduler(runtime).getSchedule();
+            res.json({
+                agentId: runtime.agentId,
+                schedule: schedule
+                    .filter((item) => !platform || item.platform === platform)
+                    .map((item) => ({
+                        ...item,
+                        queued: item.queued.map(formatScheduledPost),
+                    })),
+            });
+        } catch (error) {
+            elizaLogger.error("Error fetching upcoming posts:", error);
+            res.status(500).json({ error: "Failed to fetch upcoming posts" });
+        }
+    });
+
+    router.get("/agents/:agentId/posts/published", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        try {
+            const posts = await getContentScheduler(runtime).getHistory({
+                platform: req.query.platform as string | undefined,
+                limit: parseInt(req.query.limit as string) || undefined,
+            });
+            res.json({
+                agentId: runtime.agentId,
+                posts: posts.map(formatScheduledPost),
+            });
+        } catch (error) {
+            elizaLogger.error("Error fetching published posts:", error);
+            res.status(500).json({ error: "Failed to fetch published posts" });
+        }
+    });
+
+    router.post("/agents/:agentId/posts", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        const { text, platforms, imageIds } = req.body;
+        const notBefore = parseNotBefore(req.body.notBefore);
+        if (typeof text !== "string" || !text.trim()) {
+            res.status(400).json({ error: "text is required" });
+            return;
+        }
+        if (notBefore === undefined && req.body.notBefore !== undefined) {
+            res.status(400).json({ error: "Invalid notBefore" });
+            return;
+        }
+        if (imageIds !== undefined && !Array.isArray(imageIds)) {
+            res.status(400).json({ error: "imageIds must be an array" });
+            return;
+        }
+
+        // Images from the generated-image catalog go out with the post
+        const images: ScheduledContentImage[] = [];
+        for (const imageId of imageIds ?? []) {
+            const image = validateUuid(imageId)
+                ? await getImageCatalog(runtime).get(imageId)
+                : null;
+            if (image?.status !== "completed") {
+                res.status(400).json({
+                    error: `Image ${imageId} is not a stored generated image`,
+                });
+                return;
+            }
+            images.push({
+                filepath: image.filepath,
+                mediaType: image.contentType,
+                url: image.url,
+                prompt: image.prompt,
+                provider: image.provider,
+                style: image.style,
+                imageId: image.id,
+            });
+        }
+
+        try {
+            const posts = await getContentScheduler(runtime).enqueue(
+                {
+                    text: text.trim(),
+                    ...(images.length > 0 ? { images } : {}),
+                },
+                {
+                    platforms: Array.isArray(platforms) ? platforms : undefined,
+                    notBefore: notBefore ?? undefined,
+                }
+            );
+            res.json({ posts: posts.map(formatScheduledPost) });
+        } catch (error) {
+            res.status(400).json({ error: error.message });
+        }
+    });
+
+    router.patch("/agents/:agentId/posts/:postId", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+        const postId = validatePostId(req.params.postId, res);
+        if (!postId) return;
+
+        const { text } = req.body;
+        const notBefore = parseNotBefore(req.body.notBefore);
+        if (text !== undefined && (typeof text !== "string" || !text.trim())) {
+            res.status(400).json({ error: "text must not be empty" });
+            return;
+        }
+        if (notBefore === undefined && req.body.notBefore !== undefined) {
+            res.status(400).json({ error: "Invalid notBefore" });
+            return;
+        }
+
+        const post = await getContentScheduler(runtime).updatePost(postId, {
+            text: text?.trim(),
+            notBefore,
+        });
+        if (!post) {
+            res.status(404).json({ error: "Queued post not found" });
+            return;
+        }
+        res.json({ post: formatScheduledPost(post) });
+    });
+
+    router.delete("/agents/:agentId/posts/:postId", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+        const postId = validatePostId(req.params.postId, res);
+        if (!postId) return;
+
+        const cancelled = await getContentScheduler(runtime).cancel(postId);
+        if (!cancelled) {
+            res.status(404).json({ error: "Queued post not found" });
+            return;
+        }
+        res.json({ success: true });
+    });
+
+    router.post("/agents/:agentId/posts/:postId/publish", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+        const postId = validatePostId(req.params.postId, res);
+        if (!postId) return;
+
+        const scheduler = getContentScheduler(runtime);
+        const queued = (await scheduler.getQueue()).find(
+            (post) => post.id === postId
+        );
+        if (!queued) {
+            res.status(404).json({ error: "Queued post not found" });
+            return;
+        }
+        if (queued.status !== "queued") {
+            res.status(409).json({ error: "Post is already being published" });
+            return;
+        }
+
+        try {
+            const post = await scheduler.publishNow(queued.platform, postId);
+            res.json({ post: formatScheduledPost(post) });
+        } catch (error) {
+            res.status(409).json({ error: error.message });
+        }
+    });
+
+    router.post(
+        "/agents/:agentId/posts/:postId/image",
+        // Checked before the upload, so a bad request leaves no file behind
+        (
+            req: express.Request<{ agentId: string; postId: string }>,
+            res: express.Response,
+            next: express.NextFunction
+        ) => {
+            if (
+                getAgentRuntime(req.params, res) &&
+                validatePostId(req.params.postId, res)
+            ) {
+                next();
+            }
+        },
+        postImageUpload.single("file"),
+        async (
+            req: express.Request<{ agentId: string; postId: string }>,
+            res: express.Response
+        ) => {
+            const runtime = getAgentRuntime(req.params, res);
+            if (!runtime) return;
+            const postId = validatePostId(req.params.postId, res);
+            if (!postId) return;
+
+            if (!req.file) {
+                res.status(400).json({ error: "An image file is required" });
+                return;
+            }
+
+            const post = await getContentScheduler(runtime).updatePost(postId, {
+                images: [
+                    {
+                        filepath: req.file.path,
+                        mediaType: req.file.mimetype,
+                    },
+                ],
+            });
+            if (!post) {
+                await fs.promises.rm(req.file.path, { force: true });
+                res.status(404).json({ error: "Queued post not found" });
+                return;
+            }
+            res.json({ post: formatScheduledPost(post) });
+        }
+    );
+
+    router.delete("/agents/:agentId/posts/:postId/image", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+        const postId = validatePostId(req.params.postId, res);
+        if (!postId) return;
+
+        const post = await getContentScheduler(runtime).updatePost(postId, {
+            images: [],
+        });
+        if (!post) {
+            res.status(404).json({ error: "Queued post not found" });
+            return;
+        }
+        res.json({ post: formatScheduledPost(post) });
+    });
+
+    router.get("/agents/:agentId/images", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        const status = req.query.status as GeneratedImageStatus | undefined;
+        if (status && !IMAGE_STATUSES.includes(status)) {
+            res.status(400).json({
+                error: `Invalid status. Expected one of: ${IMAGE_STATUSES.join(", ")}`,
+            });
+            return;
+        }
+
+        try {
+            const scheduler = getContentScheduler(runtime);
+            const posts = [
+                ...(await scheduler.getQueue()),
+                ...(await scheduler.getHistory()),
+            ];
+            const images = await getImageCatalog(runtime).list({
+                status,
+                text: req.query.text as string | undefined,
+                count: parseInt(req.query.count as string) || undefined,
+            });
+            res.json({
+                agentId: runtime.agentId,
+                images: images.map((image) => formatCatalogImage(image, posts)),
+            });
+        } catch (error) {
+            elizaLogger.error("Error fetching generated images:", error);
+            res.status(500).json({ error: "Failed to fetch generated images" });
+        }
+    });
+
+    router.post(
+        "/agents/:agentId/images/:imageId/regenerate",
+        async (req, res) => {
+            const runtime = getAgentRuntime(req.params, res);
+            if (!runtime) return;
+            const imageId = validateImageId(req.params.imageId, res);
+            if (!imageId) return;
+
+            const { seed } = req.body;
+            if (seed !== undefined && !Number.isInteger(seed)) {
+                res.status(400).json({ error: "seed must be an integer" });
+                return;
+            }
+
+            const image = await getImageCatalog(runtime).get(imageId);
+            if (!image) {
+                res.status(404).json({ error: "Image not found" });
+                return;
+            }
+
+            try {
+                const images = await withTraceOrigin({ client: "direct" }, () =>
+                    regenerateImage(runtime, image, { seed })
+                );
+                res.json({
+                    images: images.map((entry) =>
+                        formatCatalogImage(entry, [])
+                    ),
+                });
+            } catch (error) {
+                elizaLogger.error("Error regenerating image:", error);
+                res.status(500).json({ error: error.message });
+            }
+        }
+    );
+
+    router.delete("/agents/:agentId/images/:imageId", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+        const imageId = validateImageId(req.params.imageId, res);
+        if (!imageId) return;
+
+        const catalog = getImageCatalog(runtime);
+        const image = await catalog.get(imageId);
+        if (!image) {
+            res.status(404).json({ error: "Image not found" });
+            return;
+        }
+
+        const queue = await getContentScheduler(runtime).getQueue();
+        if (queue.some((post) => usesImage(post, image))) {
+            res.status(409).json({
+                error: "The image is queued for posting, cancel those posts first",
+            });
+            return;
+        }
+
+        await catalog.remove(imageId);
+        // generatedImages is served publicly, so the local copy goes too
+        await fs.promises.rm(image.filepath, { force: true });
+        res.json({ success: true });
+    });
+
+    router.get("/agents/:agentId/twitter/metrics", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        const analytics: TwitterPostAnalytics | undefined =
+            runtime.clients?.twitter?.analytics;
+        if (!analytics) {
+            res.status(404).json({
+                error: "Twitter post metrics are not collected for this agent",
+            });
+            return;
+        }
+
+        const days = parseFloat(req.query.days as string);
+        const since =
+            Number.isFinite(days) && days > 0
+                ? Date.now() - days * 24 * 60 * 60 * 1000
+                : 0;
+
+        try {
+            const posts = await analytics.getPosts(since);
+            if (req.query.format === "csv") {
+                const rows = posts.map((post) =>
+                    POST_METRICS_COLUMNS.map((column) =>
+                        formatCsvValue(post[column])
+                    ).join(",")
+                );
+                res.attachment(`twitter-metrics-${runtime.agentId}.csv`)
+                    .type("text/csv")
+                    .send([POST_METRICS_COLUMNS.join(","), ...rows].join("\n"));
+                return;
+            }
+            res.json({
+                agentId: runtime.agentId,
+                report: await analytics.getReport(since),
+                posts,
+            });
+        } catch (error) {
+            elizaLogger.error("Error fetching Twitter post metrics:", error);
+            res.status(500).json({ error: "Failed to fetch post metrics" });
+        }
+    });
+
+    router.get("/agents/:agentId/traces/summary", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        const groupBy = (req.query.groupBy ?? "day") as ModelTraceGrouping;
+        if (!MODEL_TRACE_GROUPINGS.includes(groupBy)) {
+            res.status(400).json({
+                error: `groupBy must be one of ${MODEL_TRACE_GROUPINGS.join(", ")}`,
+            });
+            return;
+        }
+
+        const days = parseFloat(req.query.days as string);
+        const since =
+            Number.isFinite(days) && days > 0
+                ? Date.now() - days * 24 * 60 * 60 * 1000
+                : undefined;
+
+        try {
+            const traces = await queryModelTraces(runtime, {
+                agentId: runtime.agentId,
+                since,
+            });
+            if (!traces) {
+                res.status(404).json({
+                    error: "No trace sink that can be queried is enabled for this agent",
+                });
+                return;
+            }
+            res.json({
+                agentId: runtime.agentId,
+                since: since ?? null,
+                groupBy,
+                ...summarizeModelTraces(traces, groupBy),
+            });
+        } catch (error) {
+            elizaLogger.error("Error summarizing model traces:", error);
+            res.status(500).json({ error: "Failed to summarize model traces" });
+        }
+    });
+
+    router.get("/agents/:agentId/budget", async (req, res) => {
+        const runtime = getAgentRuntime(req.params, res);
+        if (!runtime) return;
+
+        try {
+            res.json({
+                agentId: runtime.agentId,
+                budget: runtime.character.settings?.budget ?? null,
+                status: await getBudgetStatus(runtime),
+            });
+        } catch (error) {
+            elizaLogger.error("Error fetching budget status:", error);
+            res.status(500).json({ error: "Failed to fetch budget status" });
+        }
+    });
+
+    router.get(
+        "/agents/:agentId/messages/:messageId/actions",
+        async (req, res) => {
+            const runtime = getAgentRuntime(req.params, res);
+            if (!runtime) return;
+
+            const messageId = validateUuid(req.params.messageId);
+            if (!messageId) {
+                res.status(400).json({
+                    error: "Invalid MessageId format. Expected to be a UUID: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+                });
+                return;
+            }
+
+            try {
+                res.json({
+                    messageId,
+                    results: await runtime.getActionResults(messageId),
+                });
+            } catch (error) {
+                elizaLogger.error("Error fetching action results:", error);
+                res.status(500).json({
+                    error: "Failed to fetch action results",
+                });
+            }
+        }
+    );
+
     router.get("/tee/agents", async (req, res) => {
         try {
             const allAgents = [];
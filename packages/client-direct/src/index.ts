@@ -21,8 +21,11 @@ import {
     stringToUuid,
     settings,
     IAgentRuntime,
+    withTraceOrigin,
 } from "@elizaos/core";
+import { getImageStore } from "@elizaos/plugin-image-generation";
 import { createApiRouter } from "./api.ts";
+import { createMessageEventStream, type MessageEventStream } from "./stream.ts";
 import * as fs from "fs";
 import * as path from "path";
 import OpenAI from "openai";
@@ -132,6 +135,39 @@ export class DirectClient {
             express.static(path.join(process.cwd(), "/generatedImages"))
         );
 
+        // Images not found locally are resolved through the agents' image
+        // stores, optionally narrowed down with ?agentId=
+        this.app.get(
+            "/media/generated/*",
+            async (req: express.Request, res: express.Response) => {
+                const key = req.params[0];
+                const agentId = req.query.agentId as string | undefined;
+                const runtimes = agentId
+                    ? [this.agents.get(agentId)].filter(Boolean)
+                    : Array.from(this.agents.values());
+
+                for (const runtime of runtimes) {
+                    try {
+                        const store = getImageStore(runtime);
+                        if (store.type === "local") continue;
+
+                        const url = await store.resolveUrl(key);
+                        if (url) {
+                            res.redirect(url);
+                            return;
+                        }
+                    } catch (error) {
+                        elizaLogger.error(
+                            `Error resolving generated image ${key} for agent ${runtime.agentId}:`,
+                            error
+                        );
+                    }
+                }
+
+                res.status(404).send("Image not found");
+            }
+        );
+
         const apiRouter = createApiRouter(this.agents, this);
         this.app.use(apiRouter);
 
@@ -186,161 +222,21 @@ export class DirectClient {
         this.app.post(
             "/:agentId/message",
             upload.single("file"),
-            async (req: express.Request, res: express.Response) => {
-                const agentId = req.params.agentId;
-                const roomId = stringToUuid(
-                    req.body.roomId ?? "default-room-" + agentId
-                );
-                const userId = stringToUuid(req.body.userId ?? "user");
-
-                let runtime = this.agents.get(agentId);
-
-                // if runtime is null, look for runtime with the same name
-                if (!runtime) {
-                    runtime = Array.from(this.agents.values()).find(
-                        (a) =>
-                            a.character.name.toLowerCase() ===
-                            agentId.toLowerCase()
-                    );
-                }
-
-                if (!runtime) {
-                    res.status(404).send("Agent not found");
-                    return;
-                }
-
-                await runtime.ensureConnection(
-                    userId,
-                    roomId,
-                    req.body.userName,
-                    req.body.name,
-                    "direct"
-                );
-
-                const text = req.body.text;
-                // if empty text, directly return
-                if (!text) {
-                    res.json([]);
-                    return;
-                }
-
-                const messageId = stringToUuid(Date.now().toString());
-
-                const attachments: Media[] = [];
-                if (req.file) {
-                    const filePath = path.join(
-                        process.cwd(),
-                        "data",
-                        "uploads",
-                        req.file.filename
-                    );
-                    attachments.push({
-                        id: Date.now().toString(),
-                        url: filePath,
-                        title: req.file.originalname,
-                        source: "direct",
-                        description: `Uploaded file: ${req.file.originalname}`,
-                        text: "",
-                        contentType: req.file.mimetype,
-                    });
-                }
-
-                const content: Content = {
-                    text,
-                    attachments,
-                    source: "direct",
-                    inReplyTo: undefined,
-                };
-
-                const userMessage = {
-                    content,
-                    userId,
-                    roomId,
-                    agentId: runtime.agentId,
-                };
-
-                const memory: Memory = {
-                    id: stringToUuid(messageId + "-" + userId),
-                    ...userMessage,
-                    agentId: runtime.agentId,
-                    userId,
-                    roomId,
-                    content,
-                    createdAt: Date.now(),
-                };
-
-                await runtime.messageManager.addEmbeddingToMemory(memory);
-                await runtime.messageManager.createMemory(memory);
-
-                let state = await runtime.composeState(userMessage, {
-                    agentName: runtime.character.name,
-                });
-
-                const context = composeContext({
-                    state,
-                    template: messageHandlerTemplate,
-                });
-
-                const response = await generateMessageResponse({
-                    runtime: runtime,
-                    context,
-                    modelClass: ModelClass.LARGE,
-                });
-
-                if (!response) {
-                    res.status(500).send(
-                        "No response from generateMessageResponse"
-                    );
-                    return;
-                }
-
-                // save response to memory
-                const responseMessage: Memory = {
-                    id: stringToUuid(messageId + "-" + runtime.agentId),
-                    ...userMessage,
-                    userId: runtime.agentId,
-                    content: response,
-                    embedding: getEmbeddingZeroVector(),
-                    createdAt: Date.now(),
-                };
-
-                await runtime.messageManager.createMemory(responseMessage);
-
-                state = await runtime.updateRecentMessageState(state);
-
-                let message = null as Content | null;
-
-                await runtime.processActions(
-                    memory,
-                    [responseMessage],
-                    state,
-                    async (newMessages) => {
-                        message = newMessages;
-                        return [memory];
-                    }
-                );
-
-                await runtime.evaluate(memory, state);
+            (req: express.Request, res: express.Response) =>
+                this.handleMessage(req, res)
+        );
 
-                // Check if we should suppress the initial message
-                const action = runtime.actions.find(
-                    (a) => a.name === response.action
-                );
-                const shouldSuppressInitialMessage =
-                    action?.suppressInitialMessage;
-
-                if (!shouldSuppressInitialMessage) {
-                    if (message) {
-                        res.json([response, message]);
-                    } else {
-                        res.json([response]);
-                    }
-                } else {
-                    if (message) {
-                        res.json([message]);
-                    } else {
-                        res.json([]);
-                    }
+        // Same as /:agentId/message, answered with server-sent events
+        this.app.post(
+            "/:agentId/message/stream",
+            upload.single("file"),
+            async (req: express.Request, res: express.Response) => {
+                const stream = createMessageEventStream(res);
+                try {
+                    await this.handleMessage(req, res, stream);
+                } catch (error) {
+                    elizaLogger.error("Error streaming message:", error);
+                    stream.fail(error.message);
                 }
             }
         );
@@ -597,7 +493,19 @@ export class DirectClient {
                     return;
                 }
 
-                const images = await generateImage({ ...req.body }, agent);
+                const images = await withTraceOrigin({ client: "direct" }, () =>
+                    generateImage({ ...req.body }, agent)
+                );
+                if (!images.success) {
+                    const reason =
+                        images.error instanceof Error
+                            ? images.error.message
+                            : images.error;
+                    res.status(500).json({
+                        error: `Image generation failed: ${reason ?? "no images returned"}`,
+                    });
+                    return;
+                }
                 const imagesRes: { image: string; caption: string }[] = [];
                 if (images.data && images.data.length > 0) {
                     for (let i = 0; i < images.data.length; i++) {
@@ -792,11 +700,15 @@ export class DirectClient {
                     template: messageHandlerTemplate,
                 });
 
-                const response = await generateMessageResponse({
-                    runtime: runtime,
-                    context,
-                    modelClass: ModelClass.LARGE,
-                });
+                const response = await withTraceOrigin(
+                    { client: "direct" },
+                    () =>
+                        generateMessageResponse({
+                            runtime: runtime,
+                            context,
+                            modelClass: ModelClass.LARGE,
+                        })
+                );
 
                 // save response to memory
                 const responseMessage = {
@@ -816,13 +728,17 @@ export class DirectClient {
 
                 await runtime.evaluate(memory, state);
 
-                const _result = await runtime.processActions(
-                    memory,
-                    [responseMessage],
-                    state,
-                    async () => {
-                        return [memory];
-                    }
+                const _result = await withTraceOrigin(
+                    { client: "direct" },
+                    () =>
+                        runtime.processActions(
+                            memory,
+                            [responseMessage],
+                            state,
+                            async () => {
+                                return [memory];
+                            }
+                        )
                 );
 
                 // Get the text to convert to speech
@@ -967,6 +883,215 @@ export class DirectClient {
         });
     }
 
+    /**
+     * Answers a message to an agent with its response and the messages of the
+     * actions it ran. With a stream, the text, action events and messages are
+     * sent as they come instead of all at once.
+     */
+    private async handleMessage(
+        req: express.Request,
+        res: express.Response,
+        stream?: MessageEventStream
+    ) {
+        const agentId = req.params.agentId;
+        const roomId = stringToUuid(
+            req.body.roomId ?? "default-room-" + agentId
+        );
+        const userId = stringToUuid(req.body.userId ?? "user");
+
+        let runtime = this.agents.get(agentId);
+
+        // if runtime is null, look for runtime with the same name
+        if (!runtime) {
+            runtime = Array.from(this.agents.values()).find(
+                (a) => a.character.name.toLowerCase() === agentId.toLowerCase()
+            );
+        }
+
+        if (!runtime) {
+            res.status(404).send("Agent not found");
+            return;
+        }
+
+        await runtime.ensureConnection(
+            userId,
+            roomId,
+            req.body.userName,
+            req.body.name,
+            "direct"
+        );
+
+        const text = req.body.text;
+        // if empty text, directly return
+        if (!text) {
+            if (stream) {
+                stream.end([]);
+            } else {
+                res.json([]);
+            }
+            return;
+        }
+
+        const messageId = stringToUuid(Date.now().toString());
+
+        const attachments: Media[] = [];
+        if (req.file) {
+            const filePath = path.join(
+                process.cwd(),
+                "data",
+                "uploads",
+                req.file.filename
+            );
+            attachments.push({
+                id: Date.now().toString(),
+                url: filePath,
+                title: req.file.originalname,
+                source: "direct",
+                description: `Uploaded file: ${req.file.originalname}`,
+                text: "",
+                contentType: req.file.mimetype,
+            });
+        }
+
+        const content: Content = {
+            text,
+            attachments,
+            source: "direct",
+            inReplyTo: undefined,
+        };
+
+        const userMessage = {
+            content,
+            userId,
+            roomId,
+            agentId: runtime.agentId,
+        };
+
+        const memory: Memory = {
+            id: stringToUuid(messageId + "-" + userId),
+            ...userMessage,
+            agentId: runtime.agentId,
+            userId,
+            roomId,
+            content,
+            createdAt: Date.now(),
+        };
+
+        await runtime.messageManager.addEmbeddingToMemory(memory);
+        await runtime.messageManager.createMemory(memory);
+
+        let state = await runtime.composeState(userMessage, {
+            agentName: runtime.character.name,
+        });
+
+        const context = composeContext({
+            state,
+            template: messageHandlerTemplate,
+        });
+
+        const response = await withTraceOrigin({ client: "direct" }, () =>
+            generateMessageResponse({
+                runtime: runtime,
+                context,
+                modelClass: ModelClass.LARGE,
+                onText: stream
+                    ? (delta) => stream.send({ type: "token", delta })
+                    : undefined,
+                onRetry: stream
+                    ? () => stream.send({ type: "retry" })
+                    : undefined,
+            })
+        );
+
+        if (!response) {
+            if (stream) {
+                stream.fail("No response from generateMessageResponse");
+            } else {
+                res.status(500).send(
+                    "No response from generateMessageResponse"
+                );
+            }
+            return;
+        }
+        stream?.send({ type: "response", content: response });
+
+        // save response to memory
+        const responseMessage: Memory = {
+            id: stringToUuid(messageId + "-" + runtime.agentId),
+            ...userMessage,
+            userId: runtime.agentId,
+            content: response,
+            embedding: getEmbeddingZeroVector(),
+            createdAt: Date.now(),
+        };
+
+        await runtime.messageManager.createMemory(responseMessage);
+
+        state = await runtime.updateRecentMessageState(state);
+
+        // Every action's messages, in the order they were sent
+        const messages: Content[] = [];
+
+        const results = await withTraceOrigin({ client: "direct" }, () =>
+            runtime.processActions(
+                memory,
+                [responseMessage],
+                state,
+                async (newMessage) => {
+                    messages.push(newMessage);
+                    stream?.send({ type: "message", content: newMessage });
+                    return [memory];
+                },
+                stream && {
+                    signal: stream.signal,
+                    onActionStart: (context) =>
+                        stream.send({
+                            type: "action_started",
+                            action: context.action.name,
+                            requested: context.call.name,
+                            params: context.options,
+                        }),
+                    onActionFinish: (result) =>
+                        stream.send({ type: "action_finished", result }),
+                }
+            )
+        );
+
+        await runtime.evaluate(memory, state);
+
+        // Check if we should suppress the initial message
+        const shouldSuppressInitialMessage = results.some(
+            (result) =>
+                runtime.actions.find((a) => a.name === result.action)
+                    ?.suppressInitialMessage
+        );
+
+        // Report failed actions instead of answering with nothing.
+        // Invalid parameters were already explained in the messages.
+        const failures: Content[] = results
+            .filter(
+                (result) =>
+                    result.status !== "success" && result.status !== "invalid"
+            )
+            .map((result) => ({
+                text: `${result.action ?? result.requested} ${result.status === "skipped" ? "was skipped" : "failed"}: ${result.error}`,
+                action: result.action ?? result.requested,
+                actionStatus: result.status,
+                error: result.error,
+            }));
+
+        const replies = [
+            ...(shouldSuppressInitialMessage ? [] : [response]),
+            ...messages,
+            ...failures,
+        ];
+        if (stream) {
+            stream.end(replies);
+        } else {
+            res.json(replies);
+        }
+    }
+
     // agent/src/index.ts:startAgent calls this
     public registerAgent(runtime: AgentRuntime) {
         // register any plugin endpoints?
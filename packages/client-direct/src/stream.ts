@@ -0,0 +1,78 @@
+import type { ActionResult, Content } from "@elizaos/core";
+import type express from "express";
+
+/**
+ * Events sent while a message is answered over server-sent events. Each is
+ * written with its type as the SSE event name and itself as the data.
+ */
+export type MessageStreamEvent =
+    | { type: "token"; delta: string }
+    | { type: "retry" }
+    | { type: "response"; content: Content }
+    | {
+          type: "action_started";
+          action: string;
+          requested: string;
+          params: { [key: string]: unknown };
+      }
+    | { type: "action_finished"; result: ActionResult }
+    | { type: "message"; content: Content }
+    | { type: "done"; messages: Content[] }
+    | { type: "error"; error: string };
+
+export interface MessageEventStream {
+    /** Aborted when the client goes away before the answer is done */
+    signal: AbortSignal;
+
+    send(event: MessageStreamEvent): void;
+
+    /** Sends the messages the JSON route would have answered with and closes */
+    end(messages: Content[]): void;
+
+    /** Answers with a 500 when nothing was sent yet, or an error event */
+    fail(error: string): void;
+}
+
+/**
+ * Answers a request with server-sent events. The response headers go out
+ * with the first event, so requests can still be turned down with a status.
+ */
+export function createMessageEventStream(
+    res: express.Response
+): MessageEventStream {
+    const controller = new AbortController();
+    res.on("close", () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    const send = (event: MessageStreamEvent) => {
+        if (res.writableEnded) return;
+        if (!res.headersSent) {
+            res.status(200).set({
+                "Content-Type": "text/event-stream",
+                "Cache-Control": "no-cache",
+                Connection: "keep-alive",
+                "X-Accel-Buffering": "no",
+            });
+            res.flushHeaders();
+        }
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    return {
+        signal: controller.signal,
+        send,
+        end(messages) {
+            send({ type: "done", messages });
+            res.end();
+        },
+        fail(error) {
+            if (!res.headersSent) {
+                res.status(500).json({ error });
+                return;
+            }
+            send({ type: "error", error });
+            res.end();
+        },
+    };
+}
@@ -1,9 +1,14 @@
 import {
     composeContext,
     generateText,
+    getContentScheduler,
     IAgentRuntime,
     ModelClass,
+    PublishResult,
+    ScheduledContent,
+    ScheduledPost,
     stringToUuid,
+    truncateToCompleteSentence,
     elizaLogger,
 } from "@elizaos/core";
 import { FarcasterClient } from "./client";
@@ -12,9 +17,26 @@ import { castUuid, MAX_CAST_LENGTH } from "./utils";
 import { createCastMemory } from "./memory";
 import { sendCast } from "./actions";
 
-export class FarcasterPostManager {
-    private timeout: NodeJS.Timeout | undefined;
+/**
+ * Fits content into a cast. Casts can't upload files, so images are only
+ * kept as links when they have a public URL.
+ */
+export function adaptCastContent(content: ScheduledContent): ScheduledContent {
+    const imageUrls = (content.images ?? [])
+        .map((image) => image.url)
+        .filter(Boolean);
+    const suffix = imageUrls.length ? "\n\n" + imageUrls.join("\n") : "";
+    const maxLength = MAX_CAST_LENGTH - suffix.length;
+
+    const text = truncateToCompleteSentence(
+        content.text.replaceAll(/\\n/g, "\n").trim(),
+        maxLength
+    );
+
+    return { text: text + suffix };
+}
 
+export class FarcasterPostManager {
     constructor(
         public client: FarcasterClient,
         public runtime: IAgentRuntime,
@@ -23,28 +45,24 @@ export class FarcasterPostManager {
     ) {}
 
     public async start() {
-        const generateNewCastLoop = async () => {
-            try {
-                await this.generateNewCast();
-            } catch (error) {
-                elizaLogger.error(error);
-                return;
-            }
-
-            this.timeout = setTimeout(
-                generateNewCastLoop,
-                (Math.floor(Math.random() * (4 - 1 + 1)) + 1) * 60 * 60 * 1000
-            ); // Random interval between 1 and 4 hours
-        };
-
-        generateNewCastLoop();
+        const scheduler = getContentScheduler(this.runtime);
+        scheduler.registerPublisher({
+            platform: "farcaster",
+            adapt: adaptCastContent,
+            generate: () => this.generateNewCast(),
+            publish: (post) => this.publishScheduledCast(post),
+        });
+        await scheduler.start();
     }
 
     public async stop() {
-        if (this.timeout) clearTimeout(this.timeout);
+        getContentScheduler(this.runtime).unregisterPublisher("farcaster");
     }
 
-    private async generateNewCast() {
+    /**
+     * Generates a new cast for the content scheduler.
+     */
+    private async generateNewCast(): Promise<ScheduledContent | null> {
         elizaLogger.info("Generating new cast");
         try {
             const fid = Number(this.runtime.getSetting("FARCASTER_FID")!);
@@ -98,68 +116,64 @@ export class FarcasterPostManager {
                 modelClass: ModelClass.SMALL,
             });
 
-            const slice = newContent.replaceAll(/\\n/g, "\n").trim();
-
-            let content = slice.slice(0, MAX_CAST_LENGTH);
-
-            // if it's bigger than the max limit, delete the last line
-            if (content.length > MAX_CAST_LENGTH) {
-                content = content.slice(0, content.lastIndexOf("\n"));
-            }
-
-            if (content.length > MAX_CAST_LENGTH) {
-                // slice at the last period
-                content = content.slice(0, content.lastIndexOf("."));
-            }
-
-            // if it's still too long, get the period before the last period
-            if (content.length > MAX_CAST_LENGTH) {
-                content = content.slice(0, content.lastIndexOf("."));
-            }
-
-            if (this.runtime.getSetting("FARCASTER_DRY_RUN") === "true") {
-                elizaLogger.info(`Dry run: would have cast: ${content}`);
-                return;
-            }
-
-            try {
-                const [{ cast }] = await sendCast({
-                    client: this.client,
-                    runtime: this.runtime,
-                    signerUuid: this.signerUuid,
-                    roomId: generateRoomId,
-                    content: { text: content },
-                    profile,
-                });
-
-                const roomId = castUuid({
-                    agentId: this.runtime.agentId,
-                    hash: cast.hash,
-                });
-
-                await this.runtime.ensureRoomExists(roomId);
-
-                await this.runtime.ensureParticipantInRoom(
-                    this.runtime.agentId,
-                    roomId
-                );
-
-                elizaLogger.info(
-                    `[Farcaster Neynar Client] Published cast ${cast.hash}`
-                );
-
-                await this.runtime.messageManager.createMemory(
-                    createCastMemory({
-                        roomId,
-                        runtime: this.runtime,
-                        cast,
-                    })
-                );
-            } catch (error) {
-                elizaLogger.error("Error sending cast:", error);
-            }
+            return { text: newContent };
         } catch (error) {
             elizaLogger.error("Error generating new cast:", error);
+            return null;
         }
     }
+
+    /**
+     * Publishes a cast from the content scheduler. In dry run mode it only
+     * logs what would have been cast, and resolves as skipped.
+     */
+    private async publishScheduledCast(
+        post: ScheduledPost
+    ): Promise<PublishResult> {
+        const content = post.content.text;
+
+        if (this.runtime.getSetting("FARCASTER_DRY_RUN") === "true") {
+            elizaLogger.info(`Dry run: would have cast: ${content}`);
+            return { status: "skipped" };
+        }
+
+        const fid = Number(this.runtime.getSetting("FARCASTER_FID")!);
+        const profile = await this.client.getProfile(fid);
+        const generateRoomId = stringToUuid("farcaster_generate_room");
+
+        const [{ cast }] = await sendCast({
+            client: this.client,
+            runtime: this.runtime,
+            signerUuid: this.signerUuid,
+            roomId: generateRoomId,
+            content: { text: content },
+            profile,
+        });
+
+        const roomId = castUuid({
+            agentId: this.runtime.agentId,
+            hash: cast.hash,
+        });
+
+        await this.runtime.ensureRoomExists(roomId);
+
+        await this.runtime.ensureParticipantInRoom(
+            this.runtime.agentId,
+            roomId
+        );
+
+        elizaLogger.info(
+            `[Farcaster Neynar Client] Published cast ${cast.hash}`
+        );
+
+        await this.runtime.messageManager.createMemory(
+            createCastMemory({
+                roomId,
+                runtime: this.runtime,
+                cast,
+            })
+        );
+
+        return { id: cast.hash };
+    }
 }
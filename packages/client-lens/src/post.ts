@@ -1,11 +1,17 @@
 import {
     composeContext,
     generateText,
+    getContentScheduler,
     IAgentRuntime,
     ModelClass,
+    PublishResult,
+    ScheduledContent,
+    ScheduledPost,
     stringToUuid,
     elizaLogger,
 } from "@elizaos/core";
+import fs from "fs";
+import path from "path";
 import { LensClient } from "./client";
 import { formatTimeline, postTemplate } from "./prompts";
 import { publicationUuid } from "./utils";
@@ -14,8 +20,6 @@ import { sendPublication } from "./actions";
 import StorjProvider from "./providers/StorjProvider";
 
 export class LensPostManager {
-    private timeout: NodeJS.Timeout | undefined;
-
     constructor(
         public client: LensClient,
         public runtime: IAgentRuntime,
@@ -25,28 +29,23 @@ export class LensPostManager {
     ) {}
 
     public async start() {
-        const generateNewPubLoop = async () => {
-            try {
-                await this.generateNewPublication();
-            } catch (error) {
-                elizaLogger.error(error);
-                return;
-            }
-
-            this.timeout = setTimeout(
-                generateNewPubLoop,
-                (Math.floor(Math.random() * (4 - 1 + 1)) + 1) * 60 * 60 * 1000
-            ); // Random interval between 1 and 4 hours
-        };
-
-        generateNewPubLoop();
+        const scheduler = getContentScheduler(this.runtime);
+        scheduler.registerPublisher({
+            platform: "lens",
+            generate: () => this.generateNewPublication(),
+            publish: (post) => this.publishScheduledPublication(post),
+        });
+        await scheduler.start();
     }
 
     public async stop() {
-        if (this.timeout) clearTimeout(this.timeout);
+        getContentScheduler(this.runtime).unregisterPublisher("lens");
     }
 
-    private async generateNewPublication() {
+    /**
+     * Generates a new publication for the content scheduler.
+     */
+    private async generateNewPublication(): Promise<ScheduledContent | null> {
         elizaLogger.info("Generating new publication");
         try {
             const profile = await this.client.getProfile(this.profileId);
@@ -94,48 +93,80 @@ export class LensPostManager {
                 modelClass: ModelClass.SMALL,
             });
 
-            if (this.runtime.getSetting("LENS_DRY_RUN") === "true") {
-                elizaLogger.info(`Dry run: would have posted: ${content}`);
-                return;
-            }
-
-            try {
-                const { publication } = await sendPublication({
-                    client: this.client,
-                    runtime: this.runtime,
-                    roomId: generateRoomId,
-                    content: { text: content },
-                    ipfs: this.ipfs,
-                });
-
-                if (!publication) throw new Error("failed to send publication");
-
-                const roomId = publicationUuid({
-                    agentId: this.runtime.agentId,
-                    pubId: publication.id,
-                });
-
-                await this.runtime.ensureRoomExists(roomId);
-
-                await this.runtime.ensureParticipantInRoom(
-                    this.runtime.agentId,
-                    roomId
-                );
-
-                elizaLogger.info(`[Lens Client] Published ${publication.id}`);
-
-                await this.runtime.messageManager.createMemory(
-                    createPublicationMemory({
-                        roomId,
-                        runtime: this.runtime,
-                        publication,
-                    })
-                );
-            } catch (error) {
-                elizaLogger.error("Error sending publication:", error);
-            }
+            return { text: content };
         } catch (error) {
             elizaLogger.error("Error generating new publication:", error);
+            return null;
         }
     }
+
+    /**
+     * Publications are text only, so images are pinned to IPFS and linked
+     * below the text.
+     */
+    private async linkImages(content: ScheduledContent): Promise<string> {
+        const urls: string[] = [];
+        for (const image of content.images ?? []) {
+            urls.push(
+                image.url ??
+                    (await this.ipfs.pinFile({
+                        buffer: await fs.promises.readFile(image.filepath),
+                        originalname: path.basename(image.filepath),
+                        mimetype: image.mediaType,
+                    }))
+            );
+        }
+        return urls.length
+            ? `${content.text}\n\n${urls.join("\n")}`
+            : content.text;
+    }
+
+    /**
+     * Publishes a post from the content scheduler. In dry run mode it only
+     * logs what would have been posted, and resolves as skipped.
+     */
+    private async publishScheduledPublication(
+        post: ScheduledPost
+    ): Promise<PublishResult> {
+        if (this.runtime.getSetting("LENS_DRY_RUN") === "true") {
+            elizaLogger.info(
+                `Dry run: would have posted: ${post.content.text}`
+            );
+            return { status: "skipped" };
+        }
+
+        const { publication } = await sendPublication({
+            client: this.client,
+            runtime: this.runtime,
+            roomId: stringToUuid("lens_generate_room"),
+            content: { text: await this.linkImages(post.content) },
+            ipfs: this.ipfs,
+        });
+
+        if (!publication) throw new Error("failed to send publication");
+
+        const roomId = publicationUuid({
+            agentId: this.runtime.agentId,
+            pubId: publication.id,
+        });
+
+        await this.runtime.ensureRoomExists(roomId);
+
+        await this.runtime.ensureParticipantInRoom(
+            this.runtime.agentId,
+            roomId
+        );
+
+        elizaLogger.info(`[Lens Client] Published ${publication.id}`);
+
+        await this.runtime.messageManager.createMemory(
+            createPublicationMemory({
+                roomId,
+                runtime: this.runtime,
+                publication,
+            })
+        );
+
+        return { id: publication.id };
+    }
 }
@@ -10,6 +10,8 @@ import {
     State,
     elizaLogger,
     HandlerCallback,
+    getActionCalls,
+    normalizeActionName,
 } from "@elizaos/core";
 import {
     slackMessageHandlerTemplate,
@@ -159,14 +161,19 @@ export class MessageManager {
 
         // If response includes a CONTINUE action but there's no direct mention or thread,
         // remove the action to prevent automatic continuation
+        const isContinue = (name: string) =>
+            normalizeActionName(name) === "continue";
         if (
-            response.action === "CONTINUE" &&
+            getActionCalls(response).some((call) => isContinue(call.name)) &&
             !memory.content.text?.includes(`<@${this.botUserId}>`) &&
             !state.recentMessages?.includes(memory.id)
         ) {
             console.log(
                 "⚠️ Step 4: Removing CONTINUE action - not a direct interaction"
             );
+            response.actions = getActionCalls(response).filter(
+                (call) => !isContinue(call.name)
+            );
             delete response.action;
         }
 
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    formatPostPerformance,
+    PostMetrics,
+    summarizePostMetrics,
+    TwitterAnalyticsClient,
+} from '../src/analytics';
+import { ClientBase } from '../src/base';
+import { IAgentRuntime, stringToUuid } from '@elizaos/core';
+
+function createPost(overrides: Partial<PostMetrics>): PostMetrics {
+    return {
+        id: '1',
+        url: 'https://twitter.com/testuser/status/1',
+        createdAt: 1000,
+        collectedAt: 2000,
+        hasImage: false,
+        likes: 0,
+        retweets: 0,
+        replies: 0,
+        impressions: 0,
+        ...overrides,
+    };
+}
+
+describe('Post metrics', () => {
+    const posts = [
+        createPost({
+            id: '1',
+            hasImage: true,
+            imageStyle: 'noir',
+            topic: 'art',
+            experiments: { images: 'with-image' },
+            likes: 10,
+            retweets: 2,
+            replies: 8,
+            impressions: 100,
+        }),
+        createPost({
+            id: '2',
+            hasImage: true,
+            imageStyle: 'pastel',
+            topic: 'art',
+            experiments: { images: 'with-image' },
+            likes: 4,
+            impressions: 100,
+        }),
+        createPost({
+            id: '3',
+            topic: 'music',
+            experiments: { images: 'text-only' },
+            likes: 1,
+            replies: 1,
+            impressions: 100,
+        }),
+        createPost({ id: '4', createdAt: 0, likes: 100, impressions: 100 }),
+    ];
+
+    it('should break engagement down by image, style and topic', () => {
+        const report = summarizePostMetrics(posts, 1000);
+
+        expect(report.total.posts).toBe(3);
+        expect(report.withImage).toEqual({
+            posts: 2,
+            likes: 7,
+            retweets: 1,
+            replies: 4,
+            impressions: 100,
+            engagementRate: 0.12,
+        });
+        expect(report.withoutImage.posts).toBe(1);
+        expect(report.withoutImage.engagementRate).toBe(0.02);
+        expect(Object.keys(report.byStyle)).toEqual(['noir', 'pastel']);
+        expect(report.byStyle.noir.engagementRate).toBe(0.2);
+        expect(report.byTopic.art.posts).toBe(2);
+        expect(report.byTopic.music.posts).toBe(1);
+        expect(report.byVariant).toEqual({
+            images: {
+                'with-image': report.withImage,
+                'text-only': report.withoutImage,
+            },
+        });
+    });
+
+    it('should describe what worked for the post prompt', () => {
+        const summary = formatPostPerformance(
+            summarizePostMetrics(posts, 1000),
+            'Agent'
+        );
+
+        expect(summary).toContain("What worked recently for Agent's posts");
+        expect(summary).toContain('Posts with an image: 2 posts');
+        expect(summary).toMatch(/Best image styles:\n- noir:.*\n- pastel:/);
+        expect(summary).toMatch(/Best topics:\n- art:.*\n- music:/);
+        expect(formatPostPerformance(summarizePostMetrics([]), 'Agent')).toBe(
+            ''
+        );
+    });
+
+    it('should collect own posts with the details of their memories', async () => {
+        const cache = new Map<string, unknown>();
+        const runtime = {
+            agentId: 'agent',
+            cacheManager: {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => {
+                    cache.set(key, value);
+                }),
+            },
+            messageManager: {
+                getMemoryById: vi.fn(async (id: string) =>
+                    id === stringToUuid('10-agent')
+                        ? {
+                              content: {
+                                  text: 'post',
+                                  imageStyle: 'noir',
+                                  imageProvider: 'openai',
+                                  topic: 'art',
+                                  experiments: { images: 'with-image' },
+                                  attachments: [{ id: 'image' }],
+                              },
+                          }
+                        : null
+                ),
+            },
+        } as unknown as IAgentRuntime;
+        const client = {
+            twitterConfig: {
+                TWITTER_USERNAME: 'testuser',
+                TWITTER_ANALYTICS_POSTS: 20,
+            },
+            fetchOwnPosts: vi.fn().mockResolvedValue([
+                {
+                    id: '10',
+                    permanentUrl: 'https://twitter.com/testuser/status/10',
+                    timestamp: 50,
+                    likes: 3,
+                    retweets: 1,
+                    replies: 2,
+                    views: 40,
+                    photos: [],
+                },
+                { id: '11', inReplyToStatusId: '5', timestamp: 60 },
+                { id: '12', isRetweet: true, timestamp: 70 },
+            ]),
+        } as unknown as ClientBase;
+
+        const analytics = new TwitterAnalyticsClient(client, runtime);
+        const collected = await analytics.collect();
+
+        expect(client.fetchOwnPosts).toHaveBeenCalledWith(20);
+        expect(collected).toEqual([
+            {
+                id: '10',
+                url: 'https://twitter.com/testuser/status/10',
+                createdAt: 50000,
+                collectedAt: expect.any(Number),
+                hasImage: true,
+                imageStyle: 'noir',
+                imageProvider: 'openai',
+                topic: 'art',
+                experiments: { images: 'with-image' },
+                likes: 3,
+                retweets: 1,
+                replies: 2,
+                impressions: 40,
+            },
+        ]);
+        expect(await analytics.getPosts(60000)).toEqual([]);
+        expect((await analytics.getReport()).byTopic.art.posts).toBe(1);
+    });
+});
@@ -130,5 +130,47 @@ describe('Twitter Environment Configuration', () => {
         expect(config.MAX_TWEET_LENGTH).toBe(280);
         expect(config.POST_INTERVAL_MIN).toBe(90);
         expect(config.POST_INTERVAL_MAX).toBe(180);
+        expect(config.TWITTER_POST_IMAGE_EVERY_N).toBe(0);
+        expect(config.TWITTER_POST_IMAGE_RATIO).toBe(0);
+    });
+
+    it('should parse post image settings', async () => {
+        const imageRuntime = {
+            ...mockRuntime,
+            env: {
+                ...mockRuntime.env,
+                TWITTER_POST_IMAGE_EVERY_N: '3',
+                TWITTER_POST_IMAGE_RATIO: '1.5'
+            },
+            getEnv: function(key: string) {
+                return this.env[key] || null;
+            },
+            getSetting: function(key: string) {
+                return this.env[key] || null;
+            }
+        } as IAgentRuntime;
+
+        const config = await validateTwitterConfig(imageRuntime);
+        expect(config.TWITTER_POST_IMAGE_EVERY_N).toBe(3);
+        expect(config.TWITTER_POST_IMAGE_RATIO).toBe(1);
+    });
+
+    it('should keep post images off when every N is 0', async () => {
+        const imageRuntime = {
+            ...mockRuntime,
+            env: {
+                ...mockRuntime.env,
+                TWITTER_POST_IMAGE_EVERY_N: '0'
+            },
+            getEnv: function(key: string) {
+                return this.env[key] || null;
+            },
+            getSetting: function(key: string) {
+                return this.env[key] || null;
+            }
+        } as IAgentRuntime;
+
+        const config = await validateTwitterConfig(imageRuntime);
+        expect(config.TWITTER_POST_IMAGE_EVERY_N).toBe(0);
     });
 });
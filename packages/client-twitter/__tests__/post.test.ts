@@ -1,8 +1,9 @@
 import { describe, it, expect, vi } from 'vitest';
-import { TwitterPostClient } from '../src/post';
+import { readApprovalReactions, TwitterPostClient } from '../src/post';
 import { ClientBase } from '../src/base';
-import { IAgentRuntime } from '@elizaos/core';
+import { elizaLogger, IAgentRuntime } from '@elizaos/core';
 import { TwitterConfig } from '../src/environment';
+import { composeThread, getThreadTextLength } from '../src/utils';
 
 describe('Twitter Post Client', () => {
     let mockRuntime: IAgentRuntime;
@@ -56,7 +57,15 @@ describe('Twitter Post Client', () => {
             ACTION_INTERVAL: 5,
             ENABLE_ACTION_PROCESSING: true,
             POST_IMMEDIATELY: false,
-            MAX_TWEET_LENGTH: 280
+            MAX_TWEET_LENGTH: 280,
+            TWITTER_POST_IMAGE_EVERY_N: 0,
+            TWITTER_POST_IMAGE_RATIO: 0,
+            TWITTER_THREAD_ENABLE: false,
+            TWITTER_THREAD_MAX_TWEETS: 5,
+            TWITTER_THREAD_IMAGES: false,
+            TWITTER_ANALYTICS_ENABLE: false,
+            TWITTER_ANALYTICS_INTERVAL: 60,
+            TWITTER_ANALYTICS_POSTS: 50
         };
 
         baseClient = new ClientBase(mockRuntime, mockConfig);
@@ -94,4 +103,191 @@ describe('Twitter Post Client', () => {
         expect(lastSpace).toBeGreaterThan(0);
         expect(result.length).toBeLessThanOrEqual(280);
     });
+
+    it('should not attach images when image posting is disabled', async () => {
+        const postClient = new TwitterPostClient(baseClient, mockRuntime);
+        expect(await postClient['shouldAttachImage']()).toBe(false);
+    });
+
+    it('should attach an image to every Nth post', async () => {
+        const cache = new Map<string, unknown>();
+        mockRuntime.cacheManager = {
+            get: vi.fn(async (key: string) => cache.get(key)),
+            set: vi.fn(async (key: string, value: unknown) => {
+                cache.set(key, value);
+            }),
+        } as unknown as IAgentRuntime['cacheManager'];
+        baseClient.twitterConfig.TWITTER_POST_IMAGE_EVERY_N = 3;
+
+        const postClient = new TwitterPostClient(baseClient, mockRuntime);
+        const decisions = [];
+        for (let i = 0; i < 6; i++) {
+            decisions.push(await postClient['shouldAttachImage']());
+        }
+        expect(decisions).toEqual([false, false, true, false, false, true]);
+    });
+
+    it('should attach images according to the configured ratio', async () => {
+        baseClient.twitterConfig.TWITTER_POST_IMAGE_RATIO = 1;
+
+        const postClient = new TwitterPostClient(baseClient, mockRuntime);
+        expect(await postClient['shouldAttachImage']()).toBe(true);
+    });
+
+    describe('Threads', () => {
+        const paragraphs = [
+            'The first paragraph of a long post. It has two sentences.',
+            'The second paragraph goes on about something else entirely.',
+            'The third paragraph wraps it all up in a neat conclusion.',
+        ];
+
+        it('should keep short content as a single tweet', () => {
+            expect(composeThread('Short post.', 280, 5)).toEqual(['Short post.']);
+        });
+
+        it('should split at paragraphs and number the parts', () => {
+            const parts = composeThread(paragraphs.join('\n\n'), 80, 5);
+            expect(parts).toEqual(
+                paragraphs.map((paragraph, i) => `${paragraph}\n\n${i + 1}/3`)
+            );
+            for (const part of parts) {
+                expect(part.length).toBeLessThanOrEqual(80);
+            }
+        });
+
+        it('should drop parts beyond the longest thread with a warning', () => {
+            const warn = vi.spyOn(elizaLogger, 'warn');
+            const parts = composeThread(paragraphs.join('\n\n'), 80, 2);
+            expect(parts).toEqual([
+                `${paragraphs[0]}\n\n1/2`,
+                `${paragraphs[1]}\n\n2/2`,
+            ]);
+            expect(warn).toHaveBeenCalledWith(
+                expect.stringContaining('dropping the last 1')
+            );
+            warn.mockRestore();
+        });
+
+        it('should leave room for the numbers when sizing content', () => {
+            expect(getThreadTextLength(280, 5)).toBe(5 * (280 - 5));
+            expect(getThreadTextLength(280, 10)).toBe(10 * (280 - 7));
+        });
+
+        it('should resume a partly posted thread', async () => {
+            const cache = new Map<string, unknown>();
+            mockRuntime.agentId = 'agent' as IAgentRuntime['agentId'];
+            mockRuntime.cacheManager = {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => {
+                    cache.set(key, structuredClone(value));
+                }),
+                delete: vi.fn(async (key: string) => {
+                    cache.delete(key);
+                }),
+            } as unknown as IAgentRuntime['cacheManager'];
+            baseClient.profile = {
+                id: '1',
+                username: 'testuser',
+                screenName: 'Test User',
+            } as ClientBase['profile'];
+
+            const postClient = new TwitterPostClient(baseClient, mockRuntime);
+            const result = (id: string) => ({
+                rest_id: id,
+                legacy: { full_text: '', created_at: new Date().toISOString() },
+            });
+            const sendStandardTweet = vi
+                .spyOn(postClient, 'sendStandardTweet')
+                .mockResolvedValueOnce(result('100'))
+                .mockResolvedValueOnce(undefined)
+                .mockResolvedValueOnce(result('101'))
+                .mockResolvedValueOnce(result('102'));
+            const processAndCacheTweet = vi
+                .spyOn(postClient, 'processAndCacheTweet')
+                .mockResolvedValue(undefined);
+            const parts = ['one 1/3', 'two 2/3', 'three 3/3'];
+
+            await expect(
+                postClient.postThread('post-1', parts, 'room' as never)
+            ).rejects.toThrow('Thread stopped after 1 of 3 tweets');
+
+            const first = await postClient.postThread(
+                'post-1',
+                parts,
+                'room' as never
+            );
+
+            expect(first).toEqual({
+                id: '100',
+                url: 'https://twitter.com/testuser/status/100',
+            });
+            expect(
+                sendStandardTweet.mock.calls.map((call) => [call[1], call[2]])
+            ).toEqual([
+                ['one 1/3', undefined],
+                ['two 2/3', '100'],
+                ['two 2/3', '100'],
+                ['three 3/3', '101'],
+            ]);
+            // Every part after the first is stored as a reply to the one before
+            expect(processAndCacheTweet).toHaveBeenCalledTimes(3);
+            expect(processAndCacheTweet.mock.calls[0][6]).toBeUndefined();
+            expect(processAndCacheTweet.mock.calls[1][6]).toBeDefined();
+            expect(cache.size).toBe(0);
+        });
+    });
+
+    describe('Approval reactions', () => {
+        it('should stay pending without reviewer reactions', () => {
+            expect(readApprovalReactions([], 3)).toEqual({ status: 'PENDING' });
+        });
+
+        it('should approve the picked candidate image', () => {
+            expect(
+                readApprovalReactions(
+                    [
+                        { emoji: '1\uFE0F\u20E3', count: 1 },
+                        { emoji: '2\uFE0F\u20E3', count: 2 },
+                    ],
+                    3
+                )
+            ).toEqual({ status: 'APPROVED', imageIndex: 1 });
+        });
+
+        it('should approve the first image on a thumbs up', () => {
+            expect(
+                readApprovalReactions([{ emoji: '👍', count: 1 }], 2)
+            ).toEqual({ status: 'APPROVED', imageIndex: 0 });
+            expect(
+                readApprovalReactions([{ emoji: '👍', count: 1 }], 0)
+            ).toEqual({ status: 'APPROVED', imageIndex: undefined });
+        });
+
+        it('should ignore numbers beyond the candidates', () => {
+            expect(
+                readApprovalReactions([{ emoji: '3\uFE0F\u20E3', count: 1 }], 2)
+            ).toEqual({ status: 'PENDING' });
+        });
+
+        it('should prefer rejecting over regenerating over approving', () => {
+            expect(
+                readApprovalReactions(
+                    [
+                        { emoji: '👍', count: 1 },
+                        { emoji: '🔄', count: 1 },
+                    ],
+                    1
+                )
+            ).toEqual({ status: 'REGENERATE' });
+            expect(
+                readApprovalReactions(
+                    [
+                        { emoji: '🔄', count: 1 },
+                        { emoji: '❌', count: 1 },
+                    ],
+                    1
+                )
+            ).toEqual({ status: 'REJECTED' });
+        });
+    });
 });
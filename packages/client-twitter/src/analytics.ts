@@ -0,0 +1,287 @@
+import { Tweet } from "agent-twitter-client";
+import { elizaLogger, IAgentRuntime, stringToUuid } from "@elizaos/core";
+import { ClientBase } from "./base.ts";
+
+/** Most posts kept in the metrics store, newest first */
+const MAX_STORED_POSTS = 500;
+
+/** Engagement counts of one of the agent's own posts */
+export interface PostMetrics {
+    id: string;
+    url: string;
+    createdAt: number;
+    /** When the counts were last fetched */
+    collectedAt: number;
+    hasImage: boolean;
+    imageStyle?: string;
+    imageProvider?: string;
+    topic?: string;
+    /** Assigned variant name by experiment name */
+    experiments?: Record<string, string>;
+    likes: number;
+    retweets: number;
+    replies: number;
+    impressions: number;
+}
+
+/** Per-post averages over a group of posts */
+export interface EngagementStats {
+    posts: number;
+    likes: number;
+    retweets: number;
+    replies: number;
+    impressions: number;
+    /** Likes, retweets and replies per impression */
+    engagementRate: number;
+}
+
+export interface PostMetricsReport {
+    since: number;
+    total: EngagementStats;
+    withImage: EngagementStats;
+    withoutImage: EngagementStats;
+    byStyle: Record<string, EngagementStats>;
+    byTopic: Record<string, EngagementStats>;
+    /** Stats per variant, by experiment name */
+    byVariant: Record<string, Record<string, EngagementStats>>;
+}
+
+export function getPostMetricsKey(twitterUsername: string): string {
+    return `twitter/${twitterUsername}/postMetrics`;
+}
+
+export async function getPostMetrics(
+    runtime: IAgentRuntime,
+    twitterUsername: string
+): Promise<PostMetrics[]> {
+    return (
+        (await runtime.cacheManager.get<PostMetrics[]>(
+            getPostMetricsKey(twitterUsername)
+        )) ?? []
+    );
+}
+
+function summarize(posts: PostMetrics[]): EngagementStats {
+    const sum = (field: "likes" | "retweets" | "replies" | "impressions") =>
+        posts.reduce((total, post) => total + post[field], 0);
+    const average = (total: number) =>
+        posts.length ? total / posts.length : 0;
+
+    const likes = sum("likes");
+    const retweets = sum("retweets");
+    const replies = sum("replies");
+    const impressions = sum("impressions");
+
+    return {
+        posts: posts.length,
+        likes: average(likes),
+        retweets: average(retweets),
+        replies: average(replies),
+        impressions: average(impressions),
+        engagementRate: impressions
+            ? (likes + retweets + replies) / impressions
+            : 0,
+    };
+}
+
+function groupBy(
+    posts: PostMetrics[],
+    key: (post: PostMetrics) => string | undefined
+): Record<string, EngagementStats> {
+    const groups = new Map<string, PostMetrics[]>();
+    for (const post of posts) {
+        const name = key(post);
+        if (!name) continue;
+        groups.set(name, [...(groups.get(name) ?? []), post]);
+    }
+    return Object.fromEntries(
+        [...groups].map(([name, group]) => [name, summarize(group)])
+    );
+}
+
+/**
+ * Breaks the engagement of posts made since `since` down by whether they had
+ * an image, the image style profile, the topic and the experiment variants.
+ */
+export function summarizePostMetrics(
+    posts: PostMetrics[],
+    since = 0
+): PostMetricsReport {
+    const recent = posts.filter((post) => post.createdAt >= since);
+    return {
+        since,
+        total: summarize(recent),
+        withImage: summarize(recent.filter((post) => post.hasImage)),
+        withoutImage: summarize(recent.filter((post) => !post.hasImage)),
+        byStyle: groupBy(recent, (post) =>
+            post.hasImage ? post.imageStyle : undefined
+        ),
+        byTopic: groupBy(recent, (post) => post.topic),
+        byVariant: Object.fromEntries(
+            [
+                ...new Set(
+                    recent.flatMap((post) =>
+                        Object.keys(post.experiments ?? {})
+                    )
+                ),
+            ].map((experiment) => [
+                experiment,
+                groupBy(recent, (post) => post.experiments?.[experiment]),
+            ])
+        ),
+    };
+}
+
+function formatStats(stats: EngagementStats): string {
+    return `${stats.posts} posts, ${stats.likes.toFixed(1)} likes, ${stats.retweets.toFixed(1)} retweets, ${stats.replies.toFixed(1)} replies and ${Math.round(stats.impressions)} impressions on average (${(stats.engagementRate * 100).toFixed(2)}% engagement)`;
+}
+
+function formatBest(groups: Record<string, EngagementStats>, limit = 3) {
+    return Object.entries(groups)
+        .sort(([, a], [, b]) => b.engagementRate - a.engagementRate)
+        .slice(0, limit)
+        .map(([name, stats]) => `- ${name}: ${formatStats(stats)}`)
+        .join("\n");
+}
+
+/**
+ * Describes what worked in a report, for post generation prompts. Returns an
+ * empty string when there are no posts in it.
+ */
+export function formatPostPerformance(
+    report: PostMetricsReport,
+    agentName: string
+): string {
+    if (!report.total.posts) return "";
+
+    const sections = [
+        `# What worked recently for ${agentName}'s posts`,
+        `All posts: ${formatStats(report.total)}`,
+    ];
+    if (report.withImage.posts) {
+        sections.push(`Posts with an image: ${formatStats(report.withImage)}`);
+    }
+    if (report.withoutImage.posts) {
+        sections.push(
+            `Posts without an image: ${formatStats(report.withoutImage)}`
+        );
+    }
+    const styles = formatBest(report.byStyle);
+    if (styles) {
+        sections.push(`Best image styles:\n${styles}`);
+    }
+    const topics = formatBest(report.byTopic);
+    if (topics) {
+        sections.push(`Best topics:\n${topics}`);
+    }
+    return sections.join("\n");
+}
+
+/**
+ * Periodically re-fetches the agent's own recent posts and records their
+ * likes, retweets, replies and impressions, together with the image, style
+ * profile, topic and experiment variants stored in each post's memory.
+ */
+export class TwitterAnalyticsClient {
+    client: ClientBase;
+    runtime: IAgentRuntime;
+    twitterUsername: string;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(client: ClientBase, runtime: IAgentRuntime) {
+        this.client = client;
+        this.runtime = runtime;
+        this.twitterUsername = this.client.twitterConfig.TWITTER_USERNAME;
+    }
+
+    async start() {
+        const interval =
+            this.client.twitterConfig.TWITTER_ANALYTICS_INTERVAL * 60 * 1000;
+        const collectLoop = async () => {
+            try {
+                await this.collect();
+            } catch (error) {
+                elizaLogger.error("Error collecting post metrics:", error);
+            }
+            this.timer = setTimeout(collectLoop, interval);
+        };
+        await collectLoop();
+    }
+
+    stop() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Fetches the latest counts of the agent's own posts, leaving out replies
+     * and retweets, and merges them into the stored metrics.
+     */
+    async collect(): Promise<PostMetrics[]> {
+        const tweets = await this.client.fetchOwnPosts(
+            this.client.twitterConfig.TWITTER_ANALYTICS_POSTS
+        );
+        const stored = new Map(
+            (await getPostMetrics(this.runtime, this.twitterUsername)).map(
+                (post) => [post.id, post]
+            )
+        );
+
+        for (const tweet of tweets) {
+            if (tweet.isRetweet || tweet.inReplyToStatusId) continue;
+            stored.set(tweet.id, await this.readTweetMetrics(tweet));
+        }
+
+        const posts = [...stored.values()]
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(0, MAX_STORED_POSTS);
+        await this.runtime.cacheManager.set(
+            getPostMetricsKey(this.twitterUsername),
+            posts
+        );
+        elizaLogger.log(`Collected metrics of ${tweets.length} own posts`);
+        return posts;
+    }
+
+    async getReport(since?: number): Promise<PostMetricsReport> {
+        return summarizePostMetrics(
+            await getPostMetrics(this.runtime, this.twitterUsername),
+            since
+        );
+    }
+
+    async getPosts(since = 0): Promise<PostMetrics[]> {
+        return (
+            await getPostMetrics(this.runtime, this.twitterUsername)
+        ).filter((post) => post.createdAt >= since);
+    }
+
+    private async readTweetMetrics(tweet: Tweet): Promise<PostMetrics> {
+        const memory = await this.runtime.messageManager.getMemoryById(
+            stringToUuid(tweet.id + "-" + this.runtime.agentId)
+        );
+        const content = memory?.content;
+
+        return {
+            id: tweet.id,
+            url: tweet.permanentUrl,
+            createdAt: (tweet.timestamp ?? 0) * 1000,
+            collectedAt: Date.now(),
+            hasImage:
+                (tweet.photos?.length ?? 0) > 0 ||
+                (content?.attachments?.length ?? 0) > 0,
+            imageStyle: content?.imageStyle as string | undefined,
+            imageProvider: content?.imageProvider as string | undefined,
+            topic: content?.topic as string | undefined,
+            experiments: content?.experiments as
+                | Record<string, string>
+                | undefined,
+            likes: tweet.likes ?? 0,
+            retweets: tweet.retweets ?? 0,
+            replies: tweet.replies ?? 0,
+            impressions: tweet.views ?? 0,
+        };
+    }
+}
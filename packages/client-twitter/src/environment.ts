@@ -75,6 +75,14 @@ export const twitterEnvSchema = z.object({
     ACTION_TIMELINE_TYPE: z
         .nativeEnum(ActionTimelineType)
         .default(ActionTimelineType.ForYou),
+    TWITTER_POST_IMAGE_EVERY_N: z.number().int().min(0).default(0),
+    TWITTER_POST_IMAGE_RATIO: z.number().min(0).max(1).default(0),
+    TWITTER_THREAD_ENABLE: z.boolean().default(false),
+    TWITTER_THREAD_MAX_TWEETS: z.number().int().min(1).default(5),
+    TWITTER_THREAD_IMAGES: z.boolean().default(false),
+    TWITTER_ANALYTICS_ENABLE: z.boolean().default(false),
+    TWITTER_ANALYTICS_INTERVAL: z.number().int().min(1).default(60),
+    TWITTER_ANALYTICS_POSTS: z.number().int().min(1).default(50),
 });
 
 export type TwitterConfig = z.infer<typeof twitterEnvSchema>;
@@ -102,6 +110,25 @@ function safeParseInt(
     return isNaN(parsed) ? defaultValue : Math.max(1, parsed);
 }
 
+/** Like safeParseInt, but keeps 0 for settings where it turns a feature off */
+function safeParseCount(
+    value: string | undefined | null,
+    defaultValue: number
+): number {
+    if (!value) return defaultValue;
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? defaultValue : Math.max(0, parsed);
+}
+
+function safeParseRatio(
+    value: string | undefined | null,
+    defaultValue: number
+): number {
+    if (!value) return defaultValue;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? defaultValue : Math.min(1, Math.max(0, parsed));
+}
+
 /**
  * Validates or constructs a TwitterConfig object using zod,
  * taking values from the IAgentRuntime or process.env as needed.
@@ -223,6 +250,62 @@ export async function validateTwitterConfig(
             ACTION_TIMELINE_TYPE:
                 runtime.getSetting("ACTION_TIMELINE_TYPE") ||
                 process.env.ACTION_TIMELINE_TYPE,
+
+            // int, attach a generated image to every Nth post (0 = off)
+            TWITTER_POST_IMAGE_EVERY_N: safeParseCount(
+                runtime.getSetting("TWITTER_POST_IMAGE_EVERY_N") ||
+                    process.env.TWITTER_POST_IMAGE_EVERY_N,
+                0
+            ),
+
+            // float 0-1, chance of attaching a generated image to a post
+            TWITTER_POST_IMAGE_RATIO: safeParseRatio(
+                runtime.getSetting("TWITTER_POST_IMAGE_RATIO") ||
+                    process.env.TWITTER_POST_IMAGE_RATIO,
+                0
+            ),
+
+            // bool, post long content as a numbered thread instead of truncating it
+            TWITTER_THREAD_ENABLE:
+                parseBooleanFromText(
+                    runtime.getSetting("TWITTER_THREAD_ENABLE") ||
+                        process.env.TWITTER_THREAD_ENABLE
+                ) ?? false,
+
+            // int, longest thread to post, later parts are dropped
+            TWITTER_THREAD_MAX_TWEETS: safeParseInt(
+                runtime.getSetting("TWITTER_THREAD_MAX_TWEETS") ||
+                    process.env.TWITTER_THREAD_MAX_TWEETS,
+                5
+            ),
+
+            // bool, generate an image for every part of a generated thread
+            TWITTER_THREAD_IMAGES:
+                parseBooleanFromText(
+                    runtime.getSetting("TWITTER_THREAD_IMAGES") ||
+                        process.env.TWITTER_THREAD_IMAGES
+                ) ?? false,
+
+            // bool, collect engagement metrics of own posts
+            TWITTER_ANALYTICS_ENABLE:
+                parseBooleanFromText(
+                    runtime.getSetting("TWITTER_ANALYTICS_ENABLE") ||
+                        process.env.TWITTER_ANALYTICS_ENABLE
+                ) ?? false,
+
+            // int in minutes, between metrics collections
+            TWITTER_ANALYTICS_INTERVAL: safeParseInt(
+                runtime.getSetting("TWITTER_ANALYTICS_INTERVAL") ||
+                    process.env.TWITTER_ANALYTICS_INTERVAL,
+                60
+            ),
+
+            // int, own posts re-fetched on every collection
+            TWITTER_ANALYTICS_POSTS: safeParseInt(
+                runtime.getSetting("TWITTER_ANALYTICS_POSTS") ||
+                    process.env.TWITTER_ANALYTICS_POSTS,
+                50
+            ),
         };
 
         return twitterEnvSchema.parse(twitterConfig);
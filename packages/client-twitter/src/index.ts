@@ -1,10 +1,17 @@
-import { Client, elizaLogger, IAgentRuntime } from "@elizaos/core";
+import {
+    Client,
+    elizaLogger,
+    IAgentRuntime,
+    withTraceOrigin,
+} from "@elizaos/core";
+import { TwitterAnalyticsClient } from "./analytics.ts";
 import { ClientBase } from "./base.ts";
 import { validateTwitterConfig, TwitterConfig } from "./environment.ts";
 import { TwitterInteractionClient } from "./interactions.ts";
 import { TwitterPostClient } from "./post.ts";
 import { TwitterSearchClient } from "./search.ts";
 import { TwitterSpaceClient } from "./spaces.ts";
+import postPerformanceProvider from "./providers/postPerformance.ts";
 
 /**
  * A manager that orchestrates all specialized Twitter logic:
@@ -13,6 +20,7 @@ import { TwitterSpaceClient } from "./spaces.ts";
  * - search: searching tweets / replying logic
  * - interaction: handling mentions, replies
  * - space: launching and managing Twitter Spaces (optional)
+ * - analytics: engagement metrics of own posts (optional)
  */
 class TwitterManager {
     client: ClientBase;
@@ -20,6 +28,7 @@ class TwitterManager {
     search: TwitterSearchClient;
     interaction: TwitterInteractionClient;
     space?: TwitterSpaceClient;
+    analytics?: TwitterAnalyticsClient;
 
     constructor(runtime: IAgentRuntime, twitterConfig: TwitterConfig) {
         // Pass twitterConfig to the base client
@@ -45,38 +54,52 @@ class TwitterManager {
         if (twitterConfig.TWITTER_SPACES_ENABLE) {
             this.space = new TwitterSpaceClient(this.client, runtime);
         }
+
+        // Optional post metrics (enabled if TWITTER_ANALYTICS_ENABLE is true)
+        if (twitterConfig.TWITTER_ANALYTICS_ENABLE) {
+            this.analytics = new TwitterAnalyticsClient(this.client, runtime);
+            runtime.providers.push(postPerformanceProvider);
+        }
     }
 }
 
 export const TwitterClientInterface: Client = {
     async start(runtime: IAgentRuntime) {
-        const twitterConfig: TwitterConfig =
-            await validateTwitterConfig(runtime);
+        // Model calls made by the loops started here are traced as Twitter's
+        return withTraceOrigin({ client: "twitter" }, async () => {
+            const twitterConfig: TwitterConfig =
+                await validateTwitterConfig(runtime);
 
-        elizaLogger.log("Twitter client started");
+            elizaLogger.log("Twitter client started");
 
-        const manager = new TwitterManager(runtime, twitterConfig);
+            const manager = new TwitterManager(runtime, twitterConfig);
 
-        // Initialize login/session
-        await manager.client.init();
+            // Initialize login/session
+            await manager.client.init();
 
-        // Start the posting loop
-        await manager.post.start();
+            // Start the posting loop
+            await manager.post.start();
 
-        // Start the search logic if it exists
-        if (manager.search) {
-            await manager.search.start();
-        }
+            // Start the search logic if it exists
+            if (manager.search) {
+                await manager.search.start();
+            }
 
-        // Start interactions (mentions, replies)
-        await manager.interaction.start();
+            // Start interactions (mentions, replies)
+            await manager.interaction.start();
 
-        // If Spaces are enabled, start the periodic check
-        if (manager.space) {
-            manager.space.startPeriodicSpaceCheck();
-        }
+            // If Spaces are enabled, start the periodic check
+            if (manager.space) {
+                manager.space.startPeriodicSpaceCheck();
+            }
+
+            // Start collecting post metrics if enabled
+            if (manager.analytics) {
+                await manager.analytics.start();
+            }
 
-        return manager;
+            return manager;
+        });
     },
 
     async stop(_runtime: IAgentRuntime) {
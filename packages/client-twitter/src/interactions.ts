@@ -491,6 +491,7 @@ export class TwitterInteractionClient {
                             responseMessages[responseMessages.length - 1]
                         ) {
                             responseMessage.content.action = response.action;
+                            responseMessage.content.actions = response.actions;
                         } else {
                             responseMessage.content.action = "CONTINUE";
                         }
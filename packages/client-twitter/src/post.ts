@@ -1,10 +1,23 @@
 import { Tweet } from "agent-twitter-client";
 import {
+    assignPostExperiments,
     composeContext,
+    ExperimentAssignment,
+    formatImageStyle,
+    generateImage,
     generateText,
+    getBudgetStatus,
+    getContentScheduler,
     getEmbeddingZeroVector,
+    getImageStyleDimensions,
+    moderateImage,
     IAgentRuntime,
+    ImageStyleProfile,
     ModelClass,
+    PublishResult,
+    ScheduledContent,
+    ScheduledPost,
+    selectImageStyle,
     stringToUuid,
     TemplateType,
     UUID,
@@ -15,21 +28,40 @@ import { ClientBase } from "./base.ts";
 import { postActionResponseFooter } from "@elizaos/core";
 import { generateTweetActions } from "@elizaos/core";
 import { IImageDescriptionService, ServiceType } from "@elizaos/core";
-import { buildConversationThread } from "./utils.ts";
+import {
+    buildConversationThread,
+    composeThread,
+    getThreadTextLength,
+    saveGeneratedImage,
+} from "./utils.ts";
 import { twitterMessageHandlerTemplate } from "./interactions.ts";
 import { DEFAULT_MAX_TWEET_LENGTH } from "./environment.ts";
 import {
+    AttachmentBuilder,
     Client,
     Events,
     GatewayIntentBits,
+    MessageReaction,
     TextChannel,
     Partials,
 } from "discord.js";
 import { State } from "@elizaos/core";
 import { ActionResponse } from "@elizaos/core";
+import fs from "fs";
+import path from "path";
 
 const MAX_TIMELINES_TO_FETCH = 15;
 
+const APPROVE_REACTION = "👍";
+const REJECT_REACTION = "❌";
+const REGENERATE_REACTION = "🔄";
+
+/** Reactions that pick a candidate image, 1️⃣ to 9️⃣ */
+const CANDIDATE_REACTIONS = Array.from(
+    { length: 9 },
+    (_, i) => `${i + 1}\uFE0F\u20E3`
+);
+
 const twitterPostTemplate = `
 # Areas of Expertise
 {{knowledge}}
@@ -50,6 +82,20 @@ Write a post that is {{adjective}} about {{topic}} (without mentioning {{topic}}
 Your response should be 1, 2, or 3 sentences (choose the length at random).
 Your response should not contain any questions. Brief, concise statements only. The total character count MUST be less than {{maxTweetLength}}. No emojis. Use \\n\\n (double spaces) between statements if there are multiple statements in your response.`;
 
+const twitterImagePromptTemplate = `
+# About {{agentName}} (@{{twitterUserName}}):
+{{bio}}
+
+# Post:
+{{currentPost}}
+
+# Visual style:
+{{imageStyle}}
+
+# Task: Write a prompt for an AI image generator that produces an image to accompany the post above, in the voice and visual style of {{agentName}} described above.
+Describe the main subject, setting, lighting, colors, mood and composition using concrete nouns. Do not include any text, captions or lettering in the image.
+LIMIT the image prompt to 50 words or less. Only include the prompt and nothing else.`;
+
 export const twitterActionTemplate =
     `
 # INSTRUCTIONS: Determine actions for {{agentName}} (@{{twitterUserName}}) based on:
@@ -78,6 +124,18 @@ Tweet:
 # Respond with qualifying action tags only. Default to NO action unless extremely confident of relevance.` +
     postActionResponseFooter;
 
+interface PostImage {
+    prompt: string;
+    filepath: string;
+    mediaType: string;
+    /** Image provider that produced the image */
+    provider?: string;
+    /** Style profile the image prompt was written with */
+    style?: string;
+    /** Thread part the image is posted with, the first when unset */
+    part?: number;
+}
+
 interface PendingTweet {
     cleanedContent: string;
     roomId: UUID;
@@ -85,9 +143,72 @@ interface PendingTweet {
     discordMessageId: string;
     channelId: string;
     timestamp: number;
+    /** Candidate images, one of which is posted with the tweet */
+    images?: PostImage[];
+    /** Extra fields stored with the tweet's memory */
+    metadata?: ScheduledContent["metadata"];
+}
+
+/** A thread being posted, cached so a partly posted thread can be resumed */
+interface ThreadProgress {
+    parts: string[];
+    /** Tweets posted so far, one per leading part */
+    tweets: { id: string; url: string }[];
 }
 
-type PendingTweetApprovalStatus = "PENDING" | "APPROVED" | "REJECTED";
+type PendingTweetApprovalStatus =
+    | "PENDING"
+    | "APPROVED"
+    | "REJECTED"
+    | "REGENERATE";
+
+interface PendingTweetApproval {
+    status: PendingTweetApprovalStatus;
+    /** Index of the candidate image picked by the reviewers */
+    imageIndex?: number;
+}
+
+/**
+ * Reads the reviewers' decision from the reactions on an approval message,
+ * given as emoji and number of reactions not made by the bot. Rejecting wins
+ * over regenerating, which wins over approving. A numbered reaction picks
+ * and approves a candidate; 👍 approves the most picked candidate, or the
+ * first when none was picked.
+ */
+export function readApprovalReactions(
+    reactions: { emoji: string; count: number }[],
+    candidateCount: number
+): PendingTweetApproval {
+    const countOf = (emoji: string) =>
+        reactions.find((reaction) => reaction.emoji === emoji)?.count ?? 0;
+
+    if (countOf(REJECT_REACTION) > 0) {
+        return { status: "REJECTED" };
+    }
+    if (countOf(REGENERATE_REACTION) > 0) {
+        return { status: "REGENERATE" };
+    }
+
+    let imageIndex: number | undefined;
+    let bestCount = 0;
+    CANDIDATE_REACTIONS.slice(0, candidateCount).forEach((emoji, index) => {
+        if (countOf(emoji) > bestCount) {
+            imageIndex = index;
+            bestCount = countOf(emoji);
+        }
+    });
+
+    if (imageIndex !== undefined) {
+        return { status: "APPROVED", imageIndex };
+    }
+    if (countOf(APPROVE_REACTION) > 0) {
+        return {
+            status: "APPROVED",
+            imageIndex: candidateCount > 0 ? 0 : undefined,
+        };
+    }
+    return { status: "PENDING" };
+}
 
 export class TwitterPostClient {
     client: ClientBase;
@@ -101,6 +222,7 @@ export class TwitterPostClient {
     private approvalRequired: boolean = false;
     private discordApprovalChannelId: string;
     private approvalCheckInterval: number;
+    private approvalImageCandidates: number = 1;
 
     constructor(client: ClientBase, runtime: IAgentRuntime) {
         this.client = client;
@@ -161,6 +283,20 @@ export class TwitterPostClient {
 
             this.approvalCheckInterval = APPROVAL_CHECK_INTERVAL;
 
+            // Number of images to offer the reviewers, at most one per
+            // numbered reaction
+            this.approvalImageCandidates = Math.min(
+                Math.max(
+                    parseInt(
+                        this.runtime.getSetting(
+                            "TWITTER_APPROVAL_IMAGE_CANDIDATES"
+                        )
+                    ) || 1,
+                    1
+                ),
+                CANDIDATE_REACTIONS.length
+            );
+
             if (!discordToken || !approvalChannelId) {
                 throw new Error(
                     "TWITTER_APPROVAL_DISCORD_BOT_TOKEN and TWITTER_APPROVAL_DISCORD_CHANNEL_ID are required for approval workflow"
@@ -215,33 +351,6 @@ export class TwitterPostClient {
             await this.client.init();
         }
 
-        const generateNewTweetLoop = async () => {
-            // Check for pending tweets first
-            if (this.approvalRequired) await this.handlePendingTweet();
-
-            const lastPost = await this.runtime.cacheManager.get<{
-                timestamp: number;
-            }>("twitter/" + this.twitterUsername + "/lastPost");
-
-            const lastPostTimestamp = lastPost?.timestamp ?? 0;
-            const minMinutes = this.client.twitterConfig.POST_INTERVAL_MIN;
-            const maxMinutes = this.client.twitterConfig.POST_INTERVAL_MAX;
-            const randomMinutes =
-                Math.floor(Math.random() * (maxMinutes - minMinutes + 1)) +
-                minMinutes;
-            const delay = randomMinutes * 60 * 1000;
-
-            if (Date.now() > lastPostTimestamp + delay) {
-                await this.generateNewTweet();
-            }
-
-            setTimeout(() => {
-                generateNewTweetLoop(); // Set up next iteration
-            }, delay);
-
-            elizaLogger.log(`Next tweet scheduled in ${randomMinutes} minutes`);
-        };
-
         const processActionsLoop = async () => {
             const actionInterval = this.client.twitterConfig.ACTION_INTERVAL; // Defaults to 5 minutes
 
@@ -270,13 +379,22 @@ export class TwitterPostClient {
             }
         };
 
+        const scheduler = getContentScheduler(this.runtime);
+        scheduler.registerPublisher({
+            platform: "twitter",
+            adapt: (content) => this.adaptTweetContent(content),
+            generate: () => this.generateNewTweet(),
+            publish: (post) => this.publishScheduledTweet(post),
+            minIntervalMinutes: this.client.twitterConfig.POST_INTERVAL_MIN,
+            maxIntervalMinutes: this.client.twitterConfig.POST_INTERVAL_MAX,
+        });
+
         if (this.client.twitterConfig.POST_IMMEDIATELY) {
-            await this.generateNewTweet();
+            await scheduler.publishNow("twitter");
         }
 
-        // Only start tweet generation loop if not in dry run mode
-        generateNewTweetLoop();
-        elizaLogger.log("Tweet generation loop started");
+        await scheduler.start();
+        elizaLogger.log("Tweet publishing scheduled");
 
         if (this.client.twitterConfig.ENABLE_ACTION_PROCESSING) {
             processActionsLoop().catch((error) => {
@@ -327,7 +445,10 @@ export class TwitterPostClient {
         client: ClientBase,
         tweet: Tweet,
         roomId: UUID,
-        newTweetContent: string
+        newTweetContent: string,
+        image?: PostImage,
+        inReplyTo?: UUID,
+        metadata?: ScheduledContent["metadata"]
     ) {
         // Cache the last post details
         await runtime.cacheManager.set(
@@ -357,6 +478,25 @@ export class TwitterPostClient {
                 text: newTweetContent.trim(),
                 url: tweet.permanentUrl,
                 source: "twitter",
+                ...metadata,
+                ...(inReplyTo ? { inReplyTo } : {}),
+                ...(image
+                    ? {
+                          attachments: [
+                              {
+                                  id: stringToUuid(image.filepath),
+                                  url: image.filepath,
+                                  title: "Generated image",
+                                  source: "imageGeneration",
+                                  description: image.prompt,
+                                  text: image.prompt,
+                                  contentType: image.mediaType,
+                              },
+                          ],
+                          imageProvider: image.provider,
+                          imageStyle: image.style,
+                      }
+                    : {}),
             },
             roomId,
             embedding: getEmbeddingZeroVector(),
@@ -367,12 +507,17 @@ export class TwitterPostClient {
     async handleNoteTweet(
         client: ClientBase,
         content: string,
-        tweetId?: string
+        tweetId?: string,
+        mediaData?: { data: Buffer; mediaType: string }[]
     ) {
         try {
             const noteTweetResult = await client.requestQueue.add(
                 async () =>
-                    await client.twitterClient.sendNoteTweet(content, tweetId)
+                    await client.twitterClient.sendNoteTweet(
+                        content,
+                        tweetId,
+                        mediaData
+                    )
             );
 
             if (noteTweetResult.errors && noteTweetResult.errors.length > 0) {
@@ -384,7 +529,8 @@ export class TwitterPostClient {
                 return await this.sendStandardTweet(
                     client,
                     truncateContent,
-                    tweetId
+                    tweetId,
+                    mediaData
                 );
             } else {
                 return noteTweetResult.data.notetweet_create.tweet_results
@@ -398,12 +544,17 @@ export class TwitterPostClient {
     async sendStandardTweet(
         client: ClientBase,
         content: string,
-        tweetId?: string
+        tweetId?: string,
+        mediaData?: { data: Buffer; mediaType: string }[]
     ) {
         try {
             const standardTweetResult = await client.requestQueue.add(
                 async () =>
-                    await client.twitterClient.sendTweet(content, tweetId)
+                    await client.twitterClient.sendTweet(
+                        content,
+                        tweetId,
+                        mediaData
+                    )
             );
             const body = await standardTweetResult.json();
             if (!body?.data?.create_tweet?.tweet_results?.result) {
@@ -423,17 +574,38 @@ export class TwitterPostClient {
         cleanedContent: string,
         roomId: UUID,
         newTweetContent: string,
-        twitterUsername: string
+        twitterUsername: string,
+        image?: PostImage,
+        metadata?: ScheduledContent["metadata"]
     ) {
         try {
             elizaLogger.log(`Posting new tweet:\n`);
 
+            const mediaData = image
+                ? [
+                      {
+                          data: await fs.promises.readFile(image.filepath),
+                          mediaType: image.mediaType,
+                      },
+                  ]
+                : undefined;
+
             let result;
 
             if (cleanedContent.length > DEFAULT_MAX_TWEET_LENGTH) {
-                result = await this.handleNoteTweet(client, cleanedContent);
+                result = await this.handleNoteTweet(
+                    client,
+                    cleanedContent,
+                    undefined,
+                    mediaData
+                );
             } else {
-                result = await this.sendStandardTweet(client, cleanedContent);
+                result = await this.sendStandardTweet(
+                    client,
+                    cleanedContent,
+                    undefined,
+                    mediaData
+                );
             }
 
             const tweet = this.createTweetObject(
@@ -447,17 +619,305 @@ export class TwitterPostClient {
                 client,
                 tweet,
                 roomId,
-                newTweetContent
+                newTweetContent,
+                image,
+                undefined,
+                metadata
             );
+
+            return tweet;
         } catch (error) {
             elizaLogger.error("Error sending tweet:", error);
         }
     }
 
     /**
-     * Generates and posts a new tweet. If isDryRun is true, only logs what would have been posted.
+     * Splits text into numbered thread parts when thread mode is enabled,
+     * otherwise returns it as a single tweet.
+     */
+    private composeTweetThread(text: string): string[] {
+        const config = this.client.twitterConfig;
+        return config.TWITTER_THREAD_ENABLE
+            ? composeThread(
+                  text,
+                  config.MAX_TWEET_LENGTH,
+                  config.TWITTER_THREAD_MAX_TWEETS
+              )
+            : [text];
+    }
+
+    /**
+     * Posts the parts of a thread, each replying to the one before it, with
+     * the images tagged for that part. Progress is cached under `threadId`,
+     * so calling this again after a failure resumes after the last posted
+     * part. Every part is stored as a memory replying to the previous one.
+     * Returns the first tweet of the thread.
+     */
+    async postThread(
+        threadId: string,
+        parts: string[],
+        roomId: UUID,
+        images: PostImage[] = [],
+        metadata?: ScheduledContent["metadata"]
+    ): Promise<{ id: string; url: string }> {
+        const progressKey = `twitter/${this.twitterUsername}/thread/${threadId}`;
+        const progress = (await this.runtime.cacheManager.get<ThreadProgress>(
+            progressKey
+        )) ?? { parts, tweets: [] };
+        const total = progress.parts.length;
+
+        if (progress.tweets.length > 0) {
+            elizaLogger.log(
+                `Resuming thread ${threadId} after ${progress.tweets.length} of ${total} tweets`
+            );
+        }
+
+        for (let i = progress.tweets.length; i < total; i++) {
+            const part = progress.parts[i];
+            const image =
+                images.find((image) => image.part === i) ??
+                (i === 0
+                    ? images.find((image) => image.part === undefined)
+                    : undefined);
+            const previous = progress.tweets[i - 1];
+
+            let result;
+            try {
+                const mediaData = image
+                    ? [
+                          {
+                              data: await fs.promises.readFile(image.filepath),
+                              mediaType: image.mediaType,
+                          },
+                      ]
+                    : undefined;
+                result =
+                    part.length > DEFAULT_MAX_TWEET_LENGTH
+                        ? await this.handleNoteTweet(
+                              this.client,
+                              part,
+                              previous?.id,
+                              mediaData
+                          )
+                        : await this.sendStandardTweet(
+                              this.client,
+                              part,
+                              previous?.id,
+                              mediaData
+                          );
+            } catch (error) {
+                elizaLogger.error("Error sending thread tweet:", error);
+            }
+            if (!result) {
+                throw new Error(
+                    `Thread stopped after ${i} of ${total} tweets, retry to resume it`
+                );
+            }
+
+            const tweet = this.createTweetObject(
+                result,
+                this.client,
+                this.twitterUsername
+            );
+            await this.processAndCacheTweet(
+                this.runtime,
+                this.client,
+                tweet,
+                roomId,
+                part,
+                image,
+                previous
+                    ? stringToUuid(previous.id + "-" + this.runtime.agentId)
+                    : undefined,
+                metadata
+            );
+
+            progress.tweets.push({ id: tweet.id, url: tweet.permanentUrl });
+            await this.runtime.cacheManager.set(progressKey, progress);
+        }
+
+        await this.runtime.cacheManager.delete(progressKey);
+        return progress.tweets[0];
+    }
+
+    /**
+     * Decides whether the next generated post gets an image, either on every
+     * Nth post (TWITTER_POST_IMAGE_EVERY_N) or at random with probability
+     * TWITTER_POST_IMAGE_RATIO. Every-N takes precedence when both are set.
+     */
+    private async shouldAttachImage(): Promise<boolean> {
+        const everyN = this.client.twitterConfig.TWITTER_POST_IMAGE_EVERY_N;
+        if (everyN > 0) {
+            const counterKey = `twitter/${this.twitterUsername}/postImageCounter`;
+            const count =
+                ((await this.runtime.cacheManager.get<number>(counterKey)) ??
+                    0) + 1;
+            await this.runtime.cacheManager.set(counterKey, count % everyN);
+            return count % everyN === 0;
+        }
+
+        const ratio = this.client.twitterConfig.TWITTER_POST_IMAGE_RATIO;
+        return ratio > 0 && Math.random() < ratio;
+    }
+
+    /**
+     * Derives an image prompt from the tweet text and generates `count`
+     * candidate images from it, saved locally. Returns an empty list when
+     * generation fails so the tweet can still go out as text only. An
+     * experiment variant can pick the style profile and prompt template.
+     */
+    private async generatePostImages(
+        tweetText: string,
+        state: State,
+        count = 1,
+        overrides: ExperimentAssignment["overrides"] = {}
+    ): Promise<PostImage[]> {
+        try {
+            const variantStyle =
+                overrides.imageStyle &&
+                this.runtime.character.settings?.imageSettings?.styles?.[
+                    overrides.imageStyle
+                ];
+            const { name: styleName, profile: style } = variantStyle
+                ? { name: overrides.imageStyle, profile: variantStyle }
+                : await selectImageStyle(this.runtime, tweetText);
+
+            const imagePromptContext = composeContext({
+                state: {
+                    ...state,
+                    currentPost: tweetText,
+                    imageContent: tweetText,
+                    imageStyle: formatImageStyle(style),
+                },
+                template:
+                    overrides.imagePromptTemplate ||
+                    style.promptTemplate ||
+                    this.runtime.character.templates
+                        ?.twitterImagePromptTemplate ||
+                    twitterImagePromptTemplate,
+            });
+
+            const prompt = (
+                await generateText({
+                    runtime: this.runtime,
+                    context: imagePromptContext,
+                    modelClass: ModelClass.SMALL,
+                })
+            ).trim();
+
+            if (!prompt) {
+                elizaLogger.error("Failed to generate image prompt for tweet");
+                return [];
+            }
+
+            return await this.renderPostImages(prompt, styleName, style, count);
+        } catch (error) {
+            elizaLogger.error("Error generating image for tweet:", error);
+            return [];
+        }
+    }
+
+    /**
+     * Generates images for an existing prompt, one provider call per image so
+     * every candidate gets its own seed. Images that fail or are rejected by
+     * moderation are left out.
+     */
+    private async renderPostImages(
+        prompt: string,
+        styleName: string,
+        style: ImageStyleProfile,
+        count = 1
+    ): Promise<PostImage[]> {
+        elizaLogger.log(`Generating image for tweet with prompt: ${prompt}`);
+
+        const imageSettings =
+            this.runtime.character.settings?.imageSettings || {};
+        const negativePrompt =
+            style.negativePrompt ?? imageSettings.negativePrompt;
+        const modelId = style.modelId ?? imageSettings.modelId;
+        const postImages: PostImage[] = [];
+
+        for (let i = 0; i < count; i++) {
+            try {
+                const images = await generateImage(
+                    {
+                        prompt,
+                        ...getImageStyleDimensions(style, {
+                            width: imageSettings.width || 1024,
+                            height: imageSettings.height || 1024,
+                        }),
+                        ...(negativePrompt != null ? { negativePrompt } : {}),
+                        ...(imageSettings.numIterations != null
+                            ? { numIterations: imageSettings.numIterations }
+                            : {}),
+                        ...(imageSettings.guidanceScale != null
+                            ? { guidanceScale: imageSettings.guidanceScale }
+                            : {}),
+                        // A fixed seed would make every candidate the same
+                        ...(imageSettings.seed != null && count === 1
+                            ? { seed: imageSettings.seed }
+                            : {}),
+                        ...(modelId != null ? { modelId } : {}),
+                        ...(imageSettings.stylePreset != null
+                            ? { stylePreset: imageSettings.stylePreset }
+                            : {}),
+                        ...(imageSettings.hideWatermark != null
+                            ? { hideWatermark: imageSettings.hideWatermark }
+                            : {}),
+                    },
+                    this.runtime
+                );
+
+                if (!images.success || !images.data?.length) {
+                    elizaLogger.error(
+                        "Image generation for tweet failed:",
+                        images.error,
+                        images.attempts
+                    );
+                    continue;
+                }
+
+                const { filepath, mediaType } = await saveGeneratedImage(
+                    images.data[0],
+                    `tweet_${Date.now()}_${i}`,
+                    { runtime: this.runtime, prompt }
+                );
+
+                const moderation = await moderateImage(
+                    this.runtime,
+                    filepath,
+                    prompt
+                );
+                if (!moderation.allowed) {
+                    elizaLogger.warn(
+                        `Tweet image rejected by moderation: ${moderation.reason}`
+                    );
+                    await fs.promises.rm(filepath, { force: true });
+                    continue;
+                }
+                elizaLogger.log(
+                    `Tweet image generated by ${images.provider} in style "${styleName}"`
+                );
+
+                postImages.push({
+                    prompt,
+                    filepath,
+                    mediaType,
+                    provider: images.provider,
+                    style: styleName,
+                });
+            } catch (error) {
+                elizaLogger.error("Error generating image for tweet:", error);
+            }
+        }
+
+        return postImages;
+    }
+
+    /**
+     * Generates a new tweet and its images for the content scheduler.
      */
-    async generateNewTweet() {
+    async generateNewTweet(): Promise<ScheduledContent | null> {
         elizaLogger.log("Generating new tweet");
 
         try {
@@ -485,12 +945,28 @@ export class TwitterPostClient {
                 },
                 {
                     twitterUserName: this.client.profile.username,
+                    // A thread may use the length of all of its tweets
+                    maxTweetLength: this.client.twitterConfig
+                        .TWITTER_THREAD_ENABLE
+                        ? getThreadTextLength(
+                              this.client.twitterConfig.MAX_TWEET_LENGTH,
+                              this.client.twitterConfig
+                                  .TWITTER_THREAD_MAX_TWEETS
+                          )
+                        : this.client.twitterConfig.MAX_TWEET_LENGTH,
                 }
             );
 
+            const experiments = await assignPostExperiments(
+                this.runtime,
+                "twitter"
+            );
+            const { overrides } = experiments;
+
             const context = composeContext({
                 state,
                 template:
+                    overrides.postTemplate ||
                     this.runtime.character.templates?.twitterPostTemplate ||
                     twitterPostTemplate,
             });
@@ -533,12 +1009,16 @@ export class TwitterPostClient {
                         attempted: "JSON parsing",
                     }
                 );
-                return;
+                return null;
             }
 
             // Truncate the content to the maximum tweet length specified in the environment settings, ensuring the truncation respects sentence boundaries.
+            // In thread mode long content is split into a thread when posted instead.
             const maxTweetLength = this.client.twitterConfig.MAX_TWEET_LENGTH;
-            if (maxTweetLength) {
+            if (
+                maxTweetLength &&
+                !this.client.twitterConfig.TWITTER_THREAD_ENABLE
+            ) {
                 cleanedContent = truncateToCompleteSentence(
                     cleanedContent,
                     maxTweetLength
@@ -553,42 +1033,148 @@ export class TwitterPostClient {
             // Final cleaning
             cleanedContent = removeQuotes(fixNewLines(cleanedContent));
 
-            if (this.isDryRun) {
-                elizaLogger.info(
-                    `Dry run: would have posted tweet: ${cleanedContent}`
+            const parts = this.composeTweetThread(cleanedContent);
+            const { skipOptionalImages } = await getBudgetStatus(this.runtime);
+            let images: PostImage[] = [];
+            if (skipOptionalImages) {
+                elizaLogger.log(
+                    "Image budget is nearly spent, posting without images"
                 );
-                return;
-            }
-
-            try {
-                if (this.approvalRequired) {
-                    // Send for approval instead of posting directly
-                    elizaLogger.log(
-                        `Sending Tweet For Approval:\n ${cleanedContent}`
-                    );
-                    await this.sendForApproval(
-                        cleanedContent,
-                        roomId,
-                        newTweetContent
-                    );
-                    elizaLogger.log("Tweet sent for approval");
-                } else {
-                    elizaLogger.log(`Posting new tweet:\n ${cleanedContent}`);
-                    this.postTweet(
-                        this.runtime,
-                        this.client,
-                        cleanedContent,
-                        roomId,
-                        newTweetContent,
-                        this.twitterUsername
+            } else if (
+                parts.length > 1 &&
+                this.client.twitterConfig.TWITTER_THREAD_IMAGES &&
+                !this.approvalRequired &&
+                overrides.image !== false
+            ) {
+                // Every part gets an image prompted from its own text
+                for (const [part, text] of parts.entries()) {
+                    const [image] = await this.generatePostImages(
+                        text,
+                        state,
+                        1,
+                        overrides
                     );
+                    if (image) images.push({ ...image, part });
                 }
-            } catch (error) {
-                elizaLogger.error("Error sending tweet:", error);
+            } else if (overrides.image ?? (await this.shouldAttachImage())) {
+                images = await this.generatePostImages(
+                    cleanedContent,
+                    state,
+                    this.approvalRequired ? this.approvalImageCandidates : 1,
+                    overrides
+                );
             }
+
+            // Stored with the tweet's memory, for the post metrics
+            const metadata = {
+                ...(state.topic ? { topic: state.topic } : {}),
+                ...(Object.keys(experiments.variants).length
+                    ? { experiments: experiments.variants }
+                    : {}),
+            };
+
+            return {
+                text: cleanedContent,
+                images,
+                ...(Object.keys(metadata).length ? { metadata } : {}),
+            };
         } catch (error) {
             elizaLogger.error("Error generating new tweet:", error);
+            return null;
+        }
+    }
+
+    private adaptTweetContent(content: ScheduledContent): ScheduledContent {
+        // Threads are split when they are posted
+        if (this.client.twitterConfig.TWITTER_THREAD_ENABLE) {
+            return content;
+        }
+
+        const maxTweetLength = this.client.twitterConfig.MAX_TWEET_LENGTH;
+        return maxTweetLength
+            ? {
+                  ...content,
+                  text: truncateToCompleteSentence(
+                      content.text,
+                      maxTweetLength
+                  ),
+              }
+            : content;
+    }
+
+    /**
+     * Posts a tweet from the content scheduler. If isDryRun is true, only logs
+     * what would have been posted and resolves as skipped. When approval is
+     * required the tweet is sent to Discord instead, resolving as pending
+     * approval, and all of its images are offered as candidates. Long content
+     * in thread mode is posted as a thread, which a retry of the same post
+     * resumes.
+     */
+    async publishScheduledTweet(post: ScheduledPost): Promise<PublishResult> {
+        const roomId = stringToUuid(
+            "twitter_generate_room-" + this.client.profile.username
+        );
+        const text = post.content.text;
+        const images: PostImage[] = (post.content.images ?? []).map(
+            (image) => ({ ...image, prompt: image.prompt ?? "" })
+        );
+        const parts = this.composeTweetThread(text);
+
+        if (this.isDryRun) {
+            if (parts.length > 1) {
+                elizaLogger.info(
+                    `Dry run: would have posted thread:\n${parts.join("\n---\n")}`
+                );
+            } else {
+                elizaLogger.info(`Dry run: would have posted tweet: ${text}`);
+            }
+            for (const image of images) {
+                elizaLogger.info(`Dry run: image prompt: ${image.prompt}`);
+                elizaLogger.info(`Dry run: image saved to: ${image.filepath}`);
+            }
+            return { status: "skipped" };
+        }
+
+        if (this.approvalRequired) {
+            // Send for approval instead of posting directly
+            elizaLogger.log(`Sending Tweet For Approval:\n ${text}`);
+            await this.sendForApproval(
+                text,
+                roomId,
+                text,
+                images,
+                post.content.metadata
+            );
+            elizaLogger.log("Tweet sent for approval");
+            return { status: "pending_approval" };
         }
+
+        if (parts.length > 1) {
+            elizaLogger.log(`Posting new thread of ${parts.length} tweets`);
+            return await this.postThread(
+                post.id,
+                parts,
+                roomId,
+                images,
+                post.content.metadata
+            );
+        }
+
+        elizaLogger.log(`Posting new tweet:\n ${text}`);
+        const tweet = await this.postTweet(
+            this.runtime,
+            this.client,
+            text,
+            roomId,
+            text,
+            this.twitterUsername,
+            images[0],
+            post.content.metadata
+        );
+        if (!tweet) {
+            throw new Error("Failed to post tweet");
+        }
+        return { id: tweet.id, url: tweet.permanentUrl };
     }
 
     private async generateTweetContent(
@@ -1196,16 +1782,37 @@ export class TwitterPostClient {
 
     async stop() {
         this.stopProcessingActions = true;
+        getContentScheduler(this.runtime).unregisterPublisher("twitter");
     }
 
     private async sendForApproval(
         cleanedContent: string,
         roomId: UUID,
-        newTweetContent: string
+        newTweetContent: string,
+        images: PostImage[] = [],
+        metadata?: ScheduledContent["metadata"]
     ): Promise<string | null> {
         try {
+            const files = images.map(
+                (image, index) =>
+                    new AttachmentBuilder(image.filepath, {
+                        name: `candidate-${index + 1}${path.extname(image.filepath)}`,
+                    })
+            );
+            const instructions = [
+                images.length > 1
+                    ? `React with ${CANDIDATE_REACTIONS[0]}-${CANDIDATE_REACTIONS[images.length - 1]} to post with that image`
+                    : undefined,
+                `'${APPROVE_REACTION}' to post`,
+                `'${REGENERATE_REACTION}' to regenerate the ${images.length > 1 ? "images" : "image"} and keep the text`,
+                `'${REJECT_REACTION}' to discard`,
+            ].filter(Boolean);
+
             const embed = {
-                title: "New Tweet Pending Approval",
+                title:
+                    images.length > 1
+                        ? `New Tweet Pending Approval (Image ${CANDIDATE_REACTIONS[0]})`
+                        : "New Tweet Pending Approval",
                 description: cleanedContent,
                 fields: [
                     {
@@ -1218,12 +1825,28 @@ export class TwitterPostClient {
                         value: cleanedContent.length.toString(),
                         inline: true,
                     },
+                    ...(images.length > 0
+                        ? [
+                              {
+                                  name: "Image prompt",
+                                  value: images[0].prompt.slice(0, 1024),
+                              },
+                          ]
+                        : []),
                 ],
+                ...(files.length > 0
+                    ? { image: { url: `attachment://${files[0].name}` } }
+                    : {}),
                 footer: {
-                    text: "Reply with '👍' to post or '❌' to discard, This will automatically expire and remove after 24 hours if no response received",
+                    text: `${instructions.join(", ")}. This will automatically expire and remove after 24 hours if no response received`,
                 },
                 timestamp: new Date().toISOString(),
             };
+            // Every further candidate gets its own embed so it can be previewed
+            const candidateEmbeds = files.slice(1).map((file, index) => ({
+                title: `Image ${CANDIDATE_REACTIONS[index + 1]}`,
+                image: { url: `attachment://${file.name}` },
+            }));
 
             const channel = await this.discordClientForApproval.channels.fetch(
                 this.discordApprovalChannelId
@@ -1233,7 +1856,25 @@ export class TwitterPostClient {
                 throw new Error("Invalid approval channel");
             }
 
-            const message = await channel.send({ embeds: [embed] });
+            const message = await channel.send({
+                embeds: [embed, ...candidateEmbeds],
+                files,
+            });
+
+            // Offer the numbered and regenerate reactions to click on
+            try {
+                if (images.length > 1) {
+                    for (const emoji of CANDIDATE_REACTIONS.slice(
+                        0,
+                        images.length
+                    )) {
+                        await message.react(emoji);
+                    }
+                }
+                await message.react(REGENERATE_REACTION);
+            } catch (error) {
+                elizaLogger.warn("Error adding approval reactions:", error);
+            }
 
             // Store the pending tweet
             const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweet`;
@@ -1249,6 +1890,8 @@ export class TwitterPostClient {
                 discordMessageId: message.id,
                 channelId: this.discordApprovalChannelId,
                 timestamp: Date.now(),
+                images,
+                metadata,
             });
 
             // Store updated array
@@ -1268,8 +1911,9 @@ export class TwitterPostClient {
     }
 
     private async checkApprovalStatus(
-        discordMessageId: string
-    ): Promise<PendingTweetApprovalStatus> {
+        discordMessageId: string,
+        candidateCount: number
+    ): Promise<PendingTweetApproval> {
         try {
             // Fetch message and its replies from Discord
             const channel = await this.discordClientForApproval.channels.fetch(
@@ -1280,47 +1924,67 @@ export class TwitterPostClient {
 
             if (!(channel instanceof TextChannel)) {
                 elizaLogger.error("Invalid approval channel");
-                return "PENDING";
+                return { status: "PENDING" };
             }
 
             // Fetch the original message and its replies
             const message = await channel.messages.fetch(discordMessageId);
 
-            // Look for thumbs up reaction ('👍')
-            const thumbsUpReaction = message.reactions.cache.find(
-                (reaction) => reaction.emoji.name === "👍"
-            );
-
-            // Look for reject reaction ('❌')
-            const rejectReaction = message.reactions.cache.find(
-                (reaction) => reaction.emoji.name === "❌"
+            // Reactions the bot added itself to offer the choices don't count
+            // You might want to check for specific users who can approve
+            const reactions = message.reactions.cache.map(
+                (reaction: MessageReaction) => ({
+                    emoji: reaction.emoji.name,
+                    count: reaction.count - (reaction.me ? 1 : 0),
+                })
             );
 
-            // Check if the reaction exists and has reactions
-            if (rejectReaction) {
-                const count = rejectReaction.count;
-                if (count > 0) {
-                    return "REJECTED";
-                }
-            }
-
-            // Check if the reaction exists and has reactions
-            if (thumbsUpReaction) {
-                // You might want to check for specific users who can approve
-                // For now, we'll return true if anyone used thumbs up
-                const count = thumbsUpReaction.count;
-                if (count > 0) {
-                    return "APPROVED";
-                }
-            }
-
-            return "PENDING";
+            return readApprovalReactions(reactions, candidateCount);
         } catch (error) {
             elizaLogger.error("Error checking approval status:", error);
-            return "PENDING";
+            return { status: "PENDING" };
         }
     }
 
+    /**
+     * Makes new candidate images for a pending tweet, reusing its image
+     * prompt and style when it has one.
+     */
+    private async regeneratePendingImages(
+        pendingTweet: PendingTweet
+    ): Promise<PostImage[]> {
+        const previous = pendingTweet.images?.[0];
+        if (!previous) {
+            const state = await this.runtime.composeState(
+                {
+                    userId: this.runtime.agentId,
+                    roomId: pendingTweet.roomId,
+                    agentId: this.runtime.agentId,
+                    content: { text: pendingTweet.cleanedContent },
+                },
+                { twitterUserName: this.client.profile.username }
+            );
+            return this.generatePostImages(
+                pendingTweet.cleanedContent,
+                state,
+                this.approvalImageCandidates
+            );
+        }
+
+        const style =
+            this.runtime.character.settings?.imageSettings?.styles?.[
+                previous.style
+            ] ??
+            (await selectImageStyle(this.runtime, pendingTweet.cleanedContent))
+                .profile;
+        return this.renderPostImages(
+            previous.prompt,
+            previous.style ?? "default",
+            style,
+            this.approvalImageCandidates
+        );
+    }
+
     private async cleanupPendingTweet(discordMessageId: string) {
         const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweet`;
         const currentPendingTweets =
@@ -1386,19 +2050,49 @@ export class TwitterPostClient {
 
             // Check approval status
             elizaLogger.log("Checking approval status...");
-            const approvalStatus: PendingTweetApprovalStatus =
-                await this.checkApprovalStatus(pendingTweet.discordMessageId);
+            const images = pendingTweet.images ?? [];
+            const approval = await this.checkApprovalStatus(
+                pendingTweet.discordMessageId,
+                images.length
+            );
 
-            if (approvalStatus === "APPROVED") {
+            if (approval.status === "APPROVED") {
                 elizaLogger.log("Tweet Approved, Posting");
-                await this.postTweet(
-                    this.runtime,
-                    this.client,
-                    pendingTweet.cleanedContent,
-                    pendingTweet.roomId,
-                    pendingTweet.newTweetContent,
-                    this.twitterUsername
+                const parts = this.composeTweetThread(
+                    pendingTweet.cleanedContent
                 );
+                if (parts.length > 1) {
+                    try {
+                        await this.postThread(
+                            pendingTweet.discordMessageId,
+                            parts,
+                            pendingTweet.roomId,
+                            images.slice(
+                                approval.imageIndex ?? 0,
+                                (approval.imageIndex ?? 0) + 1
+                            ),
+                            pendingTweet.metadata
+                        );
+                    } catch (error) {
+                        // Keep it pending so the next check resumes the thread
+                        elizaLogger.error(
+                            "Error posting approved thread:",
+                            error
+                        );
+                        continue;
+                    }
+                } else {
+                    await this.postTweet(
+                        this.runtime,
+                        this.client,
+                        pendingTweet.cleanedContent,
+                        pendingTweet.roomId,
+                        pendingTweet.newTweetContent,
+                        this.twitterUsername,
+                        images[approval.imageIndex],
+                        pendingTweet.metadata
+                    );
+                }
 
                 // Notify on Discord about posting
                 try {
@@ -1422,7 +2116,39 @@ export class TwitterPostClient {
                 }
 
                 await this.cleanupPendingTweet(pendingTweet.discordMessageId);
-            } else if (approvalStatus === "REJECTED") {
+            } else if (approval.status === "REGENERATE") {
+                elizaLogger.log("Regenerating images for pending tweet");
+                await this.cleanupPendingTweet(pendingTweet.discordMessageId);
+                try {
+                    const channel =
+                        await this.discordClientForApproval.channels.fetch(
+                            pendingTweet.channelId
+                        );
+                    if (channel instanceof TextChannel) {
+                        const originalMessage = await channel.messages.fetch(
+                            pendingTweet.discordMessageId
+                        );
+                        await originalMessage.reply(
+                            "Regenerating the image, a new approval request will follow 🔄"
+                        );
+                    }
+                } catch (error) {
+                    elizaLogger.error(
+                        "Error sending regeneration notification:",
+                        error
+                    );
+                }
+
+                const newImages =
+                    await this.regeneratePendingImages(pendingTweet);
+                await this.sendForApproval(
+                    pendingTweet.cleanedContent,
+                    pendingTweet.roomId,
+                    pendingTweet.newTweetContent,
+                    newImages,
+                    pendingTweet.metadata
+                );
+            } else if (approval.status === "REJECTED") {
                 elizaLogger.log("Tweet Rejected, Cleaning Up");
                 await this.cleanupPendingTweet(pendingTweet.discordMessageId);
                 // Notify about Rejection of Tweet
@@ -0,0 +1,32 @@
+import { IAgentRuntime, Memory, Provider, State } from "@elizaos/core";
+import {
+    formatPostPerformance,
+    getPostMetrics,
+    summarizePostMetrics,
+} from "../analytics.ts";
+
+/** How far back the summary looks */
+const PERFORMANCE_WINDOW_DAYS = 14;
+
+/**
+ * Summarizes how the agent's recent posts performed, so that generating a
+ * new post can lean on what worked. Only adds to the context of new posts.
+ */
+const postPerformanceProvider: Provider = {
+    get: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        const twitterUsername = state?.twitterUserName as string | undefined;
+        if (message.content.action !== "TWEET" || !twitterUsername) {
+            return "";
+        }
+
+        const since =
+            Date.now() - PERFORMANCE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+        const report = summarizePostMetrics(
+            await getPostMetrics(runtime, twitterUsername),
+            since
+        );
+        return formatPostPerformance(report, runtime.character.name);
+    },
+};
+
+export default postPerformanceProvider;
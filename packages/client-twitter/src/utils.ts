@@ -1,6 +1,7 @@
 import { Tweet } from "agent-twitter-client";
 import { getEmbeddingZeroVector } from "@elizaos/core";
-import { Content, Memory, UUID } from "@elizaos/core";
+import { Content, IAgentRuntime, Memory, UUID } from "@elizaos/core";
+import { detectImageMimeType, postProcessImage } from "@elizaos/core";
 import { stringToUuid } from "@elizaos/core";
 import { ClientBase } from "./base";
 import { elizaLogger } from "@elizaos/core";
@@ -288,6 +289,71 @@ export async function sendTweet(
     return memories;
 }
 
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/jpg": "jpg",
+    "image/gif": "gif",
+    "image/webp": "webp",
+};
+
+/**
+ * Saves an image returned by generateImage (a data URL, raw base64 or a
+ * remote URL) into the generatedImages directory so it can be uploaded
+ * as tweet media. With a runtime, the image is first post-processed for
+ * Twitter.
+ */
+export async function saveGeneratedImage(
+    image: string,
+    filename: string,
+    options?: { runtime: IAgentRuntime; prompt?: string }
+): Promise<{ filepath: string; data: Buffer; mediaType: string }> {
+    const imageDir = path.join(process.cwd(), "generatedImages");
+    if (!fs.existsSync(imageDir)) {
+        fs.mkdirSync(imageDir, { recursive: true });
+    }
+
+    let data: Buffer;
+    let mediaType = "image/png";
+
+    if (/^(http|https):\/\//.test(image)) {
+        const response = await fetch(image);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch image: ${response.statusText}`);
+        }
+        data = Buffer.from(await response.arrayBuffer());
+        mediaType =
+            response.headers.get("content-type")?.split(";")[0] || mediaType;
+    } else {
+        const match = image.match(/^data:(image\/[\w+.-]+);base64,/);
+        if (match) {
+            mediaType = match[1];
+        }
+        data = Buffer.from(
+            image.replace(/^data:image\/[\w+.-]+;base64,/, ""),
+            "base64"
+        );
+    }
+
+    if (options?.runtime) {
+        const processed = await postProcessImage(
+            options.runtime,
+            { data, mimeType: mediaType },
+            { platform: "twitter", prompt: options.prompt }
+        );
+        data = processed.data;
+        mediaType = processed.mimeType;
+    } else {
+        mediaType = detectImageMimeType(data) ?? mediaType;
+    }
+
+    const extension = IMAGE_EXTENSIONS[mediaType] || "png";
+    const filepath = path.join(imageDir, `${filename}.${extension}`);
+    await fs.promises.writeFile(filepath, data);
+
+    return { filepath, data, mediaType };
+}
+
 function splitTweetContent(content: string, maxLength: number): string[] {
     const paragraphs = content.split("\n\n").map((p) => p.trim());
     const tweets: string[] = [];
@@ -324,6 +390,51 @@ function splitTweetContent(content: string, maxLength: number): string[] {
     return tweets;
 }
 
+/** Room left in each tweet of a thread for the widest "i/n" number */
+function getThreadPartLength(maxLength: number, maxTweets: number): number {
+    return maxLength - `\n\n${maxTweets}/${maxTweets}`.length;
+}
+
+/**
+ * Text a thread of up to `maxTweets` tweets has room for once numbered
+ */
+export function getThreadTextLength(
+    maxLength: number,
+    maxTweets: number
+): number {
+    return getThreadPartLength(maxLength, maxTweets) * maxTweets;
+}
+
+/**
+ * Splits content into the tweets of a thread at paragraph and sentence
+ * boundaries, each ending in its "i/n" number. Content that fits in one tweet
+ * is returned as is. Parts beyond `maxTweets` are dropped with a warning.
+ */
+export function composeThread(
+    content: string,
+    maxLength: number,
+    maxTweets: number
+): string[] {
+    const text = content.trim();
+    if (text.length <= maxLength) {
+        return [text];
+    }
+
+    const partLength = getThreadPartLength(maxLength, maxTweets);
+    let parts = splitTweetContent(text, partLength);
+    if (parts.length > maxTweets) {
+        elizaLogger.warn(
+            `Thread needs ${parts.length} tweets, dropping the last ${parts.length - maxTweets} beyond TWITTER_THREAD_MAX_TWEETS (${maxTweets})`
+        );
+        parts = parts.slice(0, maxTweets);
+    }
+
+    if (parts.length === 1) {
+        return parts;
+    }
+    return parts.map((part, i) => `${part}\n\n${i + 1}/${parts.length}`);
+}
+
 function extractUrls(paragraph: string): {
     textWithPlaceholders: string;
     placeholderMap: Map<string, string>;
@@ -1,10 +1,15 @@
 import { describe, expect, it } from "vitest";
 import {
+    ActionAbortedError,
     composeActionExamples,
     formatActionNames,
     formatActions,
+    getActionAttachments,
+    getActionCalls,
+    resolveAction,
+    runWithActionTimeout,
 } from "../src/actions";
-import { Action } from "../src/types";
+import { Action, ActionResult } from "../src/types";
 
 describe("Actions", () => {
     const mockActions: Action[] = [
@@ -182,4 +187,137 @@ describe("Actions", () => {
             expect(names.length).toBe(uniqueNames.size);
         });
     });
+
+    describe("resolveAction", () => {
+        it("should prefer exact names over similes and partial matches", () => {
+            expect(resolveAction(mockActions, "GREET").action?.name).toBe(
+                "greet"
+            );
+            expect(resolveAction(mockActions, "say_bye").action?.name).toBe(
+                "farewell"
+            );
+            expect(resolveAction(mockActions, "helping").action?.name).toBe(
+                "help"
+            );
+        });
+
+        it("should report ambiguous partial matches", () => {
+            expect(resolveAction(mockActions, "say")).toEqual({
+                candidates: ["greet", "farewell"],
+            });
+        });
+
+        it("should return no candidates for unknown actions", () => {
+            expect(resolveAction(mockActions, "dance")).toEqual({
+                candidates: [],
+            });
+            expect(resolveAction(mockActions, "")).toEqual({ candidates: [] });
+        });
+    });
+
+    describe("getActionCalls", () => {
+        it("should read the actions list in order", () => {
+            expect(
+                getActionCalls({
+                    text: "",
+                    action: "ignored",
+                    actions: [
+                        { name: "GENERATE_IMAGE", params: { seed: 1 } },
+                        "POST_TWEET" as never,
+                        { name: " " },
+                    ],
+                })
+            ).toEqual([
+                { name: "GENERATE_IMAGE", params: { seed: 1 } },
+                { name: "POST_TWEET" },
+            ]);
+        });
+
+        it("should fall back to the single action", () => {
+            expect(getActionCalls({ text: "", action: "greet" })).toEqual([
+                { name: "greet" },
+            ]);
+            expect(getActionCalls({ text: "" })).toEqual([]);
+        });
+
+        it("should keep a CONTINUE the actions list lacks", () => {
+            expect(
+                getActionCalls({
+                    text: "",
+                    action: "CONTINUE",
+                    actions: [{ name: "GENERATE_IMAGE" }],
+                })
+            ).toEqual([{ name: "CONTINUE" }]);
+            expect(
+                getActionCalls({
+                    text: "",
+                    action: "CONTINUE",
+                    actions: [{ name: "CONTINUE" }, { name: "GENERATE_IMAGE" }],
+                })
+            ).toEqual([{ name: "CONTINUE" }, { name: "GENERATE_IMAGE" }]);
+        });
+    });
+
+    describe("getActionAttachments", () => {
+        it("should collect attachments of successful actions", () => {
+            const image = {
+                id: "1",
+                url: "image.png",
+                title: "",
+                source: "",
+                description: "",
+                text: "",
+            };
+            const results = [
+                {
+                    status: "success",
+                    content: [{ text: "", attachments: [image] }],
+                },
+                {
+                    status: "error",
+                    content: [{ text: "", attachments: [image] }],
+                },
+                { status: "success" },
+            ] as ActionResult[];
+            expect(getActionAttachments(results)).toEqual([image]);
+        });
+    });
+
+    describe("runWithActionTimeout", () => {
+        it("should resolve with the action's value", async () => {
+            const controller = new AbortController();
+            await expect(
+                runWithActionTimeout(async () => "done", controller, 1000)
+            ).resolves.toBe("done");
+            expect(controller.signal.aborted).toBe(false);
+        });
+
+        it("should time out and abort the action", async () => {
+            const controller = new AbortController();
+            const error = await runWithActionTimeout(
+                () => new Promise(() => {}),
+                controller,
+                10
+            ).catch((error) => error);
+            expect(error).toBeInstanceOf(ActionAbortedError);
+            expect(error.status).toBe("timeout");
+            expect(controller.signal.aborted).toBe(true);
+        });
+
+        it("should cancel when the signal aborts", async () => {
+            const controller = new AbortController();
+            const cancel = new AbortController();
+            const running = runWithActionTimeout(
+                () => new Promise(() => {}),
+                controller,
+                1000,
+                cancel.signal
+            );
+            cancel.abort();
+            await expect(running).rejects.toMatchObject({
+                status: "cancelled",
+            });
+            expect(controller.signal.aborted).toBe(true);
+        });
+    });
 });
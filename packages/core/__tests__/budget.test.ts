@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+    applyBudgetToModelClass,
+    getBudgetStatus,
+    recordModelSpend,
+} from "../src/budget.ts";
+import {
+    IAgentRuntime,
+    ModelBudgetSettings,
+    ModelClass,
+    ModelTrace,
+} from "../src/types.ts";
+
+function createRuntime(budget?: ModelBudgetSettings) {
+    const cache = new Map<string, string>();
+    return {
+        agentId: "agent",
+        character: { name: "Agent", settings: { budget } },
+        cacheManager: {
+            get: vi.fn(async (key: string) =>
+                cache.has(key) ? JSON.parse(cache.get(key)) : undefined
+            ),
+            set: async (key: string, value: unknown) => {
+                cache.set(key, JSON.stringify(value));
+            },
+        },
+        messageManager: { createMemory: vi.fn(async () => {}) },
+    } as unknown as IAgentRuntime;
+}
+
+// 2025-01-31 12:00 UTC
+const NOON = Date.UTC(2025, 0, 31, 12);
+const DAY = 24 * 60 * 60 * 1000;
+
+function spend(
+    runtime: IAgentRuntime,
+    cost: number,
+    kind: ModelTrace["kind"] = "text",
+    createdAt = NOON
+) {
+    return recordModelSpend(runtime, {
+        kind,
+        cost,
+        createdAt,
+    } as ModelTrace);
+}
+
+describe("Model budgets", () => {
+    it("holds nothing back without a budget", async () => {
+        const runtime = createRuntime();
+        await spend(runtime, 100);
+
+        const status = await getBudgetStatus(runtime, NOON);
+        expect(status).toMatchObject({
+            day: "2025-01-31",
+            month: "2025-01",
+            downgradeModels: false,
+            skipOptionalImages: false,
+            pausePosting: false,
+        });
+        expect(status.text.daily.spent).toBe(0);
+        expect(runtime.cacheManager.get).not.toHaveBeenCalled();
+    });
+
+    it("adds up spend per day and month", async () => {
+        const runtime = createRuntime({ dailyText: 10, monthlyImage: 5 });
+        await spend(runtime, 1);
+        await Promise.all([spend(runtime, 2), spend(runtime, 1, "image")]);
+
+        const status = await getBudgetStatus(runtime, NOON);
+        expect(status.text).toEqual({
+            daily: { spent: 3, limit: 10 },
+            monthly: { spent: 3, limit: undefined },
+            usage: 0.3,
+            exhausted: false,
+        });
+        expect(status.image.monthly).toEqual({ spent: 1, limit: 5 });
+
+        // A new day keeps the month's spend, a new month starts afresh
+        await spend(runtime, 1, "text", NOON + DAY);
+        const nextDay = await getBudgetStatus(runtime, NOON + DAY);
+        expect(nextDay.month).toBe("2025-02");
+        expect(nextDay.text.daily.spent).toBe(1);
+        expect(nextDay.text.monthly.spent).toBe(1);
+        expect(nextDay.image.monthly.spent).toBe(0);
+    });
+
+    it("downgrades, skips images and pauses posting near the limits", async () => {
+        const runtime = createRuntime({
+            dailyText: 10,
+            dailyImage: 1,
+            skipImagesAt: 0.5,
+        });
+
+        await spend(runtime, 8);
+        await spend(runtime, 0.6, "image");
+        let status = await getBudgetStatus(runtime, NOON);
+        expect(status.downgradeModels).toBe(true);
+        expect(status.skipOptionalImages).toBe(true);
+        expect(status.pausePosting).toBe(false);
+        expect(status.image.exhausted).toBe(false);
+
+        await spend(runtime, 2);
+        await spend(runtime, 0.4, "image");
+        status = await getBudgetStatus(runtime, NOON);
+        expect(status.pausePosting).toBe(true);
+        expect(status.image.exhausted).toBe(true);
+    });
+
+    it("warns once a day per threshold", async () => {
+        const runtime = createRuntime({ dailyText: 1 });
+        await spend(runtime, 0.9);
+        await spend(runtime, 0.05);
+        await spend(runtime, 0.1);
+
+        const memories = vi
+            .mocked(runtime.messageManager.createMemory)
+            .mock.calls.map(([memory]) => memory.content.text);
+        expect(memories).toHaveLength(2);
+        expect(memories[0]).toContain("downgraded to SMALL");
+        expect(memories[1]).toContain("autonomous posting is paused");
+        expect(memories[1]).toContain("$1.05 of $1.00 today");
+    });
+
+    it("runs LARGE calls as SMALL once the text budget is nearly spent", async () => {
+        const runtime = createRuntime({ monthlyText: 10, downgradeAt: 0.5 });
+        expect(await applyBudgetToModelClass(runtime, ModelClass.LARGE)).toBe(
+            ModelClass.LARGE
+        );
+
+        await spend(runtime, 5, "object", Date.now());
+        expect(await applyBudgetToModelClass(runtime, ModelClass.LARGE)).toBe(
+            ModelClass.SMALL
+        );
+        expect(await applyBudgetToModelClass(runtime, ModelClass.IMAGE)).toBe(
+            ModelClass.IMAGE
+        );
+    });
+});
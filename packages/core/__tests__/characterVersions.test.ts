@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { CacheManager, MemoryCacheAdapter } from "../src/cache.ts";
+import {
+    applyCharacterEdit,
+    CharacterValidationError,
+    diffCharacters,
+    getCharacterVersions,
+    rollbackCharacter,
+    validateCharacterEdit,
+} from "../src/characterVersions.ts";
+import { defaultCharacter } from "../src/defaultCharacter.ts";
+import { Character, IAgentRuntime, Plugin } from "../src/types.ts";
+
+const plugin: Plugin = {
+    name: "test",
+    description: "Test plugin",
+    actions: [],
+};
+
+function createRuntime() {
+    const character: Character = {
+        ...structuredClone(defaultCharacter),
+        plugins: [plugin],
+        settings: { secrets: { OPENAI_API_KEY: "secret" } },
+    };
+    return {
+        agentId: "agent",
+        character,
+        cacheManager: new CacheManager(new MemoryCacheAdapter()),
+    } as unknown as IAgentRuntime;
+}
+
+/** The character as the editor gets it, sent as JSON without secrets */
+function getEditable(runtime: IAgentRuntime): Character {
+    const { secrets: _secrets, ...settings } = runtime.character.settings;
+    return JSON.parse(JSON.stringify({ ...runtime.character, settings }));
+}
+
+describe("Character versions", () => {
+    it("lists the changed values by path", () => {
+        expect(
+            diffCharacters(
+                { bio: ["a"], style: { all: ["x"], chat: [] } },
+                { bio: ["a", "b"], style: { all: ["x"], chat: [] }, topics: [] }
+            )
+        ).toEqual([
+            { path: "bio", before: ["a"], after: ["a", "b"] },
+            { path: "topics", before: undefined, after: [] },
+        ]);
+    });
+
+    it("reports schema errors and fields that need a restart", () => {
+        const runtime = createRuntime();
+        const edited = {
+            ...getEditable(runtime),
+            name: "Other",
+            lore: "not a list",
+        };
+
+        expect(validateCharacterEdit(runtime.character, edited)).toEqual([
+            { path: "lore", message: "Expected array, received string" },
+            {
+                path: "name",
+                message: "Changing this field needs the agent restarted",
+            },
+        ]);
+        expect(
+            validateCharacterEdit(runtime.character, getEditable(runtime))
+        ).toEqual([]);
+    });
+
+    it("applies edits in place and records versions", async () => {
+        const runtime = createRuntime();
+        const character = runtime.character;
+
+        const version = await applyCharacterEdit(
+            runtime,
+            { ...getEditable(runtime), bio: ["A new bio"] },
+            "Shorter bio"
+        );
+
+        expect(runtime.character).toBe(character);
+        expect(character.bio).toEqual(["A new bio"]);
+        expect(character.plugins[0]).toBe(plugin);
+        expect(character.settings.secrets).toEqual({
+            OPENAI_API_KEY: "secret",
+        });
+        expect(version).toMatchObject({
+            version: 2,
+            note: "Shorter bio",
+            changes: [
+                {
+                    path: "bio",
+                    before: defaultCharacter.bio,
+                    after: ["A new bio"],
+                },
+            ],
+        });
+
+        const versions = await getCharacterVersions(runtime);
+        expect(versions.map((item) => item.version)).toEqual([1, 2]);
+        expect(versions[0].character.bio).toEqual(defaultCharacter.bio);
+        expect(versions[1].character.settings.secrets).toBeUndefined();
+    });
+
+    it("rejects invalid edits without applying them", async () => {
+        const runtime = createRuntime();
+
+        await expect(
+            applyCharacterEdit(runtime, {
+                ...getEditable(runtime),
+                name: "Other",
+            })
+        ).rejects.toBeInstanceOf(CharacterValidationError);
+        expect(runtime.character.name).toBe(defaultCharacter.name);
+        expect(await getCharacterVersions(runtime)).toEqual([]);
+    });
+
+    it("rolls back to an earlier version as a new version", async () => {
+        const runtime = createRuntime();
+        await applyCharacterEdit(runtime, {
+            ...getEditable(runtime),
+            bio: ["A new bio"],
+        });
+
+        const version = await rollbackCharacter(runtime, 1);
+
+        expect(version).toMatchObject({
+            version: 3,
+            note: "Rollback to version 1",
+        });
+        expect(runtime.character.bio).toEqual(defaultCharacter.bio);
+        expect(await rollbackCharacter(runtime, 7)).toBeNull();
+    });
+});
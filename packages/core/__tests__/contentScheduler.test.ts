@@ -0,0 +1,350 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+    ContentScheduler,
+    findNextPublishingTime,
+    getZonedTime,
+    isInQuietHours,
+    matchesCron,
+} from "../src/contentScheduler.ts";
+import {
+    ContentPublisher,
+    ContentSchedulerSettings,
+    IAgentRuntime,
+} from "../src/types.ts";
+
+function createRuntime(scheduler?: ContentSchedulerSettings): IAgentRuntime {
+    const cache = new Map<string, string>();
+    return {
+        character: { settings: { scheduler } },
+        cacheManager: {
+            get: async (key: string) =>
+                cache.has(key) ? JSON.parse(cache.get(key)) : undefined,
+            set: async (key: string, value: unknown) => {
+                cache.set(key, JSON.stringify(value));
+            },
+            delete: async (key: string) => {
+                cache.delete(key);
+            },
+        },
+    } as unknown as IAgentRuntime;
+}
+
+function createPublisher(
+    platform: string,
+    overrides: Partial<ContentPublisher> = {}
+): ContentPublisher {
+    return {
+        platform,
+        publish: vi.fn().mockResolvedValue({ id: `${platform}-1` }),
+        minIntervalMinutes: 60,
+        maxIntervalMinutes: 60,
+        ...overrides,
+    };
+}
+
+// Monday 2025-01-06 12:00 UTC
+const MONDAY_NOON = Date.UTC(2025, 0, 6, 12, 0);
+const MINUTE = 60 * 1000;
+
+describe("Schedule windows", () => {
+    const time = getZonedTime(MONDAY_NOON, "UTC");
+
+    it("reads calendar fields in a time zone", () => {
+        expect(time).toEqual({
+            minute: 0,
+            hour: 12,
+            day: 6,
+            month: 1,
+            weekday: 1,
+        });
+        expect(getZonedTime(MONDAY_NOON, "America/New_York").hour).toBe(7);
+    });
+
+    it("matches cron expressions", () => {
+        expect(matchesCron("* * * * *", time)).toBe(true);
+        expect(matchesCron("0 9-17 * * mon-fri", time)).toBe(true);
+        expect(matchesCron("*/15 12 * jan 1", time)).toBe(true);
+        expect(matchesCron("0 9,18 * * *", time)).toBe(false);
+        expect(matchesCron("* * * * sat,sun", time)).toBe(false);
+        expect(() => matchesCron("* * *", time)).toThrow();
+        expect(() => matchesCron("61 * * * *", time)).toThrow();
+    });
+
+    it("checks quiet hours across midnight", () => {
+        expect(isInQuietHours("22:00-07:00", { ...time, hour: 23 })).toBe(true);
+        expect(isInQuietHours("22:00-07:00", { ...time, hour: 6 })).toBe(true);
+        expect(isInQuietHours("22:00-07:00", time)).toBe(false);
+        expect(isInQuietHours("12:00-13:00", time)).toBe(true);
+        expect(() => isInQuietHours("noon", time)).toThrow();
+    });
+
+    it("finds the next allowed minute", () => {
+        const settings = {
+            timezone: "UTC",
+            windows: ["0 18 * * *", "0 9 * * tue"],
+            quietHours: "17:00-18:30",
+        };
+        // The 18:00 window is inside quiet hours, so the next is Tuesday 9:00
+        expect(findNextPublishingTime(settings, MONDAY_NOON)).toBe(
+            Date.UTC(2025, 0, 7, 9, 0)
+        );
+        expect(findNextPublishingTime({ timezone: "UTC" }, MONDAY_NOON)).toBe(
+            MONDAY_NOON
+        );
+        expect(
+            findNextPublishingTime(
+                { timezone: "UTC", windows: ["0 0 30 feb *"] },
+                MONDAY_NOON
+            )
+        ).toBeNull();
+    });
+});
+
+describe("ContentScheduler", () => {
+    it("publishes queued posts adapted per platform", async () => {
+        const runtime = createRuntime();
+        const scheduler = new ContentScheduler(runtime, {
+            now: () => MONDAY_NOON,
+        });
+        const twitter = createPublisher("twitter", {
+            adapt: (content) => ({
+                ...content,
+                text: content.text.slice(0, 5),
+            }),
+        });
+        const lens = createPublisher("lens", {
+            adapt: (content) => ({ text: content.text }),
+        });
+        scheduler.registerPublisher(twitter);
+        scheduler.registerPublisher(lens);
+
+        const posts = await scheduler.enqueue({
+            text: "hello world",
+            images: [{ filepath: "a.png", mediaType: "image/png" }],
+        });
+        expect(posts.map((post) => post.platform)).toEqual(["twitter", "lens"]);
+        expect(posts[0].content).toEqual({
+            text: "hello",
+            images: [{ filepath: "a.png", mediaType: "image/png" }],
+        });
+        expect(posts[1].content).toEqual({ text: "hello world" });
+        expect(posts[0].groupId).toBe(posts[1].groupId);
+
+        await scheduler.tick();
+
+        expect(twitter.publish).toHaveBeenCalledTimes(1);
+        expect(lens.publish).toHaveBeenCalledTimes(1);
+        expect(await scheduler.getQueue()).toEqual([]);
+        const history = await scheduler.getHistory();
+        expect(history.map((post) => post.status)).toEqual([
+            "published",
+            "published",
+        ]);
+        expect(history[1].result).toEqual({ id: "twitter-1" });
+    });
+
+    it("generates content when the queue is empty and cross-posts it", async () => {
+        const runtime = createRuntime({
+            platforms: { twitter: { crossPostTo: ["farcaster", "lens"] } },
+        });
+        const scheduler = new ContentScheduler(runtime, {
+            now: () => MONDAY_NOON,
+        });
+        const twitter = createPublisher("twitter", {
+            generate: vi.fn().mockResolvedValue({ text: "generated" }),
+        });
+        const farcaster = createPublisher("farcaster");
+        scheduler.registerPublisher(twitter);
+        scheduler.registerPublisher(farcaster);
+
+        await scheduler.publishNow("twitter");
+
+        expect(twitter.publish).toHaveBeenCalledWith(
+            expect.objectContaining({ content: { text: "generated" } })
+        );
+        // Lens has no publisher, so only the farcaster copy is queued
+        const queue = await scheduler.getQueue();
+        expect(queue).toHaveLength(1);
+        expect(queue[0].platform).toBe("farcaster");
+    });
+
+    it("waits for the interval, windows and quota", async () => {
+        let now = MONDAY_NOON;
+        const runtime = createRuntime({
+            timezone: "UTC",
+            quietHours: "13:30-14:00",
+            maxPerDay: 2,
+        });
+        const scheduler = new ContentScheduler(runtime, { now: () => now });
+        const generate = vi.fn().mockResolvedValue({ text: "post" });
+        const twitter = createPublisher("twitter", { generate });
+        scheduler.registerPublisher(twitter);
+
+        await scheduler.tick();
+        expect(twitter.publish).toHaveBeenCalledTimes(1);
+
+        now += 30 * MINUTE;
+        await scheduler.tick();
+        expect(twitter.publish).toHaveBeenCalledTimes(1);
+
+        // The interval passed at 13:00, but it is quiet hours now
+        now += 60 * MINUTE;
+        await scheduler.tick();
+        expect(twitter.publish).toHaveBeenCalledTimes(1);
+
+        now += 30 * MINUTE;
+        await scheduler.tick();
+        expect(twitter.publish).toHaveBeenCalledTimes(2);
+
+        // The daily quota is used up
+        now += 120 * MINUTE;
+        await scheduler.tick();
+        expect(twitter.publish).toHaveBeenCalledTimes(2);
+
+        const [schedule] = await scheduler.getSchedule();
+        expect(schedule.publishedLastDay).toBe(2);
+        expect(schedule.nextPublishAt).toBe(MONDAY_NOON + 24 * 60 * MINUTE);
+    });
+
+    it("retries failed posts before marking them failed", async () => {
+        const runtime = createRuntime();
+        const scheduler = new ContentScheduler(runtime, {
+            now: () => MONDAY_NOON,
+        });
+        const publish = vi.fn().mockRejectedValue(new Error("rate limited"));
+        scheduler.registerPublisher(createPublisher("lens", { publish }));
+        const [post] = await scheduler.enqueue({ text: "hi" });
+
+        for (let i = 0; i < 2; i++) {
+            const result = await scheduler.publishNow("lens", post.id);
+            expect(result.status).toBe("queued");
+        }
+        const result = await scheduler.publishNow("lens", post.id);
+
+        expect(result.status).toBe("failed");
+        expect(result.error).toBe("rate limited");
+        expect(result.attempts).toBe(3);
+        expect(await scheduler.getQueue()).toEqual([]);
+    });
+
+    it("does not publish a post twice", async () => {
+        const runtime = createRuntime();
+        const scheduler = new ContentScheduler(runtime, {
+            now: () => MONDAY_NOON,
+        });
+        let release: () => void;
+        const publish = vi.fn(
+            () =>
+                new Promise<void>((resolve) => {
+                    release = resolve;
+                })
+        );
+        scheduler.registerPublisher(createPublisher("lens", { publish }));
+        const [post] = await scheduler.enqueue({ text: "hi" });
+
+        const first = scheduler.publishNow("lens", post.id);
+        await vi.waitFor(() => expect(publish).toHaveBeenCalled());
+        await expect(scheduler.publishNow("lens", post.id)).rejects.toThrow(
+            "No queued lens post"
+        );
+        release();
+
+        expect((await first).status).toBe("published");
+        expect(publish).toHaveBeenCalledTimes(1);
+        expect(await scheduler.getHistory()).toHaveLength(1);
+    });
+
+    it("records posts that were not published", async () => {
+        const runtime = createRuntime({ maxPerDay: 1 });
+        const scheduler = new ContentScheduler(runtime, {
+            now: () => MONDAY_NOON,
+        });
+        const publish = vi
+            .fn()
+            .mockResolvedValueOnce({ status: "pending_approval" })
+            .mockResolvedValueOnce({ status: "skipped" });
+        scheduler.registerPublisher(createPublisher("twitter", { publish }));
+        const posts = await scheduler.enqueue({ text: "hi" });
+        posts.push(...(await scheduler.enqueue({ text: "again" })));
+
+        for (const post of posts) {
+            await scheduler.publishNow("twitter", post.id);
+        }
+
+        const history = await scheduler.getHistory();
+        expect(history.map((post) => post.status)).toEqual([
+            "skipped",
+            "pending_approval",
+        ]);
+        expect(history[0].publishedAt).toBeUndefined();
+        const [schedule] = await scheduler.getSchedule();
+        expect(schedule.publishedLastDay).toBe(0);
+    });
+
+    it("edits queued posts", async () => {
+        const runtime = createRuntime();
+        const scheduler = new ContentScheduler(runtime, {
+            now: () => MONDAY_NOON,
+        });
+        scheduler.registerPublisher(
+            createPublisher("twitter", {
+                adapt: (content) => ({
+                    ...content,
+                    text: content.text.slice(0, 5),
+                }),
+            })
+        );
+        const [post] = await scheduler.enqueue(
+            { text: "hi" },
+            { notBefore: MONDAY_NOON + MINUTE }
+        );
+
+        const image = { filepath: "b.png", mediaType: "image/png" };
+        const updated = await scheduler.updatePost(post.id, {
+            text: "edited text",
+            images: [image],
+            notBefore: null,
+        });
+
+        expect(updated.content).toEqual({ text: "edite", images: [image] });
+        expect(updated.notBefore).toBeUndefined();
+        expect(await scheduler.getPost(post.id)).toEqual(updated);
+
+        await scheduler.publishNow("twitter", post.id);
+        expect(
+            await scheduler.updatePost(post.id, { text: "late" })
+        ).toBeNull();
+    });
+
+    it("pauses while the text budget is spent", async () => {
+        const runtime = createRuntime();
+        runtime.character.settings.budget = { dailyText: 0 };
+        const scheduler = new ContentScheduler(runtime, {
+            now: () => MONDAY_NOON,
+        });
+        const generate = vi.fn().mockResolvedValue({ text: "post" });
+        const twitter = createPublisher("twitter", { generate });
+        scheduler.registerPublisher(twitter);
+
+        await scheduler.tick();
+        expect(generate).not.toHaveBeenCalled();
+
+        await scheduler.publishNow("twitter");
+        expect(twitter.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it("cancels queued posts", async () => {
+        const runtime = createRuntime();
+        const scheduler = new ContentScheduler(runtime);
+        const lens = createPublisher("lens");
+        scheduler.registerPublisher(lens);
+        const [post] = await scheduler.enqueue({ text: "hi" });
+
+        expect(await scheduler.cancel(post.id)).toBe(true);
+        expect(await scheduler.cancel(post.id)).toBe(false);
+        await scheduler.tick();
+
+        expect(lens.publish).not.toHaveBeenCalled();
+        expect((await scheduler.getHistory())[0].status).toBe("cancelled");
+    });
+});
@@ -0,0 +1,168 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, vi } from "vitest";
+import {
+    DatabaseArchiveLine,
+    exportDatabase,
+    importDatabase,
+    readDatabaseArchive,
+    toEmbeddingArray,
+    writeDatabaseArchive,
+} from "../src/databaseArchive.ts";
+import {
+    DatabaseRecords,
+    DatabaseRecordType,
+    IDatabaseAdapter,
+    UUID,
+} from "../src/types.ts";
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+const roomId = "00000000-0000-0000-0000-000000000002" as UUID;
+
+const memory: DatabaseRecords["memories"] = {
+    id: "00000000-0000-0000-0000-000000000003" as UUID,
+    userId: agentId,
+    agentId,
+    roomId,
+    content: { text: "Hello" },
+    embedding: [0.1, 0.2, 0.3],
+    createdAt: 1,
+    tableName: "messages",
+};
+
+/** Lists the records given and keeps the ones imported */
+function createAdapter(
+    stored: Partial<{ [T in DatabaseRecordType]: DatabaseRecords[T][] }> = {}
+) {
+    const memories = new Map<UUID, unknown>();
+    const rooms = new Set<UUID>();
+    const db = {
+        getRecords: vi.fn(
+            async ({
+                type,
+                offset,
+                count,
+            }: {
+                type: DatabaseRecordType;
+                offset: number;
+                count: number;
+            }) => (stored[type] ?? []).slice(offset, offset + count)
+        ),
+        getRoom: async (id: UUID) => (rooms.has(id) ? id : null),
+        createRoom: async (id: UUID) => {
+            rooms.add(id);
+            return id;
+        },
+        getMemoryById: async (id: UUID) => memories.get(id) ?? null,
+        createMemory: vi.fn(async (item: { id: UUID }) => {
+            memories.set(item.id, item);
+        }),
+        getAccountById: async () => null,
+        createAccount: async () => false,
+    };
+    return { db, adapter: db as unknown as IDatabaseAdapter };
+}
+
+async function collect(lines: AsyncIterable<DatabaseArchiveLine>) {
+    const result: DatabaseArchiveLine[] = [];
+    for await (const line of lines) result.push(line);
+    return result;
+}
+
+describe("Database archive", () => {
+    it("reads embeddings as adapters store them", () => {
+        const floats = new Float32Array([0.5, 1]);
+        expect(toEmbeddingArray(floats)).toEqual([0.5, 1]);
+        expect(toEmbeddingArray(Buffer.from(floats.buffer))).toEqual([0.5, 1]);
+        expect(toEmbeddingArray("[0.5,1]")).toEqual([0.5, 1]);
+        expect(toEmbeddingArray(new Float32Array(384))).toBeUndefined();
+        expect(toEmbeddingArray(null)).toBeUndefined();
+    });
+
+    it("exports each record type a page at a time", async () => {
+        const rooms = [{ id: roomId }, { id: agentId }];
+        const { db, adapter } = createAdapter({ rooms });
+
+        const lines = await collect(
+            exportDatabase(adapter, { agentId, batchSize: 2 })
+        );
+
+        expect(lines[0]).toMatchObject({ type: "header", version: 1, agentId });
+        expect(lines.slice(1)).toEqual(
+            rooms.map((record) => ({ type: "rooms", record }))
+        );
+        expect(db.getRecords).toHaveBeenCalledWith({
+            type: "rooms",
+            agentId,
+            offset: 2,
+            count: 2,
+        });
+    });
+
+    it("imports records once and counts failures", async () => {
+        const { adapter } = createAdapter();
+        const lines: DatabaseArchiveLine[] = [
+            { type: "header", version: 1, exportedAt: 0 },
+            { type: "rooms", record: { id: roomId } },
+            {
+                type: "accounts",
+                record: { id: agentId, name: "Agent", username: "agent" },
+            },
+        ];
+
+        const first = await importDatabase(adapter, lines);
+        const second = await importDatabase(adapter, lines);
+
+        expect(first.imported.rooms).toBe(1);
+        expect(first.failed.accounts).toBe(1);
+        expect(second.imported.rooms).toBe(0);
+        expect(second.skipped.rooms).toBe(1);
+    });
+
+    it("computes embeddings again when dimensions differ", async () => {
+        const { db, adapter } = createAdapter();
+        const embed = vi.fn(async () => [1, 2]);
+
+        const result = await importDatabase(
+            adapter,
+            [{ type: "memories", record: memory }],
+            { embeddingDimensions: 2, embed }
+        );
+
+        expect(result.reembedded).toBe(1);
+        expect(embed).toHaveBeenCalledWith("Hello");
+        expect(db.createMemory).toHaveBeenCalledWith(
+            expect.objectContaining({ id: memory.id, embedding: [1, 2] }),
+            "messages",
+            undefined
+        );
+    });
+
+    it("drops embeddings of other dimensions without an embedder", async () => {
+        const { db, adapter } = createAdapter();
+
+        await importDatabase(adapter, [{ type: "memories", record: memory }], {
+            embeddingDimensions: 2,
+        });
+
+        expect(db.createMemory.mock.calls[0][0]).toMatchObject({
+            embedding: undefined,
+        });
+    });
+
+    it("writes and reads JSONL archives", async () => {
+        const { adapter } = createAdapter({ memories: [memory] });
+        const filePath = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), "archive-")),
+            "db.jsonl"
+        );
+
+        const counts = await writeDatabaseArchive(adapter, filePath);
+        const lines = await collect(readDatabaseArchive(filePath));
+
+        expect(counts.memories).toBe(1);
+        expect(fs.readFileSync(filePath, "utf8").split("\n")).toHaveLength(3);
+        expect(lines[1]).toEqual({ type: "memories", record: memory });
+    });
+});
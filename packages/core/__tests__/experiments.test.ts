@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+    assignExperiments,
+    assignPostExperiments,
+    assignVariant,
+    hashToUnitInterval,
+} from "../src/experiments.ts";
+import { Experiment, IAgentRuntime } from "../src/types.ts";
+
+const experiment: Experiment = {
+    name: "images",
+    seed: 42,
+    variants: [
+        { name: "with-image", image: true, weight: 3 },
+        { name: "text-only", image: false },
+    ],
+};
+
+function assignMany(experiment: Experiment, count: number) {
+    return Array.from(
+        { length: count },
+        (_, i) => assignVariant(experiment, `twitter:${i + 1}`)?.name
+    );
+}
+
+describe("Experiments", () => {
+    it("hashes strings into the unit interval", () => {
+        const value = hashToUnitInterval("post");
+        expect(value).toBe(hashToUnitInterval("post"));
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+        expect(hashToUnitInterval("post 2")).not.toBe(value);
+    });
+
+    it("assigns variants deterministically per seed", () => {
+        const assigned = assignMany(experiment, 20);
+        expect(assignMany(experiment, 20)).toEqual(assigned);
+        expect(assignMany({ ...experiment, seed: 7 }, 20)).not.toEqual(
+            assigned
+        );
+        expect(assigned.slice(0, 8)).toEqual([
+            "with-image",
+            "with-image",
+            "with-image",
+            "with-image",
+            "with-image",
+            "with-image",
+            "text-only",
+            "with-image",
+        ]);
+    });
+
+    it("follows the variant weights", () => {
+        const assigned = assignMany(experiment, 2000);
+        const withImage = assigned.filter((name) => name === "with-image");
+        expect(withImage.length / assigned.length).toBeCloseTo(0.75, 1);
+        expect(
+            assignMany(
+                {
+                    ...experiment,
+                    variants: [{ name: "off", weight: 0 }, { name: "on" }],
+                },
+                10
+            )
+        ).toEqual(Array(10).fill("on"));
+        expect(
+            assignVariant({ name: "empty", variants: [] }, "twitter:1")
+        ).toBeNull();
+    });
+
+    it("merges the overrides of several experiments", () => {
+        const assignment = assignExperiments(
+            [
+                {
+                    name: "template",
+                    variants: [{ name: "short", postTemplate: "short" }],
+                },
+                {
+                    name: "style",
+                    variants: [
+                        {
+                            name: "noir",
+                            imageStyle: "noir",
+                            postTemplate: "ignored",
+                        },
+                    ],
+                },
+            ],
+            "twitter:1"
+        );
+        expect(assignment).toEqual({
+            variants: { template: "short", style: "noir" },
+            overrides: { postTemplate: "short", imageStyle: "noir" },
+        });
+    });
+
+    it("numbers the posts of a platform", async () => {
+        const cache = new Map<string, unknown>();
+        const runtime = {
+            agentId: "agent",
+            character: { settings: { experiments: [experiment] } },
+            cacheManager: {
+                get: async (key: string) => cache.get(key),
+                set: async (key: string, value: unknown) => {
+                    cache.set(key, value);
+                },
+            },
+        } as unknown as IAgentRuntime;
+
+        const assigned = [];
+        for (let i = 0; i < 5; i++) {
+            assigned.push(
+                (await assignPostExperiments(runtime, "twitter")).variants
+                    .images
+            );
+        }
+        expect(assigned).toEqual(assignMany(experiment, 5));
+    });
+});
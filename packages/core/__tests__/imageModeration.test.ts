@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { generateText } from "../src/generation.ts";
+import { findBlockedTerms, moderateImage } from "../src/imageModeration.ts";
+import { IAgentRuntime, ImageModerationSettings } from "../src/types.ts";
+
+vi.mock("../src/generation.ts", () => ({
+    generateText: vi.fn(),
+}));
+
+const describeImage = vi.fn();
+
+function createRuntime(
+    moderation?: ImageModerationSettings,
+    withService = true
+): IAgentRuntime {
+    return {
+        character: {
+            name: "Brand",
+            settings: { imageSettings: { moderation } },
+        },
+        getService: () => (withService ? { describeImage } : null),
+    } as unknown as IAgentRuntime;
+}
+
+describe("findBlockedTerms", () => {
+    it("matches whole words regardless of case", () => {
+        expect(
+            findBlockedTerms("A man holding a Gun", ["gun", "knife"])
+        ).toEqual(["gun"]);
+        expect(findBlockedTerms("a begun painting", ["gun"])).toEqual([]);
+    });
+});
+
+describe("moderateImage", () => {
+    beforeEach(() => {
+        describeImage.mockReset();
+        vi.mocked(generateText).mockReset();
+    });
+
+    it("allows everything when moderation is not configured", async () => {
+        expect(await moderateImage(createRuntime(), "image.png")).toEqual({
+            allowed: true,
+        });
+        expect(describeImage).not.toHaveBeenCalled();
+    });
+
+    it("blocks prompts with blocked terms before describing", async () => {
+        const result = await moderateImage(
+            createRuntime({ blocklist: ["weapon"] }),
+            "image.png",
+            "a knight with a weapon"
+        );
+
+        expect(result).toEqual({
+            allowed: false,
+            reason: "Prompt contains blocked terms: weapon",
+        });
+        expect(describeImage).not.toHaveBeenCalled();
+    });
+
+    it("blocks images whose description matches the blocklist", async () => {
+        describeImage.mockResolvedValue({
+            title: "Logo",
+            description: "A competitor logo on a red background",
+        });
+
+        const result = await moderateImage(
+            createRuntime({ blocklist: ["competitor logo"] }),
+            "image.png"
+        );
+
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toBe(
+            "Image shows blocked content: competitor logo"
+        );
+    });
+
+    it("judges the description against the policy", async () => {
+        describeImage.mockResolvedValue({
+            title: "Party",
+            description: "People drinking beer",
+        });
+        vi.mocked(generateText).mockResolvedValue(
+            '```json\n{"allowed": false, "reason": "shows alcohol"}\n```'
+        );
+
+        const result = await moderateImage(
+            createRuntime({ policy: "No alcohol" }),
+            "image.png",
+            "a party"
+        );
+
+        expect(result).toEqual({
+            allowed: false,
+            reason: "shows alcohol",
+            description: "Party\nPeople drinking beer",
+        });
+        expect(vi.mocked(generateText).mock.calls[0][0].context).toContain(
+            "No alcohol"
+        );
+    });
+
+    it("fails closed unless failOpen is set", async () => {
+        expect(
+            await moderateImage(
+                createRuntime({ policy: "No alcohol" }, false),
+                "image.png"
+            )
+        ).toEqual({
+            allowed: false,
+            reason: "Image description service is not available",
+        });
+
+        describeImage.mockRejectedValue(new Error("vision down"));
+        expect(
+            await moderateImage(
+                createRuntime({ policy: "No alcohol", failOpen: true }),
+                "image.png"
+            )
+        ).toMatchObject({ allowed: true });
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+    detectImageMimeType,
+    getImageExtension,
+    getImagePlatformProfile,
+    postProcessImage,
+    registerImagePostProcessor,
+} from "../src/imagePostProcessing.ts";
+import { IAgentRuntime, ImagePostProcessingSettings } from "../src/types.ts";
+
+function createRuntime(
+    postProcessing?: ImagePostProcessingSettings
+): IAgentRuntime {
+    return {
+        character: { settings: { imageSettings: { postProcessing } } },
+    } as unknown as IAgentRuntime;
+}
+
+const png = Buffer.from("89504e470d0a1a0a", "hex");
+const jpeg = Buffer.from("ffd8ffe000104a46", "hex");
+const webp = Buffer.concat([
+    Buffer.from("RIFF"),
+    Buffer.alloc(4),
+    Buffer.from("WEBPVP8 "),
+]);
+
+describe("Image format detection", () => {
+    it("detects formats from magic bytes", () => {
+        expect(detectImageMimeType(png)).toBe("image/png");
+        expect(detectImageMimeType(jpeg)).toBe("image/jpeg");
+        expect(detectImageMimeType(webp)).toBe("image/webp");
+        expect(detectImageMimeType(Buffer.from("hello"))).toBeNull();
+    });
+
+    it("maps mime types to file extensions", () => {
+        expect(getImageExtension("image/jpeg")).toBe("jpg");
+        expect(getImageExtension("application/octet-stream")).toBe("png");
+    });
+});
+
+describe("Image platform profiles", () => {
+    it("uses the built-in profile for a platform", () => {
+        expect(
+            getImagePlatformProfile(createRuntime(), "twitter")
+        ).toMatchObject({ aspectRatio: "16:9", maxBytes: 5 * 1024 * 1024 });
+        expect(
+            getImagePlatformProfile(createRuntime(), "farcaster").aspectRatio
+        ).toBe("1:1");
+    });
+
+    it("applies the character's overrides", () => {
+        const runtime = createRuntime({
+            platforms: {
+                default: { format: "webp" },
+                twitter: { aspectRatio: "1:1" },
+            },
+        });
+
+        expect(getImagePlatformProfile(runtime, "twitter")).toMatchObject({
+            aspectRatio: "1:1",
+            format: "webp",
+        });
+        expect(getImagePlatformProfile(runtime, "direct")).toEqual({
+            maxBytes: 5 * 1024 * 1024,
+            format: "webp",
+        });
+    });
+});
+
+describe("postProcessImage", () => {
+    it("corrects the mime type and runs the registered stages", async () => {
+        const process = vi.fn(async (image) => ({
+            ...image,
+            data: Buffer.concat([image.data, Buffer.from("!")]),
+        }));
+        registerImagePostProcessor({ name: "append", process });
+        registerImagePostProcessor({
+            name: "broken",
+            process: vi.fn().mockRejectedValue(new Error("boom")),
+        });
+
+        const result = await postProcessImage(
+            createRuntime(),
+            { data: jpeg, mimeType: "image/png" },
+            { platform: "farcaster", prompt: "a fox" }
+        );
+
+        expect(result.mimeType).toBe("image/jpeg");
+        expect(result.data.length).toBe(jpeg.length + 1);
+        expect(process.mock.calls[0][1]).toMatchObject({
+            platform: "farcaster",
+            prompt: "a fox",
+            profile: { aspectRatio: "1:1" },
+        });
+    });
+
+    it("runs stages registered for an agent only for that agent", async () => {
+        const agent = createRuntime();
+        const process = vi.fn(async (image) => image);
+        registerImagePostProcessor({ name: "agent-only", process }, agent);
+
+        await postProcessImage(createRuntime(), { data: png, mimeType: "" });
+        expect(process).not.toHaveBeenCalled();
+
+        await postProcessImage(agent, { data: png, mimeType: "" });
+        expect(process).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips the stages when post-processing is disabled", async () => {
+        const result = await postProcessImage(
+            createRuntime({ enabled: false }),
+            { data: png, mimeType: "image/jpeg" }
+        );
+        expect(result).toEqual({ data: png, mimeType: "image/png" });
+    });
+});
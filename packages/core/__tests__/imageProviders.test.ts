@@ -0,0 +1,561 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+    getImageProvider,
+    getImageProviderApiKey,
+    getImageProviderChain,
+    heuristImageProvider,
+    ImageGenerationError,
+    isRetryableImageError,
+    livepeerImageProvider,
+    nineteenAiImageProvider,
+    openAiImageProvider,
+    registerImageProvider,
+    supportsImageOperation,
+    toImageData,
+    veniceImageProvider,
+} from "../src/imageProviders.ts";
+import { recordModelSpend } from "../src/budget.ts";
+import { generateImage } from "../src/generation.ts";
+import {
+    IAgentRuntime,
+    ImageProviderAdapter,
+    ImageProviderContext,
+    ModelProviderName,
+    ModelTrace,
+} from "../src/types.ts";
+
+function createRuntime(
+    settings: Record<string, string> = {},
+    overrides: Partial<IAgentRuntime> = {}
+): IAgentRuntime {
+    return {
+        modelProvider: ModelProviderName.ANTHROPIC,
+        imageModelProvider: ModelProviderName.ANTHROPIC,
+        token: "anthropic-token",
+        character: {
+            settings: { imageSettings: { retry: { initialDelayMs: 0 } } },
+        },
+        getSetting: (key: string) => settings[key] ?? null,
+        ...overrides,
+    } as unknown as IAgentRuntime;
+}
+
+function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+    return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+        ...init,
+    });
+}
+
+const request = { prompt: "a lighthouse at dusk", width: 1024, height: 768 };
+
+describe("Image provider registry", () => {
+    it("registers the built-in providers", () => {
+        expect(getImageProvider(ModelProviderName.HEURIST)).toBe(
+            heuristImageProvider
+        );
+        expect(getImageProvider(ModelProviderName.LLAMACLOUD)?.name).toBe(
+            ModelProviderName.TOGETHER
+        );
+    });
+
+    it("lets plugins add providers", () => {
+        const adapter: ImageProviderAdapter = {
+            name: "custom-images",
+            generate: vi.fn(),
+        };
+        registerImageProvider(adapter);
+        expect(getImageProvider("custom-images")).toBe(adapter);
+    });
+
+    it("keeps providers registered for an agent to that agent", () => {
+        const agent = createRuntime();
+        const other = createRuntime();
+        const adapter: ImageProviderAdapter = {
+            name: ModelProviderName.FAL,
+            generate: vi.fn(),
+        };
+        registerImageProvider(adapter, agent);
+
+        expect(getImageProvider(ModelProviderName.FAL, agent)).toBe(adapter);
+        expect(getImageProvider(ModelProviderName.FAL, other)).not.toBe(
+            adapter
+        );
+        expect(getImageProvider(ModelProviderName.FAL)).not.toBe(adapter);
+    });
+
+    it("uses the runtime token only for the text provider", () => {
+        const runtime = createRuntime(
+            { VENICE_API_KEY: "venice-key" },
+            { modelProvider: ModelProviderName.VENICE, token: "token" }
+        );
+        expect(getImageProviderApiKey(runtime, veniceImageProvider)).toBe(
+            "token"
+        );
+        expect(
+            getImageProviderApiKey(
+                createRuntime({ VENICE_API_KEY: "venice-key" }),
+                veniceImageProvider
+            )
+        ).toBe("venice-key");
+    });
+
+    it("formats inline images as data URLs", () => {
+        expect(toImageData({ base64: "abc", mimeType: "image/jpeg" })).toBe(
+            "data:image/jpeg;base64,abc"
+        );
+        expect(
+            toImageData({ url: "https://img/1.png", mimeType: "image/png" })
+        ).toBe("https://img/1.png");
+    });
+});
+
+describe("generateImage", () => {
+    it("dispatches to the provider named by imageModelProvider", async () => {
+        const generate = vi
+            .fn()
+            .mockResolvedValue([
+                { base64: "aW1n", mimeType: "image/webp", seed: 7 },
+            ]);
+        registerImageProvider({
+            name: "plugin-provider",
+            apiKeySetting: "PLUGIN_IMAGE_KEY",
+            generate,
+        });
+
+        const result = await generateImage(
+            request,
+            createRuntime(
+                { PLUGIN_IMAGE_KEY: "plugin-key" },
+                { imageModelProvider: "plugin-provider" }
+            )
+        );
+
+        expect(result).toMatchObject({
+            success: true,
+            provider: "plugin-provider",
+            data: ["data:image/webp;base64,aW1n"],
+            images: [{ seed: 7 }],
+        });
+        expect(generate).toHaveBeenCalledWith(
+            request,
+            expect.objectContaining({ apiKey: "plugin-key" })
+        );
+    });
+
+    it("reports provider errors as a failed result", async () => {
+        registerImageProvider({
+            name: "failing-provider",
+            generate: vi.fn().mockRejectedValue(new Error("quota exceeded")),
+        });
+
+        const result = await generateImage(
+            request,
+            createRuntime({}, { imageModelProvider: "failing-provider" })
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error.message).toBe("quota exceeded");
+        expect(result.attempts).toHaveLength(3);
+    });
+
+    it("retries retryable errors on the same provider", async () => {
+        const generate = vi
+            .fn()
+            .mockRejectedValueOnce(
+                new ImageGenerationError("Too Many Requests", true, 429)
+            )
+            .mockResolvedValue([
+                { url: "https://img/1.png", mimeType: "image/png" },
+            ]);
+        registerImageProvider({ name: "flaky-provider", generate });
+
+        const result = await generateImage(
+            request,
+            createRuntime({}, { imageModelProvider: "flaky-provider" })
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.provider).toBe("flaky-provider");
+        expect(result.attempts.map((attempt) => attempt.retryable)).toEqual([
+            true,
+            undefined,
+        ]);
+    });
+
+    it("falls back to the next provider after a fatal error", async () => {
+        const rejecting = vi
+            .fn()
+            .mockRejectedValue(
+                new Error("Prompt rejected by the safety checker")
+            );
+        const backup = vi
+            .fn()
+            .mockResolvedValue([{ base64: "YmFja3Vw", mimeType: "image/png" }]);
+        registerImageProvider({ name: "strict-provider", generate: rejecting });
+        registerImageProvider({ name: "backup-provider", generate: backup });
+
+        const result = await generateImage(
+            request,
+            createRuntime(
+                {},
+                {
+                    imageModelProvider: "strict-provider",
+                    character: {
+                        settings: {
+                            imageSettings: {
+                                fallbackProviders: [
+                                    "missing-provider",
+                                    {
+                                        provider: "backup-provider",
+                                        maxRetries: 0,
+                                    },
+                                ],
+                            },
+                        },
+                    } as IAgentRuntime["character"],
+                }
+            )
+        );
+
+        expect(rejecting).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({
+            success: true,
+            provider: "backup-provider",
+            data: ["data:image/png;base64,YmFja3Vw"],
+        });
+        expect(result.attempts.map((attempt) => attempt.provider)).toEqual([
+            "strict-provider",
+            "missing-provider",
+            "backup-provider",
+        ]);
+    });
+
+    it("skips providers that do not support the operation", async () => {
+        const generateOnly = vi.fn();
+        const editor = vi
+            .fn()
+            .mockResolvedValue([{ base64: "ZWRpdA==", mimeType: "image/png" }]);
+        registerImageProvider({
+            name: "generate-only",
+            generate: generateOnly,
+        });
+        registerImageProvider({
+            name: "editor",
+            operations: ["generate", "edit"],
+            generate: editor,
+        });
+
+        const result = await generateImage(
+            {
+                ...request,
+                operation: "edit",
+                sourceImage: { base64: "c3Jj", mimeType: "image/png" },
+            },
+            createRuntime(
+                {},
+                {
+                    imageModelProvider: "generate-only",
+                    character: {
+                        settings: {
+                            imageSettings: { fallbackProviders: ["editor"] },
+                        },
+                    } as IAgentRuntime["character"],
+                }
+            )
+        );
+
+        expect(generateOnly).not.toHaveBeenCalled();
+        expect(result.provider).toBe("editor");
+        expect(result.attempts[0]).toMatchObject({
+            provider: "generate-only",
+            error: "generate-only does not support edit",
+            retryable: false,
+        });
+    });
+
+    it("stops retrying once the image budget is spent", async () => {
+        const cache = new Map<string, unknown>();
+        const runtime = createRuntime(
+            {},
+            {
+                agentId: "00000000-0000-0000-0000-000000000001",
+                imageModelProvider: "costly-provider",
+                character: {
+                    settings: {
+                        budget: { dailyImage: 1 },
+                        imageSettings: { retry: { initialDelayMs: 0 } },
+                    },
+                } as IAgentRuntime["character"],
+                cacheManager: {
+                    get: async (key: string) => cache.get(key),
+                    set: async (key: string, value: unknown) => {
+                        cache.set(key, value);
+                    },
+                } as unknown as IAgentRuntime["cacheManager"],
+                messageManager: {
+                    createMemory: vi.fn(),
+                } as unknown as IAgentRuntime["messageManager"],
+            }
+        );
+        // Another call spends the budget while this one is retrying
+        const generate = vi.fn(async () => {
+            await recordModelSpend(runtime, {
+                kind: "image",
+                cost: 1,
+                createdAt: Date.now(),
+            } as ModelTrace);
+            throw new ImageGenerationError("Too Many Requests", true, 429);
+        });
+        registerImageProvider({ name: "costly-provider", generate });
+
+        const result = await generateImage(request, runtime);
+
+        expect(generate).toHaveBeenCalledTimes(1);
+        expect(result.success).toBe(false);
+        expect(result.error.message).toBe("Image budget exhausted");
+        expect(result.attempts).toHaveLength(1);
+    });
+
+    it("gives up when an attempt times out", async () => {
+        registerImageProvider({
+            name: "slow-provider",
+            generate: () => new Promise(() => {}),
+        });
+
+        const result = await generateImage(
+            request,
+            createRuntime(
+                {},
+                {
+                    imageModelProvider: "slow-provider",
+                    character: {
+                        settings: {
+                            imageSettings: {
+                                retry: { maxRetries: 0, timeoutMs: 10 },
+                            },
+                        },
+                    } as IAgentRuntime["character"],
+                }
+            )
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error.message).toBe(
+            "Image generation timed out after 10ms"
+        );
+    });
+});
+
+describe("Image provider fallback chain", () => {
+    it("starts with imageModelProvider and applies retry policies", () => {
+        const chain = getImageProviderChain(
+            createRuntime(
+                {},
+                {
+                    imageModelProvider: ModelProviderName.FAL,
+                    character: {
+                        settings: {
+                            imageSettings: {
+                                retry: { maxRetries: 1 },
+                                fallbackProviders: [
+                                    ModelProviderName.OPENAI,
+                                    {
+                                        provider: ModelProviderName.FAL,
+                                        timeoutMs: 5000,
+                                    },
+                                ],
+                            },
+                        },
+                    } as IAgentRuntime["character"],
+                }
+            )
+        );
+
+        expect(chain).toEqual([
+            {
+                provider: ModelProviderName.FAL,
+                maxRetries: 1,
+                initialDelayMs: 1000,
+                maxDelayMs: 10000,
+                timeoutMs: 5000,
+            },
+            {
+                provider: ModelProviderName.OPENAI,
+                maxRetries: 1,
+                initialDelayMs: 1000,
+                maxDelayMs: 10000,
+                timeoutMs: 120000,
+            },
+        ]);
+    });
+
+    it("treats adapters without operations as generate-only", () => {
+        expect(supportsImageOperation(heuristImageProvider)).toBe(true);
+        expect(supportsImageOperation(heuristImageProvider, "upscale")).toBe(
+            false
+        );
+        expect(supportsImageOperation(openAiImageProvider, "variation")).toBe(
+            true
+        );
+    });
+
+    it("classifies provider errors", () => {
+        expect(isRetryableImageError({ status: 429 })).toBe(true);
+        expect(isRetryableImageError({ status: 503 })).toBe(true);
+        expect(isRetryableImageError({ status: 400 })).toBe(false);
+        expect(isRetryableImageError(new Error("fetch failed"))).toBe(true);
+        expect(
+            isRetryableImageError(new Error("Content policy violation"))
+        ).toBe(false);
+        expect(
+            isRetryableImageError(new ImageGenerationError("quota", false))
+        ).toBe(false);
+    });
+});
+
+describe("Built-in image providers", () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+    let context: ImageProviderContext;
+
+    beforeEach(() => {
+        fetchMock = vi.fn();
+        context = {
+            runtime: createRuntime(),
+            apiKey: "key",
+            model: "test-model",
+            fetch: fetchMock as unknown as typeof fetch,
+        };
+    });
+
+    it("returns Heurist image URLs", async () => {
+        fetchMock.mockResolvedValue(jsonResponse("https://heurist/img.png"));
+
+        const images = await heuristImageProvider.generate(
+            { ...request, seed: 42 },
+            context
+        );
+
+        expect(images).toEqual([
+            { url: "https://heurist/img.png", mimeType: "image/png", seed: 42 },
+        ]);
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.model_id).toBe("test-model");
+        expect(body.model_input.SD.seed).toBe(42);
+    });
+
+    it("throws a retryable error when Heurist is unavailable", async () => {
+        fetchMock.mockResolvedValue(
+            new Response("", { status: 503, statusText: "Service Unavailable" })
+        );
+
+        const error = await heuristImageProvider
+            .generate(request, context)
+            .catch((error) => error);
+        expect(error).toBeInstanceOf(ImageGenerationError);
+        expect(error.message).toBe(
+            "Heurist image generation failed: Service Unavailable"
+        );
+        expect(error.retryable).toBe(true);
+    });
+
+    it("returns Venice images as base64", async () => {
+        fetchMock.mockResolvedValue(jsonResponse({ images: ["aGVsbG8="] }));
+
+        const images = await veniceImageProvider.generate(
+            { ...request, seed: 3 },
+            context
+        );
+
+        expect(images).toEqual([
+            { base64: "aGVsbG8=", mimeType: "image/png", seed: 3 },
+        ]);
+    });
+
+    it("rejects malformed Nineteen AI responses", async () => {
+        fetchMock.mockResolvedValue(jsonResponse({ error: "bad model" }));
+
+        await expect(
+            nineteenAiImageProvider.generate(request, context)
+        ).rejects.toThrow("Invalid response format from Nineteen AI");
+    });
+
+    it("downloads Livepeer images relative to the gateway", async () => {
+        fetchMock
+            .mockResolvedValueOnce(
+                jsonResponse({ images: [{ url: "/stream/1.jpg", seed: 9 }] })
+            )
+            .mockResolvedValueOnce(
+                new Response(Buffer.from("jpeg"), {
+                    headers: { "content-type": "image/jpeg" },
+                })
+            );
+
+        const images = await livepeerImageProvider.generate(request, {
+            ...context,
+            apiKey: "https://gateway.example/",
+        });
+
+        expect(fetchMock.mock.calls[1][0]).toBe(
+            "https://gateway.example//stream/1.jpg"
+        );
+        expect(images).toEqual([
+            {
+                base64: Buffer.from("jpeg").toString("base64"),
+                mimeType: "image/jpeg",
+                seed: 9,
+            },
+        ]);
+    });
+
+    it("keeps the revised prompt from OpenAI", async () => {
+        fetchMock.mockResolvedValue(
+            jsonResponse({
+                created: 0,
+                data: [{ b64_json: "b3BlbmFp", revised_prompt: "revised" }],
+            })
+        );
+
+        const images = await openAiImageProvider.generate(request, context);
+
+        expect(images).toEqual([
+            {
+                base64: "b3BlbmFp",
+                mimeType: "image/png",
+                revisedPrompt: "revised",
+            },
+        ]);
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.size).toBe("1024x1024");
+    });
+
+    it("sends the source image to the OpenAI edits endpoint", async () => {
+        fetchMock.mockResolvedValue(
+            jsonResponse({ created: 0, data: [{ b64_json: "ZWRpdGVk" }] })
+        );
+
+        const images = await openAiImageProvider.generate(
+            {
+                ...request,
+                operation: "edit",
+                prompt: "make it darker",
+                sourceImage: { base64: "c3Jj", mimeType: "image/png" },
+            },
+            context
+        );
+
+        expect(images).toEqual([{ base64: "ZWRpdGVk", mimeType: "image/png" }]);
+        expect(fetchMock.mock.calls[0][0]).toMatch(/\/images\/edits$/);
+    });
+
+    it("requires a source image for variations", async () => {
+        const error = await openAiImageProvider
+            .generate({ ...request, operation: "variation" }, context)
+            .catch((error) => error);
+
+        expect(error).toBeInstanceOf(ImageGenerationError);
+        expect(error.retryable).toBe(false);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+    DEFAULT_IMAGE_STYLE,
+    formatImageStyle,
+    getImageStyleDimensions,
+    selectImageStyle,
+} from "../src/imageStyles.ts";
+import { IAgentRuntime, ImageStyleProfile } from "../src/types.ts";
+
+const styles: Record<string, ImageStyleProfile> = {
+    noir: {
+        topics: ["crime", "night", "city"],
+        style: ["film noir", "high contrast"],
+        aspectRatio: "16:9",
+    },
+    pastoral: {
+        topics: ["nature", "farm"],
+        style: "watercolor",
+        palette: ["sage", "cream"],
+    },
+    pop: { style: "pop art" },
+};
+
+function createRuntime(
+    imageSettings: Record<string, unknown> = {}
+): IAgentRuntime {
+    const cache = new Map<string, unknown>();
+    return {
+        agentId: "00000000-0000-0000-0000-000000000001",
+        character: { settings: { imageSettings } },
+        cacheManager: {
+            get: async (key: string) => cache.get(key),
+            set: async (key: string, value: unknown) => {
+                cache.set(key, value);
+            },
+        },
+    } as unknown as IAgentRuntime;
+}
+
+describe("selectImageStyle", () => {
+    it("uses the built-in style when no profiles are configured", async () => {
+        expect(await selectImageStyle(createRuntime(), "anything")).toEqual({
+            name: "default",
+            profile: DEFAULT_IMAGE_STYLE,
+        });
+    });
+
+    it("picks the profile whose topics best match the text", async () => {
+        const runtime = createRuntime({ styles });
+        const selected = await selectImageStyle(
+            runtime,
+            "A night drive through the city after a crime"
+        );
+        expect(selected.name).toBe("noir");
+        expect((await selectImageStyle(runtime, "Back on the farm")).name).toBe(
+            "pastoral"
+        );
+    });
+
+    it("falls back to the default profile", async () => {
+        const runtime = createRuntime({ styles, defaultStyle: "pop" });
+        expect((await selectImageStyle(runtime, "hello")).name).toBe("pop");
+        expect(
+            (await selectImageStyle(createRuntime({ styles }), "hello")).name
+        ).toBe("noir");
+    });
+
+    it("rotates through profiles when configured", async () => {
+        const runtime = createRuntime({ styles, styleSelection: "rotation" });
+        const names = [];
+        for (let i = 0; i < 4; i++) {
+            names.push((await selectImageStyle(runtime, "hello")).name);
+        }
+        expect(names).toEqual(["noir", "pastoral", "pop", "noir"]);
+    });
+});
+
+describe("formatImageStyle", () => {
+    it("joins style keywords and palette", () => {
+        expect(formatImageStyle(styles.noir)).toBe("film noir, high contrast");
+        expect(formatImageStyle(styles.pastoral)).toBe(
+            "watercolor; color palette: sage, cream"
+        );
+    });
+});
+
+describe("getImageStyleDimensions", () => {
+    const size = { width: 1024, height: 1024 };
+
+    it("keeps the requested size without an aspect ratio", () => {
+        expect(getImageStyleDimensions(styles.pop, size)).toEqual(size);
+    });
+
+    it("applies landscape and portrait ratios", () => {
+        expect(getImageStyleDimensions(styles.noir, size)).toEqual({
+            width: 1024,
+            height: 576,
+        });
+        expect(getImageStyleDimensions({ aspectRatio: "2:3" }, size)).toEqual({
+            width: 704,
+            height: 1024,
+        });
+    });
+});
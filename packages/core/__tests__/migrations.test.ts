@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+    getSchemaVersion,
+    Migration,
+    MigrationDatabase,
+    runMigrations,
+    SchemaVersionError,
+} from "../src/migrations.ts";
+
+/** Records statements and keeps schema_migrations rows in memory */
+function createDatabase(versions: number[] = []) {
+    const rows = versions.map((version) => ({
+        version,
+        name: `migration_${version}`,
+        applied_at: 0,
+    }));
+    const statements: string[] = [];
+    const db: MigrationDatabase = {
+        dialect: "sqlite",
+        exec: async (sql) => {
+            statements.push(sql.trim());
+            if (sql.includes("fail")) throw new Error("syntax error");
+        },
+        query: async <T>(sql: string, params: unknown[] = []) => {
+            statements.push(sql);
+            if (sql.startsWith("SELECT")) return rows as T[];
+            const [version, name, applied_at] = params as [
+                number,
+                string,
+                number,
+            ];
+            rows.push({ version, name, applied_at });
+            return [];
+        },
+    };
+    return { db, statements };
+}
+
+const migrations: Migration[] = [
+    { version: 1, name: "initial", up: "CREATE TABLE a", transaction: false },
+    { version: 2, name: "memories_image", up: "ALTER TABLE b" },
+];
+
+describe("Migrations", () => {
+    it("applies pending migrations in order with their rows", async () => {
+        const { db, statements } = createDatabase();
+
+        const applied = await runMigrations(db, migrations);
+
+        expect(applied.map((item) => item.version)).toEqual([1, 2]);
+        expect(statements.slice(2)).toEqual([
+            "CREATE TABLE a",
+            "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+            "BEGIN",
+            "ALTER TABLE b",
+            "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+            "COMMIT",
+        ]);
+        expect(await getSchemaVersion(db)).toBe(2);
+    });
+
+    it("skips applied migrations", async () => {
+        const { db, statements } = createDatabase([1]);
+
+        const applied = await runMigrations(db, migrations);
+
+        expect(applied.map((item) => item.version)).toEqual([2]);
+        expect(statements).not.toContain("CREATE TABLE a");
+    });
+
+    it("rolls back a failed migration", async () => {
+        const { db, statements } = createDatabase([1]);
+
+        await expect(
+            runMigrations(db, [
+                migrations[0],
+                { version: 2, name: "broken", up: "fail" },
+            ])
+        ).rejects.toThrow("syntax error");
+        expect(statements.slice(-2)).toEqual(["fail", "ROLLBACK"]);
+        expect(await getSchemaVersion(db)).toBe(1);
+    });
+
+    it("refuses a database newer than the migrations", async () => {
+        const { db } = createDatabase([1, 2, 3]);
+
+        await expect(runMigrations(db, migrations)).rejects.toBeInstanceOf(
+            SchemaVersionError
+        );
+    });
+
+    it("rejects migrations out of order", async () => {
+        const { db } = createDatabase();
+
+        await expect(
+            runMigrations(db, [migrations[1], migrations[0]])
+        ).rejects.toThrow("out of order");
+    });
+});
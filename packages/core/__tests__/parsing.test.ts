@@ -1,9 +1,10 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import {
     parseShouldRespondFromText,
     parseBooleanFromText,
     parseJsonArrayFromText,
     parseJSONObjectFromText,
+    createJsonStringFieldReader,
 } from "../src/parsing";
 
 describe("Parsing Module", () => {
@@ -98,6 +99,15 @@ describe("Parsing Module", () => {
             });
         });
 
+        it("should parse nested objects without code block", () => {
+            const input =
+                'Sure! {"text": "hi", "actions": [{"name": "GENERATE_IMAGE", "params": {"seed": 1}}]}';
+            expect(parseJSONObjectFromText(input)).toEqual({
+                text: "hi",
+                actions: [{ name: "GENERATE_IMAGE", params: { seed: 1 } }],
+            });
+        });
+
         it("should handle empty objects", () => {
             expect(parseJSONObjectFromText("```json\n{}\n```")).toEqual({});
             expect(parseJSONObjectFromText("{}")).toEqual({});
@@ -111,4 +121,27 @@ describe("Parsing Module", () => {
             );
         });
     });
+
+    describe("createJsonStringFieldReader", () => {
+        it("should pass on a field's value as it is streamed", () => {
+            const pieces: string[] = [];
+            const read = createJsonStringFieldReader("text", (text) =>
+                pieces.push(text)
+            );
+            const json =
+                '```json\n{ "user": "Eliza", "text": "Line one\\nsays \\"hi\\" \\u00e9", "actions": [] }\n```';
+            for (let i = 0; i < json.length; i += 3) {
+                read(json.slice(i, i + 3));
+            }
+            expect(pieces.join("")).toBe('Line one\nsays "hi" é');
+            expect(pieces.length).toBeGreaterThan(1);
+        });
+
+        it("should ignore streams without the field", () => {
+            const onText = vi.fn();
+            const read = createJsonStringFieldReader("text", onText);
+            read('{ "user": "Eliza" }');
+            expect(onText).not.toHaveBeenCalled();
+        });
+    });
 });
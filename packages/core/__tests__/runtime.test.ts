@@ -1,13 +1,21 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
+import { z } from "zod";
 import { AgentRuntime } from "../src/runtime";
 import {
     IDatabaseAdapter,
     ModelProviderName,
     Action,
     Memory,
+    State,
     UUID,
 } from "../src/types";
 import { defaultCharacter } from "../src/defaultCharacter";
+import { generateObject } from "../src/generation";
+
+vi.mock("../src/generation.ts", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("../src/generation.ts")>()),
+    generateObject: vi.fn(),
+}));
 
 // Mock dependencies with minimal implementations
 const mockDatabaseAdapter: IDatabaseAdapter = {
@@ -139,5 +147,284 @@ describe("AgentRuntime", () => {
             expect(action.handler).toBeDefined();
             expect(action.validate).toBeDefined();
         });
+
+        describe("processActions", () => {
+            const message: Memory = {
+                id: "123e4567-e89b-12d3-a456-426614174003",
+                userId: "123e4567-e89b-12d3-a456-426614174004",
+                agentId: "123e4567-e89b-12d3-a456-426614174005",
+                roomId: "123e4567-e89b-12d3-a456-426614174003",
+                content: { text: "test message" },
+            };
+            const respondWith = (action: string): Memory => ({
+                ...message,
+                id: "123e4567-e89b-12d3-a456-426614174006",
+                content: { text: "test response", action },
+            });
+
+            it("should return and store the result of each action", async () => {
+                const action = createMockAction("testAction");
+                vi.mocked(action.handler).mockImplementation(
+                    async (_runtime, _message, _state, _options, callback) => {
+                        await callback?.({ text: "done" });
+                        return "output";
+                    }
+                );
+                runtime.registerAction(action);
+                const onActionStart = vi.fn();
+                const onActionFinish = vi.fn();
+
+                const [result] = await runtime.processActions(
+                    message,
+                    [respondWith("TEST_ACTION")],
+                    undefined,
+                    undefined,
+                    { onActionStart, onActionFinish }
+                );
+                expect(onActionStart).toHaveBeenCalledWith(
+                    expect.objectContaining({ action })
+                );
+                expect(onActionFinish).toHaveBeenCalledWith(result);
+                expect(result).toMatchObject({
+                    requested: "TEST_ACTION",
+                    action: "testAction",
+                    status: "success",
+                    output: "output",
+                    content: [{ text: "done" }],
+                    messageId: message.id,
+                });
+                expect(mockCacheManager.set).toHaveBeenCalledWith(
+                    `${runtime.agentId}/actionResults/${message.id}`,
+                    [result],
+                    expect.anything()
+                );
+            });
+
+            it("should report unknown and ambiguous actions", async () => {
+                runtime.registerAction(createMockAction("postImage"));
+                runtime.registerAction(createMockAction("postText"));
+
+                const results = await runtime.processActions(message, [
+                    respondWith("dance"),
+                    respondWith("post"),
+                ]);
+                expect(results.map((result) => result.status)).toEqual([
+                    "not_found",
+                    "ambiguous",
+                ]);
+                expect(results[1].candidates).toEqual([
+                    "postImage",
+                    "postText",
+                ]);
+            });
+
+            it("should run middleware around failing actions", async () => {
+                const action = createMockAction("testAction");
+                vi.mocked(action.handler).mockRejectedValue(
+                    new Error("broken")
+                );
+                runtime.registerAction(action);
+                const middleware = {
+                    name: "test",
+                    before: vi.fn(),
+                    after: vi.fn(),
+                    error: vi.fn(),
+                };
+                runtime.registerActionMiddleware(middleware);
+
+                const [result] = await runtime.processActions(message, [
+                    respondWith("testAction"),
+                ]);
+                expect(result).toMatchObject({
+                    status: "error",
+                    error: "broken",
+                });
+                expect(middleware.before).toHaveBeenCalled();
+                expect(middleware.after).not.toHaveBeenCalled();
+                expect(middleware.error).toHaveBeenCalledWith(
+                    expect.objectContaining({ action }),
+                    expect.any(Error),
+                    result
+                );
+            });
+
+            it("should chain actions and skip the rest after a failure", async () => {
+                const image = { id: "1", url: "image.png" };
+                const generate = createMockAction("generateImage");
+                vi.mocked(generate.handler).mockImplementation(
+                    async (_runtime, _message, _state, _options, callback) => {
+                        await callback?.({ text: "", attachments: [image] });
+                    }
+                );
+                const post = createMockAction("postImage");
+                vi.mocked(post.handler).mockRejectedValue(new Error("offline"));
+                const reply = createMockAction("reply");
+                runtime.registerAction(generate);
+                runtime.registerAction(post);
+                runtime.registerAction(reply);
+                const callback = vi.fn().mockResolvedValue([]);
+                const onActionStart = vi.fn();
+
+                const results = await runtime.processActions(
+                    message,
+                    [
+                        {
+                            ...respondWith("generateImage"),
+                            content: {
+                                text: "",
+                                actions: [
+                                    { name: "generateImage" },
+                                    {
+                                        name: "postImage",
+                                        params: { platform: "twitter" },
+                                    },
+                                    { name: "reply" },
+                                ],
+                            },
+                        },
+                    ],
+                    undefined,
+                    callback,
+                    { onActionStart }
+                );
+
+                expect(results.map((result) => result.status)).toEqual([
+                    "success",
+                    "error",
+                    "skipped",
+                ]);
+                expect(
+                    onActionStart.mock.calls.map(([context]) => context.call)
+                ).toEqual([
+                    { name: "generateImage" },
+                    { name: "postImage", params: { platform: "twitter" } },
+                ]);
+                expect(callback).toHaveBeenCalledWith(
+                    { text: "", attachments: [image] },
+                    undefined
+                );
+                expect(post.handler).toHaveBeenCalledWith(
+                    runtime,
+                    message,
+                    undefined,
+                    expect.objectContaining({
+                        platform: "twitter",
+                        attachments: [image],
+                        previousResults: [results[0]],
+                    }),
+                    expect.any(Function)
+                );
+                expect(reply.handler).not.toHaveBeenCalled();
+            });
+
+            it("should run the actions of a chunked response once", async () => {
+                const generate = createMockAction("generateImage");
+                runtime.registerAction(generate);
+                const content = {
+                    text: "a long answer",
+                    action: "generateImage",
+                    actions: [{ name: "generateImage" }],
+                };
+                // Clients mark all but the last chunk as CONTINUE
+                const chunks = [1, 2, 3].map((chunk) => ({
+                    ...respondWith("generateImage"),
+                    content: {
+                        ...content,
+                        action: chunk < 3 ? "CONTINUE" : content.action,
+                    },
+                }));
+
+                const results = await runtime.processActions(message, chunks);
+
+                expect(generate.handler).toHaveBeenCalledTimes(1);
+                expect(results.map((result) => result.requested)).toEqual([
+                    "CONTINUE",
+                    "CONTINUE",
+                    "generateImage",
+                ]);
+            });
+
+            it("should pass valid params through the action's schema", async () => {
+                const action = {
+                    ...createMockAction("resize"),
+                    parameters: z.object({
+                        width: z.coerce.number(),
+                        unit: z.string().default("px"),
+                    }),
+                };
+                runtime.registerAction(action);
+
+                const [result] = await runtime.processActions(message, [
+                    {
+                        ...respondWith("resize"),
+                        content: {
+                            text: "",
+                            actions: [
+                                { name: "resize", params: { width: "512" } },
+                            ],
+                        },
+                    },
+                ]);
+                expect(result.status).toBe("success");
+                expect(result.params).toEqual({ width: 512, unit: "px" });
+                expect(generateObject).not.toHaveBeenCalled();
+                expect(action.handler).toHaveBeenCalledWith(
+                    runtime,
+                    message,
+                    undefined,
+                    expect.objectContaining({ width: 512, unit: "px" }),
+                    expect.any(Function)
+                );
+            });
+
+            it("should report invalid extracted params to the user", async () => {
+                const action = {
+                    ...createMockAction("resize"),
+                    parameters: z.object({ width: z.number().positive() }),
+                };
+                runtime.registerAction(action);
+                vi.mocked(generateObject).mockResolvedValue({
+                    object: { width: -1 },
+                } as Awaited<ReturnType<typeof generateObject>>);
+                const callback = vi.fn().mockResolvedValue([]);
+
+                const [result] = await runtime.processActions(
+                    message,
+                    [respondWith("resize")],
+                    { recentMessages: "" } as State,
+                    callback
+                );
+                expect(result.status).toBe("invalid");
+                expect(result.error).toMatch(
+                    /^Invalid parameters for resize: width:/
+                );
+                expect(callback).toHaveBeenCalledWith(
+                    expect.objectContaining({ text: result.error }),
+                    undefined
+                );
+                expect(action.handler).not.toHaveBeenCalled();
+            });
+
+            it("should time out actions and abort their signal", async () => {
+                let signal: AbortSignal | undefined;
+                const action = {
+                    ...createMockAction("slowAction"),
+                    timeoutMs: 10,
+                    handler: vi.fn(
+                        async (_runtime, _message, _state, options) => {
+                            signal = options.signal as AbortSignal;
+                            return new Promise(() => {});
+                        }
+                    ),
+                } as Action;
+                runtime.registerAction(action);
+
+                const [result] = await runtime.processActions(message, [
+                    respondWith("slowAction"),
+                ]);
+                expect(result.status).toBe("timeout");
+                expect(signal?.aborted).toBe(true);
+            });
+        });
     });
 });
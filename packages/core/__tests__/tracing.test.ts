@@ -0,0 +1,259 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+    createJsonlTraceSink,
+    databaseTraceSink,
+    estimateModelCost,
+    getModelPrice,
+    getModelTraceSinks,
+    registerTraceSink,
+    startModelTrace,
+    summarizeModelTraces,
+    withTraceOrigin,
+} from "../src/tracing.ts";
+import {
+    IAgentRuntime,
+    ModelClass,
+    ModelTrace,
+    ModelTraceSink,
+} from "../src/types.ts";
+
+function createRuntime(settings: Record<string, string> = {}) {
+    return {
+        agentId: "agent",
+        modelProvider: "openai",
+        character: {
+            settings: { modelPrices: { "my-model": { input: 1, output: 2 } } },
+        },
+        getSetting: (key: string) => settings[key] ?? null,
+    } as unknown as IAgentRuntime;
+}
+
+function createTrace(overrides: Partial<ModelTrace> = {}): ModelTrace {
+    return {
+        id: "00000000-0000-0000-0000-000000000000",
+        agentId: "agent" as ModelTrace["agentId"],
+        kind: "text",
+        modelProvider: "openai",
+        model: "gpt-4o",
+        modelClass: ModelClass.LARGE,
+        promptTokens: 100,
+        outputTokens: 10,
+        outputSize: 40,
+        latencyMs: 200,
+        success: true,
+        cost: 0.001,
+        createdAt: Date.UTC(2025, 0, 1, 12),
+        ...overrides,
+    };
+}
+
+describe("Model tracing", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("prices models from the character before the defaults", () => {
+        const runtime = createRuntime();
+        expect(getModelPrice(runtime, "my-model")).toEqual({
+            input: 1,
+            output: 2,
+        });
+        expect(getModelPrice(runtime, "dall-e-3")).toEqual({ image: 0.04 });
+        expect(getModelPrice(runtime, "unknown")).toBeUndefined();
+    });
+
+    it("estimates costs from tokens and images", () => {
+        expect(
+            estimateModelCost(
+                { input: 2.5, output: 10 },
+                { promptTokens: 1000, outputTokens: 100 }
+            )
+        ).toBeCloseTo(0.0035);
+        expect(
+            estimateModelCost(
+                { image: 0.04 },
+                { promptTokens: 50, outputTokens: 0, images: 2 }
+            )
+        ).toBeCloseTo(0.08);
+        expect(
+            estimateModelCost(undefined, { promptTokens: 1, outputTokens: 1 })
+        ).toBeUndefined();
+    });
+
+    it("only enables the sinks listed in MODEL_TRACE_SINKS", () => {
+        expect(getModelTraceSinks(createRuntime())).toEqual([]);
+        expect(
+            getModelTraceSinks(
+                createRuntime({ MODEL_TRACE_SINKS: "jsonl, missing" })
+            ).map((sink) => sink.name)
+        ).toEqual(["jsonl"]);
+    });
+
+    it("keeps sinks registered for an agent to that agent", () => {
+        const agent = createRuntime({ MODEL_TRACE_SINKS: "agent-only" });
+        const other = createRuntime({ MODEL_TRACE_SINKS: "agent-only" });
+        registerTraceSink({ name: "agent-only", write: vi.fn() }, agent);
+
+        expect(getModelTraceSinks(agent)).toHaveLength(1);
+        expect(getModelTraceSinks(other)).toEqual([]);
+    });
+
+    it("does not trace without sinks", () => {
+        expect(startModelTrace(createRuntime(), { kind: "text" })).toBeNull();
+    });
+
+    it("records calls with their origin, tokens and cost", async () => {
+        const write = vi.fn<ModelTraceSink["write"]>(async () => {});
+        registerTraceSink({ name: "test", write });
+        const runtime = createRuntime({ MODEL_TRACE_SINKS: "test" });
+
+        const trace = withTraceOrigin({ client: "twitter" }, () =>
+            withTraceOrigin({ action: "TWEET" }, () =>
+                startModelTrace(runtime, {
+                    kind: "text",
+                    modelClass: ModelClass.SMALL,
+                    model: "my-model",
+                })
+            )
+        );
+        trace.finish({ prompt: "Write a post", output: "Hello world" });
+        await vi.waitFor(() => expect(write).toHaveBeenCalled());
+
+        const [recorded] = write.mock.calls[0];
+        expect(recorded).toMatchObject({
+            agentId: "agent",
+            kind: "text",
+            modelProvider: "openai",
+            model: "my-model",
+            modelClass: ModelClass.SMALL,
+            outputSize: 11,
+            success: true,
+            action: "TWEET",
+            client: "twitter",
+        });
+        expect(recorded.promptTokens).toBeGreaterThan(0);
+        expect(recorded.outputTokens).toBeGreaterThan(0);
+        expect(recorded.cost).toBeCloseTo(
+            (recorded.promptTokens + 2 * recorded.outputTokens) / 1_000_000
+        );
+    });
+
+    it("records failed calls without a cost", async () => {
+        const write = vi.fn<ModelTraceSink["write"]>(async () => {});
+        registerTraceSink({ name: "test", write });
+        const runtime = createRuntime({ MODEL_TRACE_SINKS: "test" });
+
+        startModelTrace(runtime, {
+            kind: "image",
+            modelProvider: "fal",
+            model: "fal-ai/flux-lora",
+        }).finish({ prompt: "A cat", error: new Error("rate limited") });
+        await vi.waitFor(() => expect(write).toHaveBeenCalled());
+
+        expect(write.mock.calls[0][0]).toMatchObject({
+            modelProvider: "fal",
+            success: false,
+            error: "rate limited",
+            cost: undefined,
+        });
+    });
+
+    it("writes traces to the database as logs", async () => {
+        const log = vi.fn(async () => {});
+        const getLogs = vi.fn(async () => [
+            { body: createTrace() as unknown as Record<string, unknown> },
+        ]);
+        const runtime = {
+            ...createRuntime(),
+            databaseAdapter: { log, getLogs },
+        } as unknown as IAgentRuntime;
+
+        await databaseTraceSink.write(createTrace(), runtime);
+        expect(log).toHaveBeenCalledWith({
+            body: createTrace(),
+            userId: "agent",
+            roomId: "agent",
+            type: "model_trace",
+        });
+
+        expect(
+            await databaseTraceSink.query({ agentId: runtime.agentId }, runtime)
+        ).toEqual([createTrace()]);
+        expect(getLogs).toHaveBeenCalledWith({
+            type: "model_trace",
+            userId: "agent",
+            since: undefined,
+            until: undefined,
+            limit: undefined,
+        });
+    });
+
+    it("appends traces to a JSON Lines file and filters them", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "traces-"));
+        const sink = createJsonlTraceSink(path.join(dir, "traces.jsonl"));
+        const runtime = createRuntime();
+
+        expect(await sink.query({}, runtime)).toEqual([]);
+        const older = createTrace({ createdAt: 1000 });
+        const newer = createTrace({ createdAt: 2000 });
+        const other = createTrace({
+            agentId: "other" as ModelTrace["agentId"],
+        });
+        for (const trace of [older, newer, other]) {
+            await sink.write(trace, runtime);
+        }
+
+        expect(
+            await sink.query({ agentId: runtime.agentId, since: 1500 }, runtime)
+        ).toEqual([newer]);
+        expect(
+            await sink.query({ agentId: runtime.agentId, limit: 1 }, runtime)
+        ).toEqual([newer]);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("summarizes traces in total and per group", () => {
+        const traces = [
+            createTrace(),
+            createTrace({ model: "gpt-4o-mini", latencyMs: 100, cost: 0.0001 }),
+            createTrace({
+                success: false,
+                cost: undefined,
+                latencyMs: 300,
+                createdAt: Date.UTC(2025, 0, 2),
+            }),
+            createTrace({
+                kind: "image",
+                model: "unpriced",
+                outputSize: 2,
+                outputTokens: 0,
+                cost: undefined,
+            }),
+        ];
+
+        const { total, groups } = summarizeModelTraces(traces, "model");
+        expect(total).toMatchObject({
+            key: "total",
+            calls: 4,
+            failures: 1,
+            promptTokens: 400,
+            outputTokens: 30,
+            images: 2,
+            unpricedCalls: 1,
+            averageLatencyMs: 200,
+        });
+        expect(total.cost).toBeCloseTo(0.0011);
+        expect(groups.map((group) => [group.key, group.calls])).toEqual([
+            ["gpt-4o", 2],
+            ["gpt-4o-mini", 1],
+            ["unpriced", 1],
+        ]);
+
+        expect(
+            summarizeModelTraces(traces, "day").groups.map((group) => group.key)
+        ).toEqual(["2025-01-01", "2025-01-02"]);
+    });
+});
@@ -1,5 +1,12 @@
 import { names, uniqueNamesGenerator } from "unique-names-generator";
-import { Action, ActionExample } from "./types.ts";
+import {
+    Action,
+    ActionCall,
+    ActionExample,
+    ActionResult,
+    Content,
+    Media,
+} from "./types.ts";
 
 /**
  * Composes a set of example conversations based on provided actions and a specified count.
@@ -76,3 +83,222 @@ export function formatActions(actions: Action[]) {
         .map((action: Action) => `${action.name}: ${action.description}`)
         .join(",\n");
 }
+
+/**
+ * Template for extracting an action's parameters from the conversation.
+ */
+export const actionParametersTemplate = `# Task: Extract the parameters of {{agentName}}'s {{actionName}} action.
+{{actionName}}: {{actionDescription}}
+
+{{recentMessages}}
+
+Parameters the response already gave: {{actionParams}}
+
+Respond with a JSON object holding the parameters of {{actionName}} for the last message. Leave out parameters the conversation does not mention.`;
+
+/**
+ * Raised when an action's parameters do not match its schema.
+ */
+export class ActionParametersError extends Error {
+    constructor(
+        action: string,
+        public readonly issues: string[]
+    ) {
+        super(`Invalid parameters for ${action}: ${issues.join("; ")}`);
+        this.name = "ActionParametersError";
+    }
+}
+
+/**
+ * Validates parameters against an action's schema.
+ * @param action - The action, with its parameters schema.
+ * @param params - The parameters to validate.
+ * @returns The parsed parameters, with the schema's defaults and coercions.
+ * @throws ActionParametersError listing every invalid parameter.
+ */
+export function parseActionParameters(
+    action: Action,
+    params: unknown
+): { [key: string]: unknown } {
+    const parsed = action.parameters.safeParse(params ?? {});
+    if (parsed.success) return parsed.data;
+
+    throw new ActionParametersError(
+        action.name,
+        parsed.error.issues.map(
+            (issue) =>
+                `${issue.path.join(".") || "parameters"}: ${issue.message}`
+        )
+    );
+}
+
+/**
+ * Lowercases an action name and drops everything but letters and digits, so
+ * "GENERATE_IMAGE", "generate image" and "GenerateImage" compare equal.
+ * @param name - The action name or simile to normalize.
+ * @returns The normalized name.
+ */
+export function normalizeActionName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Reads the actions a response asks for, in the order to run them. Uses the
+ * actions list when there is one and the single action otherwise. A single
+ * CONTINUE the list does not ask for wins, as clients set it on all but the
+ * last message of a response sent in chunks. Entries given as bare names are
+ * accepted, and entries without a name are dropped.
+ * @param content - The response content.
+ * @returns The actions with their parameters.
+ */
+export function getActionCalls(content: Content): ActionCall[] {
+    const entries: unknown[] = Array.isArray(content.actions)
+        ? content.actions
+        : content.action
+          ? [content.action]
+          : [];
+
+    const calls = entries.flatMap((entry): ActionCall[] => {
+        const call = (typeof entry === "string" ? { name: entry } : entry) as
+            | Partial<ActionCall>
+            | undefined;
+        const name = typeof call?.name === "string" ? call.name.trim() : "";
+        if (!name) return [];
+
+        const params = call.params;
+        return [
+            params && typeof params === "object" && !Array.isArray(params)
+                ? { name, params }
+                : { name },
+        ];
+    });
+
+    const isContinue = (name: string) =>
+        normalizeActionName(name) === "continue";
+    if (
+        typeof content.action === "string" &&
+        isContinue(content.action) &&
+        !calls.some((call) => isContinue(call.name))
+    ) {
+        return [{ name: content.action }];
+    }
+    return calls;
+}
+
+/**
+ * Collects the attachments earlier actions sent back, such as generated
+ * images, so later actions of the same message can use them.
+ * @param results - The results of the actions that already ran.
+ * @returns The attachments of the successful actions, oldest first.
+ */
+export function getActionAttachments(results: ActionResult[]): Media[] {
+    return results
+        .filter((result) => result.status === "success")
+        .flatMap((result) => result.content ?? [])
+        .flatMap((content) => content.attachments ?? []);
+}
+
+/**
+ * Finds the action a response names. Exact matches win over partial ones, and
+ * names over similes. A name that matches several actions equally well is
+ * ambiguous and resolves to no action, with the candidates listed.
+ * @param actions - The actions to search.
+ * @param name - The action name from the response.
+ * @returns The resolved action, or the candidates when it is ambiguous.
+ */
+export function resolveAction(
+    actions: Action[],
+    name: string
+): { action?: Action; candidates: string[] } {
+    const requested = normalizeActionName(name);
+    if (!requested) return { candidates: [] };
+
+    const matchers = [
+        (candidate: string) => candidate === requested,
+        (candidate: string) =>
+            candidate.includes(requested) || requested.includes(candidate),
+    ];
+    const namesOf = [
+        (action: Action) => [action.name],
+        (action: Action) => action.similes ?? [],
+    ];
+
+    for (const matches of matchers) {
+        for (const names of namesOf) {
+            const found = actions.filter((action) =>
+                names(action).some((candidate) => {
+                    const normalized = normalizeActionName(candidate);
+                    return normalized && matches(normalized);
+                })
+            );
+            if (found.length === 1) {
+                return { action: found[0], candidates: [] };
+            }
+            if (found.length > 1) {
+                return { candidates: found.map((action) => action.name) };
+            }
+        }
+    }
+    return { candidates: [] };
+}
+
+/**
+ * Raised when an action is stopped before its handler settles.
+ */
+export class ActionAbortedError extends Error {
+    constructor(
+        message: string,
+        public readonly status: "timeout" | "cancelled"
+    ) {
+        super(message);
+        this.name = "ActionAbortedError";
+    }
+}
+
+/**
+ * Waits for an action to settle, unless the timeout passes or the signal
+ * aborts first. Either aborts the controller the action was given, so its
+ * handler can stop work that is no longer awaited.
+ * @param run - Starts the action.
+ * @param controller - The controller whose signal the action was given.
+ * @param timeoutMs - Milliseconds to wait for the action.
+ * @param signal - Optional signal that cancels the action.
+ * @returns The value the action resolved with.
+ */
+export async function runWithActionTimeout<T>(
+    run: () => Promise<T>,
+    controller: AbortController,
+    timeoutMs: number,
+    signal?: AbortSignal
+): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    let cancel: (() => void) | undefined;
+    const stopped = new Promise<never>((_, reject) => {
+        const stop = (error: ActionAbortedError) => {
+            controller.abort(error);
+            reject(error);
+        };
+        cancel = () => stop(new ActionAbortedError("Cancelled", "cancelled"));
+        timer = setTimeout(
+            () =>
+                stop(
+                    new ActionAbortedError(
+                        `Timed out after ${timeoutMs}ms`,
+                        "timeout"
+                    )
+                ),
+            timeoutMs
+        );
+        signal?.addEventListener("abort", cancel, { once: true });
+    });
+
+    try {
+        if (signal?.aborted) {
+            throw new ActionAbortedError("Cancelled", "cancelled");
+        }
+        return await Promise.race([run(), stopped]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", cancel);
+    }
+}
@@ -0,0 +1,292 @@
+import { getEmbeddingZeroVector } from "./embedding.ts";
+import elizaLogger from "./logger.ts";
+import {
+    type IAgentRuntime,
+    ModelClass,
+    type ModelBudgetSettings,
+    type ModelTrace,
+} from "./types.ts";
+import { stringToUuid } from "./uuid.ts";
+
+export const DEFAULT_BUDGET_DOWNGRADE_AT = 0.8;
+export const DEFAULT_BUDGET_SKIP_IMAGES_AT = 0.8;
+
+/** Spend of one UTC day or month */
+interface SpendPeriod {
+    period: string;
+    text: number;
+    image: number;
+}
+
+interface ModelSpend {
+    daily: SpendPeriod & {
+        /** Warnings already given today */
+        warned: string[];
+    };
+    monthly: SpendPeriod;
+}
+
+/**
+ * Spend against one limit
+ */
+export interface BudgetLimitStatus {
+    spent: number;
+    limit?: number;
+}
+
+/**
+ * Spend of text or image generation against its limits
+ */
+export interface BudgetCategoryStatus {
+    daily: BudgetLimitStatus;
+    monthly: BudgetLimitStatus;
+
+    /** Highest share of a limit used, 0 without limits */
+    usage: number;
+
+    exhausted: boolean;
+}
+
+/**
+ * Current spend of an agent and what its budget makes the runtime hold back
+ */
+export interface ModelBudgetStatus {
+    /** UTC day and month the spend is counted for */
+    day: string;
+    month: string;
+
+    text: BudgetCategoryStatus;
+    image: BudgetCategoryStatus;
+
+    /** LARGE text and object calls run with the SMALL model */
+    downgradeModels: boolean;
+
+    /** Posts go out without the images they would have had */
+    skipOptionalImages: boolean;
+
+    /** The content scheduler holds back autonomous posts */
+    pausePosting: boolean;
+}
+
+export function getModelBudget(
+    runtime: IAgentRuntime
+): ModelBudgetSettings | undefined {
+    return runtime.character?.settings?.budget;
+}
+
+function getSpendKey(runtime: IAgentRuntime): string {
+    return `budget/${runtime.agentId}/spend`;
+}
+
+function getPeriods(now: number) {
+    const day = new Date(now).toISOString().slice(0, 10);
+    return { day, month: day.slice(0, 7) };
+}
+
+/**
+ * Reads the spend of the current UTC day and month, starting a period afresh
+ * once it has rolled over.
+ */
+async function loadSpend(
+    runtime: IAgentRuntime,
+    now: number
+): Promise<ModelSpend> {
+    const { day, month } = getPeriods(now);
+    const stored = await runtime.cacheManager.get<ModelSpend>(
+        getSpendKey(runtime)
+    );
+
+    return {
+        daily:
+            stored?.daily.period === day
+                ? stored.daily
+                : { period: day, text: 0, image: 0, warned: [] },
+        monthly:
+            stored?.monthly.period === month
+                ? stored.monthly
+                : { period: month, text: 0, image: 0 },
+    };
+}
+
+function getUsage({ spent, limit }: BudgetLimitStatus): number {
+    if (limit === undefined) return 0;
+    return limit > 0 ? spent / limit : Infinity;
+}
+
+function getCategoryStatus(
+    spend: ModelSpend,
+    budget: ModelBudgetSettings,
+    category: "text" | "image"
+): BudgetCategoryStatus {
+    const daily = {
+        spent: spend.daily[category],
+        limit: category === "text" ? budget.dailyText : budget.dailyImage,
+    };
+    const monthly = {
+        spent: spend.monthly[category],
+        limit: category === "text" ? budget.monthlyText : budget.monthlyImage,
+    };
+    const usage = Math.max(getUsage(daily), getUsage(monthly));
+    return { daily, monthly, usage, exhausted: usage >= 1 };
+}
+
+function describeSpend(
+    spend: ModelSpend,
+    budget: ModelBudgetSettings = {}
+): ModelBudgetStatus {
+    const text = getCategoryStatus(spend, budget, "text");
+    const image = getCategoryStatus(spend, budget, "image");
+
+    return {
+        day: spend.daily.period,
+        month: spend.monthly.period,
+        text,
+        image,
+        downgradeModels:
+            text.usage >= (budget.downgradeAt ?? DEFAULT_BUDGET_DOWNGRADE_AT),
+        skipOptionalImages:
+            image.usage >=
+            (budget.skipImagesAt ?? DEFAULT_BUDGET_SKIP_IMAGES_AT),
+        pausePosting: text.exhausted,
+    };
+}
+
+/**
+ * Current spend of the agent against its budget. Without a budget nothing is
+ * read and nothing is held back.
+ */
+export async function getBudgetStatus(
+    runtime: IAgentRuntime,
+    now = Date.now()
+): Promise<ModelBudgetStatus> {
+    const budget = getModelBudget(runtime);
+    if (!budget) {
+        const { day, month } = getPeriods(now);
+        return describeSpend({
+            daily: { period: day, text: 0, image: 0, warned: [] },
+            monthly: { period: month, text: 0, image: 0 },
+        });
+    }
+    return describeSpend(await loadSpend(runtime, now), budget);
+}
+
+const BUDGET_WARNINGS: {
+    key: string;
+    applies: (status: ModelBudgetStatus) => boolean;
+    message: string;
+}[] = [
+    {
+        key: "text:downgrade",
+        applies: (status) => status.downgradeModels,
+        message: "LARGE text models are downgraded to SMALL",
+    },
+    {
+        key: "text:exhausted",
+        applies: (status) => status.pausePosting,
+        message: "the text budget is spent, autonomous posting is paused",
+    },
+    {
+        key: "image:skip",
+        applies: (status) => status.skipOptionalImages,
+        message: "optional post images are skipped",
+    },
+    {
+        key: "image:exhausted",
+        applies: (status) => status.image.exhausted,
+        message: "the image budget is spent, image generation is stopped",
+    },
+];
+
+/**
+ * Logs a warning and stores it as a memory in the agent's own room the first
+ * time each day that the budget starts holding something back.
+ */
+async function warnOnBudget(
+    runtime: IAgentRuntime,
+    spend: ModelSpend,
+    status: ModelBudgetStatus
+): Promise<void> {
+    for (const warning of BUDGET_WARNINGS) {
+        if (
+            !warning.applies(status) ||
+            spend.daily.warned.includes(warning.key)
+        ) {
+            continue;
+        }
+        spend.daily.warned.push(warning.key);
+
+        const text = `Budget warning for ${runtime.character.name}: ${warning.message} (text ${formatSpend(status.text)}, images ${formatSpend(status.image)})`;
+        elizaLogger.warn(text);
+        try {
+            await runtime.messageManager.createMemory({
+                id: stringToUuid(
+                    `budget-${warning.key}-${spend.daily.period}-${runtime.agentId}`
+                ),
+                userId: runtime.agentId,
+                agentId: runtime.agentId,
+                roomId: runtime.agentId,
+                content: { text, source: "budget" },
+                embedding: getEmbeddingZeroVector(),
+                createdAt: Date.now(),
+            });
+        } catch (error) {
+            elizaLogger.error("Error storing budget warning:", error);
+        }
+    }
+}
+
+function formatSpend(status: BudgetCategoryStatus): string {
+    const format = (label: string, { spent, limit }: BudgetLimitStatus) =>
+        `$${spent.toFixed(2)}${limit === undefined ? "" : ` of $${limit.toFixed(2)}`} ${label}`;
+    return `${format("today", status.daily)}, ${format("this month", status.monthly)}`;
+}
+
+const spendUpdates = new WeakMap<IAgentRuntime, Promise<void>>();
+
+/**
+ * Adds the cost of a traced call to the agent's spend, when it has a budget.
+ * Updates for the same agent run one after another.
+ */
+export function recordModelSpend(
+    runtime: IAgentRuntime,
+    trace: ModelTrace
+): Promise<void> {
+    if (!getModelBudget(runtime) || !trace.cost) return Promise.resolve();
+
+    const update = (spendUpdates.get(runtime) ?? Promise.resolve())
+        .then(async () => {
+            const spend = await loadSpend(runtime, trace.createdAt);
+            const category = trace.kind === "image" ? "image" : "text";
+            spend.daily[category] += trace.cost;
+            spend.monthly[category] += trace.cost;
+
+            await warnOnBudget(
+                runtime,
+                spend,
+                describeSpend(spend, getModelBudget(runtime))
+            );
+            await runtime.cacheManager.set(getSpendKey(runtime), spend);
+        })
+        .catch((error) =>
+            elizaLogger.error("Error recording model spend:", error)
+        );
+    spendUpdates.set(runtime, update);
+    return update;
+}
+
+/**
+ * Runs LARGE calls with the SMALL model once the text budget is close to
+ * its limit.
+ */
+export async function applyBudgetToModelClass(
+    runtime: IAgentRuntime,
+    modelClass: ModelClass
+): Promise<ModelClass> {
+    if (modelClass !== ModelClass.LARGE || !getModelBudget(runtime)) {
+        return modelClass;
+    }
+    if (!(await getBudgetStatus(runtime)).downgradeModels) return modelClass;
+
+    elizaLogger.debug("Text budget is nearly spent, using the SMALL model");
+    return ModelClass.SMALL;
+}
@@ -0,0 +1,251 @@
+import { CharacterSchema } from "./environment.ts";
+import elizaLogger from "./logger.ts";
+import type { Character, IAgentRuntime } from "./types.ts";
+
+/** Versions kept per agent, oldest dropped first */
+export const CHARACTER_VERSION_LIMIT = 50;
+
+/**
+ * Fields the runtime, its plugins or its clients only read at startup.
+ * Changing them needs a restart with POST /agents/:agentId/set.
+ */
+export const RESTART_CHARACTER_FIELDS = [
+    "id",
+    "name",
+    "modelProvider",
+    "imageModelProvider",
+    "imageVisionModelProvider",
+    "modelEndpointOverride",
+    "clients",
+    "plugins",
+    "knowledge",
+    "extends",
+] as const;
+
+const restartFields = new Set<string>(RESTART_CHARACTER_FIELDS);
+
+/**
+ * A problem with an edited character, at a dotted path such as "style.all"
+ */
+export interface CharacterIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * A value that differs between two characters
+ */
+export interface CharacterChange {
+    path: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+/**
+ * A character as it was applied to the running agent
+ */
+export interface CharacterVersion {
+    version: number;
+    createdAt: number;
+
+    /** The character, without its secrets */
+    character: Character;
+
+    note?: string;
+
+    /** Changes from the version before */
+    changes: CharacterChange[];
+}
+
+/**
+ * Raised when an edited character cannot be applied to the running agent.
+ */
+export class CharacterValidationError extends Error {
+    constructor(public readonly issues: CharacterIssue[]) {
+        super(
+            `Invalid character: ${issues
+                .map(
+                    (issue) => `${issue.path || "character"}: ${issue.message}`
+                )
+                .join("; ")}`
+        );
+        this.name = "CharacterValidationError";
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Copies a character as it is sent and stored, without plugin functions */
+function cloneJson<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+/** Copy of the character without settings.secrets, which never leave the server */
+export function withoutSecrets(character: Character): Character {
+    if (!character.settings?.secrets) return character;
+    const { secrets: _secrets, ...settings } = character.settings;
+    return { ...character, settings };
+}
+
+/**
+ * Lists the values that differ between two characters. Objects are compared
+ * field by field, arrays and other values as a whole.
+ */
+export function diffCharacters(
+    before: unknown,
+    after: unknown,
+    path = ""
+): CharacterChange[] {
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        return [...keys]
+            .sort()
+            .flatMap((key) =>
+                diffCharacters(
+                    before[key],
+                    after[key],
+                    path ? `${path}.${key}` : key
+                )
+            );
+    }
+    return isEqual(before, after) ? [] : [{ path, before, after }];
+}
+
+/**
+ * Checks an edited character against the character schema, and that it
+ * leaves the fields that need a restart as they are.
+ */
+export function validateCharacterEdit(
+    current: Character,
+    next: unknown
+): CharacterIssue[] {
+    const result = CharacterSchema.safeParse(next);
+    const issues: CharacterIssue[] = result.success
+        ? []
+        : result.error.errors.map((error) => ({
+              path: error.path.join("."),
+              message: error.message,
+          }));
+
+    if (isPlainObject(next)) {
+        for (const field of RESTART_CHARACTER_FIELDS) {
+            if (!isEqual(current[field], next[field])) {
+                issues.push({
+                    path: field,
+                    message: "Changing this field needs the agent restarted",
+                });
+            }
+        }
+    }
+    return issues;
+}
+
+function getVersionsKey(runtime: IAgentRuntime): string {
+    return `character/${runtime.agentId}/versions`;
+}
+
+/** Versions of the agent's character, oldest first */
+export async function getCharacterVersions(
+    runtime: IAgentRuntime
+): Promise<CharacterVersion[]> {
+    return (
+        (await runtime.cacheManager.get<CharacterVersion[]>(
+            getVersionsKey(runtime)
+        )) ?? []
+    );
+}
+
+const characterUpdates = new WeakMap<IAgentRuntime, Promise<unknown>>();
+
+/**
+ * Applies an edited character to the running agent and records it as a new
+ * version. The character object is updated in place, so clients holding it
+ * see the change without reconnecting. Secrets are kept from the running
+ * character. The character loaded at startup is recorded as the first
+ * version on the first edit. Edits of the same agent run one after another.
+ * @throws CharacterValidationError when the character is invalid or changes
+ * fields that need a restart.
+ */
+export function applyCharacterEdit(
+    runtime: IAgentRuntime,
+    character: Character,
+    note?: string
+): Promise<CharacterVersion> {
+    const update = (characterUpdates.get(runtime) ?? Promise.resolve())
+        .catch(() => {})
+        .then(async () => {
+            const issues = validateCharacterEdit(runtime.character, character);
+            if (issues.length > 0) throw new CharacterValidationError(issues);
+
+            const versions = await getCharacterVersions(runtime);
+            const previous = cloneJson(withoutSecrets(runtime.character));
+            if (versions.length === 0) {
+                versions.push({
+                    version: 1,
+                    createdAt: Date.now(),
+                    character: previous,
+                    note: "Loaded at startup",
+                    changes: [],
+                });
+            }
+
+            const next = cloneJson(withoutSecrets(character));
+            const version: CharacterVersion = {
+                version: versions[versions.length - 1].version + 1,
+                createdAt: Date.now(),
+                character: next,
+                note,
+                changes: diffCharacters(previous, next),
+            };
+
+            // Fields that need a restart are unchanged, and keep their
+            // loaded values such as plugin objects
+            const applied = cloneJson(next);
+            for (const field of RESTART_CHARACTER_FIELDS) delete applied[field];
+            const secrets = runtime.character.settings?.secrets;
+            if (secrets) applied.settings = { ...applied.settings, secrets };
+            for (const key of Object.keys(runtime.character)) {
+                if (!(key in applied) && !restartFields.has(key)) {
+                    delete runtime.character[key];
+                }
+            }
+            Object.assign(runtime.character, applied);
+
+            versions.push(version);
+            await runtime.cacheManager.set(
+                getVersionsKey(runtime),
+                versions.slice(-CHARACTER_VERSION_LIMIT)
+            );
+            elizaLogger.info(
+                `Applied character version ${version.version} to ${runtime.character.name} (${version.changes.length} changes)`
+            );
+            return version;
+        });
+    characterUpdates.set(runtime, update);
+    return update;
+}
+
+/**
+ * Applies an earlier version of the character again, as a new version.
+ * Resolves with null when the version is not kept.
+ */
+export async function rollbackCharacter(
+    runtime: IAgentRuntime,
+    version: number
+): Promise<CharacterVersion | null> {
+    const target = (await getCharacterVersions(runtime)).find(
+        (item) => item.version === version
+    );
+    if (!target) return null;
+    return applyCharacterEdit(
+        runtime,
+        target.character,
+        `Rollback to version ${version}`
+    );
+}
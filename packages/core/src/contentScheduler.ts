@@ -0,0 +1,794 @@
+import { getBudgetStatus } from "./budget.ts";
+import elizaLogger from "./logger.ts";
+import { withTraceOrigin } from "./tracing.ts";
+import {
+    type ContentPublisher,
+    type ContentSchedulerSettings,
+    type IAgentRuntime,
+    type PlatformSchedule,
+    type ScheduledContent,
+    type ScheduledContentImage,
+    type ScheduledPost,
+    type UUID,
+} from "./types.ts";
+
+const STATE_CACHE_KEY = "contentScheduler/state";
+
+const DEFAULT_TICK_INTERVAL_MS = 60 * 1000;
+
+/** Random 1 to 4 hour interval the clients used before the scheduler */
+const DEFAULT_MIN_INTERVAL_MINUTES = 60;
+const DEFAULT_MAX_INTERVAL_MINUTES = 240;
+
+const MAX_PUBLISH_ATTEMPTS = 3;
+
+/** Finished posts kept for quotas and the published list */
+const HISTORY_LIMIT = 200;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** How far ahead the next allowed minute is searched for */
+const SEARCH_LIMIT_MINUTES = 8 * 24 * 60;
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTHS = [
+    "jan",
+    "feb",
+    "mar",
+    "apr",
+    "may",
+    "jun",
+    "jul",
+    "aug",
+    "sep",
+    "oct",
+    "nov",
+    "dec",
+];
+
+interface SchedulerState {
+    /** Posts waiting to go out, oldest first */
+    queue: ScheduledPost[];
+
+    /** Published, failed and cancelled posts, newest last */
+    history: ScheduledPost[];
+
+    /** Earliest time each platform may publish again */
+    nextRunAt: Record<string, number>;
+}
+
+/**
+ * Calendar fields of a moment, as read in a time zone
+ */
+export interface ZonedTime {
+    minute: number;
+    hour: number;
+    day: number;
+    month: number;
+    /** 0 is Sunday */
+    weekday: number;
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Reads a timestamp's calendar fields in the time zone, or in the host's
+ * time zone when none is given.
+ */
+export function getZonedTime(timestamp: number, timeZone?: string): ZonedTime {
+    const date = new Date(timestamp);
+    if (!timeZone) {
+        return {
+            minute: date.getMinutes(),
+            hour: date.getHours(),
+            day: date.getDate(),
+            month: date.getMonth() + 1,
+            weekday: date.getDay(),
+        };
+    }
+
+    let formatter = zonedFormatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            minute: "numeric",
+            hour: "numeric",
+            day: "numeric",
+            month: "numeric",
+            weekday: "short",
+        });
+        zonedFormatters.set(timeZone, formatter);
+    }
+
+    const parts = Object.fromEntries(
+        formatter.formatToParts(date).map((part) => [part.type, part.value])
+    );
+    return {
+        minute: Number(parts.minute),
+        hour: Number(parts.hour),
+        day: Number(parts.day),
+        month: Number(parts.month),
+        weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase()),
+    };
+}
+
+function matchesCronField(
+    field: string,
+    value: number,
+    min: number,
+    max: number,
+    names: string[] = []
+): boolean {
+    const toNumber = (text: string) => {
+        const index = names.indexOf(text.toLowerCase());
+        const number = index >= 0 ? index + min : Number(text);
+        if (!Number.isInteger(number) || number < min || number > max) {
+            throw new Error(`Invalid cron value "${text}"`);
+        }
+        return number;
+    };
+
+    return field.split(",").some((part) => {
+        const [range, stepText] = part.split("/");
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid cron step "${part}"`);
+        }
+
+        let start = min;
+        let end = max;
+        if (range !== "*") {
+            const [from, to] = range.split("-");
+            start = toNumber(from);
+            end =
+                to !== undefined
+                    ? toNumber(to)
+                    : stepText !== undefined
+                      ? max
+                      : start;
+        }
+
+        return value >= start && value <= end && (value - start) % step === 0;
+    });
+}
+
+/**
+ * Checks a time against a five-field cron expression
+ * ("minute hour day month weekday"). Fields accept *, lists, ranges, steps
+ * and three-letter month and weekday names. Unlike cron, a restricted day
+ * and weekday must both match.
+ */
+export function matchesCron(expression: string, time: ZonedTime): boolean {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}"`);
+    }
+    const [minute, hour, day, month, weekday] = fields;
+
+    return (
+        matchesCronField(minute, time.minute, 0, 59) &&
+        matchesCronField(hour, time.hour, 0, 23) &&
+        matchesCronField(day, time.day, 1, 31) &&
+        matchesCronField(month, time.month, 1, 12, MONTHS) &&
+        (matchesCronField(weekday, time.weekday, 0, 7, WEEKDAYS) ||
+            (time.weekday === 0 &&
+                matchesCronField(weekday, 7, 0, 7, WEEKDAYS)))
+    );
+}
+
+/**
+ * Checks a time against a "HH:MM-HH:MM" range, which may wrap past
+ * midnight. The end minute is not included.
+ */
+export function isInQuietHours(quietHours: string, time: ZonedTime): boolean {
+    const match = quietHours.match(
+        /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/
+    );
+    if (!match) {
+        throw new Error(`Invalid quiet hours "${quietHours}"`);
+    }
+
+    const start = Number(match[1]) * 60 + Number(match[2]);
+    const end = Number(match[3]) * 60 + Number(match[4]);
+    const minutes = time.hour * 60 + time.minute;
+
+    return start <= end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+}
+
+/**
+ * Returns the character's scheduler settings for a platform, with the
+ * platform's overrides applied.
+ */
+export function getPlatformScheduleSettings(
+    runtime: IAgentRuntime,
+    platform: string
+): ContentSchedulerSettings {
+    const { platforms, ...defaults } =
+        runtime.character?.settings?.scheduler ?? {};
+    return { ...defaults, ...platforms?.[platform] };
+}
+
+/**
+ * Whether a post may go out at the time: outside quiet hours and, when
+ * windows are set, inside one of them.
+ */
+export function isPublishingAllowed(
+    settings: ContentSchedulerSettings,
+    timestamp: number
+): boolean {
+    const time = getZonedTime(timestamp, settings.timezone);
+    if (settings.quietHours && isInQuietHours(settings.quietHours, time)) {
+        return false;
+    }
+    return (
+        !settings.windows?.length ||
+        settings.windows.some((window) => matchesCron(window, time))
+    );
+}
+
+/**
+ * Returns the first time at or after from that publishing is allowed,
+ * stepping a minute at a time, or null when none is found within a week.
+ */
+export function findNextPublishingTime(
+    settings: ContentSchedulerSettings,
+    from: number
+): number | null {
+    let time = from;
+    for (let i = 0; i <= SEARCH_LIMIT_MINUTES; i++) {
+        if (isPublishingAllowed(settings, time)) return time;
+        time = (Math.floor(time / MINUTE_MS) + 1) * MINUTE_MS;
+    }
+    return null;
+}
+
+function publishedSince(
+    history: ScheduledPost[],
+    platform: string,
+    since: number
+): ScheduledPost[] {
+    return history.filter(
+        (post) =>
+            post.platform === platform &&
+            post.status === "published" &&
+            (post.publishedAt ?? 0) >= since
+    );
+}
+
+/**
+ * Publishes content across platforms on one schedule. Clients register a
+ * publisher per platform; every tick, each platform whose interval has
+ * passed, that is inside its windows and outside its quiet hours, and that
+ * is under its daily quota publishes the oldest queued post, or content its
+ * publisher generates when nothing is queued. The queue is kept in the
+ * runtime's cache so it survives restarts. Ticks publish nothing while the
+ * agent's text budget is spent; publishNow still does.
+ */
+export class ContentScheduler {
+    private publishers = new Map<string, ContentPublisher>();
+    private timer: NodeJS.Timeout | undefined;
+    private active = false;
+    private ticking = false;
+    private lastCheckedAt: number | undefined;
+    private stateLock: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private options: {
+            tickIntervalMs?: number;
+            now?: () => number;
+            random?: () => number;
+        } = {}
+    ) {}
+
+    private now(): number {
+        return this.options.now?.() ?? Date.now();
+    }
+
+    registerPublisher(publisher: ContentPublisher): void {
+        this.publishers.set(publisher.platform, publisher);
+        elizaLogger.log(
+            `Content scheduler: registered ${publisher.platform} publisher`
+        );
+    }
+
+    /**
+     * Removes a platform's publisher, stopping the scheduler when none are
+     * left. Its queued posts stay queued until it registers again.
+     */
+    unregisterPublisher(platform: string): void {
+        this.publishers.delete(platform);
+        if (this.publishers.size === 0) this.stop();
+    }
+
+    getPlatforms(): string[] {
+        return [...this.publishers.keys()];
+    }
+
+    /**
+     * Starts the tick loop. Posts left publishing by a previous run are
+     * queued again.
+     */
+    async start(): Promise<void> {
+        if (this.active) return;
+        this.active = true;
+        this.lastCheckedAt = this.now();
+
+        await this.updateState((state) => {
+            for (const post of state.queue) {
+                if (post.status === "publishing") post.status = "queued";
+            }
+        });
+
+        const loop = async () => {
+            await this.tick();
+            if (this.active) {
+                this.timer = setTimeout(
+                    loop,
+                    this.options.tickIntervalMs ?? DEFAULT_TICK_INTERVAL_MS
+                );
+            }
+        };
+        this.timer = setTimeout(loop, 0);
+    }
+
+    stop(): void {
+        this.active = false;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+
+    /**
+     * Publishes on every platform that is due. Called by the tick loop.
+     */
+    async tick(): Promise<void> {
+        if (this.ticking) return;
+        this.ticking = true;
+
+        const now = this.now();
+        const since = this.lastCheckedAt ?? now;
+        try {
+            if ((await getBudgetStatus(this.runtime, now)).pausePosting) {
+                elizaLogger.debug(
+                    "Content scheduler: text budget is spent, posting is paused"
+                );
+                return;
+            }
+            for (const platform of this.publishers.keys()) {
+                try {
+                    if (await this.isDue(platform, since, now)) {
+                        await this.runPlatform(platform);
+                    }
+                } catch (error) {
+                    elizaLogger.error(
+                        `Content scheduler failed for ${platform}:`,
+                        error
+                    );
+                }
+            }
+        } finally {
+            this.lastCheckedAt = now;
+            this.ticking = false;
+        }
+    }
+
+    /**
+     * Publishes on a platform right away, ignoring its interval, windows and
+     * quota. Publishes the given queued post, or the platform's next one.
+     */
+    async publishNow(
+        platform: string,
+        postId?: UUID
+    ): Promise<ScheduledPost | null> {
+        return this.runPlatform(platform, postId);
+    }
+
+    /**
+     * Queues content on each of the platforms, all registered ones by
+     * default, adapting it with each platform's publisher.
+     */
+    async enqueue(
+        content: ScheduledContent,
+        options: { platforms?: string[]; notBefore?: number } = {}
+    ): Promise<ScheduledPost[]> {
+        const platforms = options.platforms ?? this.getPlatforms();
+        const groupId = crypto.randomUUID() as UUID;
+        const createdAt = this.now();
+
+        const posts = platforms.map((platform): ScheduledPost => {
+            const publisher = this.publishers.get(platform);
+            if (!publisher) {
+                throw new Error(`No publisher registered for ${platform}`);
+            }
+            return {
+                id: crypto.randomUUID() as UUID,
+                groupId,
+                platform,
+                content: publisher.adapt ? publisher.adapt(content) : content,
+                status: "queued",
+                createdAt,
+                notBefore: options.notBefore,
+                attempts: 0,
+            };
+        });
+
+        await this.updateState((state) => {
+            state.queue.push(...posts);
+        });
+        return posts;
+    }
+
+    /**
+     * Changes a queued post's text, images or earliest publish time, with
+     * null clearing the time. The new content is adapted to the post's
+     * platform again. Returns null when the post is not queued.
+     */
+    async updatePost(
+        postId: UUID,
+        update: {
+            text?: string;
+            images?: ScheduledContentImage[];
+            notBefore?: number | null;
+        }
+    ): Promise<ScheduledPost | null> {
+        return this.updateState((state) => {
+            const post = state.queue.find(
+                (item) => item.id === postId && item.status === "queued"
+            );
+            if (!post) return null;
+
+            const content: ScheduledContent = {
+                ...post.content,
+                text: update.text ?? post.content.text,
+                images: update.images ?? post.content.images,
+            };
+            const publisher = this.publishers.get(post.platform);
+            post.content = publisher?.adapt
+                ? publisher.adapt(content)
+                : content;
+            if (update.notBefore !== undefined) {
+                post.notBefore = update.notBefore ?? undefined;
+            }
+            return { ...post };
+        });
+    }
+
+    async getPost(postId: UUID): Promise<ScheduledPost | null> {
+        const { queue, history } = await this.loadState();
+        return (
+            queue.find((post) => post.id === postId) ??
+            history.find((post) => post.id === postId) ??
+            null
+        );
+    }
+
+    /**
+     * Removes a queued post, keeping it in the history as cancelled.
+     */
+    async cancel(postId: UUID): Promise<boolean> {
+        return this.updateState((state) => {
+            const index = state.queue.findIndex(
+                (post) => post.id === postId && post.status === "queued"
+            );
+            if (index < 0) return false;
+            const [post] = state.queue.splice(index, 1);
+            this.addToHistory(state, { ...post, status: "cancelled" });
+            return true;
+        });
+    }
+
+    async getQueue(platform?: string): Promise<ScheduledPost[]> {
+        const { queue } = await this.loadState();
+        return queue.filter((post) => !platform || post.platform === platform);
+    }
+
+    /**
+     * Returns finished posts, newest first.
+     */
+    async getHistory(
+        options: { platform?: string; limit?: number } = {}
+    ): Promise<ScheduledPost[]> {
+        const { history } = await this.loadState();
+        return history
+            .filter(
+                (post) =>
+                    !options.platform || post.platform === options.platform
+            )
+            .reverse()
+            .slice(0, options.limit ?? HISTORY_LIMIT);
+    }
+
+    /**
+     * Returns when each registered platform publishes next and what it will
+     * publish.
+     */
+    async getSchedule(): Promise<PlatformSchedule[]> {
+        const state = await this.loadState();
+        const now = this.now();
+
+        return this.getPlatforms().map((platform) => {
+            const settings = getPlatformScheduleSettings(
+                this.runtime,
+                platform
+            );
+            const published = publishedSince(
+                state.history,
+                platform,
+                now - DAY_MS
+            );
+
+            let from = Math.max(state.nextRunAt[platform] ?? 0, now);
+            if (
+                settings.maxPerDay !== undefined &&
+                published.length >= settings.maxPerDay
+            ) {
+                // The quota frees up when the oldest counted post is a day old
+                const oldest = Math.min(
+                    ...published.map((post) => post.publishedAt ?? now)
+                );
+                from = Math.max(from, oldest + DAY_MS);
+            }
+
+            return {
+                platform,
+                nextPublishAt:
+                    settings.enabled === false
+                        ? null
+                        : findNextPublishingTime(settings, from),
+                publishedLastDay: published.length,
+                maxPerDay: settings.maxPerDay,
+                queued: state.queue.filter(
+                    (post) => post.platform === platform
+                ),
+                generates: !!this.publishers.get(platform)?.generate,
+            };
+        });
+    }
+
+    private async isDue(
+        platform: string,
+        since: number,
+        now: number
+    ): Promise<boolean> {
+        const settings = getPlatformScheduleSettings(this.runtime, platform);
+        if (settings.enabled === false) return false;
+
+        const state = await this.loadState();
+        if (
+            settings.maxPerDay !== undefined &&
+            publishedSince(state.history, platform, now - DAY_MS).length >=
+                settings.maxPerDay
+        ) {
+            return false;
+        }
+
+        // Windows are checked from the last tick so a one-minute window is
+        // not missed between ticks, but quiet hours are never caught up on
+        if (
+            settings.quietHours &&
+            isInQuietHours(
+                settings.quietHours,
+                getZonedTime(now, settings.timezone)
+            )
+        ) {
+            return false;
+        }
+        const next = findNextPublishingTime(
+            settings,
+            Math.max(state.nextRunAt[platform] ?? 0, since)
+        );
+        return next !== null && next <= now;
+    }
+
+    private async runPlatform(
+        platform: string,
+        postId?: UUID
+    ): Promise<ScheduledPost | null> {
+        const publisher = this.publishers.get(platform);
+        if (!publisher) {
+            throw new Error(`No publisher registered for ${platform}`);
+        }
+
+        const now = this.now();
+        const { queue } = await this.loadState();
+        let post = queue.find((queued) =>
+            postId
+                ? queued.id === postId && queued.status === "queued"
+                : queued.platform === platform &&
+                  queued.status === "queued" &&
+                  (queued.notBefore ?? 0) <= now
+        );
+        if (postId && (!post || post.platform !== platform)) {
+            throw new Error(`No queued ${platform} post ${postId}`);
+        }
+
+        if (!post && publisher.generate) {
+            const content = await withTraceOrigin({ client: platform }, () =>
+                publisher.generate()
+            );
+            if (content) {
+                const crossPostTo = (
+                    getPlatformScheduleSettings(this.runtime, platform)
+                        .crossPostTo ?? []
+                ).filter((target) => {
+                    if (target === platform) return false;
+                    if (!this.publishers.has(target)) {
+                        elizaLogger.warn(
+                            `Content scheduler: not cross-posting to ${target}, no publisher registered`
+                        );
+                        return false;
+                    }
+                    return true;
+                });
+                const posts = await this.enqueue(content, {
+                    platforms: [platform, ...crossPostTo],
+                });
+                post = posts[0];
+            }
+        }
+
+        // Posts queued for a platform without a generator go out as soon as
+        // it is due, so its interval only restarts once it publishes
+        if (!post && !publisher.generate) return null;
+        await this.scheduleNextRun(platform, publisher);
+
+        if (!post) return null;
+        return this.publishPost(publisher, post);
+    }
+
+    private async scheduleNextRun(
+        platform: string,
+        publisher: ContentPublisher
+    ): Promise<void> {
+        const settings = getPlatformScheduleSettings(this.runtime, platform);
+        const min =
+            settings.minIntervalMinutes ??
+            publisher.minIntervalMinutes ??
+            DEFAULT_MIN_INTERVAL_MINUTES;
+        const max = Math.max(
+            min,
+            settings.maxIntervalMinutes ??
+                publisher.maxIntervalMinutes ??
+                DEFAULT_MAX_INTERVAL_MINUTES
+        );
+        const random = this.options.random ?? Math.random;
+        const minutes = min + Math.floor(random() * (max - min + 1));
+
+        await this.updateState((state) => {
+            state.nextRunAt[platform] = this.now() + minutes * MINUTE_MS;
+        });
+        elizaLogger.log(
+            `Content scheduler: next ${platform} post in ${minutes} minutes or later`
+        );
+    }
+
+    private async publishPost(
+        publisher: ContentPublisher,
+        post: ScheduledPost
+    ): Promise<ScheduledPost> {
+        const publishing = await this.updateState((state) => {
+            // A tick or another publishNow may have taken the post already
+            const queued = state.queue.find(
+                (item) => item.id === post.id && item.status === "queued"
+            );
+            if (!queued) return null;
+            queued.status = "publishing";
+            queued.attempts += 1;
+            return { ...queued };
+        });
+        if (!publishing) {
+            throw new Error(`Post ${post.id} is no longer queued`);
+        }
+
+        try {
+            const result = await withTraceOrigin(
+                { client: post.platform },
+                () => publisher.publish(publishing)
+            );
+            // Skipped and pending posts do not count towards the quota
+            const status = (result && result.status) || "published";
+            return await this.finishPost(publishing, {
+                status,
+                publishedAt: status === "published" ? this.now() : undefined,
+                result: result || undefined,
+                error: undefined,
+            });
+        } catch (error) {
+            const message =
+                error instanceof Error ? error.message : String(error);
+            elizaLogger.error(
+                `Failed to publish scheduled ${post.platform} post ${post.id}:`,
+                message
+            );
+
+            if (publishing.attempts >= MAX_PUBLISH_ATTEMPTS) {
+                return this.finishPost(publishing, {
+                    status: "failed",
+                    error: message,
+                });
+            }
+            await this.updateState((state) => {
+                const queued = state.queue.find((item) => item.id === post.id);
+                if (!queued) return;
+                queued.status = "queued";
+                queued.error = message;
+            });
+            return { ...publishing, status: "queued", error: message };
+        }
+    }
+
+    /**
+     * Moves a post from the queue to the history. A post no longer queued is
+     * left alone, so another post is never removed in its place.
+     */
+    private finishPost(
+        post: ScheduledPost,
+        update: Partial<ScheduledPost>
+    ): Promise<ScheduledPost> {
+        return this.updateState((state) => {
+            const index = state.queue.findIndex((item) => item.id === post.id);
+            if (index < 0) {
+                elizaLogger.warn(
+                    `Content scheduler: post ${post.id} left the queue while publishing`
+                );
+                return { ...post, ...update };
+            }
+            const [queued] = state.queue.splice(index, 1);
+            const finished = { ...queued, ...update };
+            this.addToHistory(state, finished);
+            return finished;
+        });
+    }
+
+    private addToHistory(state: SchedulerState, post: ScheduledPost): void {
+        state.history.push(post);
+        if (state.history.length > HISTORY_LIMIT) {
+            state.history.splice(0, state.history.length - HISTORY_LIMIT);
+        }
+    }
+
+    private async loadState(): Promise<SchedulerState> {
+        const state =
+            await this.runtime.cacheManager.get<SchedulerState>(
+                STATE_CACHE_KEY
+            );
+        return {
+            queue: state?.queue ?? [],
+            history: state?.history ?? [],
+            nextRunAt: state?.nextRunAt ?? {},
+        };
+    }
+
+    /**
+     * Applies an update to the persisted state. Updates run one at a time so
+     * concurrent ticks and API calls do not overwrite each other.
+     */
+    private updateState<T>(update: (state: SchedulerState) => T): Promise<T> {
+        const result = this.stateLock.then(async () => {
+            const state = await this.loadState();
+            const value = update(state);
+            await this.runtime.cacheManager.set(STATE_CACHE_KEY, state);
+            return value;
+        });
+        this.stateLock = result.catch(() => undefined);
+        return result;
+    }
+}
+
+const schedulers = new WeakMap<IAgentRuntime, ContentScheduler>();
+
+/**
+ * Returns the runtime's content scheduler, shared by all of its clients.
+ */
+export function getContentScheduler(runtime: IAgentRuntime): ContentScheduler {
+    let scheduler = schedulers.get(runtime);
+    if (!scheduler) {
+        scheduler = new ContentScheduler(runtime);
+        schedulers.set(runtime, scheduler);
+    }
+    return scheduler;
+}
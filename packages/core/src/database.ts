@@ -9,6 +9,9 @@ import {
     RAGKnowledgeItem,
     Participant,
     IDatabaseAdapter,
+    type LogEntry,
+    type DatabaseRecords,
+    type DatabaseRecordType,
 } from "./types.ts";
 import { CircuitBreaker } from "./database/CircuitBreaker";
 import { elizaLogger } from "./logger";
@@ -138,6 +141,19 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
         type: string;
     }): Promise<void>;
 
+    /**
+     * Retrieves log entries of a type, oldest first. Optional for adapters.
+     * @param params An object containing the type, and optionally the user, time range in milliseconds and maximum number of entries, the newest kept.
+     * @returns A Promise that resolves to an array of LogEntry objects.
+     */
+    getLogs?(params: {
+        type: string;
+        userId?: UUID;
+        since?: number;
+        until?: number;
+        limit?: number;
+    }): Promise<LogEntry[]>;
+
     /**
      * Retrieves details of actors in a given room.
      * @param params An object containing the roomId to search for actors.
@@ -424,6 +440,18 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
      */
     abstract clearKnowledge(agentId: UUID, shared?: boolean): Promise<void>;
 
+    /**
+     * Retrieves stored records of one type a page at a time, for database export. Optional for adapters.
+     * @param params An object containing the record type, optionally the agent whose records to read, and the offset and number of records.
+     * @returns A Promise that resolves to an array of records of that type.
+     */
+    getRecords?<T extends DatabaseRecordType>(params: {
+        type: T;
+        agentId?: UUID;
+        offset: number;
+        count: number;
+    }): Promise<DatabaseRecords[T][]>;
+
     /**
      * Executes an operation with circuit breaker protection.
      * @param operation A function that returns a Promise to be executed with circuit breaker protection
@@ -0,0 +1,354 @@
+import fs from "fs";
+import readline from "readline";
+import { getEmbeddingConfig } from "./embedding.ts";
+import elizaLogger from "./logger.ts";
+import type {
+    DatabaseRecords,
+    DatabaseRecordType,
+    IDatabaseAdapter,
+    IDatabaseCacheAdapter,
+    UUID,
+} from "./types.ts";
+
+/** Archive format written by this release; newer archives are refused */
+export const DATABASE_ARCHIVE_VERSION = 1;
+
+/**
+ * Record types in the order they are exported and imported, so records are
+ * written after those they refer to
+ */
+export const DATABASE_RECORD_TYPES: DatabaseRecordType[] = [
+    "accounts",
+    "rooms",
+    "participants",
+    "memories",
+    "goals",
+    "relationships",
+    "knowledge",
+    "cache",
+];
+
+/**
+ * One line of a database archive. Embeddings are plain number arrays, so the
+ * archive can be restored into any adapter.
+ */
+export type DatabaseArchiveLine =
+    | {
+          type: "header";
+          version: number;
+          exportedAt: number;
+          agentId?: UUID;
+      }
+    | {
+          [T in DatabaseRecordType]: {
+              type: T;
+              record: DatabaseRecords[T];
+          };
+      }[DatabaseRecordType];
+
+/**
+ * Records read or written of each type
+ */
+export type DatabaseArchiveCounts = Record<DatabaseRecordType, number>;
+
+/**
+ * Outcome of restoring an archive
+ */
+export interface DatabaseImportResult {
+    imported: DatabaseArchiveCounts;
+
+    /** Records already in the database, left as they are */
+    skipped: DatabaseArchiveCounts;
+
+    /** Records the database refused, such as ones referring to missing rows */
+    failed: DatabaseArchiveCounts;
+
+    /** Memories and knowledge whose embeddings were computed again */
+    reembedded: number;
+}
+
+export interface DatabaseImportOptions {
+    /**
+     * Embeddings the target database stores. Defaults to the configured
+     * embedding model's.
+     */
+    embeddingDimensions?: number;
+
+    /**
+     * Computes an embedding again when an archived one has other dimensions.
+     * Without it, such embeddings are dropped.
+     */
+    embed?: (text: string) => Promise<number[]>;
+}
+
+function createCounts(): DatabaseArchiveCounts {
+    return Object.fromEntries(
+        DATABASE_RECORD_TYPES.map((type) => [type, 0])
+    ) as DatabaseArchiveCounts;
+}
+
+/**
+ * Reads an embedding as adapters return it: a number array, a Float32Array,
+ * the bytes of one or a "[1,2,3]" vector string. Resolves all-zero
+ * placeholders, which adapters store for memories without one, to undefined.
+ */
+export function toEmbeddingArray(value: unknown): number[] | undefined {
+    let embedding: number[] | undefined;
+    if (typeof value === "string") {
+        embedding = JSON.parse(value);
+    } else if (value instanceof Float32Array || Array.isArray(value)) {
+        embedding = Array.from(value);
+    } else if (value instanceof Uint8Array) {
+        embedding = Array.from(
+            new Float32Array(
+                value.buffer.slice(
+                    value.byteOffset,
+                    value.byteOffset + value.byteLength
+                )
+            )
+        );
+    }
+    return embedding?.some((item) => item !== 0) ? embedding : undefined;
+}
+
+/**
+ * Reads the database a page at a time as archive lines, starting with a
+ * header. With agentId, only the agent's records and those they refer to are
+ * read.
+ * @throws Error when the adapter cannot list its records.
+ */
+export async function* exportDatabase(
+    db: IDatabaseAdapter,
+    options: { agentId?: UUID; batchSize?: number } = {}
+): AsyncGenerator<DatabaseArchiveLine> {
+    if (!db.getRecords) {
+        throw new Error("The database adapter does not support export");
+    }
+    const batchSize = options.batchSize ?? 500;
+
+    yield {
+        type: "header",
+        version: DATABASE_ARCHIVE_VERSION,
+        exportedAt: Date.now(),
+        ...(options.agentId ? { agentId: options.agentId } : {}),
+    };
+
+    for (const type of DATABASE_RECORD_TYPES) {
+        for (let offset = 0; ; offset += batchSize) {
+            const records = await db.getRecords({
+                type,
+                agentId: options.agentId,
+                offset,
+                count: batchSize,
+            });
+            for (const record of records) {
+                yield { type, record } as DatabaseArchiveLine;
+            }
+            if (records.length < batchSize) break;
+        }
+    }
+}
+
+/**
+ * Writes the database to a JSONL archive, one record per line, and resolves
+ * with the records written of each type.
+ */
+export async function writeDatabaseArchive(
+    db: IDatabaseAdapter,
+    filePath: string,
+    options: { agentId?: UUID; batchSize?: number } = {}
+): Promise<DatabaseArchiveCounts> {
+    const counts = createCounts();
+    const file = fs.createWriteStream(filePath, "utf8");
+    try {
+        for await (const line of exportDatabase(db, options)) {
+            if (line.type !== "header") counts[line.type]++;
+            const json = JSON.stringify(line, (_key, value) =>
+                value instanceof Float32Array ? Array.from(value) : value
+            );
+            if (!file.write(`${json}\n`)) {
+                await new Promise<void>((resolve) =>
+                    file.once("drain", () => resolve())
+                );
+            }
+        }
+    } finally {
+        await new Promise<void>((resolve) => file.end(() => resolve()));
+    }
+    return counts;
+}
+
+/** Reads the lines of a JSONL archive */
+export async function* readDatabaseArchive(
+    filePath: string
+): AsyncGenerator<DatabaseArchiveLine> {
+    const lines = readline.createInterface({
+        input: fs.createReadStream(filePath, "utf8"),
+        crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+        if (line.trim()) yield JSON.parse(line);
+    }
+}
+
+async function importRecord(
+    db: IDatabaseAdapter,
+    line: Exclude<DatabaseArchiveLine, { type: "header" }>,
+    resolveEmbedding: (
+        embedding: number[] | undefined,
+        text: string | undefined
+    ) => Promise<number[] | undefined>
+): Promise<boolean> {
+    switch (line.type) {
+        case "accounts": {
+            if (await db.getAccountById(line.record.id)) return false;
+            if (!(await db.createAccount(line.record))) {
+                throw new Error(`Account ${line.record.id} was not created`);
+            }
+            return true;
+        }
+        case "rooms": {
+            if (await db.getRoom(line.record.id)) return false;
+            await db.createRoom(line.record.id);
+            return true;
+        }
+        case "participants": {
+            const { userId, roomId, userState } = line.record;
+            const participants = await db.getParticipantsForRoom(roomId);
+            if (participants.includes(userId)) return false;
+            if (!(await db.addParticipant(userId, roomId))) {
+                throw new Error(
+                    `Participant ${userId} was not added to room ${roomId}`
+                );
+            }
+            if (userState) {
+                await db.setParticipantUserState(roomId, userId, userState);
+            }
+            return true;
+        }
+        case "memories": {
+            const {
+                tableName,
+                similarity: _similarity,
+                ...memory
+            } = line.record;
+            if (memory.id && (await db.getMemoryById(memory.id))) {
+                return false;
+            }
+            const embedding = await resolveEmbedding(
+                toEmbeddingArray(memory.embedding),
+                memory.content?.text
+            );
+            await db.createMemory(
+                { ...memory, embedding },
+                tableName,
+                memory.unique
+            );
+            return true;
+        }
+        case "goals": {
+            // Goals are read by room, the agent is not stored with them
+            const goals = await db.getGoals({
+                agentId: line.record.userId,
+                roomId: line.record.roomId,
+            });
+            if (goals.some((goal) => goal.id === line.record.id)) return false;
+            await db.createGoal(line.record);
+            return true;
+        }
+        case "relationships": {
+            const { userA, userB } = line.record;
+            if (await db.getRelationship({ userA, userB })) return false;
+            if (!(await db.createRelationship({ userA, userB }))) {
+                throw new Error(
+                    `Relationship of ${userA} and ${userB} was not created`
+                );
+            }
+            return true;
+        }
+        case "knowledge": {
+            const {
+                similarity: _similarity,
+                score: _score,
+                ...item
+            } = line.record;
+            const existing = await db.getKnowledge({
+                id: item.id,
+                agentId: item.agentId,
+            });
+            if (existing.length > 0) return false;
+            const embedding = await resolveEmbedding(
+                toEmbeddingArray(item.embedding),
+                item.content.text
+            );
+            await db.createKnowledge({
+                ...item,
+                embedding: embedding ? new Float32Array(embedding) : undefined,
+            });
+            return true;
+        }
+        case "cache": {
+            const cache = db as IDatabaseAdapter &
+                Partial<IDatabaseCacheAdapter>;
+            if (!cache.setCache) return false;
+            await cache.setCache(line.record);
+            return true;
+        }
+    }
+}
+
+/**
+ * Restores archive lines into a database through the adapter, so an archive
+ * written from one adapter can be restored into any other. Records already
+ * in the database are skipped, so an import can be run again after a
+ * failure. Participants and relationships get new ids, and relationships
+ * lose their status, as the adapter interface does not take them.
+ * @throws Error when the archive is from a newer release.
+ */
+export async function importDatabase(
+    db: IDatabaseAdapter,
+    lines: AsyncIterable<DatabaseArchiveLine> | Iterable<DatabaseArchiveLine>,
+    options: DatabaseImportOptions = {}
+): Promise<DatabaseImportResult> {
+    const dimensions =
+        options.embeddingDimensions ?? getEmbeddingConfig().dimensions;
+    const result: DatabaseImportResult = {
+        imported: createCounts(),
+        skipped: createCounts(),
+        failed: createCounts(),
+        reembedded: 0,
+    };
+
+    const resolveEmbedding = async (
+        embedding: number[] | undefined,
+        text: string | undefined
+    ) => {
+        if (!embedding || embedding.length === dimensions) return embedding;
+        if (!options.embed || !text) return undefined;
+        result.reembedded++;
+        return options.embed(text);
+    };
+
+    for await (const line of lines) {
+        if (line.type === "header") {
+            if (line.version > DATABASE_ARCHIVE_VERSION) {
+                throw new Error(
+                    `Database archive version ${line.version} is newer than version ${DATABASE_ARCHIVE_VERSION} this release reads`
+                );
+            }
+            continue;
+        }
+
+        try {
+            const imported = await importRecord(db, line, resolveEmbedding);
+            result[imported ? "imported" : "skipped"][line.type]++;
+        } catch (error) {
+            result.failed[line.type]++;
+            elizaLogger.warn(
+                `Failed to import ${line.type} record:`,
+                error instanceof Error ? error.message : String(error)
+            );
+        }
+    }
+    return result;
+}
@@ -0,0 +1,97 @@
+import {
+    type Experiment,
+    type ExperimentAssignment,
+    type ExperimentVariant,
+    type IAgentRuntime,
+} from "./types.ts";
+
+/**
+ * Maps a string to a number in [0, 1) with 32-bit FNV-1a and a final bit
+ * mix, so the same input always lands in the same place.
+ */
+export function hashToUnitInterval(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    // Mix the bits so inputs differing only at the end spread out evenly
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Picks the variant of an experiment for a key, like a post number, by
+ * weight. The same seed, experiment name and key always give the same
+ * variant. Returns null when no variant has a positive weight.
+ */
+export function assignVariant(
+    experiment: Experiment,
+    key: string
+): ExperimentVariant | null {
+    const variants = experiment.variants.filter(
+        (variant) => (variant.weight ?? 1) > 0
+    );
+    const totalWeight = variants.reduce(
+        (total, variant) => total + (variant.weight ?? 1),
+        0
+    );
+    if (totalWeight <= 0) return null;
+
+    let point =
+        hashToUnitInterval(
+            `${experiment.seed ?? ""}:${experiment.name}:${key}`
+        ) * totalWeight;
+    for (const variant of variants) {
+        point -= variant.weight ?? 1;
+        if (point < 0) return variant;
+    }
+    return variants[variants.length - 1];
+}
+
+/**
+ * Assigns a variant of every experiment the character declares. When two
+ * variants override the same setting, the earlier experiment's wins.
+ */
+export function assignExperiments(
+    experiments: Experiment[] | undefined,
+    key: string
+): ExperimentAssignment {
+    const assignment: ExperimentAssignment = { variants: {}, overrides: {} };
+
+    for (const experiment of experiments ?? []) {
+        const variant = assignVariant(experiment, key);
+        if (!variant) continue;
+
+        assignment.variants[experiment.name] = variant.name;
+        const { name, weight, ...overrides } = variant;
+        assignment.overrides = { ...overrides, ...assignment.overrides };
+    }
+
+    return assignment;
+}
+
+/**
+ * Assigns the character's experiment variants to the next post of a
+ * platform, numbering its posts so assignment is reproducible.
+ */
+export async function assignPostExperiments(
+    runtime: IAgentRuntime,
+    platform: string
+): Promise<ExperimentAssignment> {
+    const experiments = runtime.character.settings?.experiments;
+    if (!experiments?.length) {
+        return { variants: {}, overrides: {} };
+    }
+
+    const counterKey = `experiments/${runtime.agentId}/${platform}/postCount`;
+    const count =
+        ((await runtime.cacheManager.get<number>(counterKey)) ?? 0) + 1;
+    await runtime.cacheManager.set(counterKey, count);
+
+    return assignExperiments(experiments, `${platform}:${count}`);
+}
@@ -7,16 +7,14 @@ import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 import {
     generateObject as aiGenerateObject,
     generateText as aiGenerateText,
+    streamText,
     CoreTool,
     GenerateObjectResult,
     StepResult as AIStepResult,
 } from "ai";
-import { Buffer } from "buffer";
 import { createOllama } from "ollama-ai-provider";
-import OpenAI from "openai";
 import { encodingForModel, TiktokenModel } from "js-tiktoken";
 import { AutoTokenizer } from "@huggingface/transformers";
-import Together from "together-ai";
 import { ZodSchema } from "zod";
 import { elizaLogger } from "./index.ts";
 import {
@@ -26,6 +24,16 @@ import {
     getEndpoint,
 } from "./models.ts";
 import {
+    getImageProvider,
+    getImageProviderApiKey,
+    getImageProviderChain,
+    isRetryableImageError,
+    supportsImageOperation,
+    toImageData,
+    withTimeout,
+} from "./imageProviders.ts";
+import {
+    createJsonStringFieldReader,
     parseBooleanFromText,
     parseJsonArrayFromText,
     parseJSONObjectFromText,
@@ -33,10 +41,16 @@ import {
     parseActionResponseFromText,
 } from "./parsing.ts";
 import settings from "./settings.ts";
+import { getActionCalls } from "./actions.ts";
+import { applyBudgetToModelClass, getBudgetStatus } from "./budget.ts";
+import { startModelTrace } from "./tracing.ts";
 import {
     Content,
+    GeneratedImage,
     IAgentRuntime,
     IImageDescriptionService,
+    ImageGenerationAttempt,
+    ImageGenerationRequest,
     ITextGenerationService,
     ModelClass,
     ModelProviderName,
@@ -50,7 +64,6 @@ import {
     TelemetrySettings,
     TokenizerType,
 } from "./types.ts";
-import { fal } from "@fal-ai/client";
 import { tavily } from "@tavily/core";
 
 type Tool = CoreTool<any, any>;
@@ -110,6 +123,36 @@ export async function trimTokens(
     return truncateTiktoken("gpt-4o", context, maxTokens);
 }
 
+/**
+ * Counts the tokens of a text with the same tokenizer trimTokens uses.
+ * Falls back to an estimate of 4 characters per token if tokenization fails.
+ */
+export async function countTokens(
+    text: string,
+    runtime: IAgentRuntime
+): Promise<number> {
+    if (!text) return 0;
+
+    const tokenizerModel = runtime.getSetting("TOKENIZER_MODEL");
+    const tokenizerType = runtime.getSetting("TOKENIZER_TYPE");
+
+    try {
+        if (tokenizerModel && tokenizerType === TokenizerType.Auto) {
+            const tokenizer =
+                await AutoTokenizer.from_pretrained(tokenizerModel);
+            return tokenizer.encode(text).length;
+        }
+        const model =
+            tokenizerModel && tokenizerType === TokenizerType.TikToken
+                ? (tokenizerModel as TiktokenModel)
+                : "gpt-4o";
+        return encodingForModel(model).encode(text).length;
+    } catch (error) {
+        elizaLogger.error("Error in countTokens:", error);
+        return Math.ceil(text.length / 4);
+    }
+}
+
 async function truncateAuto(
     modelPath: string,
     context: string,
@@ -218,6 +261,7 @@ function getCloudflareGatewayBaseURL(runtime: IAgentRuntime, provider: string):
  * @param opts.presence_penalty The presence penalty to apply to the generateText.
  * @param opts.temperature The temperature to apply to the generateText.
  * @param opts.max_context_length The maximum length of the context to apply to the generateText.
+ * @param opts.onToken Called with each piece of the text as the model streams it.
  * @returns The completed message.
  */
 
@@ -232,6 +276,7 @@ export async function generateText({
     customSystemPrompt,
     verifiableInference = process.env.VERIFIABLE_INFERENCE_ENABLED === "true",
     verifiableInferenceOptions,
+    onToken,
 }: {
     runtime: IAgentRuntime;
     context: string;
@@ -244,6 +289,7 @@ export async function generateText({
     verifiableInference?: boolean;
     verifiableInferenceAdapter?: IVerifiableInferenceAdapter;
     verifiableInferenceOptions?: VerifiableInferenceOptions;
+    onToken?: (delta: string) => void;
 }): Promise<string> {
     if (!context) {
         console.error("generateText context is empty");
@@ -297,6 +343,7 @@ export async function generateText({
         }
     });
 
+    modelClass = await applyBudgetToModelClass(runtime, modelClass);
     const endpoint =
         runtime.character.modelEndpointOverride || getEndpoint(provider);
     const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
@@ -388,6 +435,22 @@ export async function generateText({
         modelSettings.experimental_telemetry;
 
     const apiKey = runtime.token;
+    const trace = startModelTrace(runtime, { kind: "text", modelClass, model });
+
+    // Streams the completion when the caller wants the text as it is written
+    let streamed = false;
+    const completeText = async (
+        options: Parameters<typeof aiGenerateText>[0]
+    ): Promise<{ text: string }> => {
+        if (!onToken) return aiGenerateText(options);
+
+        const result = await streamText(options);
+        for await (const delta of result.textStream) {
+            streamed = true;
+            onToken(delta);
+        }
+        return { text: await result.text };
+    };
 
     try {
         elizaLogger.debug(
@@ -424,7 +487,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: openaiResponse } = await aiGenerateText({
+                const { text: openaiResponse } = await completeText({
                     model: openai.languageModel(model),
                     prompt: context,
                     system:
@@ -485,7 +548,7 @@ export async function generateText({
                     },
                 });
 
-                const { text: openaiResponse } = await aiGenerateText({
+                const { text: openaiResponse } = await completeText({
                     model: openai.languageModel(model),
                     prompt: context,
                     system: runtime.character.system ?? settings.SYSTEM_PROMPT ?? undefined,
@@ -506,7 +569,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: googleResponse } = await aiGenerateText({
+                const { text: googleResponse } = await completeText({
                     model: google(model),
                     prompt: context,
                     system:
@@ -531,7 +594,7 @@ export async function generateText({
             case ModelProviderName.MISTRAL: {
                 const mistral = createMistral();
 
-                const { text: mistralResponse } = await aiGenerateText({
+                const { text: mistralResponse } = await completeText({
                     model: mistral(model),
                     prompt: context,
                     system:
@@ -555,7 +618,7 @@ export async function generateText({
                 elizaLogger.debug("Anthropic baseURL result:", { baseURL });
 
                 const anthropic = createAnthropic({ apiKey, baseURL, fetch: runtime.fetch });
-                const { text: anthropicResponse } = await aiGenerateText({
+                const { text: anthropicResponse } = await completeText({
                     model: anthropic.languageModel(model),
                     prompt: context,
                     system:
@@ -585,7 +648,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: anthropicResponse } = await aiGenerateText({
+                const { text: anthropicResponse } = await completeText({
                     model: anthropic.languageModel(model),
                     prompt: context,
                     system:
@@ -617,7 +680,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: grokResponse } = await aiGenerateText({
+                const { text: grokResponse } = await completeText({
                     model: grok.languageModel(model, {
                         parallelToolCalls: false,
                     }),
@@ -647,7 +710,7 @@ export async function generateText({
                 elizaLogger.debug("Groq baseURL result:", { baseURL });
                 const groq = createGroq({ apiKey, fetch: runtime.fetch, baseURL });
 
-                const { text: groqResponse } = await aiGenerateText({
+                const { text: groqResponse } = await completeText({
                     model: groq.languageModel(model),
                     prompt: context,
                     temperature,
@@ -703,7 +766,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: redpillResponse } = await aiGenerateText({
+                const { text: redpillResponse } = await completeText({
                     model: openai.languageModel(model),
                     prompt: context,
                     temperature: temperature,
@@ -734,7 +797,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: openrouterResponse } = await aiGenerateText({
+                const { text: openrouterResponse } = await completeText({
                     model: openrouter.languageModel(model),
                     prompt: context,
                     temperature: temperature,
@@ -768,7 +831,7 @@ export async function generateText({
 
                     elizaLogger.debug("****** MODEL\n", model);
 
-                    const { text: ollamaResponse } = await aiGenerateText({
+                    const { text: ollamaResponse } = await completeText({
                         model: ollama,
                         prompt: context,
                         tools: tools,
@@ -794,7 +857,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: heuristResponse } = await aiGenerateText({
+                const { text: heuristResponse } = await completeText({
                     model: heurist.languageModel(model),
                     prompt: context,
                     system:
@@ -848,7 +911,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: openaiResponse } = await aiGenerateText({
+                const { text: openaiResponse } = await completeText({
                     model: openai.languageModel(model),
                     prompt: context,
                     system:
@@ -886,7 +949,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: galadrielResponse } = await aiGenerateText({
+                const { text: galadrielResponse } = await completeText({
                     model: galadriel.languageModel(model),
                     prompt: context,
                     system:
@@ -922,7 +985,7 @@ export async function generateText({
                     },
                 });
 
-                const { text: inferaResponse } = await aiGenerateText({
+                const { text: inferaResponse } = await completeText({
                     model: infera.languageModel(model),
                     prompt: context,
                     system:
@@ -946,7 +1009,7 @@ export async function generateText({
                     baseURL: endpoint,
                 });
 
-                const { text: veniceResponse } = await aiGenerateText({
+                const { text: veniceResponse } = await completeText({
                     model: venice.languageModel(model),
                     prompt: context,
                     system:
@@ -974,7 +1037,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: deepseekResponse } = await aiGenerateText({
+                const { text: deepseekResponse } = await completeText({
                     model: deepseek.languageModel(model),
                     prompt: context,
                     temperature: temperature,
@@ -1003,8 +1066,15 @@ export async function generateText({
             }
         }
 
+        // Providers that cannot stream hand over the whole text at once
+        if (onToken && !streamed && response) {
+            onToken(response);
+        }
+
+        trace?.finish({ prompt: context, output: response });
         return response;
     } catch (error) {
+        trace?.finish({ prompt: context, error });
         elizaLogger.error("Error in generateText:", error);
         throw error;
     }
@@ -1277,16 +1347,22 @@ export async function generateObjectArray({
  * @param opts.presence_penalty The presence penalty to apply to the generateText.
  * @param opts.temperature The temperature to apply to the generateText.
  * @param opts.max_context_length The maximum length of the context to apply to the generateText.
+ * @param opts.onText Called with each piece of the response's text as the model writes it.
+ * @param opts.onRetry Called before a retry when text was already passed to onText, which the retry writes again.
  * @returns The completed message.
  */
 export async function generateMessageResponse({
     runtime,
     context,
     modelClass,
+    onText,
+    onRetry,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: ModelClass;
+    onText?: (delta: string) => void;
+    onRetry?: () => void;
 }): Promise<Content> {
     const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
     const max_context_length = modelSettings.maxInputTokens;
@@ -1294,14 +1370,25 @@ export async function generateMessageResponse({
     context = await trimTokens(context, max_context_length, runtime);
     elizaLogger.debug("Context:", context);
     let retryLength = 1000; // exponential backoff
+    let streamed = false;
     while (true) {
         try {
+            if (streamed) {
+                streamed = false;
+                onRetry?.();
+            }
             elizaLogger.log("Generating message response..");
 
             const response = await generateText({
                 runtime,
                 context,
                 modelClass,
+                onToken: onText
+                    ? createJsonStringFieldReader("text", (delta) => {
+                          streamed = true;
+                          onText(delta);
+                      })
+                    : undefined,
             });
 
             // try parsing the response as JSON, if null then try again
@@ -1311,6 +1398,12 @@ export async function generateMessageResponse({
                 continue;
             }
 
+            // Keep the single action filled in for code that only reads it
+            const [firstAction] = getActionCalls(parsedContent);
+            if (!parsedContent.action && firstAction) {
+                parsedContent.action = firstAction.name;
+            }
+
             return parsedContent;
         } catch (error) {
             elizaLogger.error("ERROR:", error);
@@ -1322,382 +1415,148 @@ export async function generateMessageResponse({
     }
 }
 
+/**
+ * Generates images with the character's image provider, falling back through
+ * imageSettings.fallbackProviders. Retryable errors are retried with
+ * exponential backoff up to each provider's budget; fatal errors move on to
+ * the next provider straight away. Edits, variations and upscales skip the
+ * providers that do not support them. The agent's image budget is checked
+ * before every attempt, and nothing more is tried once it is spent.
+ */
 export const generateImage = async (
-    data: {
-        prompt: string;
-        width: number;
-        height: number;
-        count?: number;
-        negativePrompt?: string;
-        numIterations?: number;
-        guidanceScale?: number;
-        seed?: number;
-        modelId?: string;
-        jobId?: string;
-        stylePreset?: string;
-        hideWatermark?: boolean;
-    },
+    data: ImageGenerationRequest,
     runtime: IAgentRuntime
 ): Promise<{
     success: boolean;
     data?: string[];
+    images?: GeneratedImage[];
+    provider?: string;
+    attempts?: ImageGenerationAttempt[];
     error?: any;
 }> => {
-    const modelSettings = getImageModelSettings(runtime.imageModelProvider);
-    const model = modelSettings.name;
-    elizaLogger.info("Generating image with options:", {
-        imageModelProvider: model,
-    });
-
-    const apiKey =
-        runtime.imageModelProvider === runtime.modelProvider
-            ? runtime.token
-            : (() => {
-                  // First try to match the specific provider
-                  switch (runtime.imageModelProvider) {
-                      case ModelProviderName.HEURIST:
-                          return runtime.getSetting("HEURIST_API_KEY");
-                      case ModelProviderName.TOGETHER:
-                          return runtime.getSetting("TOGETHER_API_KEY");
-                      case ModelProviderName.FAL:
-                          return runtime.getSetting("FAL_API_KEY");
-                      case ModelProviderName.OPENAI:
-                          return runtime.getSetting("OPENAI_API_KEY");
-                      case ModelProviderName.VENICE:
-                          return runtime.getSetting("VENICE_API_KEY");
-                      case ModelProviderName.LIVEPEER:
-                          return runtime.getSetting("LIVEPEER_GATEWAY_URL");
-                      default:
-                          // If no specific match, try the fallback chain
-                          return (
-                              runtime.getSetting("HEURIST_API_KEY") ??
-                              runtime.getSetting("NINETEEN_AI_API_KEY") ??
-                              runtime.getSetting("TOGETHER_API_KEY") ??
-                              runtime.getSetting("FAL_API_KEY") ??
-                              runtime.getSetting("OPENAI_API_KEY") ??
-                              runtime.getSetting("VENICE_API_KEY") ??
-                              runtime.getSetting("LIVEPEER_GATEWAY_URL")
-                          );
-                  }
-              })();
-    try {
-        if (runtime.imageModelProvider === ModelProviderName.HEURIST) {
-            const response = await fetch(
-                "http://sequencer.heurist.xyz/submit_job",
-                {
-                    method: "POST",
-                    headers: {
-                        Authorization: `Bearer ${apiKey}`,
-                        "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({
-                        job_id: data.jobId || crypto.randomUUID(),
-                        model_input: {
-                            SD: {
-                                prompt: data.prompt,
-                                neg_prompt: data.negativePrompt,
-                                num_iterations: data.numIterations || 20,
-                                width: data.width || 512,
-                                height: data.height || 512,
-                                guidance_scale: data.guidanceScale || 3,
-                                seed: data.seed || -1,
-                            },
-                        },
-                        model_id: model,
-                        deadline: 60,
-                        priority: 1,
-                    }),
-                }
-            );
-
-            if (!response.ok) {
-                throw new Error(
-                    `Heurist image generation failed: ${response.statusText}`
-                );
-            }
-
-            const imageURL = await response.json();
-            return { success: true, data: [imageURL] };
-        } else if (
-            runtime.imageModelProvider === ModelProviderName.TOGETHER ||
-            // for backwards compat
-            runtime.imageModelProvider === ModelProviderName.LLAMACLOUD
-        ) {
-            const together = new Together({ apiKey: apiKey as string });
-            const response = await together.images.create({
-                model: model,
-                prompt: data.prompt,
-                width: data.width,
-                height: data.height,
-                steps: modelSettings?.steps ?? 4,
-                n: data.count,
-            });
-
-            // Add type assertion to handle the response properly
-            const togetherResponse =
-                response as unknown as TogetherAIImageResponse;
-
-            if (
-                !togetherResponse.data ||
-                !Array.isArray(togetherResponse.data)
-            ) {
-                throw new Error("Invalid response format from Together AI");
-            }
-
-            // Rest of the code remains the same...
-            const base64s = await Promise.all(
-                togetherResponse.data.map(async (image) => {
-                    if (!image.url) {
-                        elizaLogger.error("Missing URL in image data:", image);
-                        throw new Error("Missing URL in Together AI response");
-                    }
-
-                    // Fetch the image from the URL
-                    const imageResponse = await fetch(image.url);
-                    if (!imageResponse.ok) {
-                        throw new Error(
-                            `Failed to fetch image: ${imageResponse.statusText}`
-                        );
-                    }
-
-                    // Convert to blob and then to base64
-                    const blob = await imageResponse.blob();
-                    const arrayBuffer = await blob.arrayBuffer();
-                    const base64 = Buffer.from(arrayBuffer).toString("base64");
-
-                    // Return with proper MIME type
-                    return `data:image/jpeg;base64,${base64}`;
-                })
-            );
-
-            if (base64s.length === 0) {
-                throw new Error("No images generated by Together AI");
-            }
-
-            elizaLogger.debug(`Generated ${base64s.length} images`);
-            return { success: true, data: base64s };
-        } else if (runtime.imageModelProvider === ModelProviderName.FAL) {
-            fal.config({
-                credentials: apiKey as string,
+    const attempts: ImageGenerationAttempt[] = [];
+    let lastError: unknown;
+
+    for (const [index, entry] of getImageProviderChain(runtime).entries()) {
+        const adapter =
+            getImageProvider(entry.provider, runtime) ??
+            // An unknown imageModelProvider has always fallen back to OpenAI
+            (index === 0
+                ? getImageProvider(ModelProviderName.OPENAI, runtime)
+                : undefined);
+        if (!adapter) {
+            lastError = new Error(`Unknown image provider: ${entry.provider}`);
+            attempts.push({
+                provider: entry.provider,
+                attempt: 0,
+                durationMs: 0,
+                error: (lastError as Error).message,
+                retryable: false,
             });
-
-            // Prepare the input parameters according to their schema
-            const input = {
-                prompt: data.prompt,
-                image_size: "square" as const,
-                num_inference_steps: modelSettings?.steps ?? 50,
-                guidance_scale: data.guidanceScale || 3.5,
-                num_images: data.count,
-                enable_safety_checker:
-                    runtime.getSetting("FAL_AI_ENABLE_SAFETY_CHECKER") ===
-                    "true",
-                safety_tolerance: Number(
-                    runtime.getSetting("FAL_AI_SAFETY_TOLERANCE") || "2"
-                ),
-                output_format: "png" as const,
-                seed: data.seed ?? 6252023,
-                ...(runtime.getSetting("FAL_AI_LORA_PATH")
-                    ? {
-                          loras: [
-                              {
-                                  path: runtime.getSetting("FAL_AI_LORA_PATH"),
-                                  scale: 1,
-                              },
-                          ],
-                      }
-                    : {}),
-            };
-
-            // Subscribe to the model
-            const result = await fal.subscribe(model, {
-                input,
-                logs: true,
-                onQueueUpdate: (update) => {
-                    if (update.status === "IN_PROGRESS") {
-                        elizaLogger.info(update.logs.map((log) => log.message));
-                    }
-                },
-            });
-
-            // Convert the returned image URLs to base64 to match existing functionality
-            const base64Promises = result.data.images.map(async (image) => {
-                const response = await fetch(image.url);
-                const blob = await response.blob();
-                const buffer = await blob.arrayBuffer();
-                const base64 = Buffer.from(buffer).toString("base64");
-                return `data:${image.content_type};base64,${base64}`;
-            });
-
-            const base64s = await Promise.all(base64Promises);
-            return { success: true, data: base64s };
-        } else if (runtime.imageModelProvider === ModelProviderName.VENICE) {
-            const response = await fetch(
-                "https://api.venice.ai/api/v1/image/generate",
-                {
-                    method: "POST",
-                    headers: {
-                        Authorization: `Bearer ${apiKey}`,
-                        "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({
-                        model: model,
-                        prompt: data.prompt,
-                        negative_prompt: data.negativePrompt,
-                        width: data.width,
-                        height: data.height,
-                        steps: data.numIterations,
-                        seed: data.seed,
-                        style_preset: data.stylePreset,
-                        hide_watermark: data.hideWatermark,
-                    }),
-                }
+            continue;
+        }
+        if (!supportsImageOperation(adapter, data.operation)) {
+            lastError = new Error(
+                `${adapter.name} does not support ${data.operation}`
             );
-
-            const result = await response.json();
-
-            if (!result.images || !Array.isArray(result.images)) {
-                throw new Error("Invalid response format from Venice AI");
-            }
-
-            const base64s = result.images.map((base64String) => {
-                if (!base64String) {
-                    throw new Error(
-                        "Empty base64 string in Venice AI response"
-                    );
-                }
-                return `data:image/png;base64,${base64String}`;
+            attempts.push({
+                provider: adapter.name,
+                attempt: 0,
+                durationMs: 0,
+                error: (lastError as Error).message,
+                retryable: false,
             });
+            continue;
+        }
 
-            return { success: true, data: base64s };
-        } else if (
-            runtime.imageModelProvider === ModelProviderName.NINETEEN_AI
-        ) {
-            const response = await fetch(
-                "https://api.nineteen.ai/v1/text-to-image",
-                {
-                    method: "POST",
-                    headers: {
-                        Authorization: `Bearer ${apiKey}`,
-                        "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({
-                        model: model,
-                        prompt: data.prompt,
-                        negative_prompt: data.negativePrompt,
-                        width: data.width,
-                        height: data.height,
-                        steps: data.numIterations,
-                        cfg_scale: data.guidanceScale || 3,
-                    }),
-                }
-            );
-
-            const result = await response.json();
+        const modelSettings = getImageModelSettings(
+            adapter.name as ModelProviderName
+        );
+        const model = modelSettings?.name;
+        elizaLogger.info("Generating image with options:", {
+            imageModelProvider: adapter.name,
+            model,
+        });
 
-            if (!result.images || !Array.isArray(result.images)) {
-                throw new Error("Invalid response format from Nineteen AI");
+        for (let attempt = 1; attempt <= entry.maxRetries + 1; attempt++) {
+            // Checked before every attempt, so retries stop once it is spent
+            if ((await getBudgetStatus(runtime)).image.exhausted) {
+                elizaLogger.warn(
+                    "Image budget is spent, not generating images"
+                );
+                return {
+                    success: false,
+                    error: new Error("Image budget exhausted"),
+                    attempts,
+                };
             }
 
-            const base64s = result.images.map((base64String) => {
-                if (!base64String) {
-                    throw new Error(
-                        "Empty base64 string in Nineteen AI response"
-                    );
-                }
-                return `data:image/png;base64,${base64String}`;
+            const startedAt = Date.now();
+            const trace = startModelTrace(runtime, {
+                kind: "image",
+                modelClass: ModelClass.IMAGE,
+                modelProvider: adapter.name,
+                model,
             });
-
-            return { success: true, data: base64s };
-        } else if (runtime.imageModelProvider === ModelProviderName.LIVEPEER) {
-            if (!apiKey) {
-                throw new Error("Livepeer Gateway is not defined");
-            }
             try {
-                const baseUrl = new URL(apiKey);
-                if (!baseUrl.protocol.startsWith("http")) {
-                    throw new Error("Invalid Livepeer Gateway URL protocol");
-                }
-                const response = await fetch(
-                    `${baseUrl.toString()}text-to-image`,
-                    {
-                        method: "POST",
-                        headers: {
-                            "Content-Type": "application/json",
-                        },
-                        body: JSON.stringify({
-                            model_id: model,
-                            prompt: data.prompt,
-                            width: data.width || 1024,
-                            height: data.height || 1024,
-                        }),
-                    }
-                );
-                const result = await response.json();
-                if (!result.images?.length) {
-                    throw new Error("No images generated");
-                }
-                const base64Images = await Promise.all(
-                    result.images.map(async (image) => {
-                        console.log("imageUrl console log", image.url);
-                        let imageUrl;
-                        if (image.url.includes("http")) {
-                            imageUrl = image.url;
-                        } else {
-                            imageUrl = `${apiKey}${image.url}`;
-                        }
-                        const imageResponse = await fetch(imageUrl);
-                        if (!imageResponse.ok) {
-                            throw new Error(
-                                `Failed to fetch image: ${imageResponse.statusText}`
-                            );
-                        }
-                        const blob = await imageResponse.blob();
-                        const arrayBuffer = await blob.arrayBuffer();
-                        const base64 =
-                            Buffer.from(arrayBuffer).toString("base64");
-                        return `data:image/jpeg;base64,${base64}`;
-                    })
+                const images = await withTimeout(
+                    globalThis.fetch,
+                    entry.timeoutMs,
+                    (fetch) =>
+                        adapter.generate(data, {
+                            runtime,
+                            apiKey: getImageProviderApiKey(runtime, adapter),
+                            model,
+                            modelSettings,
+                            fetch,
+                        })
                 );
+                attempts.push({
+                    provider: adapter.name,
+                    attempt,
+                    durationMs: Date.now() - startedAt,
+                });
+                // Recorded before returning, so the next call sees the spend
+                await trace?.finish({
+                    prompt: data.prompt,
+                    images: images.length,
+                });
                 return {
                     success: true,
-                    data: base64Images,
+                    data: images.map(toImageData),
+                    images,
+                    provider: adapter.name,
+                    attempts,
                 };
             } catch (error) {
-                console.error(error);
-                return { success: false, error: error };
-            }
-        } else {
-            let targetSize = `${data.width}x${data.height}`;
-            if (
-                targetSize !== "1024x1024" &&
-                targetSize !== "1792x1024" &&
-                targetSize !== "1024x1792"
-            ) {
-                targetSize = "1024x1024";
-            }
-            const openaiApiKey = runtime.getSetting("OPENAI_API_KEY") as string;
-            if (!openaiApiKey) {
-                throw new Error("OPENAI_API_KEY is not set");
+                trace?.finish({ prompt: data.prompt, error });
+                lastError = error;
+                const retryable = isRetryableImageError(error);
+                attempts.push({
+                    provider: adapter.name,
+                    attempt,
+                    durationMs: Date.now() - startedAt,
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                    retryable,
+                });
+                elizaLogger.warn(
+                    `Image provider ${adapter.name} failed (attempt ${attempt}/${entry.maxRetries + 1}, ${retryable ? "retryable" : "fatal"}):`,
+                    error
+                );
+
+                if (!retryable || attempt > entry.maxRetries) break;
+                const delay = Math.min(
+                    entry.initialDelayMs * 2 ** (attempt - 1),
+                    entry.maxDelayMs
+                );
+                await new Promise((resolve) => setTimeout(resolve, delay));
             }
-            const openai = new OpenAI({
-                apiKey: openaiApiKey as string,
-            });
-            const response = await openai.images.generate({
-                model,
-                prompt: data.prompt,
-                size: targetSize as "1024x1024" | "1792x1024" | "1024x1792",
-                n: data.count,
-                response_format: "b64_json",
-            });
-            const base64s = response.data.map(
-                (image) => `data:image/png;base64,${image.b64_json}`
-            );
-            return { success: true, data: base64s };
         }
-    } catch (error) {
-        console.error(error);
-        return { success: false, error: error };
     }
+
+    elizaLogger.error("All image providers failed:", attempts);
+    return { success: false, error: lastError, attempts };
 };
 
 export const generateCaption = async (
@@ -1804,6 +1663,7 @@ export const generateObject = async ({
     }
 
     const provider = runtime.modelProvider;
+    modelClass = await applyBudgetToModelClass(runtime, modelClass);
     const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
     const model = modelSettings.name;
     const temperature = modelSettings.temperature;
@@ -1813,6 +1673,11 @@ export const generateObject = async ({
     const max_response_length = modelSettings.maxOutputTokens;
     const experimental_telemetry = modelSettings.experimental_telemetry;
     const apiKey = runtime.token;
+    const trace = startModelTrace(runtime, {
+        kind: "object",
+        modelClass,
+        model,
+    });
 
     try {
         context = await trimTokens(context, max_context_length, runtime);
@@ -1844,8 +1709,13 @@ export const generateObject = async ({
             verifiableInferenceOptions,
         });
 
+        trace?.finish({
+            prompt: context,
+            output: JSON.stringify(response.object),
+        });
         return response;
     } catch (error) {
+        trace?.finish({ prompt: context, error });
         console.error("Error in generateObject:", error);
         throw error;
     }
@@ -2211,14 +2081,6 @@ async function handleDeepSeek({
 }
 
 // Add type definition for Together AI response
-interface TogetherAIImageResponse {
-    data: Array<{
-        url: string;
-        content_type?: string;
-        image_type?: string;
-    }>;
-}
-
 export async function generateTweetActions({
     runtime,
     context,
@@ -0,0 +1,159 @@
+import { composeContext } from "./context.ts";
+import { generateText } from "./generation.ts";
+import elizaLogger from "./logger.ts";
+import { parseJSONObjectFromText } from "./parsing.ts";
+import {
+    type IAgentRuntime,
+    type IImageDescriptionService,
+    type ImageModerationResult,
+    ModelClass,
+    ServiceType,
+    type State,
+} from "./types.ts";
+
+export const imageModerationTemplate = `# Task: Decide whether {{agentName}} may post an image publicly.
+
+# Image description
+{{imageDescription}}
+
+# Prompt the image was generated from
+{{imagePrompt}}
+
+# Content policy
+{{imagePolicy}}
+
+Block the image if it breaks the policy, or if the description suggests it might. Respond with a JSON markdown block:
+\`\`\`json
+{
+    "allowed": true | false,
+    "reason": "short reason, required when not allowed"
+}
+\`\`\``;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Returns the blocklist entries found in the text, matched as whole words
+ * and ignoring case.
+ */
+export function findBlockedTerms(text: string, blocklist: string[]): string[] {
+    return blocklist.filter(
+        (term) =>
+            term.trim() &&
+            new RegExp(`\\b${escapeRegExp(term.trim())}\\b`, "i").test(text)
+    );
+}
+
+export function isImageModerationEnabled(runtime: IAgentRuntime): boolean {
+    const moderation = runtime.character?.settings?.imageSettings?.moderation;
+    return (
+        !!moderation &&
+        moderation.enabled !== false &&
+        !!(moderation.blocklist?.length || moderation.policy)
+    );
+}
+
+/**
+ * Checks a generated image against the character's moderation settings. The
+ * image is described by the image description service, and the description
+ * and prompt are matched against the blocklist and then judged against the
+ * policy. Images are blocked when moderation cannot run, unless failOpen is
+ * set.
+ *
+ * @param image Local path or URL of the image
+ * @param prompt Prompt the image was generated from
+ */
+export async function moderateImage(
+    runtime: IAgentRuntime,
+    image: string,
+    prompt = ""
+): Promise<ImageModerationResult> {
+    if (!isImageModerationEnabled(runtime)) {
+        return { allowed: true };
+    }
+    const moderation = runtime.character.settings.imageSettings.moderation;
+    const unavailable = (reason: string): ImageModerationResult =>
+        moderation.failOpen
+            ? { allowed: true, reason }
+            : { allowed: false, reason };
+
+    const blockedInPrompt = findBlockedTerms(
+        prompt,
+        moderation.blocklist ?? []
+    );
+    if (blockedInPrompt.length > 0) {
+        return {
+            allowed: false,
+            reason: `Prompt contains blocked terms: ${blockedInPrompt.join(", ")}`,
+        };
+    }
+
+    const descriptionService = runtime.getService<IImageDescriptionService>(
+        ServiceType.IMAGE_DESCRIPTION
+    );
+    if (!descriptionService) {
+        return unavailable("Image description service is not available");
+    }
+
+    let description: string;
+    try {
+        const described = await descriptionService.describeImage(image);
+        description = `${described.title}\n${described.description}`.trim();
+    } catch (error) {
+        elizaLogger.error("Failed to describe image for moderation:", error);
+        return unavailable("Image could not be described");
+    }
+
+    const blocked = findBlockedTerms(description, moderation.blocklist ?? []);
+    if (blocked.length > 0) {
+        return {
+            allowed: false,
+            reason: `Image shows blocked content: ${blocked.join(", ")}`,
+            description,
+        };
+    }
+
+    if (!moderation.policy) {
+        return { allowed: true, description };
+    }
+
+    try {
+        const response = await generateText({
+            runtime,
+            context: composeContext({
+                state: {
+                    agentName: runtime.character.name,
+                    imageDescription: description,
+                    imagePrompt: prompt || "(unknown)",
+                    imagePolicy: moderation.policy,
+                } as unknown as State,
+                template:
+                    runtime.character.templates?.imageModerationTemplate ||
+                    imageModerationTemplate,
+            }),
+            modelClass: ModelClass.SMALL,
+        });
+        const verdict = parseJSONObjectFromText(response) as {
+            allowed?: boolean;
+            reason?: string;
+        } | null;
+        if (typeof verdict?.allowed !== "boolean") {
+            return {
+                ...unavailable("Policy check returned no verdict"),
+                description,
+            };
+        }
+        return {
+            allowed: verdict.allowed,
+            reason: verdict.allowed
+                ? undefined
+                : verdict.reason || "Image breaks the content policy",
+            description,
+        };
+    } catch (error) {
+        elizaLogger.error("Failed to check image against policy:", error);
+        return { ...unavailable("Policy check failed"), description };
+    }
+}
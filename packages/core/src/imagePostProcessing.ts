@@ -0,0 +1,175 @@
+import elizaLogger from "./logger.ts";
+import {
+    type IAgentRuntime,
+    type ImagePlatformProfile,
+    type ImagePostProcessor,
+    type ProcessedImage,
+} from "./types.ts";
+
+/** Post-processors registered for every agent */
+const imagePostProcessors = new Map<string, ImagePostProcessor>();
+
+/** Post-processors plugins registered for one agent */
+const runtimeImagePostProcessors = new WeakMap<
+    IAgentRuntime,
+    Map<string, ImagePostProcessor>
+>();
+
+/**
+ * Built-in platform profiles. Twitter shows 16:9 best in the timeline and
+ * Farcaster frames are square; the default keeps images under the 5MB most
+ * stores and clients accept.
+ */
+export const IMAGE_PLATFORM_PROFILES: Record<string, ImagePlatformProfile> = {
+    default: { maxBytes: 5 * 1024 * 1024 },
+    twitter: {
+        aspectRatio: "16:9",
+        fit: "cover",
+        maxWidth: 4096,
+        maxHeight: 4096,
+        maxBytes: 5 * 1024 * 1024,
+    },
+    farcaster: {
+        aspectRatio: "1:1",
+        fit: "cover",
+        maxBytes: 10 * 1024 * 1024,
+    },
+    discord: { maxBytes: 10 * 1024 * 1024 },
+};
+
+const IMAGE_SIGNATURES: {
+    mimeType: string;
+    matches: (data: Buffer) => boolean;
+}[] = [
+    {
+        mimeType: "image/png",
+        matches: (data) => data.subarray(0, 4).toString("hex") === "89504e47",
+    },
+    {
+        mimeType: "image/jpeg",
+        matches: (data) => data.subarray(0, 3).toString("hex") === "ffd8ff",
+    },
+    {
+        mimeType: "image/gif",
+        matches: (data) => data.subarray(0, 4).toString("ascii") === "GIF8",
+    },
+    {
+        mimeType: "image/webp",
+        matches: (data) =>
+            data.subarray(0, 4).toString("ascii") === "RIFF" &&
+            data.subarray(8, 12).toString("ascii") === "WEBP",
+    },
+];
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/gif": "gif",
+    "image/webp": "webp",
+};
+
+/**
+ * Detects the image format from its magic bytes, or returns null when the
+ * data is not a known image format.
+ */
+export function detectImageMimeType(data: Buffer): string | null {
+    return (
+        IMAGE_SIGNATURES.find((signature) => signature.matches(data))
+            ?.mimeType ?? null
+    );
+}
+
+export function getImageExtension(mimeType: string): string {
+    return IMAGE_EXTENSIONS[mimeType] || "png";
+}
+
+/**
+ * Registers a post-processor for the agent when a runtime is given, and for
+ * every agent otherwise.
+ */
+export function registerImagePostProcessor(
+    processor: ImagePostProcessor,
+    runtime?: IAgentRuntime
+) {
+    if (!runtime) {
+        imagePostProcessors.set(processor.name, processor);
+        return;
+    }
+    const processors = runtimeImagePostProcessors.get(runtime) ?? new Map();
+    processors.set(processor.name, processor);
+    runtimeImagePostProcessors.set(runtime, processors);
+}
+
+/**
+ * Post-processors an agent runs, in order of registration. The agent's own
+ * replace shared ones of the same name.
+ */
+export function getImagePostProcessors(
+    runtime?: IAgentRuntime
+): ImagePostProcessor[] {
+    return [
+        ...new Map([
+            ...imagePostProcessors,
+            ...((runtime && runtimeImagePostProcessors.get(runtime)) ?? []),
+        ]).values(),
+    ];
+}
+
+/**
+ * Resolves the profile for a platform: the built-in profile, overridden by
+ * the character's imageSettings.postProcessing.platforms entry.
+ */
+export function getImagePlatformProfile(
+    runtime: IAgentRuntime,
+    platform = "default"
+): ImagePlatformProfile {
+    const configured =
+        runtime.character?.settings?.imageSettings?.postProcessing?.platforms;
+    return {
+        ...IMAGE_PLATFORM_PROFILES.default,
+        ...IMAGE_PLATFORM_PROFILES[platform],
+        ...configured?.default,
+        ...(platform !== "default" ? configured?.[platform] : undefined),
+    };
+}
+
+/**
+ * Runs an image through the registered post-processors in order. The image's
+ * real format is detected first, so callers can trust mimeType even when a
+ * provider mislabels its output. A stage that fails is logged and skipped.
+ */
+export async function postProcessImage(
+    runtime: IAgentRuntime,
+    image: ProcessedImage,
+    options: { platform?: string; prompt?: string } = {}
+): Promise<ProcessedImage> {
+    let result: ProcessedImage = {
+        ...image,
+        mimeType: detectImageMimeType(image.data) ?? image.mimeType,
+    };
+
+    const settings =
+        runtime.character?.settings?.imageSettings?.postProcessing ?? {};
+    if (settings.enabled === false) {
+        return result;
+    }
+
+    const context = {
+        runtime,
+        platform: options.platform,
+        profile: getImagePlatformProfile(runtime, options.platform),
+        settings,
+        prompt: options.prompt,
+    };
+    for (const processor of getImagePostProcessors(runtime)) {
+        try {
+            result = await processor.process(result, context);
+        } catch (error) {
+            elizaLogger.error(
+                `Image post-processor ${processor.name} failed:`,
+                error
+            );
+        }
+    }
+    return result;
+}
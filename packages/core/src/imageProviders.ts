@@ -0,0 +1,715 @@
+import { createFalClient, type FalClient } from "@fal-ai/client";
+import OpenAI, { toFile } from "openai";
+import Together from "together-ai";
+import elizaLogger from "./logger.ts";
+import {
+    type GeneratedImage,
+    type IAgentRuntime,
+    type ImageGenerationRequest,
+    type ImageOperation,
+    type ImageProviderAdapter,
+    type ImageProviderContext,
+    type ImageProviderFallback,
+    type ImageRetryPolicy,
+    ModelProviderName,
+} from "./types.ts";
+
+/** Built-in providers and those registered for every agent */
+const imageProviders = new Map<string, ImageProviderAdapter>();
+
+/** Providers plugins registered for one agent */
+const runtimeImageProviders = new WeakMap<
+    IAgentRuntime,
+    Map<string, ImageProviderAdapter>
+>();
+
+export const DEFAULT_IMAGE_RETRY_POLICY: Required<ImageRetryPolicy> = {
+    maxRetries: 2,
+    initialDelayMs: 1000,
+    maxDelayMs: 10000,
+    timeoutMs: 120000,
+};
+
+/**
+ * Error raised by image providers. Retryable errors are retried against the
+ * same provider; fatal ones move on to the next provider in the chain.
+ */
+export class ImageGenerationError extends Error {
+    constructor(
+        message: string,
+        public readonly retryable: boolean,
+        public readonly status?: number
+    ) {
+        super(message);
+        this.name = "ImageGenerationError";
+    }
+}
+
+const RETRYABLE_MESSAGE =
+    /rate.?limit|too many requests|timed? ?out|overloaded|temporarily|unavailable|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|network/i;
+const FATAL_MESSAGE =
+    /safety|content.?policy|nsfw|moderation|not allowed|api key|unauthorized|forbidden|invalid/i;
+
+function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+/**
+ * Decides whether an image provider error is worth retrying. HTTP status
+ * codes win over the message; unknown errors are treated as transient.
+ */
+export function isRetryableImageError(error: unknown): boolean {
+    if (error instanceof ImageGenerationError) {
+        return error.retryable;
+    }
+
+    const status =
+        (error as { status?: number })?.status ??
+        (error as { statusCode?: number })?.statusCode;
+    if (typeof status === "number") {
+        return isRetryableStatus(status);
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (FATAL_MESSAGE.test(message)) return false;
+    if (RETRYABLE_MESSAGE.test(message)) return true;
+    return true;
+}
+
+/**
+ * Throws an ImageGenerationError for a failed HTTP response.
+ */
+function assertOk(response: Response, provider: string) {
+    if (!response.ok) {
+        throw new ImageGenerationError(
+            `${provider} image generation failed: ${response.statusText}`,
+            isRetryableStatus(response.status),
+            response.status
+        );
+    }
+}
+
+/**
+ * Registers an image provider under its name and aliases, for the agent when
+ * a runtime is given and for every agent otherwise. Registering a name that
+ * is already taken replaces the previous adapter.
+ */
+export function registerImageProvider(
+    adapter: ImageProviderAdapter,
+    runtime?: IAgentRuntime
+): void {
+    let providers = imageProviders;
+    if (runtime) {
+        providers = runtimeImageProviders.get(runtime) ?? new Map();
+        runtimeImageProviders.set(runtime, providers);
+    }
+    for (const name of [adapter.name, ...(adapter.aliases ?? [])]) {
+        if (providers.has(name)) {
+            elizaLogger.warn(`Replacing image provider "${name}"`);
+        }
+        providers.set(name, adapter);
+    }
+}
+
+/** Looks up a provider, preferring the agent's own over shared ones */
+export function getImageProvider(
+    name: string,
+    runtime?: IAgentRuntime
+): ImageProviderAdapter | undefined {
+    return (
+        (runtime && runtimeImageProviders.get(runtime)?.get(name)) ??
+        imageProviders.get(name)
+    );
+}
+
+export function getImageProviderNames(runtime?: IAgentRuntime): string[] {
+    return [
+        ...new Set([
+            ...imageProviders.keys(),
+            ...((runtime && runtimeImageProviders.get(runtime)?.keys()) ?? []),
+        ]),
+    ];
+}
+
+export function supportsImageOperation(
+    adapter: ImageProviderAdapter,
+    operation: ImageOperation = "generate"
+): boolean {
+    return (adapter.operations ?? ["generate"]).includes(operation);
+}
+
+function requireSourceImage(request: ImageGenerationRequest) {
+    if (!request.sourceImage) {
+        throw new ImageGenerationError(
+            `A source image is required to ${request.operation}`,
+            false
+        );
+    }
+    return request.sourceImage;
+}
+
+function toDataUrl(image: { base64: string; mimeType: string }): string {
+    return `data:${image.mimeType};base64,${image.base64}`;
+}
+
+/**
+ * Resolves the providers to try for a character, in order: the runtime's
+ * imageModelProvider followed by imageSettings.fallbackProviders. Each entry
+ * carries its own retry policy on top of imageSettings.retry.
+ */
+export function getImageProviderChain(
+    runtime: IAgentRuntime
+): (ImageProviderFallback & Required<ImageRetryPolicy>)[] {
+    const imageSettings = runtime.character?.settings?.imageSettings;
+    const entries: ImageProviderFallback[] = [
+        { provider: runtime.imageModelProvider },
+        ...(imageSettings?.fallbackProviders ?? []).map((entry) =>
+            typeof entry === "string" ? { provider: entry } : entry
+        ),
+    ];
+
+    const chain = new Map<string, ImageProviderFallback>();
+    for (const entry of entries) {
+        // A later, more specific entry for the same provider wins
+        chain.set(entry.provider, { ...chain.get(entry.provider), ...entry });
+    }
+
+    return [...chain.values()].map((entry) => ({
+        ...DEFAULT_IMAGE_RETRY_POLICY,
+        ...imageSettings?.retry,
+        ...entry,
+    }));
+}
+
+/**
+ * Wraps fetch so every request made during one attempt is aborted when the
+ * attempt times out.
+ */
+export function withTimeout<T>(
+    fetchFn: typeof fetch,
+    timeoutMs: number,
+    run: (fetchFn: typeof fetch) => Promise<T>
+): Promise<T> {
+    const controller = new AbortController();
+    const timedFetch = ((input, init) =>
+        fetchFn(input, {
+            ...init,
+            signal: controller.signal,
+        })) as typeof fetch;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(
+                new ImageGenerationError(
+                    `Image generation timed out after ${timeoutMs}ms`,
+                    true
+                )
+            );
+        }, timeoutMs);
+    });
+
+    return Promise.race([run(timedFetch), timeout]).finally(() =>
+        clearTimeout(timer)
+    );
+}
+
+/**
+ * Looks up the API key for an image provider. When the adapter serves the
+ * runtime's text provider, the runtime token is used.
+ */
+export function getImageProviderApiKey(
+    runtime: IAgentRuntime,
+    adapter: ImageProviderAdapter
+): string | undefined {
+    const names = [adapter.name, ...(adapter.aliases ?? [])];
+    if (names.includes(runtime.modelProvider) && runtime.token) {
+        return runtime.token;
+    }
+    return adapter.apiKeySetting
+        ? runtime.getSetting(adapter.apiKeySetting) || undefined
+        : undefined;
+}
+
+/**
+ * Downloads an image and returns it as base64, taking the mime type from the
+ * response when the server sends one.
+ */
+export async function fetchImageAsBase64(
+    fetchFn: typeof fetch,
+    url: string,
+    fallbackMimeType = "image/png"
+): Promise<{ base64: string; mimeType: string }> {
+    const response = await fetchFn(url);
+    if (!response.ok) {
+        throw new ImageGenerationError(
+            `Failed to fetch image: ${response.statusText}`,
+            isRetryableStatus(response.status),
+            response.status
+        );
+    }
+
+    const contentType = response.headers?.get("content-type");
+    const arrayBuffer = await response.arrayBuffer();
+    return {
+        base64: Buffer.from(arrayBuffer).toString("base64"),
+        mimeType: contentType?.startsWith("image/")
+            ? contentType
+            : fallbackMimeType,
+    };
+}
+
+/**
+ * Turns a generated image into the string form returned by generateImage:
+ * a data URL for inline images, the plain URL otherwise.
+ */
+export function toImageData(image: GeneratedImage): string {
+    return image.base64
+        ? `data:${image.mimeType};base64,${image.base64}`
+        : image.url;
+}
+
+function requireApiKey(context: ImageProviderContext, provider: string) {
+    if (!context.apiKey) {
+        throw new ImageGenerationError(`${provider} API key is not set`, false);
+    }
+    return context.apiKey;
+}
+
+function toBase64Images(
+    result: { images?: string[] },
+    provider: string,
+    seed?: number
+): GeneratedImage[] {
+    if (!result.images || !Array.isArray(result.images)) {
+        throw new Error(`Invalid response format from ${provider}`);
+    }
+
+    return result.images.map((base64String) => {
+        if (!base64String) {
+            throw new Error(`Empty base64 string in ${provider} response`);
+        }
+        return { base64: base64String, mimeType: "image/png", seed };
+    });
+}
+
+export const heuristImageProvider: ImageProviderAdapter = {
+    name: ModelProviderName.HEURIST,
+    apiKeySetting: "HEURIST_API_KEY",
+    generate: async (request, context) => {
+        const seed = request.seed || -1;
+        const response = await context.fetch(
+            "http://sequencer.heurist.xyz/submit_job",
+            {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${context.apiKey}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    job_id: request.jobId || crypto.randomUUID(),
+                    model_input: {
+                        SD: {
+                            prompt: request.prompt,
+                            neg_prompt: request.negativePrompt,
+                            num_iterations: request.numIterations || 20,
+                            width: request.width || 512,
+                            height: request.height || 512,
+                            guidance_scale: request.guidanceScale || 3,
+                            seed,
+                        },
+                    },
+                    model_id: context.model,
+                    deadline: 60,
+                    priority: 1,
+                }),
+            }
+        );
+
+        assertOk(response, "Heurist");
+
+        const imageURL = await response.json();
+        return [
+            {
+                url: imageURL,
+                mimeType: "image/png",
+                ...(seed !== -1 ? { seed } : {}),
+            },
+        ];
+    },
+};
+
+interface TogetherAIImageResponse {
+    data: Array<{
+        url: string;
+        content_type?: string;
+        image_type?: string;
+    }>;
+}
+
+export const togetherImageProvider: ImageProviderAdapter = {
+    name: ModelProviderName.TOGETHER,
+    // for backwards compat
+    aliases: [ModelProviderName.LLAMACLOUD],
+    apiKeySetting: "TOGETHER_API_KEY",
+    generate: async (request, context) => {
+        const together = new Together({
+            apiKey: context.apiKey,
+            fetch: context.fetch,
+        });
+        const response = await together.images.create({
+            model: context.model,
+            prompt: request.prompt,
+            width: request.width,
+            height: request.height,
+            steps: context.modelSettings?.steps ?? 4,
+            n: request.count,
+        });
+
+        const togetherResponse = response as unknown as TogetherAIImageResponse;
+
+        if (!togetherResponse.data || !Array.isArray(togetherResponse.data)) {
+            throw new Error("Invalid response format from Together AI");
+        }
+
+        const images = await Promise.all(
+            togetherResponse.data.map(async (image) => {
+                if (!image.url) {
+                    elizaLogger.error("Missing URL in image data:", image);
+                    throw new Error("Missing URL in Together AI response");
+                }
+                return fetchImageAsBase64(
+                    context.fetch,
+                    image.url,
+                    "image/jpeg"
+                );
+            })
+        );
+
+        if (images.length === 0) {
+            throw new Error("No images generated by Together AI");
+        }
+
+        elizaLogger.debug(`Generated ${images.length} images`);
+        return images;
+    },
+};
+
+/** fal.ai endpoints used for operations other than text-to-image */
+const FAL_OPERATION_MODELS: Record<
+    Exclude<ImageOperation, "generate">,
+    string
+> = {
+    edit: "fal-ai/flux/dev/image-to-image",
+    variation: "fal-ai/flux/dev/redux",
+    upscale: "fal-ai/esrgan",
+};
+
+export const falImageProvider: ImageProviderAdapter = {
+    name: ModelProviderName.FAL,
+    apiKeySetting: "FAL_API_KEY",
+    operations: ["generate", "edit", "variation", "upscale"],
+    generate: async (request, context) => {
+        const { runtime } = context;
+        // A client per call, as agents may use different keys
+        const fal = createFalClient({
+            credentials: context.apiKey,
+            fetch: context.fetch,
+        });
+
+        if (request.operation && request.operation !== "generate") {
+            return transformWithFal(fal, request, context);
+        }
+
+        // Prepare the input parameters according to their schema
+        const input = {
+            prompt: request.prompt,
+            image_size: "square" as const,
+            num_inference_steps: context.modelSettings?.steps ?? 50,
+            guidance_scale: request.guidanceScale || 3.5,
+            num_images: request.count,
+            enable_safety_checker:
+                runtime.getSetting("FAL_AI_ENABLE_SAFETY_CHECKER") === "true",
+            safety_tolerance: Number(
+                runtime.getSetting("FAL_AI_SAFETY_TOLERANCE") || "2"
+            ),
+            output_format: "png" as const,
+            seed: request.seed ?? 6252023,
+            ...(runtime.getSetting("FAL_AI_LORA_PATH")
+                ? {
+                      loras: [
+                          {
+                              path: runtime.getSetting("FAL_AI_LORA_PATH"),
+                              scale: 1,
+                          },
+                      ],
+                  }
+                : {}),
+        };
+
+        const result = await fal.subscribe(context.model, {
+            input,
+            logs: true,
+            onQueueUpdate: (update) => {
+                if (update.status === "IN_PROGRESS") {
+                    elizaLogger.info(update.logs.map((log) => log.message));
+                }
+            },
+        });
+
+        return Promise.all(
+            result.data.images.map(async (image) => ({
+                ...(await fetchImageAsBase64(
+                    context.fetch,
+                    image.url,
+                    image.content_type
+                )),
+                seed: result.data.seed ?? input.seed,
+            }))
+        );
+    },
+};
+
+async function transformWithFal(
+    fal: FalClient,
+    request: ImageGenerationRequest,
+    context: ImageProviderContext
+): Promise<GeneratedImage[]> {
+    const sourceImage = requireSourceImage(request);
+    const seed = request.seed ?? Math.floor(Math.random() * 2 ** 31);
+
+    const input =
+        request.operation === "upscale"
+            ? {
+                  image_url: toDataUrl(sourceImage),
+                  scale: request.scale ?? 2,
+              }
+            : {
+                  image_url: toDataUrl(sourceImage),
+                  num_images: request.count,
+                  seed,
+                  ...(request.operation === "edit"
+                      ? {
+                            prompt: request.prompt,
+                            strength: request.strength ?? 0.85,
+                        }
+                      : {}),
+              };
+
+    const result = await fal.subscribe(
+        request.modelId || FAL_OPERATION_MODELS[request.operation],
+        { input, logs: true }
+    );
+
+    const data = result.data as {
+        images?: { url: string; content_type?: string }[];
+        image?: { url: string; content_type?: string };
+        seed?: number;
+    };
+    const images = data.images ?? (data.image ? [data.image] : []);
+    if (images.length === 0) {
+        throw new Error(`No images returned for ${request.operation}`);
+    }
+
+    return Promise.all(
+        images.map(async (image) => ({
+            ...(await fetchImageAsBase64(
+                context.fetch,
+                image.url,
+                image.content_type
+            )),
+            ...(request.operation === "upscale"
+                ? {}
+                : { seed: data.seed ?? seed }),
+        }))
+    );
+}
+
+export const veniceImageProvider: ImageProviderAdapter = {
+    name: ModelProviderName.VENICE,
+    apiKeySetting: "VENICE_API_KEY",
+    generate: async (request, context) => {
+        const response = await context.fetch(
+            "https://api.venice.ai/api/v1/image/generate",
+            {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${context.apiKey}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    model: context.model,
+                    prompt: request.prompt,
+                    negative_prompt: request.negativePrompt,
+                    width: request.width,
+                    height: request.height,
+                    steps: request.numIterations,
+                    seed: request.seed,
+                    style_preset: request.stylePreset,
+                    hide_watermark: request.hideWatermark,
+                }),
+            }
+        );
+
+        assertOk(response, "Venice AI");
+        return toBase64Images(await response.json(), "Venice AI", request.seed);
+    },
+};
+
+export const nineteenAiImageProvider: ImageProviderAdapter = {
+    name: ModelProviderName.NINETEEN_AI,
+    apiKeySetting: "NINETEEN_AI_API_KEY",
+    generate: async (request, context) => {
+        const response = await context.fetch(
+            "https://api.nineteen.ai/v1/text-to-image",
+            {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${context.apiKey}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    model: context.model,
+                    prompt: request.prompt,
+                    negative_prompt: request.negativePrompt,
+                    width: request.width,
+                    height: request.height,
+                    steps: request.numIterations,
+                    cfg_scale: request.guidanceScale || 3,
+                }),
+            }
+        );
+
+        assertOk(response, "Nineteen AI");
+        return toBase64Images(await response.json(), "Nineteen AI");
+    },
+};
+
+export const livepeerImageProvider: ImageProviderAdapter = {
+    name: ModelProviderName.LIVEPEER,
+    apiKeySetting: "LIVEPEER_GATEWAY_URL",
+    generate: async (request, context) => {
+        if (!context.apiKey) {
+            throw new ImageGenerationError(
+                "Livepeer Gateway is not defined",
+                false
+            );
+        }
+        const baseUrl = new URL(context.apiKey);
+        if (!baseUrl.protocol.startsWith("http")) {
+            throw new Error("Invalid Livepeer Gateway URL protocol");
+        }
+
+        const response = await context.fetch(
+            `${baseUrl.toString()}text-to-image`,
+            {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    model_id: context.model,
+                    prompt: request.prompt,
+                    width: request.width || 1024,
+                    height: request.height || 1024,
+                }),
+            }
+        );
+        assertOk(response, "Livepeer");
+        const result = await response.json();
+        if (!result.images?.length) {
+            throw new Error("No images generated");
+        }
+
+        return Promise.all(
+            result.images.map(async (image: { url: string; seed?: number }) => {
+                const imageUrl = image.url.includes("http")
+                    ? image.url
+                    : `${context.apiKey}${image.url}`;
+                return {
+                    ...(await fetchImageAsBase64(
+                        context.fetch,
+                        imageUrl,
+                        "image/jpeg"
+                    )),
+                    seed: image.seed,
+                };
+            })
+        );
+    },
+};
+
+export const openAiImageProvider: ImageProviderAdapter = {
+    name: ModelProviderName.OPENAI,
+    apiKeySetting: "OPENAI_API_KEY",
+    operations: ["generate", "edit", "variation"],
+    generate: async (request, context) => {
+        let targetSize = `${request.width}x${request.height}`;
+        if (
+            targetSize !== "1024x1024" &&
+            targetSize !== "1792x1024" &&
+            targetSize !== "1024x1792"
+        ) {
+            targetSize = "1024x1024";
+        }
+
+        const openai = new OpenAI({
+            apiKey: requireApiKey(context, "OpenAI"),
+            fetch: context.fetch,
+        });
+
+        if (request.operation === "edit" || request.operation === "variation") {
+            // Edits and variations are only available on dall-e-2
+            const sourceImage = requireSourceImage(request);
+            const image = await toFile(
+                Buffer.from(sourceImage.base64, "base64"),
+                "image.png",
+                { type: sourceImage.mimeType }
+            );
+            const params = {
+                model: request.modelId || "dall-e-2",
+                image,
+                n: request.count,
+                size: "1024x1024" as const,
+                response_format: "b64_json" as const,
+            };
+            const edited =
+                request.operation === "edit"
+                    ? await openai.images.edit({
+                          ...params,
+                          prompt: request.prompt,
+                      })
+                    : await openai.images.createVariation(params);
+
+            return edited.data.map((image) => ({
+                base64: image.b64_json,
+                mimeType: "image/png",
+            }));
+        }
+
+        const response = await openai.images.generate({
+            model: context.model,
+            prompt: request.prompt,
+            size: targetSize as "1024x1024" | "1792x1024" | "1024x1792",
+            n: request.count,
+            response_format: "b64_json",
+        });
+
+        return response.data.map((image) => ({
+            base64: image.b64_json,
+            mimeType: "image/png",
+            revisedPrompt: image.revised_prompt,
+        }));
+    },
+};
+
+[
+    heuristImageProvider,
+    togetherImageProvider,
+    falImageProvider,
+    veniceImageProvider,
+    nineteenAiImageProvider,
+    livepeerImageProvider,
+    openAiImageProvider,
+].forEach((adapter) => registerImageProvider(adapter));
@@ -0,0 +1,102 @@
+import { type IAgentRuntime, type ImageStyleProfile } from "./types.ts";
+
+/** Style used when a character defines no style profiles */
+export const DEFAULT_IMAGE_STYLE: ImageStyleProfile = {
+    style: "cinematic, realistic, epic",
+};
+
+export interface SelectedImageStyle {
+    name: string;
+    profile: ImageStyleProfile;
+}
+
+function countTopicMatches(profile: ImageStyleProfile, text: string): number {
+    const haystack = text.toLowerCase();
+    return (profile.topics ?? []).filter((topic) =>
+        haystack.includes(topic.toLowerCase())
+    ).length;
+}
+
+/**
+ * Picks the style profile for an image. The profile whose topics best match
+ * the text wins; otherwise profiles are rotated through when styleSelection
+ * is "rotation", and defaultStyle (or the first profile) is used if not.
+ */
+export async function selectImageStyle(
+    runtime: IAgentRuntime,
+    text = ""
+): Promise<SelectedImageStyle> {
+    const imageSettings = runtime.character?.settings?.imageSettings;
+    const styles = Object.entries(imageSettings?.styles ?? {});
+    if (styles.length === 0) {
+        return { name: "default", profile: DEFAULT_IMAGE_STYLE };
+    }
+
+    let best: [string, ImageStyleProfile] | undefined;
+    let bestMatches = 0;
+    for (const entry of styles) {
+        const matches = countTopicMatches(entry[1], text);
+        if (matches > bestMatches) {
+            best = entry;
+            bestMatches = matches;
+        }
+    }
+    if (best) {
+        return { name: best[0], profile: best[1] };
+    }
+
+    if (imageSettings.styleSelection === "rotation") {
+        const cacheKey = `imageStyles/${runtime.agentId}/rotation`;
+        const index =
+            ((await runtime.cacheManager?.get<number>(cacheKey)) ?? 0) %
+            styles.length;
+        await runtime.cacheManager?.set(cacheKey, index + 1);
+        return { name: styles[index][0], profile: styles[index][1] };
+    }
+
+    const fallback =
+        styles.find(([name]) => name === imageSettings.defaultStyle) ??
+        styles[0];
+    return { name: fallback[0], profile: fallback[1] };
+}
+
+/**
+ * Describes a style profile in a single line for an image prompt writer.
+ */
+export function formatImageStyle(profile: ImageStyleProfile): string {
+    const style = Array.isArray(profile.style)
+        ? profile.style.join(", ")
+        : profile.style;
+    return [
+        style,
+        profile.palette?.length
+            ? `color palette: ${profile.palette.join(", ")}`
+            : undefined,
+    ]
+        .filter(Boolean)
+        .join("; ");
+}
+
+/**
+ * Applies a profile's aspect ratio to the requested size, keeping the longer
+ * side and rounding the other to a multiple of 64.
+ */
+export function getImageStyleDimensions(
+    profile: ImageStyleProfile,
+    size: { width: number; height: number }
+): { width: number; height: number } {
+    const match = profile.aspectRatio?.match(
+        /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/
+    );
+    if (!match) {
+        return size;
+    }
+
+    const ratio = parseFloat(match[1]) / parseFloat(match[2]);
+    const longest = Math.max(size.width, size.height);
+    const round = (value: number) => Math.max(64, Math.round(value / 64) * 64);
+
+    return ratio >= 1
+        ? { width: longest, height: round(longest / ratio) }
+        : { width: round(longest * ratio), height: longest };
+}
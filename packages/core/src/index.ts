@@ -1,21 +1,32 @@
 import "./config.ts"; // Add this line first
 
 export * from "./actions.ts";
+export * from "./budget.ts";
+export * from "./characterVersions.ts";
 export * from "./context.ts";
+export * from "./contentScheduler.ts";
 export * from "./database.ts";
+export * from "./databaseArchive.ts";
 export * from "./defaultCharacter.ts";
 export * from "./embedding.ts";
 export * from "./evaluators.ts";
+export * from "./experiments.ts";
 export * from "./generation.ts";
+export * from "./imageModeration.ts";
+export * from "./imagePostProcessing.ts";
+export * from "./imageProviders.ts";
+export * from "./imageStyles.ts";
 export * from "./goals.ts";
 export * from "./memory.ts";
 export * from "./messages.ts";
+export * from "./migrations.ts";
 export * from "./models.ts";
 export * from "./posts.ts";
 export * from "./providers.ts";
 export * from "./relationships.ts";
 export * from "./runtime.ts";
 export * from "./settings.ts";
+export * from "./tracing.ts";
 export * from "./types.ts";
 export * from "./logger.ts";
 export * from "./parsing.ts";
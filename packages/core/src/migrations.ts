@@ -0,0 +1,187 @@
+import elizaLogger from "./logger.ts";
+
+/** SQL dialects the migration runner can write to */
+export type MigrationDialect = "sqlite" | "postgres";
+
+/**
+ * Connection a database adapter hands to the migration runner. Statements
+ * run on one connection, so BEGIN, COMMIT and session settings apply to the
+ * statements after them.
+ */
+export interface MigrationDatabase {
+    dialect: MigrationDialect;
+
+    /** Runs one or more statements without parameters */
+    exec(sql: string): Promise<void>;
+
+    /** Runs one statement, resolving with its rows or [] when it has none */
+    query<T = Record<string, unknown>>(
+        sql: string,
+        params?: unknown[]
+    ): Promise<T[]>;
+}
+
+/**
+ * One change to an adapter's schema. Versions are applied in ascending order
+ * and never change once released; a new change gets a new version.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+
+    /** SQL to run, or a function for changes SQL alone cannot make */
+    up: string | ((db: MigrationDatabase) => Promise<void>);
+
+    /**
+     * Set to false when the SQL begins and commits its own transaction.
+     * Such a migration must be safe to run again, as a failure after it
+     * leaves it unrecorded.
+     */
+    transaction?: boolean;
+}
+
+/**
+ * A migration recorded in the schema_migrations table
+ */
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    appliedAt: number;
+}
+
+/**
+ * Raised when the database was migrated by a newer release than the running
+ * one, whose code may not read or write the schema correctly.
+ */
+export class SchemaVersionError extends Error {
+    constructor(
+        public readonly version: number,
+        public readonly latestVersion: number
+    ) {
+        super(
+            `Database schema is at version ${version}, newer than version ${latestVersion} this release knows. Upgrade before starting the agent.`
+        );
+        this.name = "SchemaVersionError";
+    }
+}
+
+const createMigrationsTable = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at BIGINT NOT NULL
+)`;
+
+function validateMigrations(migrations: Migration[]) {
+    migrations.forEach((migration, i) => {
+        if (!Number.isInteger(migration.version) || migration.version < 1) {
+            throw new Error(
+                `Migration ${migration.name} has invalid version ${migration.version}`
+            );
+        }
+        if (i > 0 && migration.version <= migrations[i - 1].version) {
+            throw new Error(
+                `Migration ${migration.name} (version ${migration.version}) is out of order`
+            );
+        }
+    });
+}
+
+/** Migrations recorded in the database, oldest first */
+export async function getAppliedMigrations(
+    db: MigrationDatabase
+): Promise<AppliedMigration[]> {
+    await db.exec(createMigrationsTable);
+    const rows = await db.query<{
+        version: number | string;
+        name: string;
+        applied_at: number | string;
+    }>(
+        "SELECT version, name, applied_at FROM schema_migrations ORDER BY version"
+    );
+    return rows.map((row) => ({
+        version: Number(row.version),
+        name: row.name,
+        appliedAt: Number(row.applied_at),
+    }));
+}
+
+/** Highest migration version recorded in the database, 0 when none is */
+export async function getSchemaVersion(db: MigrationDatabase): Promise<number> {
+    const applied = await getAppliedMigrations(db);
+    return applied.length > 0 ? applied[applied.length - 1].version : 0;
+}
+
+/**
+ * Applies the migrations not yet recorded in the database, in order, and
+ * resolves with the ones applied. Each migration runs in a transaction with
+ * its schema_migrations row, so a failed one is rolled back and retried on
+ * the next start.
+ * @throws SchemaVersionError when the database has a version newer than the
+ * last migration given.
+ */
+export async function runMigrations(
+    db: MigrationDatabase,
+    migrations: Migration[]
+): Promise<AppliedMigration[]> {
+    validateMigrations(migrations);
+
+    const latestVersion =
+        migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+    const applied = await getAppliedMigrations(db);
+    const appliedVersions = new Set(applied.map((item) => item.version));
+    const currentVersion =
+        applied.length > 0 ? applied[applied.length - 1].version : 0;
+    if (currentVersion > latestVersion) {
+        throw new SchemaVersionError(currentVersion, latestVersion);
+    }
+
+    const insert =
+        db.dialect === "postgres"
+            ? "INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)"
+            : "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)";
+
+    const result: AppliedMigration[] = [];
+    for (const migration of migrations) {
+        if (appliedVersions.has(migration.version)) continue;
+
+        elizaLogger.info(
+            `Applying database migration ${migration.version} (${migration.name})`
+        );
+        const useTransaction = migration.transaction !== false;
+        const record: AppliedMigration = {
+            version: migration.version,
+            name: migration.name,
+            appliedAt: Date.now(),
+        };
+        if (useTransaction) await db.exec("BEGIN");
+        try {
+            if (typeof migration.up === "string") {
+                await db.exec(migration.up);
+            } else {
+                await migration.up(db);
+            }
+            await db.query(insert, [
+                record.version,
+                record.name,
+                record.appliedAt,
+            ]);
+            if (useTransaction) await db.exec("COMMIT");
+        } catch (error) {
+            if (useTransaction) await db.exec("ROLLBACK");
+            elizaLogger.error(
+                `Database migration ${migration.version} (${migration.name}) failed:`,
+                error
+            );
+            throw error;
+        }
+        result.push(record);
+    }
+
+    if (result.length > 0) {
+        elizaLogger.success(
+            `Database schema migrated to version ${latestVersion}`
+        );
+    }
+    return result;
+}
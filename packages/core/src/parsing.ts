@@ -3,8 +3,9 @@ const jsonBlockPattern = /```json\n([\s\S]*?)\n```/;
 
 export const messageCompletionFooter = `\nResponse format should be formatted in a JSON block like this:
 \`\`\`json
-{ "user": "{{agentName}}", "text": "string", "action": "string" }
-\`\`\``;
+{ "user": "{{agentName}}", "text": "string", "actions": [{ "name": "string", "params": {} }] }
+\`\`\`
+"actions" lists the actions to take in the order to take them, each with the parameters it needs, and is empty when there are none. Each action can use what the actions before it produced, such as the image attachments of GENERATE_IMAGE.`;
 
 export const shouldRespondFooter = `The available options are [RESPOND], [IGNORE], or [STOP]. Choose the most appropriate option.
 If {{agentName}} is talking too much, you can choose [IGNORE]
@@ -150,8 +151,14 @@ export function parseJSONObjectFromText(
             try {
                 jsonData = JSON.parse(objectMatch[0]);
             } catch (e) {
-                console.error("Error parsing JSON:", e);
-                return null;
+                // Nested objects, such as action params, end at the last brace
+                const nestedMatch = text.match(/{[\s\S]*}/);
+                try {
+                    jsonData = JSON.parse(nestedMatch[0]);
+                } catch {
+                    console.error("Error parsing JSON:", e);
+                    return null;
+                }
             }
         }
     }
@@ -169,6 +176,72 @@ export function parseJSONObjectFromText(
     }
 }
 
+const JSON_ESCAPES: Record<string, string> = {
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+};
+
+/**
+ * Follows a JSON object while it is streamed and passes on the value of one
+ * of its string fields as it arrives, unescaped. Used to show the text of a
+ * message response while the model is still writing it.
+ * @param field - Name of the string field to follow.
+ * @param onText - Called with each new piece of the field's value.
+ * @returns A function to call with each chunk of the streamed JSON.
+ */
+export function createJsonStringFieldReader(
+    field: string,
+    onText: (text: string) => void
+): (chunk: string) => void {
+    const start = new RegExp(`"${field}"\\s*:\\s*"`);
+    let state: "seeking" | "reading" | "done" = "seeking";
+    let pending = "";
+
+    return (chunk) => {
+        if (state === "done") return;
+        pending += chunk;
+
+        if (state === "seeking") {
+            const match = start.exec(pending);
+            if (!match) return;
+            pending = pending.slice(match.index + match[0].length);
+            state = "reading";
+        }
+
+        let text = "";
+        let i = 0;
+        for (; i < pending.length; i++) {
+            const char = pending[i];
+            if (char === '"') {
+                state = "done";
+                break;
+            }
+            if (char !== "\\") {
+                text += char;
+                continue;
+            }
+
+            // Escapes split across chunks wait for the rest
+            const escaped = pending[i + 1];
+            if (escaped === undefined) break;
+            if (escaped === "u") {
+                const hex = pending.slice(i + 2, i + 6);
+                if (hex.length < 4) break;
+                text += String.fromCharCode(parseInt(hex, 16));
+                i += 5;
+            } else {
+                text += JSON_ESCAPES[escaped] ?? escaped;
+                i += 1;
+            }
+        }
+        pending = pending.slice(i);
+        if (text) onText(text);
+    };
+}
+
 export const postActionResponseFooter = `Choose any combination of [LIKE], [RETWEET], [QUOTE], and [REPLY] that are appropriate. Each action must be on its own line. Your response must only include the chosen actions.`;
 
 export const parseActionResponseFromText = (
@@ -3,9 +3,17 @@ import { join } from "path";
 import { names, uniqueNamesGenerator } from "unique-names-generator";
 import { v4 as uuidv4 } from "uuid";
 import {
+    ActionAbortedError,
+    ActionParametersError,
+    actionParametersTemplate,
     composeActionExamples,
     formatActionNames,
     formatActions,
+    getActionAttachments,
+    getActionCalls,
+    parseActionParameters,
+    resolveAction,
+    runWithActionTimeout,
 } from "./actions.ts";
 import { addHeader, composeContext } from "./context.ts";
 import { defaultCharacter } from "./defaultCharacter.ts";
@@ -15,8 +23,10 @@ import {
     formatEvaluatorNames,
     formatEvaluators,
 } from "./evaluators.ts";
-import { generateText } from "./generation.ts";
+import { generateObject, generateText } from "./generation.ts";
 import { formatGoalsAsString, getGoals } from "./goals.ts";
+import { registerImageProvider } from "./imageProviders.ts";
+import { registerImagePostProcessor } from "./imagePostProcessing.ts";
 import { elizaLogger } from "./index.ts";
 import knowledge from "./knowledge.ts";
 import { MemoryManager } from "./memory.ts";
@@ -26,6 +36,7 @@ import { formatPosts } from "./posts.ts";
 import { getProviders } from "./providers.ts";
 import { RAGKnowledgeManager } from "./ragknowledge.ts";
 import settings from "./settings.ts";
+import { registerTraceSink, withTraceOrigin } from "./tracing.ts";
 import {
     Character,
     Goal,
@@ -48,12 +59,24 @@ import {
     State,
     UUID,
     type Action,
+    type ActionCall,
+    type ActionContext,
+    type ActionMiddleware,
+    type ActionResult,
     type Actor,
+    type Content,
     type Evaluator,
     type Memory,
+    type ProcessActionsOptions,
 } from "./types.ts";
 import { stringToUuid } from "./uuid.ts";
 
+/** Milliseconds an action may run without its own timeoutMs */
+const DEFAULT_ACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** How long action results are kept for a message */
+const ACTION_RESULTS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
 /**
  * Represents the runtime environment for an agent, handling message processing,
  * action registration, and interaction with external services like OpenAI and Supabase.
@@ -88,6 +111,11 @@ export class AgentRuntime implements IAgentRuntime {
      */
     actions: Action[] = [];
 
+    /**
+     * Middleware run around every action handler.
+     */
+    actionMiddleware: ActionMiddleware[] = [];
+
     /**
      * Evaluators used to assess and guide the agent's responses.
      */
@@ -108,7 +136,7 @@ export class AgentRuntime implements IAgentRuntime {
     /**
      * The model to use for generateImage.
      */
-    imageModelProvider: ModelProviderName;
+    imageModelProvider: ModelProviderName | string;
 
     /**
      * The model to use for describing images.
@@ -392,6 +420,22 @@ export class AgentRuntime implements IAgentRuntime {
             plugin.providers?.forEach((provider) => {
                 this.registerContextProvider(provider);
             });
+
+            plugin.imageProviders?.forEach((adapter) => {
+                registerImageProvider(adapter, this);
+            });
+
+            plugin.imagePostProcessors?.forEach((processor) => {
+                registerImagePostProcessor(processor, this);
+            });
+
+            plugin.traceSinks?.forEach((sink) => {
+                registerTraceSink(sink, this);
+            });
+
+            plugin.actionMiddleware?.forEach((middleware) => {
+                this.registerActionMiddleware(middleware);
+            });
         });
 
         (opts.actions ?? []).forEach((action) => {
@@ -719,83 +763,308 @@ export class AgentRuntime implements IAgentRuntime {
     }
 
     /**
-     * Process the actions of a message.
+     * Register middleware run around every action handler.
+     * @param middleware The middleware to register.
+     */
+    registerActionMiddleware(middleware: ActionMiddleware) {
+        this.actionMiddleware.push(middleware);
+    }
+
+    /**
+     * Process the actions of a message. The actions each response asks for
+     * run one after another and can use the results of those before them.
+     * Once one fails, the rest of its response's actions are skipped.
      * @param message The message to process.
-     * @param content The content of the message to process actions from.
+     * @param responses The responses naming the actions to run.
+     * @param state The state of the agent.
+     * @param callback The handler callback, called with each action's content as it is sent
+     * @param options An optional signal that cancels the running action, and listeners for actions starting and finishing.
+     * @returns The result of every action, also stored for the message.
      */
     async processActions(
         message: Memory,
         responses: Memory[],
         state?: State,
-        callback?: HandlerCallback
-    ): Promise<void> {
+        callback?: HandlerCallback,
+        options: ProcessActionsOptions = {}
+    ): Promise<ActionResult[]> {
+        const results: ActionResult[] = [];
         for (const response of responses) {
-            if (!response.content?.action) {
+            const calls = getActionCalls(response.content ?? { text: "" });
+            if (!calls.length) {
                 elizaLogger.warn("No action found in the response content.");
                 continue;
             }
 
-            const normalizedAction = response.content.action
-                .toLowerCase()
-                .replace("_", "");
-
-            elizaLogger.success(`Normalized action: ${normalizedAction}`);
-
-            let action = this.actions.find(
-                (a: { name: string }) =>
-                    a.name
-                        .toLowerCase()
-                        .replace("_", "")
-                        .includes(normalizedAction) ||
-                    normalizedAction.includes(
-                        a.name.toLowerCase().replace("_", "")
-                    )
+            let failed: ActionResult | undefined;
+            for (const call of calls) {
+                const result = failed
+                    ? this.createActionResult(message, response, call, {
+                          status: "skipped",
+                          error: `Skipped after ${failed.action ?? failed.requested} did not succeed`,
+                      })
+                    : await this.runAction(
+                          message,
+                          response,
+                          call,
+                          [...results],
+                          state,
+                          callback,
+                          options
+                      );
+                results.push(result);
+                options.onActionFinish?.(result);
+                if (result.status !== "success") {
+                    failed ??= result;
+                }
+            }
+        }
+
+        if (results.length && message.id) {
+            await this.saveActionResults(message.id, results);
+        }
+        return results;
+    }
+
+    private createActionResult(
+        message: Memory,
+        response: Memory,
+        call: ActionCall,
+        update: Partial<ActionResult> = {}
+    ): ActionResult {
+        return {
+            id: uuidv4() as UUID,
+            requested: call.name,
+            params: call.params,
+            status: "success",
+            messageId: message.id,
+            responseId: response.id,
+            roomId: message.roomId,
+            startedAt: Date.now(),
+            durationMs: 0,
+            ...update,
+        };
+    }
+
+    private async runAction(
+        message: Memory,
+        response: Memory,
+        call: ActionCall,
+        previousResults: ActionResult[],
+        state: State | undefined,
+        callback: HandlerCallback | undefined,
+        options: ProcessActionsOptions
+    ): Promise<ActionResult> {
+        const requested = call.name;
+        const result = this.createActionResult(message, response, call);
+        const finish = (update: Partial<ActionResult>) =>
+            Object.assign(result, update, {
+                durationMs: Date.now() - result.startedAt,
+            });
+
+        const { action, candidates } = resolveAction(this.actions, requested);
+        if (!action) {
+            const error = candidates.length
+                ? `Action "${requested}" is ambiguous, it could be ${candidates.join(", ")}`
+                : `No action found for "${requested}"`;
+            elizaLogger.error(error);
+            return finish({
+                status: candidates.length ? "ambiguous" : "not_found",
+                candidates: candidates.length ? candidates : undefined,
+                error,
+            });
+        }
+        result.action = action.name;
+
+        const controller = new AbortController();
+        const context: ActionContext = {
+            runtime: this,
+            action,
+            message,
+            response,
+            state,
+            call,
+            options: { ...call.params },
+            previousResults,
+            signal: controller.signal,
+        };
+        const content: Content[] = [];
+        const collect: HandlerCallback = async (response, files) => {
+            content.push(response);
+            return callback ? callback(response, files) : [];
+        };
+        options.onActionStart?.(context);
+        const timeoutMs =
+            action.timeoutMs ??
+            (parseInt(this.getSetting("ACTION_TIMEOUT_MS") ?? "") ||
+                DEFAULT_ACTION_TIMEOUT_MS);
+
+        try {
+            elizaLogger.info(`Executing handler for action: ${action.name}`);
+            const output = await runWithActionTimeout(
+                () =>
+                    withTraceOrigin({ action: action.name }, async () => {
+                        context.options = await this.getActionOptions(
+                            action,
+                            call,
+                            message,
+                            state
+                        );
+                        result.params = context.options;
+
+                        for (const middleware of this.actionMiddleware) {
+                            await middleware.before?.(context);
+                        }
+                        return action.handler(
+                            this,
+                            message,
+                            state,
+                            {
+                                ...context.options,
+                                previousResults,
+                                attachments:
+                                    getActionAttachments(previousResults),
+                                signal: context.signal,
+                            },
+                            collect
+                        );
+                    }),
+                controller,
+                timeoutMs,
+                options.signal
             );
+            finish({ status: "success", output, content });
+
+            for (const middleware of this.actionMiddleware) {
+                try {
+                    await middleware.after?.(context, result);
+                } catch (error) {
+                    elizaLogger.error(
+                        `Action middleware ${middleware.name} failed after ${action.name}:`,
+                        error
+                    );
+                }
+            }
+        } catch (error) {
+            if (error instanceof ActionParametersError) {
+                // Tell the user what was wrong, so they can ask again
+                try {
+                    await collect({
+                        text: error.message,
+                        action: action.name,
+                        error: error.message,
+                    });
+                } catch (callbackError) {
+                    elizaLogger.error(
+                        "Error reporting invalid parameters:",
+                        callbackError
+                    );
+                }
+            }
 
-            if (!action) {
-                elizaLogger.info("Attempting to find action in similes.");
-                for (const _action of this.actions) {
-                    const simileAction = _action.similes.find(
-                        (simile) =>
-                            simile
-                                .toLowerCase()
-                                .replace("_", "")
-                                .includes(normalizedAction) ||
-                            normalizedAction.includes(
-                                simile.toLowerCase().replace("_", "")
-                            )
+            finish({
+                status:
+                    error instanceof ActionAbortedError
+                        ? error.status
+                        : error instanceof ActionParametersError
+                          ? "invalid"
+                          : "error",
+                error: error instanceof Error ? error.message : String(error),
+                content,
+            });
+            elizaLogger.error(`Action ${action.name} failed:`, result.error);
+
+            for (const middleware of this.actionMiddleware) {
+                try {
+                    await middleware.error?.(context, error, result);
+                } catch (hookError) {
+                    elizaLogger.error(
+                        `Action middleware ${middleware.name} failed on the error of ${action.name}:`,
+                        hookError
                     );
-                    if (simileAction) {
-                        action = _action;
-                        elizaLogger.success(
-                            `Action found in similes: ${action.name}`
-                        );
-                        break;
-                    }
                 }
             }
+        }
+        return result;
+    }
 
-            if (!action) {
-                elizaLogger.error(
-                    "No action found for",
-                    response.content.action
+    /**
+     * Options an action runs with. Actions with a parameters schema get the
+     * params the response gave when they are valid, and otherwise the ones
+     * extracted from the conversation, validated against the schema.
+     */
+    private async getActionOptions(
+        action: Action,
+        call: ActionCall,
+        message: Memory,
+        state?: State
+    ): Promise<{ [key: string]: unknown }> {
+        if (!action.parameters) return { ...call.params };
+
+        if (call.params) {
+            try {
+                return parseActionParameters(action, call.params);
+            } catch (error) {
+                elizaLogger.debug(
+                    `Extracting parameters, the given ones are invalid: ${error.message}`
                 );
-                continue;
             }
+        }
 
-            if (!action.handler) {
-                elizaLogger.error(`Action ${action.name} has no handler.`);
-                continue;
-            }
+        const context = composeContext({
+            state: {
+                ...(state ?? (await this.composeState(message))),
+                actionName: action.name,
+                actionDescription: action.description,
+                actionParams: JSON.stringify(call.params ?? {}),
+            },
+            template: actionParametersTemplate,
+        });
+        const { object } = await generateObject({
+            runtime: this,
+            context,
+            modelClass: ModelClass.SMALL,
+            schema: action.parameters,
+            schemaName: action.name,
+            schemaDescription: action.description,
+        });
+        return parseActionParameters(action, {
+            ...call.params,
+            ...(object as { [key: string]: unknown }),
+        });
+    }
+
+    /**
+     * Results of the actions run for a message, oldest first.
+     * @param messageId The message the actions ran for.
+     */
+    async getActionResults(messageId: UUID): Promise<ActionResult[]> {
+        return (
+            (await this.cacheManager.get<ActionResult[]>(
+                `${this.agentId}/actionResults/${messageId}`
+            )) ?? []
+        );
+    }
 
+    private async saveActionResults(messageId: UUID, results: ActionResult[]) {
+        // Handler outputs that cannot be stored as JSON are left out
+        const storable = results.map((result) => {
             try {
-                elizaLogger.info(
-                    `Executing handler for action: ${action.name}`
-                );
-                await action.handler(this, message, state, {}, callback);
-            } catch (error) {
-                elizaLogger.error(error);
+                JSON.stringify(result.output);
+                return result;
+            } catch {
+                return { ...result, output: undefined };
             }
+        });
+
+        try {
+            await this.cacheManager.set(
+                `${this.agentId}/actionResults/${messageId}`,
+                [...(await this.getActionResults(messageId)), ...storable],
+                { expires: Date.now() + ACTION_RESULTS_TTL_MS }
+            );
+        } catch (error) {
+            elizaLogger.error("Error saving action results:", error);
         }
     }
 
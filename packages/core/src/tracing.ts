@@ -0,0 +1,454 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import fs from "node:fs";
+import path from "node:path";
+import { v4 as uuidv4 } from "uuid";
+import { getModelBudget, recordModelSpend } from "./budget.ts";
+import { countTokens } from "./generation.ts";
+import elizaLogger from "./logger.ts";
+import {
+    type IAgentRuntime,
+    type ModelClass,
+    type ModelPrice,
+    type ModelTrace,
+    type ModelTraceQuery,
+    type ModelTraceSink,
+    type UUID,
+} from "./types.ts";
+
+/** Log type model traces are stored under by the database sink */
+export const MODEL_TRACE_LOG_TYPE = "model_trace";
+
+/**
+ * Prices in USD of the default models, per million tokens or per image.
+ * Character settings.modelPrices adds to and overrides these.
+ */
+export const DEFAULT_MODEL_PRICES: { [model: string]: ModelPrice } = {
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+    "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+    "claude-3-5-sonnet-20241022": { input: 3, output: 15 },
+    "claude-3-opus-20240229": { input: 15, output: 75 },
+    "grok-2-1212": { input: 2, output: 10 },
+    "deepseek-chat": { input: 0.27, output: 1.1 },
+    "dall-e-3": { image: 0.04 },
+    "fal-ai/flux-lora": { image: 0.035 },
+    "black-forest-labs/FLUX.1-schnell": { image: 0.003 },
+};
+
+/**
+ * Where a model call comes from
+ */
+export interface TraceOrigin {
+    action?: string;
+    client?: string;
+}
+
+const traceOrigin = new AsyncLocalStorage<TraceOrigin>();
+
+/**
+ * Runs fn with model calls made inside it attributed to an action or client.
+ * Nested origins add to the outer one.
+ */
+export function withTraceOrigin<T>(origin: TraceOrigin, fn: () => T): T {
+    return traceOrigin.run({ ...traceOrigin.getStore(), ...origin }, fn);
+}
+
+export function getTraceOrigin(): TraceOrigin {
+    return traceOrigin.getStore() ?? {};
+}
+
+export function getModelPrice(
+    runtime: IAgentRuntime,
+    model?: string
+): ModelPrice | undefined {
+    if (!model) return undefined;
+    return (
+        runtime.character.settings?.modelPrices?.[model] ??
+        DEFAULT_MODEL_PRICES[model]
+    );
+}
+
+/**
+ * Estimates the cost of a call in USD, or undefined when the model has no
+ * price.
+ */
+export function estimateModelCost(
+    price: ModelPrice | undefined,
+    usage: { promptTokens: number; outputTokens: number; images?: number }
+): number | undefined {
+    if (!price) return undefined;
+    return (
+        ((price.input ?? 0) * usage.promptTokens +
+            (price.output ?? 0) * usage.outputTokens) /
+            1_000_000 +
+        (price.image ?? 0) * (usage.images ?? 0)
+    );
+}
+
+/** Built-in sinks and those registered for every agent */
+const traceSinks = new Map<string, ModelTraceSink>();
+
+/** Sinks plugins registered for one agent */
+const runtimeTraceSinks = new WeakMap<
+    IAgentRuntime,
+    Map<string, ModelTraceSink>
+>();
+
+/**
+ * Registers a trace sink under its name, for the agent when a runtime is
+ * given and for every agent otherwise. Sinks only receive traces once
+ * MODEL_TRACE_SINKS lists them.
+ */
+export function registerTraceSink(
+    sink: ModelTraceSink,
+    runtime?: IAgentRuntime
+): void {
+    let sinks = traceSinks;
+    if (runtime) {
+        sinks = runtimeTraceSinks.get(runtime) ?? new Map();
+        runtimeTraceSinks.set(runtime, sinks);
+    }
+    if (sinks.has(sink.name)) {
+        elizaLogger.warn(`Replacing trace sink "${sink.name}"`);
+    }
+    sinks.set(sink.name, sink);
+}
+
+/** Looks up a sink, preferring the agent's own over shared ones */
+export function getTraceSink(
+    name: string,
+    runtime?: IAgentRuntime
+): ModelTraceSink | undefined {
+    return (
+        (runtime && runtimeTraceSinks.get(runtime)?.get(name)) ??
+        traceSinks.get(name)
+    );
+}
+
+/**
+ * Sinks enabled for an agent by the comma separated MODEL_TRACE_SINKS
+ * setting. Tracing is off when it is unset.
+ */
+export function getModelTraceSinks(runtime: IAgentRuntime): ModelTraceSink[] {
+    const names = runtime.getSetting("MODEL_TRACE_SINKS");
+    if (!names) return [];
+
+    return names
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean)
+        .flatMap((name) => {
+            const sink = getTraceSink(name, runtime);
+            if (!sink) {
+                elizaLogger.warn(`Unknown trace sink: ${name}`);
+                return [];
+            }
+            return [sink];
+        });
+}
+
+/**
+ * Writes a trace to every enabled sink. A failing sink is logged and does
+ * not stop the others.
+ */
+export async function recordModelTrace(
+    runtime: IAgentRuntime,
+    trace: ModelTrace
+): Promise<void> {
+    await Promise.all(
+        getModelTraceSinks(runtime).map(async (sink) => {
+            try {
+                await sink.write(trace, runtime);
+            } catch (error) {
+                elizaLogger.error(
+                    `Error writing model trace to ${sink.name}:`,
+                    error
+                );
+            }
+        })
+    );
+}
+
+/**
+ * Reads traces back from the first enabled sink that supports queries.
+ * Returns null when none does.
+ */
+export async function queryModelTraces(
+    runtime: IAgentRuntime,
+    params: ModelTraceQuery
+): Promise<ModelTrace[] | null> {
+    const sink = getModelTraceSinks(runtime).find((sink) => sink.query);
+    return sink ? sink.query(params, runtime) : null;
+}
+
+/**
+ * What a traced call produced, or the error it failed with
+ */
+export interface ModelCallOutcome {
+    /** Prompt as sent to the model */
+    prompt: string;
+    output?: string;
+    images?: number;
+    error?: unknown;
+}
+
+/**
+ * Handle of a model call being traced
+ */
+export interface ModelTraceHandle {
+    /**
+     * Records the call, resolving once its trace and spend are recorded.
+     * Callers that need not wait can leave it running in the background.
+     */
+    finish(outcome: ModelCallOutcome): Promise<void>;
+}
+
+/**
+ * Starts timing a model call. Returns null when no trace sink is enabled and
+ * the agent has no budget to count the cost against, so untraced calls do no
+ * extra work.
+ */
+export function startModelTrace(
+    runtime: IAgentRuntime,
+    call: {
+        kind: ModelTrace["kind"];
+        modelClass?: ModelClass;
+        modelProvider?: string;
+        model?: string;
+    }
+): ModelTraceHandle | null {
+    if (!getModelTraceSinks(runtime).length && !getModelBudget(runtime)) {
+        return null;
+    }
+
+    const origin = getTraceOrigin();
+    const startedAt = Date.now();
+
+    return {
+        finish(outcome) {
+            const latencyMs = Date.now() - startedAt;
+            return buildModelTrace(runtime, call, origin, outcome, latencyMs)
+                .then(async (trace) => {
+                    await Promise.all([
+                        recordModelTrace(runtime, trace),
+                        recordModelSpend(runtime, trace),
+                    ]);
+                })
+                .catch((error) =>
+                    elizaLogger.error("Error recording model trace:", error)
+                );
+        },
+    };
+}
+
+async function buildModelTrace(
+    runtime: IAgentRuntime,
+    call: Parameters<typeof startModelTrace>[1],
+    origin: TraceOrigin,
+    outcome: ModelCallOutcome,
+    latencyMs: number
+): Promise<ModelTrace> {
+    const promptTokens = await countTokens(outcome.prompt, runtime);
+    const outputTokens = await countTokens(outcome.output ?? "", runtime);
+    const success = outcome.error === undefined;
+
+    return {
+        id: uuidv4() as UUID,
+        agentId: runtime.agentId,
+        kind: call.kind,
+        modelProvider: call.modelProvider ?? runtime.modelProvider,
+        model: call.model,
+        modelClass: call.modelClass,
+        promptTokens,
+        outputTokens,
+        outputSize: outcome.images ?? outcome.output?.length ?? 0,
+        latencyMs,
+        success,
+        error: success
+            ? undefined
+            : outcome.error instanceof Error
+              ? outcome.error.message
+              : String(outcome.error),
+        // Failed calls are not billed
+        cost: success
+            ? estimateModelCost(getModelPrice(runtime, call.model), {
+                  promptTokens,
+                  outputTokens,
+                  images: outcome.images,
+              })
+            : undefined,
+        action: origin.action,
+        client: origin.client,
+        createdAt: Date.now() - latencyMs,
+    };
+}
+
+/**
+ * Stores traces in the agent's database as log entries. Queries need an
+ * adapter that implements getLogs.
+ */
+export const databaseTraceSink: ModelTraceSink = {
+    name: "database",
+    async write(trace, runtime) {
+        await runtime.databaseAdapter.log({
+            body: { ...trace },
+            userId: runtime.agentId,
+            roomId: runtime.agentId,
+            type: MODEL_TRACE_LOG_TYPE,
+        });
+    },
+    async query(params, runtime) {
+        if (!runtime.databaseAdapter.getLogs) {
+            elizaLogger.warn("The database adapter cannot read logs back");
+            return [];
+        }
+        const entries = await runtime.databaseAdapter.getLogs({
+            type: MODEL_TRACE_LOG_TYPE,
+            userId: params.agentId,
+            since: params.since,
+            until: params.until,
+            limit: params.limit,
+        });
+        return entries.map((entry) => entry.body as unknown as ModelTrace);
+    },
+};
+
+/**
+ * Appends traces to a JSON Lines file, one trace per line. Without a path the
+ * MODEL_TRACE_FILE setting is used, defaulting to data/model-traces.jsonl.
+ */
+export function createJsonlTraceSink(
+    filePath?: string,
+    name = "jsonl"
+): ModelTraceSink {
+    const resolvePath = (runtime: IAgentRuntime) =>
+        filePath ??
+        runtime.getSetting("MODEL_TRACE_FILE") ??
+        path.join(process.cwd(), "data", "model-traces.jsonl");
+
+    return {
+        name,
+        async write(trace, runtime) {
+            const file = resolvePath(runtime);
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            await fs.promises.appendFile(file, JSON.stringify(trace) + "\n");
+        },
+        async query(params, runtime) {
+            let contents: string;
+            try {
+                contents = await fs.promises.readFile(
+                    resolvePath(runtime),
+                    "utf8"
+                );
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                    return [];
+                }
+                throw error;
+            }
+
+            const traces = contents
+                .split("\n")
+                .filter((line) => line.trim())
+                .map((line) => JSON.parse(line) as ModelTrace)
+                .filter(
+                    (trace) =>
+                        (!params.agentId || trace.agentId === params.agentId) &&
+                        (!params.since || trace.createdAt >= params.since) &&
+                        (!params.until || trace.createdAt <= params.until)
+                );
+            return params.limit ? traces.slice(-params.limit) : traces;
+        },
+    };
+}
+
+[databaseTraceSink, createJsonlTraceSink()].forEach((sink) =>
+    registerTraceSink(sink)
+);
+
+export type ModelTraceGrouping =
+    | "day"
+    | "model"
+    | "modelProvider"
+    | "modelClass"
+    | "kind"
+    | "action"
+    | "client";
+
+export const MODEL_TRACE_GROUPINGS: ModelTraceGrouping[] = [
+    "day",
+    "model",
+    "modelProvider",
+    "modelClass",
+    "kind",
+    "action",
+    "client",
+];
+
+/**
+ * Totals of a group of traces
+ */
+export interface ModelTraceSummary {
+    key: string;
+    calls: number;
+    failures: number;
+    promptTokens: number;
+    outputTokens: number;
+    images: number;
+    /** Sum of the estimated costs in USD */
+    cost: number;
+    /** Calls without a price, left out of the cost */
+    unpricedCalls: number;
+    averageLatencyMs: number;
+}
+
+function summarizeGroup(key: string, traces: ModelTrace[]): ModelTraceSummary {
+    const sum = (value: (trace: ModelTrace) => number) =>
+        traces.reduce((total, trace) => total + value(trace), 0);
+
+    return {
+        key,
+        calls: traces.length,
+        failures: traces.filter((trace) => !trace.success).length,
+        promptTokens: sum((trace) => trace.promptTokens),
+        outputTokens: sum((trace) => trace.outputTokens),
+        images: sum((trace) => (trace.kind === "image" ? trace.outputSize : 0)),
+        cost: sum((trace) => trace.cost ?? 0),
+        unpricedCalls: traces.filter(
+            (trace) => trace.success && trace.cost === undefined
+        ).length,
+        averageLatencyMs: traces.length
+            ? sum((trace) => trace.latencyMs) / traces.length
+            : 0,
+    };
+}
+
+function getGroupKey(trace: ModelTrace, groupBy: ModelTraceGrouping): string {
+    if (groupBy === "day") {
+        return new Date(trace.createdAt).toISOString().slice(0, 10);
+    }
+    return String(trace[groupBy] ?? "unknown");
+}
+
+/**
+ * Adds up calls, tokens, images, cost and latency over traces, in total and
+ * per group, groups sorted by key.
+ */
+export function summarizeModelTraces(
+    traces: ModelTrace[],
+    groupBy: ModelTraceGrouping = "day"
+): { total: ModelTraceSummary; groups: ModelTraceSummary[] } {
+    const groups = new Map<string, ModelTrace[]>();
+    for (const trace of traces) {
+        const key = getGroupKey(trace, groupBy);
+        groups.set(key, [...(groups.get(key) ?? []), trace]);
+    }
+
+    return {
+        total: summarizeGroup("total", traces),
+        groups: [...groups]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, group]) => summarizeGroup(key, group)),
+    };
+}
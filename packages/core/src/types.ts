@@ -1,4 +1,5 @@
 import { Readable } from "stream";
+import type { ZodSchema } from "zod";
 
 /**
  * Represents a UUID string in the format "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"
@@ -15,6 +16,9 @@ export interface Content {
     /** Optional action associated with the message */
     action?: string;
 
+    /** Actions to run one after another, used instead of action when given */
+    actions?: ActionCall[];
+
     /** Optional source/origin of the content */
     source?: string;
 
@@ -31,6 +35,14 @@ export interface Content {
     [key: string]: unknown;
 }
 
+/**
+ * An action a response asks for, with the parameters to run it with
+ */
+export interface ActionCall {
+    name: string;
+    params?: { [key: string]: unknown };
+}
+
 /**
  * Example content with associated user for demonstration purposes
  */
@@ -448,6 +460,123 @@ export interface Action {
 
     /** Whether to suppress the initial message when this action is used */
     suppressInitialMessage?: boolean;
+
+    /** Milliseconds the handler may run, ACTION_TIMEOUT_MS or 5 minutes by default */
+    timeoutMs?: number;
+
+    /**
+     * Schema of the handler's options. The runtime extracts them from the
+     * conversation, unless the response gave valid params, and passes the
+     * parsed values. Invalid options are reported to the user instead.
+     */
+    parameters?: ZodSchema;
+}
+
+/**
+ * Outcome of running the action a response asked for
+ */
+export interface ActionResult {
+    id: UUID;
+
+    /** Action name as written in the response */
+    requested: string;
+
+    /** Name of the action that ran, once resolved */
+    action?: string;
+
+    status:
+        | "success"
+        | "error"
+        | "timeout"
+        | "cancelled"
+        | "not_found"
+        | "ambiguous"
+        | "skipped"
+        | "invalid";
+
+    /** Parameters the action was given, or ran with once extracted and validated */
+    params?: { [key: string]: unknown };
+
+    /** Value the handler returned */
+    output?: unknown;
+
+    /** Content the handler sent back through the callback */
+    content?: Content[];
+
+    error?: string;
+
+    /** Actions an ambiguous name could mean */
+    candidates?: string[];
+
+    /** Message the action ran for */
+    messageId: UUID;
+
+    /** Response that asked for the action */
+    responseId?: UUID;
+
+    roomId: UUID;
+    startedAt: number;
+    durationMs: number;
+}
+
+/**
+ * What action middleware sees of an action being run
+ */
+export interface ActionContext {
+    runtime: IAgentRuntime;
+    action: Action;
+    message: Memory;
+    response: Memory;
+    state?: State;
+
+    /** The call in the response this action runs for */
+    call: ActionCall;
+
+    /** Options the handler is called with. Middleware may change them. */
+    options: { [key: string]: unknown };
+
+    /** Results of the actions that ran before this one for the message */
+    previousResults: ActionResult[];
+
+    /** Aborted when the action times out or is cancelled */
+    signal: AbortSignal;
+}
+
+/**
+ * Hooks run around every action handler
+ */
+export interface ActionMiddleware {
+    name: string;
+
+    /** Runs before the handler. Throwing stops the action with an error. */
+    before?: (context: ActionContext) => Promise<void> | void;
+
+    /** Runs after the handler succeeded */
+    after?: (
+        context: ActionContext,
+        result: ActionResult
+    ) => Promise<void> | void;
+
+    /** Runs when the action failed, timed out or was cancelled */
+    error?: (
+        context: ActionContext,
+        error: unknown,
+        result: ActionResult
+    ) => Promise<void> | void;
+}
+
+/**
+ * Options of a single processActions call
+ */
+export interface ProcessActionsOptions {
+    /** Cancels the running action and the ones after it */
+    signal?: AbortSignal;
+
+    /** Called when an action starts, before its parameters are extracted */
+    onActionStart?: (context: ActionContext) => void;
+
+    /** Called with the result of every action, including those that never started */
+    onActionFinish?: (result: ActionResult) => void;
 }
 
 /**
@@ -573,6 +702,20 @@ export interface Room {
     participants: Participant[];
 }
 
+/**
+ * Entry written with IDatabaseAdapter.log
+ */
+export interface LogEntry {
+    id: UUID;
+    userId: UUID;
+    roomId: UUID;
+    type: string;
+    body: { [key: string]: unknown };
+
+    /** Milliseconds since the epoch */
+    createdAt: number;
+}
+
 /**
  * Represents a media attachment
  */
@@ -634,8 +777,576 @@ export type Plugin = {
 
     /** Optional clients */
     clients?: Client[];
+
+    /** Optional image generation providers */
+    imageProviders?: ImageProviderAdapter[];
+
+    /** Optional image post-processing stages */
+    imagePostProcessors?: ImagePostProcessor[];
+
+    /** Optional model trace sinks */
+    traceSinks?: ModelTraceSink[];
+
+    /** Optional hooks run around action handlers */
+    actionMiddleware?: ActionMiddleware[];
 };
 
+/**
+ * Options for a single image generation request
+ */
+export interface ImageGenerationRequest {
+    /** Defaults to "generate" */
+    operation?: ImageOperation;
+    prompt: string;
+    width: number;
+    height: number;
+    count?: number;
+    negativePrompt?: string;
+    numIterations?: number;
+    guidanceScale?: number;
+    seed?: number;
+    modelId?: string;
+    jobId?: string;
+    stylePreset?: string;
+    hideWatermark?: boolean;
+
+    /** Image to edit, vary or upscale */
+    sourceImage?: { base64: string; mimeType: string };
+
+    /** How far an edit may move away from the source image, from 0 to 1 */
+    strength?: number;
+
+    /** Upscale factor */
+    scale?: number;
+}
+
+/**
+ * What an image provider is asked to do: text-to-image, prompt-guided
+ * image-to-image, seeded variations of an image, or upscaling
+ */
+export type ImageOperation = "generate" | "edit" | "variation" | "upscale";
+
+/**
+ * An image returned by an image provider, either inline or by URL
+ */
+export interface GeneratedImage {
+    /** Base64 image data, without a data URL prefix */
+    base64?: string;
+
+    /** URL the image can be downloaded from */
+    url?: string;
+
+    mimeType: string;
+
+    /** Seed the provider used, when it reports one */
+    seed?: number;
+
+    /** Prompt the provider actually rendered, when it rewrote it */
+    revisedPrompt?: string;
+}
+
+/**
+ * Everything an image provider needs to serve a request
+ */
+export interface ImageProviderContext {
+    runtime: IAgentRuntime;
+
+    /** API key, or endpoint for self-hosted providers */
+    apiKey?: string;
+
+    /** Image model configured for the provider */
+    model?: string;
+
+    modelSettings?: ImageModelSettings;
+
+    /** Fetch implementation to use for all HTTP calls */
+    fetch: typeof fetch;
+}
+
+/**
+ * A named visual identity used when writing image prompts
+ */
+export interface ImageStyleProfile {
+    /** Topics, matched against the text being illustrated */
+    topics?: string[];
+
+    /** Style keywords, e.g. "watercolor, soft light" */
+    style?: string | string[];
+
+    /** Colors the image should use */
+    palette?: string[];
+
+    negativePrompt?: string;
+
+    /** Aspect ratio such as "16:9" or "1:1" */
+    aspectRatio?: string;
+
+    /** Template for writing the image prompt, with {{imageContent}} and {{imageStyle}} */
+    promptTemplate?: string;
+
+    /** System prompt for the image prompt writer */
+    systemPrompt?: string;
+
+    modelId?: string;
+}
+
+/**
+ * Retry and backoff budget for one image provider
+ */
+export interface ImageRetryPolicy {
+    /** Retries after the first attempt for retryable errors */
+    maxRetries?: number;
+
+    /** Delay before the first retry, doubled on each further retry */
+    initialDelayMs?: number;
+
+    maxDelayMs?: number;
+
+    /** Time allowed for a single attempt */
+    timeoutMs?: number;
+}
+
+/**
+ * Entry in a character's image provider fallback chain
+ */
+export interface ImageProviderFallback extends ImageRetryPolicy {
+    provider: string;
+}
+
+/**
+ * Outcome of one call to an image provider
+ */
+export interface ImageGenerationAttempt {
+    provider: string;
+    attempt: number;
+    durationMs: number;
+    error?: string;
+    retryable?: boolean;
+}
+
+/**
+ * Size, shape and format constraints of a platform images are posted to
+ */
+export interface ImagePlatformProfile {
+    /** Aspect ratio such as "16:9" or "1:1" the image is cropped or padded to */
+    aspectRatio?: string;
+
+    /** "cover" crops to the aspect ratio, "contain" pads */
+    fit?: "cover" | "contain";
+
+    maxWidth?: number;
+    maxHeight?: number;
+
+    /** Largest file the platform accepts */
+    maxBytes?: number;
+
+    /** Output format, the detected format when omitted */
+    format?: "png" | "jpeg" | "webp";
+}
+
+/**
+ * Mark stamped on processed images, either text or an image file
+ */
+export interface ImageWatermark {
+    text?: string;
+    imagePath?: string;
+    position?: "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+    /** From 0 to 1 */
+    opacity?: number;
+}
+
+/**
+ * Post-processing applied to generated images before they are stored
+ */
+export interface ImagePostProcessingSettings {
+    enabled?: boolean;
+
+    /** Per-platform overrides of the built-in platform profiles */
+    platforms?: { [platform: string]: ImagePlatformProfile };
+
+    watermark?: ImageWatermark;
+
+    /** Strip metadata, or write the prompt and character into EXIF */
+    metadata?: "strip" | "write";
+
+    /** Starting quality for lossy formats */
+    quality?: number;
+}
+
+/**
+ * Image bytes passed through the post-processing pipeline
+ */
+export interface ProcessedImage {
+    data: Buffer;
+    mimeType: string;
+    width?: number;
+    height?: number;
+}
+
+export interface ImagePostProcessContext {
+    runtime: IAgentRuntime;
+
+    /** Platform the image is for, e.g. "twitter" */
+    platform?: string;
+
+    profile: ImagePlatformProfile;
+    settings: ImagePostProcessingSettings;
+
+    /** Prompt the image was generated from */
+    prompt?: string;
+}
+
+/**
+ * A stage of the image post-processing pipeline
+ */
+export interface ImagePostProcessor {
+    name: string;
+    process: (
+        image: ProcessedImage,
+        context: ImagePostProcessContext
+    ) => Promise<ProcessedImage>;
+}
+
+/**
+ * Checks generated images must pass before they are posted
+ */
+export interface ImageModerationSettings {
+    enabled?: boolean;
+
+    /** Words or phrases that block an image when its description contains them */
+    blocklist?: string[];
+
+    /** Policy the image description is judged against, in plain language */
+    policy?: string;
+
+    /** Allow images when the description service is missing or fails */
+    failOpen?: boolean;
+}
+
+export interface ImageModerationResult {
+    allowed: boolean;
+    reason?: string;
+
+    /** Description of the image the decision was based on */
+    description?: string;
+}
+
+/**
+ * Adapter that generates images with one provider
+ */
+export interface ImageProviderAdapter {
+    /** Name matched against the runtime's imageModelProvider */
+    name: string;
+
+    /** Other names the adapter is selected by */
+    aliases?: string[];
+
+    /** Setting holding the provider's API key */
+    apiKeySetting?: string;
+
+    /** Operations the adapter supports, "generate" only when omitted */
+    operations?: ImageOperation[];
+
+    generate: (
+        request: ImageGenerationRequest,
+        context: ImageProviderContext
+    ) => Promise<GeneratedImage[]>;
+}
+
+/**
+ * Image attached to scheduled content
+ */
+export interface ScheduledContentImage {
+    filepath: string;
+    mediaType: string;
+
+    /** Public URL, linked by platforms that cannot upload the file */
+    url?: string;
+
+    prompt?: string;
+    provider?: string;
+    style?: string;
+
+    /** Generated-image catalog entry the image was picked from */
+    imageId?: UUID;
+
+    /** Index of the thread part the image belongs to, for platforms that split long content */
+    part?: number;
+}
+
+/**
+ * A piece of content that can be published on any platform
+ */
+export interface ScheduledContent {
+    text: string;
+    images?: ScheduledContentImage[];
+
+    /** Extra fields, like the topic, stored with the published post's memory */
+    metadata?: Record<string, unknown>;
+}
+
+export type ScheduledPostStatus =
+    | "queued"
+    | "publishing"
+    | "published"
+    | "failed"
+    | "cancelled"
+    | "skipped"
+    | "pending_approval";
+
+export interface PublishResult {
+    /** Platform id of the published post */
+    id?: string;
+    url?: string;
+
+    /**
+     * Set when nothing was posted: "skipped" in dry run mode,
+     * "pending_approval" when the post waits for a human to approve it
+     */
+    status?: "skipped" | "pending_approval";
+}
+
+/**
+ * Content queued for one platform
+ */
+export interface ScheduledPost {
+    id: UUID;
+
+    /** Shared by the copies of one piece of content queued for several platforms */
+    groupId: UUID;
+
+    platform: string;
+
+    /** Content adapted to the platform */
+    content: ScheduledContent;
+
+    status: ScheduledPostStatus;
+    createdAt: number;
+
+    /** Earliest time the post may go out */
+    notBefore?: number;
+
+    publishedAt?: number;
+    attempts: number;
+    error?: string;
+    result?: PublishResult;
+}
+
+/**
+ * Handler a client registers with the content scheduler to publish posts
+ */
+export interface ContentPublisher {
+    /** Platform name, e.g. "twitter" */
+    platform: string;
+
+    /**
+     * Publishes the post, throwing when it fails. Returns a status when the
+     * post was not published.
+     */
+    publish: (post: ScheduledPost) => Promise<PublishResult | void>;
+
+    /** Adapts content to the platform's limits before it is queued */
+    adapt?: (content: ScheduledContent) => ScheduledContent;
+
+    /** Generates new content when the platform's queue is empty */
+    generate?: () => Promise<ScheduledContent | null>;
+
+    /** Default interval between posts, overridden by the character's settings */
+    minIntervalMinutes?: number;
+    maxIntervalMinutes?: number;
+}
+
+/**
+ * When and how often the content scheduler publishes on a platform
+ */
+export interface SchedulePlatformSettings {
+    enabled?: boolean;
+
+    /** Cron expressions ("minute hour day month weekday") for the minutes posts may go out */
+    windows?: string[];
+
+    /** Time range with no posts, e.g. "22:00-07:00" */
+    quietHours?: string;
+
+    /** Posts allowed in any 24 hours */
+    maxPerDay?: number;
+
+    minIntervalMinutes?: number;
+    maxIntervalMinutes?: number;
+
+    /** Platforms that also get a copy of content generated for this one */
+    crossPostTo?: string[];
+}
+
+/**
+ * What the content scheduler will publish next on a platform
+ */
+export interface PlatformSchedule {
+    platform: string;
+
+    /** Earliest time the next post may go out, null when no window opens within a week */
+    nextPublishAt: number | null;
+
+    /** Posts published in the last 24 hours */
+    publishedLastDay: number;
+    maxPerDay?: number;
+
+    /** Queued posts in the order they will go out */
+    queued: ScheduledPost[];
+
+    /** Whether content is generated when the queue is empty */
+    generates: boolean;
+}
+
+export interface ContentSchedulerSettings extends SchedulePlatformSettings {
+    /** IANA time zone windows and quiet hours are read in, the host's when omitted */
+    timezone?: string;
+
+    /** Per-platform overrides of the settings above */
+    platforms?: { [platform: string]: SchedulePlatformSettings };
+}
+
+/**
+ * One arm of an experiment, overriding how a post is generated
+ */
+export interface ExperimentVariant {
+    name: string;
+
+    /** Relative chance of being assigned, 1 when omitted */
+    weight?: number;
+
+    /** Replaces the post template, like twitterPostTemplate */
+    postTemplate?: string;
+
+    /** Replaces the template the image prompt is written with */
+    imagePromptTemplate?: string;
+
+    /** Style profile from imageSettings.styles the images are drawn in */
+    imageStyle?: string;
+
+    /** Whether the post gets an image, instead of the usual image schedule */
+    image?: boolean;
+}
+
+/**
+ * Variants posts are assigned to, to compare how they perform
+ */
+export interface Experiment {
+    name: string;
+
+    /** Changing the seed reshuffles which posts get which variant */
+    seed?: string | number;
+
+    variants: ExperimentVariant[];
+}
+
+/**
+ * Variants assigned to a post, and the overrides they add up to
+ */
+export interface ExperimentAssignment {
+    /** Assigned variant name by experiment name */
+    variants: { [experiment: string]: string };
+
+    /** Overrides of the assigned variants, the earlier experiment's winning */
+    overrides: Omit<ExperimentVariant, "name" | "weight">;
+}
+
+/**
+ * Record of one text, object or image model call
+ */
+export interface ModelTrace {
+    id: UUID;
+    agentId: UUID;
+    kind: "text" | "object" | "image";
+    modelProvider: string;
+    model?: string;
+    modelClass?: ModelClass;
+
+    /** Prompt size, counted with the agent's tokenizer */
+    promptTokens: number;
+
+    /** Output size in tokens, 0 for images */
+    outputTokens: number;
+
+    /** Characters of text output, or the number of images */
+    outputSize: number;
+
+    latencyMs: number;
+    success: boolean;
+    error?: string;
+
+    /** Estimated cost in USD, when the model has a price */
+    cost?: number;
+
+    /** Action the call was made for */
+    action?: string;
+
+    /** Client the call was made for */
+    client?: string;
+
+    createdAt: number;
+}
+
+/**
+ * Filter for reading traces back from a sink
+ */
+export interface ModelTraceQuery {
+    agentId?: UUID;
+    since?: number;
+    until?: number;
+    limit?: number;
+}
+
+/**
+ * Destination model traces are written to
+ */
+export interface ModelTraceSink {
+    name: string;
+
+    write(trace: ModelTrace, runtime: IAgentRuntime): Promise<void>;
+
+    /** Reads traces back, oldest first, when the sink supports it */
+    query?(
+        params: ModelTraceQuery,
+        runtime: IAgentRuntime
+    ): Promise<ModelTrace[]>;
+}
+
+/**
+ * Price of a model in USD
+ */
+export interface ModelPrice {
+    /** Per million prompt tokens */
+    input?: number;
+
+    /** Per million output tokens */
+    output?: number;
+
+    /** Per generated image */
+    image?: number;
+}
+
+/**
+ * Spend limits in USD per UTC day and month, priced like model traces. A
+ * limit of 0 allows no spend at all.
+ */
+export interface ModelBudgetSettings {
+    /** Text and object generation */
+    dailyText?: number;
+    monthlyText?: number;
+
+    /** Image generation */
+    dailyImage?: number;
+    monthlyImage?: number;
+
+    /** Share of a text limit from which LARGE calls run as SMALL, 0.8 by default */
+    downgradeAt?: number;
+
+    /** Share of an image limit from which optional post images are skipped, 0.8 by default */
+    skipImagesAt?: number;
+}
+
 /**
  * Available client platforms
  */
@@ -711,7 +1422,7 @@ export type Character = {
     modelProvider: ModelProviderName;
 
     /** Image model provider to use, if different from modelProvider */
-    imageModelProvider?: ModelProviderName;
+    imageModelProvider?: ModelProviderName | string;
 
     /** Image Vision model provider to use, if different from modelProvider */
     imageVisionModelProvider?: ModelProviderName;
@@ -730,6 +1441,8 @@ export type Character = {
         twitterSearchTemplate?: TemplateType;
         twitterActionTemplate?: TemplateType;
         twitterPostTemplate?: TemplateType;
+        twitterImagePromptTemplate?: TemplateType;
+        imageModerationTemplate?: TemplateType;
         twitterMessageHandlerTemplate?: TemplateType;
         twitterShouldRespondTemplate?: TemplateType;
         farcasterPostTemplate?: TemplateType;
@@ -791,7 +1504,25 @@ export type Character = {
             count?: number;
             stylePreset?: string;
             hideWatermark?: boolean;
+            storage?: "local" | "s3" | "supabase";
+            /** Retry policy applied to every image provider */
+            retry?: ImageRetryPolicy;
+            /** Providers tried in order after imageModelProvider fails */
+            fallbackProviders?: (string | ImageProviderFallback)[];
+            /** Named visual style profiles */
+            styles?: { [name: string]: ImageStyleProfile };
+            /** How a style is picked when no profile matches the topic */
+            styleSelection?: "default" | "rotation";
+            /** Profile used when no other profile is picked */
+            defaultStyle?: string;
+            postProcessing?: ImagePostProcessingSettings;
+            moderation?: ImageModerationSettings;
         };
+        scheduler?: ContentSchedulerSettings;
+        experiments?: Experiment[];
+        /** Model prices by model name, on top of the built-in price table */
+        modelPrices?: { [model: string]: ModelPrice };
+        budget?: ModelBudgetSettings;
         voice?: {
             model?: string; // For VITS
             url?: string; // Legacy VITS support
@@ -877,6 +1608,30 @@ export type Character = {
     extends?: string[];
 };
 
+/**
+ * Stored records of each type, as database export reads them and import
+ * writes them back
+ */
+export interface DatabaseRecords {
+    accounts: Account;
+    rooms: { id: UUID };
+    participants: {
+        userId: UUID;
+        roomId: UUID;
+        userState: "FOLLOWED" | "MUTED" | null;
+    };
+
+    /** Memories with the table they are stored in */
+    memories: Memory & { tableName: string };
+
+    goals: Goal;
+    relationships: Relationship;
+    knowledge: RAGKnowledgeItem;
+    cache: { key: string; agentId: UUID; value: string };
+}
+
+export type DatabaseRecordType = keyof DatabaseRecords;
+
 /**
  * Interface for database operations
  */
@@ -932,6 +1687,14 @@ export interface IDatabaseAdapter {
         type: string;
     }): Promise<void>;
 
+    getLogs?(params: {
+        type: string;
+        userId?: UUID;
+        since?: number;
+        until?: number;
+        limit?: number;
+    }): Promise<LogEntry[]>;
+
     getActorDetails(params: { roomId: UUID }): Promise<Actor[]>;
 
     searchMemories(params: {
@@ -1050,6 +1813,17 @@ export interface IDatabaseAdapter {
     createKnowledge(knowledge: RAGKnowledgeItem): Promise<void>;
     removeKnowledge(id: UUID): Promise<void>;
     clearKnowledge(agentId: UUID, shared?: boolean): Promise<void>;
+
+    /**
+     * Read stored records of one type a page at a time, for database export.
+     * With agentId, only the agent's records and those they refer to are read.
+     */
+    getRecords?<T extends DatabaseRecordType>(params: {
+        type: T;
+        agentId?: UUID;
+        offset: number;
+        count: number;
+    }): Promise<DatabaseRecords[T][]>;
 }
 
 export interface IDatabaseCacheAdapter {
@@ -1181,11 +1955,12 @@ export interface IAgentRuntime {
     databaseAdapter: IDatabaseAdapter;
     token: string | null;
     modelProvider: ModelProviderName;
-    imageModelProvider: ModelProviderName;
+    imageModelProvider: ModelProviderName | string;
     imageVisionModelProvider: ModelProviderName;
     character: Character;
     providers: Provider[];
     actions: Action[];
+    actionMiddleware: ActionMiddleware[];
     evaluators: Evaluator[];
     plugins: Plugin[];
 
@@ -1226,8 +2001,11 @@ export interface IAgentRuntime {
         message: Memory,
         responses: Memory[],
         state?: State,
-        callback?: HandlerCallback
-    ): Promise<void>;
+        callback?: HandlerCallback,
+        options?: ProcessActionsOptions
+    ): Promise<ActionResult[]>;
+
+    getActionResults(messageId: UUID): Promise<ActionResult[]>;
 
     evaluate(
         message: Memory,
@@ -1247,6 +2025,8 @@ export interface IAgentRuntime {
 
     registerAction(action: Action): void;
 
+    registerActionMiddleware(middleware: ActionMiddleware): void;
+
     ensureConnection(
         userId: UUID,
         roomId: UUID,
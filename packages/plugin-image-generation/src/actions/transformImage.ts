@@ -0,0 +1,298 @@
+import {
+    Action,
+    composeContext,
+    elizaLogger,
+    generateImage,
+    generateText,
+    getImageProvider,
+    getImageProviderChain,
+    HandlerCallback,
+    IAgentRuntime,
+    ImageOperation,
+    Memory,
+    ModelClass,
+    ModelProviderName,
+    State,
+    supportsImageOperation,
+    UUID,
+} from "@elizaos/core";
+import { validateImageGenConfig } from "../environment";
+import { SourceImage } from "../types";
+import { deliverGeneratedImages } from "../utils/deliverImages";
+import { findSourceImage } from "../utils/sourceImage";
+
+interface TransformImageOptions {
+    /** Catalog entry to work on when the message has no image */
+    imageId?: UUID;
+    count?: number;
+    seed?: number;
+    /** How far an edit may move away from the source, from 0 to 1 */
+    strength?: number;
+    /** Upscale factor */
+    scale?: number;
+    modelId?: string;
+}
+
+const editPromptTemplate = `You are editing an existing image.
+
+<original_prompt>
+{{sourcePrompt}}
+</original_prompt>
+
+<requested_change>
+{{imageRequest}}
+</requested_change>
+
+Rewrite the original prompt so that it describes the image after the requested change. Keep the subject, composition and style of the original unless the change asks otherwise. LIMIT the prompt to 50 words or less.
+
+Write a prompt. Only include the prompt and nothing else.`;
+
+/**
+ * Whether any provider in the character's chain can perform the operation.
+ * An unknown imageModelProvider is treated as OpenAI, as generateImage does.
+ */
+function canPerform(runtime: IAgentRuntime, operation: ImageOperation) {
+    return getImageProviderChain(runtime).some((entry, index) => {
+        const adapter =
+            getImageProvider(entry.provider, runtime) ??
+            (index === 0
+                ? getImageProvider(ModelProviderName.OPENAI, runtime)
+                : undefined);
+        return adapter && supportsImageOperation(adapter, operation);
+    });
+}
+
+async function writePrompt(
+    runtime: IAgentRuntime,
+    operation: ImageOperation,
+    message: Memory,
+    state: State,
+    source: SourceImage
+): Promise<string> {
+    const sourcePrompt = source.catalogImage?.prompt;
+    if (operation !== "edit") {
+        return sourcePrompt || message.content.text;
+    }
+
+    return generateText({
+        runtime,
+        context: composeContext({
+            state: {
+                ...state,
+                sourcePrompt: sourcePrompt || "(unknown)",
+                imageRequest: message.content.text,
+            },
+            template: editPromptTemplate,
+        }),
+        modelClass: ModelClass.SMALL,
+    });
+}
+
+function createTransformAction(config: {
+    name: string;
+    operation: Exclude<ImageOperation, "generate">;
+    similes: string[];
+    description: string;
+    /** Verb used when telling the user there is no image to work on */
+    verb: string;
+    examples: Action["examples"];
+}): Action {
+    const { operation } = config;
+
+    return {
+        name: config.name,
+        similes: config.similes,
+        description: config.description,
+        suppressInitialMessage: true,
+        validate: async (runtime: IAgentRuntime, _message: Memory) => {
+            await validateImageGenConfig(runtime);
+            return canPerform(runtime, operation);
+        },
+        handler: async (
+            runtime: IAgentRuntime,
+            message: Memory,
+            state: State,
+            options: TransformImageOptions,
+            callback: HandlerCallback
+        ) => {
+            state = (await runtime.composeState(message)) as State;
+
+            let source: SourceImage | null = null;
+            try {
+                source = await findSourceImage(
+                    runtime,
+                    message,
+                    options?.imageId
+                );
+            } catch (error) {
+                elizaLogger.error("Failed to load source image:", error);
+            }
+            if (!source) {
+                callback({
+                    text: `I couldn't find an image to ${config.verb}. Attach one or reply to one of my images.`,
+                });
+                return;
+            }
+
+            const imageSettings =
+                runtime.character?.settings?.imageSettings || {};
+            const prompt = await writePrompt(
+                runtime,
+                operation,
+                message,
+                state,
+                source
+            );
+            const scale = options?.scale ?? 2;
+
+            elizaLogger.log(`Running ${operation} with prompt:`, prompt);
+            const images = await generateImage(
+                {
+                    operation,
+                    prompt,
+                    sourceImage: {
+                        base64: source.base64,
+                        mimeType: source.mimeType,
+                    },
+                    width:
+                        operation === "upscale"
+                            ? Math.round(source.width * scale)
+                            : source.width,
+                    height:
+                        operation === "upscale"
+                            ? Math.round(source.height * scale)
+                            : source.height,
+                    count:
+                        operation === "upscale"
+                            ? 1
+                            : options?.count || imageSettings.count || 1,
+                    ...(operation === "variation"
+                        ? {
+                              seed:
+                                  options?.seed ??
+                                  Math.floor(Math.random() * 2 ** 31),
+                          }
+                        : options?.seed != null
+                          ? { seed: options.seed }
+                          : {}),
+                    ...(options?.strength != null
+                        ? { strength: options.strength }
+                        : {}),
+                    ...(operation === "upscale" ? { scale } : {}),
+                    ...(options?.modelId ? { modelId: options.modelId } : {}),
+                },
+                runtime
+            );
+
+            if (!images.success || !images.data?.length) {
+                elizaLogger.error(
+                    `Image ${operation} failed or returned no data:`,
+                    images.error,
+                    images.attempts
+                );
+                callback({
+                    text: `Sorry, I couldn't ${config.verb} that image.`,
+                });
+                return;
+            }
+
+            elizaLogger.log(
+                `Image ${operation} successful with ${images.provider}`
+            );
+            await deliverGeneratedImages(runtime, message, callback, {
+                images: images.data,
+                prompt,
+                provider: images.provider,
+                seeds: images.images?.map((image) => image.seed),
+                style: source.catalogImage?.style,
+                operation,
+                sourceId: source.catalogImage?.id,
+            });
+        },
+        examples: config.examples,
+    } as Action;
+}
+
+export const editImage = createTransformAction({
+    name: "EDIT_IMAGE",
+    operation: "edit",
+    similes: ["CHANGE_IMAGE", "MODIFY_IMAGE", "IMG2IMG", "TWEAK_IMAGE"],
+    description:
+        "Change an existing image as the user asks, e.g. make it darker or add a hat. Works on an attached image or the image being replied to.",
+    verb: "edit",
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "make it darker" },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here's a darker version",
+                    action: "EDIT_IMAGE",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Can you give the cat a hat?" },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Now with a hat",
+                    action: "EDIT_IMAGE",
+                },
+            },
+        ],
+    ],
+});
+
+export const varyImage = createTransformAction({
+    name: "VARY_IMAGE",
+    operation: "variation",
+    similes: ["IMAGE_VARIATION", "REMIX_IMAGE", "ANOTHER_VERSION"],
+    description:
+        "Make new variations of an existing image that keep its subject and style.",
+    verb: "vary",
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Show me a few variations of this one" },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here are some variations",
+                    action: "VARY_IMAGE",
+                },
+            },
+        ],
+    ],
+});
+
+export const upscaleImage = createTransformAction({
+    name: "UPSCALE_IMAGE",
+    operation: "upscale",
+    similes: ["ENHANCE_IMAGE", "HIGHER_RESOLUTION", "ENLARGE_IMAGE"],
+    description: "Upscale an existing image to a higher resolution.",
+    verb: "upscale",
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Can I get that in higher resolution?" },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here it is upscaled",
+                    action: "UPSCALE_IMAGE",
+                },
+            },
+        ],
+    ],
+});
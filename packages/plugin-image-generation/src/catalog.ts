@@ -0,0 +1,348 @@
+import {
+    elizaLogger,
+    embed,
+    IAgentRuntime,
+    ImageOperation,
+    Memory,
+    MemoryManager,
+    stringToUuid,
+    UUID,
+} from "@elizaos/core";
+import {
+    CatalogImage,
+    CatalogQuery,
+    GeneratedImageStatus,
+    StoredImage,
+} from "./types";
+import { getImageContentType } from "./utils/contentType";
+import { computePerceptualHash, hammingDistance } from "./utils/perceptualHash";
+
+export const GENERATED_IMAGES_TABLE = "generated_images";
+
+/** Prompt similarity above which an existing image is reused by default */
+export const DEFAULT_REUSE_THRESHOLD = 0.95;
+
+/** Hash distance at or below which two images are considered the same */
+const DUPLICATE_HASH_DISTANCE = 4;
+
+const SEARCH_CANDIDATES = 20;
+
+/**
+ * Converts an embedding as returned by the database adapters (number array,
+ * Float32Array blob or pgvector string) back into numbers.
+ */
+function toVector(embedding: unknown): number[] | null {
+    if (!embedding) return null;
+    if (Array.isArray(embedding)) return embedding as number[];
+    if (typeof embedding === "string") {
+        try {
+            return JSON.parse(embedding);
+        } catch {
+            return null;
+        }
+    }
+    if (embedding instanceof Float32Array) return Array.from(embedding);
+    if (embedding instanceof Uint8Array) {
+        return Array.from(
+            new Float32Array(
+                embedding.buffer.slice(
+                    embedding.byteOffset,
+                    embedding.byteOffset + embedding.byteLength
+                )
+            )
+        );
+    }
+    return null;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function toCatalogImage(memory: Memory): CatalogImage {
+    const content = memory.content;
+    return {
+        id: memory.id,
+        agentId: memory.agentId,
+        character: content.character as string,
+        prompt: content.text,
+        createdAt: memory.createdAt,
+        status: content.status as GeneratedImageStatus,
+        filepath: content.filepath as string,
+        url: content.url as string | undefined,
+        key: content.key as string | undefined,
+        storage: content.storage as CatalogImage["storage"],
+        contentType: content.contentType as string,
+        provider: content.provider as string | undefined,
+        seed: content.seed as number | undefined,
+        style: content.style as string | undefined,
+        operation: content.operation as ImageOperation | undefined,
+        sourceId: content.sourceId as UUID | undefined,
+        perceptualHash: content.perceptualHash as string | undefined,
+        duplicateOf: content.duplicateOf as UUID | undefined,
+        error: content.error as string | undefined,
+        rejectionReason: content.rejectionReason as string | undefined,
+    };
+}
+
+/**
+ * Catalog of the images an agent has generated. Entries are kept in the
+ * memories table of the agent's database adapter, so the catalog works with
+ * every image store, and carry a prompt embedding for similarity search plus
+ * a perceptual hash of the image itself.
+ */
+export class GeneratedImageCatalog {
+    private readonly memoryManager: MemoryManager;
+    readonly roomId: UUID;
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.memoryManager = new MemoryManager({
+            runtime,
+            tableName: GENERATED_IMAGES_TABLE,
+        });
+        this.roomId = stringToUuid(
+            `${GENERATED_IMAGES_TABLE}-${runtime.agentId}`
+        );
+    }
+
+    async add(params: {
+        prompt: string;
+        filepath: string;
+        stored?: StoredImage | null;
+        storage?: CatalogImage["storage"];
+        provider?: string;
+        seed?: number;
+        style?: string;
+        operation?: ImageOperation;
+        sourceId?: UUID;
+        error?: string;
+        /** Marks the entry rejected by moderation */
+        rejectionReason?: string;
+    }): Promise<CatalogImage> {
+        const {
+            prompt,
+            filepath,
+            stored,
+            storage,
+            provider,
+            seed,
+            style,
+            operation,
+            sourceId,
+            error,
+            rejectionReason,
+        } = params;
+
+        let perceptualHash: string | undefined;
+        try {
+            perceptualHash = await computePerceptualHash(filepath);
+        } catch (hashError) {
+            elizaLogger.warn("Failed to hash generated image:", hashError);
+        }
+
+        const duplicate = perceptualHash
+            ? await this.findByPerceptualHash(perceptualHash)
+            : null;
+        const embedding = await embed(this.runtime, prompt);
+
+        const memory: Memory = {
+            id: stringToUuid(`${filepath}-${Date.now()}`),
+            agentId: this.runtime.agentId,
+            userId: this.runtime.agentId,
+            roomId: this.roomId,
+            createdAt: Date.now(),
+            content: {
+                text: prompt,
+                source: "imageGeneration",
+                character: this.runtime.character.name,
+                status: rejectionReason
+                    ? "rejected"
+                    : stored
+                      ? "completed"
+                      : "error",
+                filepath,
+                url: stored?.url,
+                key: stored?.key,
+                storage,
+                provider,
+                seed,
+                style,
+                operation,
+                sourceId,
+                contentType:
+                    stored?.contentType || getImageContentType(filepath),
+                perceptualHash,
+                duplicateOf: duplicate?.id,
+                error,
+                rejectionReason,
+            },
+            embedding: embedding.length > 0 ? embedding : undefined,
+        };
+
+        await this.memoryManager.createMemory(memory);
+        return toCatalogImage(memory);
+    }
+
+    async get(id: UUID): Promise<CatalogImage | null> {
+        const memory = await this.memoryManager.getMemoryById(id);
+        return memory ? toCatalogImage(memory) : null;
+    }
+
+    /** Lists catalog entries, newest first */
+    async list(query: CatalogQuery = {}): Promise<CatalogImage[]> {
+        const memories = await this.memoryManager.getMemories({
+            roomId: this.roomId,
+            start: query.start,
+            end: query.end,
+            count: 1000,
+        });
+
+        const text = query.text?.toLowerCase();
+        const images = memories
+            .map(toCatalogImage)
+            .filter(
+                (image) =>
+                    (!query.status || image.status === query.status) &&
+                    (!query.character || image.character === query.character) &&
+                    (!text || image.prompt.toLowerCase().includes(text))
+            )
+            .sort((a, b) => b.createdAt - a.createdAt);
+
+        return query.count ? images.slice(0, query.count) : images;
+    }
+
+    /**
+     * Finds the entries whose prompts are closest to the given prompt,
+     * ordered by cosine similarity.
+     */
+    async search(
+        prompt: string,
+        opts: { count?: number; status?: GeneratedImageStatus } = {}
+    ): Promise<CatalogImage[]> {
+        const embedding = await embed(this.runtime, prompt);
+        if (embedding.length === 0) return [];
+
+        const memories = await this.memoryManager.searchMemoriesByEmbedding(
+            embedding,
+            {
+                roomId: this.roomId,
+                count: Math.max(opts.count ?? 0, SEARCH_CANDIDATES),
+                match_threshold: 0,
+            }
+        );
+
+        // Adapters report similarity on different scales, so score locally
+        const images = memories
+            .map((memory) => {
+                const vector = toVector(memory.embedding);
+                return {
+                    ...toCatalogImage(memory),
+                    similarity: vector
+                        ? cosineSimilarity(embedding, vector)
+                        : 0,
+                };
+            })
+            .filter((image) => !opts.status || image.status === opts.status)
+            .sort((a, b) => b.similarity - a.similarity);
+
+        return opts.count ? images.slice(0, opts.count) : images;
+    }
+
+    /**
+     * Returns a stored image whose prompt is similar enough to be reused
+     * instead of generating a new one. Only images generated from text in
+     * the same style qualify, not edits, variations or upscales.
+     */
+    async findReusable(
+        prompt: string,
+        threshold = DEFAULT_REUSE_THRESHOLD,
+        style?: string
+    ): Promise<CatalogImage | null> {
+        const images = await this.search(prompt, { status: "completed" });
+        const best = images.find(
+            (image) =>
+                image.style === style &&
+                (!image.operation || image.operation === "generate")
+        );
+        return best && best.url && best.similarity >= threshold ? best : null;
+    }
+
+    /** Finds the entry an attachment points to, by URL or local path */
+    async findByUrl(url: string): Promise<CatalogImage | null> {
+        const images = await this.list();
+        return (
+            images.find(
+                (image) => image.url === url || image.filepath === url
+            ) ?? null
+        );
+    }
+
+    /** Finds the entry of an image kept in an image store under a key */
+    async findByKey(key: string): Promise<CatalogImage | null> {
+        const images = await this.list();
+        return images.find((image) => image.key === key) ?? null;
+    }
+
+    async findByPerceptualHash(
+        perceptualHash: string,
+        maxDistance = DUPLICATE_HASH_DISTANCE
+    ): Promise<CatalogImage | null> {
+        const images = await this.list();
+        return (
+            images.find(
+                (image) =>
+                    image.perceptualHash &&
+                    hammingDistance(image.perceptualHash, perceptualHash) <=
+                        maxDistance
+            ) ?? null
+        );
+    }
+
+    /**
+     * Changes the status of an entry. The memory API has no update, so the
+     * entry is recreated under the same id.
+     */
+    async updateStatus(
+        id: UUID,
+        status: GeneratedImageStatus,
+        error?: string
+    ): Promise<CatalogImage | null> {
+        const memory = await this.memoryManager.getMemoryById(id);
+        if (!memory) return null;
+
+        const updated: Memory = {
+            ...memory,
+            content: { ...memory.content, status, error },
+            embedding: toVector(memory.embedding) ?? undefined,
+        };
+        await this.memoryManager.removeMemory(id);
+        await this.memoryManager.createMemory(updated);
+        return toCatalogImage(updated);
+    }
+
+    async remove(id: UUID): Promise<void> {
+        await this.memoryManager.removeMemory(id);
+    }
+}
+
+const catalogs = new WeakMap<IAgentRuntime, GeneratedImageCatalog>();
+
+export function getImageCatalog(runtime: IAgentRuntime): GeneratedImageCatalog {
+    let catalog = catalogs.get(runtime);
+    if (!catalog) {
+        catalog = new GeneratedImageCatalog(runtime);
+        catalogs.set(runtime, catalog);
+    }
+    return catalog;
+}
@@ -1,4 +1,11 @@
-import { elizaLogger, generateText } from "@elizaos/core";
+import {
+    composeContext,
+    elizaLogger,
+    formatImageStyle,
+    generateText,
+    getImageStyleDimensions,
+    selectImageStyle,
+} from "@elizaos/core";
 import {
     Action,
     HandlerCallback,
@@ -11,58 +18,114 @@ import {
 import { generateImage } from "@elizaos/core";
 import fs from "fs";
 import path from "path";
+import { z } from "zod";
 import { validateImageGenConfig } from "./environment";
 import { ImageGenerationState } from "./types";
-import { uploadGeneratedImage } from './utils/supabase';
+import { DEFAULT_REUSE_THRESHOLD, getImageCatalog } from "./catalog";
+import { generatedImagesProvider } from "./providers/generatedImages";
+import { editImage, upscaleImage, varyImage } from "./actions/transformImage";
+import { sharpImageProvider } from "./sharpImageProvider";
+import { sharpImagePostProcessor } from "./sharpPostProcessor";
+import { deliverGeneratedImages } from "./utils/deliverImages";
+
+export * from "./types";
+export {
+    getImageStore,
+    getImageStoreType,
+    LocalImageStore,
+    S3ImageStore,
+    SupabaseImageStore,
+} from "./stores";
+export {
+    GeneratedImageCatalog,
+    getImageCatalog,
+    GENERATED_IMAGES_TABLE,
+} from "./catalog";
+export { generatedImagesProvider } from "./providers/generatedImages";
+export { computePerceptualHash, hammingDistance } from "./utils/perceptualHash";
+export {
+    loadGeneratedImage,
+    saveBase64Image,
+    saveHeuristImage,
+    saveImageData,
+} from "./utils/saveImage";
+export { findSourceImage } from "./utils/sourceImage";
+export { regenerateImage } from "./utils/regenerateImage";
+export { editImage, upscaleImage, varyImage } from "./actions/transformImage";
+export { sharpImageProvider } from "./sharpImageProvider";
+export { processImage, sharpImagePostProcessor } from "./sharpPostProcessor";
+
+const imageSystemPrompt = `You are an expert in writing prompts for AI art generation. You excel at creating detailed and creative visual descriptions. Incorporating specific elements naturally. Always aim for clear, descriptive language that generates a creative picture. Your output should only contain the description of the image contents, but NOT an instruction like "create an image that..."`;
+
+const imagePromptTemplate = `You are tasked with generating an image prompt based on a content and a specified style.
+            Your goal is to create a detailed and vivid image prompt that captures the essence of the content while incorporating an appropriate subject based on your analysis of the content.\n\nYou will be given the following inputs:\n<content>\n{{imageContent}}\n</content>\n\n<style>\n{{imageStyle}}\n</style>\n\nA good image prompt consists of the following elements:\n\n
 
-export function saveBase64Image(base64Data: string, filename: string): string {
-    // Create generatedImages directory if it doesn't exist
-    const imageDir = path.join(process.cwd(), "generatedImages");
-    if (!fs.existsSync(imageDir)) {
-        fs.mkdirSync(imageDir, { recursive: true });
-    }
+1. Main subject
+2. Detailed description
+3. Style
+4. Lighting
+5. Composition
+6. Quality modifiers
 
-    // Remove the data:image/png;base64 prefix if it exists
-    const base64Image = base64Data.replace(/^data:image\/\w+;base64,/, "");
+To generate the image prompt, follow these steps:\n\n1. Analyze the content text carefully, identifying key themes, emotions, and visual elements mentioned or implied.
+\n\n
 
-    // Create a buffer from the base64 string
-    const imageBuffer = Buffer.from(base64Image, "base64");
+2. Determine the most appropriate main subject by:
+   - Identifying concrete objects or persons mentioned in the content
+   - Analyzing the central theme or message
+   - Considering metaphorical representations of abstract concepts
+   - Selecting a subject that best captures the content's essence
 
-    // Create full file path
-    const filepath = path.join(imageDir, `${filename}.png`);
+3. Determine an appropriate environment or setting based on the content's context and your chosen subject.
 
-    // Save the file
-    fs.writeFileSync(filepath, imageBuffer);
+4. Decide on suitable lighting that enhances the mood or atmosphere of the scene.
 
-    return filepath;
-}
+5. Choose a color palette that reflects the content's tone and complements the subject.
 
-export async function saveHeuristImage(
-    imageUrl: string,
-    filename: string
-): Promise<string> {
-    const imageDir = path.join(process.cwd(), "generatedImages");
-    if (!fs.existsSync(imageDir)) {
-        fs.mkdirSync(imageDir, { recursive: true });
-    }
+6. Identify the overall mood or emotion conveyed by the content.
 
-    // Fetch image from URL
-    const response = await fetch(imageUrl);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch image: ${response.statusText}`);
-    }
+7. Plan a composition that effectively showcases the subject and captures the content's essence.
 
-    const arrayBuffer = await response.arrayBuffer();
-    const imageBuffer = Buffer.from(arrayBuffer);
+8. Incorporate the specified style into your description, considering how it affects the overall look and feel of the image.
 
-    // Create full file path
-    const filepath = path.join(imageDir, `${filename}.png`);
+9. Use concrete nouns and avoid abstract concepts when describing the main subject and elements of the scene.
 
-    // Save the file
-    fs.writeFileSync(filepath, imageBuffer);
+Construct your image prompt using the following structure:\n\n
+1. Main subject: Describe the primary focus of the image based on your analysis
+2. Environment: Detail the setting or background
+3. Lighting: Specify the type and quality of light in the scene
+4. Colors: Mention the key colors and their relationships
+5. Mood: Convey the overall emotional tone
+6. Composition: Describe how elements are arranged in the frame
+7. Style: Incorporate the given style into the description
 
-    return filepath;
-}
+Ensure that your prompt is detailed, vivid, and incorporates all the elements mentioned above while staying true to the content and the specified style. LIMIT the image prompt 50 words or less. \n\nWrite a prompt. Only include the prompt and nothing else.`;
+
+/**
+ * Options of GENERATE_IMAGE, extracted from the conversation by the runtime.
+ * Anything left out falls back to the style profile and imageSettings.
+ */
+export const imageGenerationParameters = z.object({
+    width: z.number().int().positive().optional().describe("Width in pixels"),
+    height: z.number().int().positive().optional().describe("Height in pixels"),
+    count: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Number of images to generate"),
+    negativePrompt: z
+        .string()
+        .optional()
+        .describe("What the image should not show"),
+    numIterations: z.number().int().positive().optional(),
+    guidanceScale: z.number().positive().optional(),
+    seed: z.number().int().optional().describe("Seed to reproduce an image"),
+    modelId: z.string().optional(),
+    jobId: z.string().optional(),
+    stylePreset: z.string().optional(),
+    hideWatermark: z.boolean().optional(),
+});
 
 const imageGeneration: Action = {
     name: "GENERATE_IMAGE",
@@ -79,6 +142,7 @@ const imageGeneration: Action = {
     ],
     description: "Generate an image to go along with the message.",
     suppressInitialMessage: true,
+    parameters: imageGenerationParameters,
     validate: async (runtime: IAgentRuntime, _message: Memory) => {
         await validateImageGenConfig(runtime);
 
@@ -108,19 +172,7 @@ const imageGeneration: Action = {
         runtime: IAgentRuntime,
         message: Memory,
         state: State,
-        options: {
-            width?: number;
-            height?: number;
-            count?: number;
-            negativePrompt?: string;
-            numIterations?: number;
-            guidanceScale?: number;
-            seed?: number;
-            modelId?: string;
-            jobId?: string;
-            stylePreset?: string;
-            hideWatermark?: boolean;
-        },
+        options: z.infer<typeof imageGenerationParameters>,
         callback: HandlerCallback
     ) => {
         elizaLogger.log("Composing state for message:", message);
@@ -128,62 +180,81 @@ const imageGeneration: Action = {
         const userId = runtime.agentId;
         elizaLogger.log("User ID:", userId);
 
-        const CONTENT = message.content.text;
-        const IMAGE_SYSTEM_PROMPT = `You are an expert in writing prompts for AI art generation. You excel at creating detailed and creative visual descriptions. Incorporating specific elements naturally. Always aim for clear, descriptive language that generates a creative picture. Your output should only contain the description of the image contents, but NOT an instruction like "create an image that..."`;
-        const STYLE = "cinematic, realistic, epic";
-
-        const IMAGE_PROMPT_INPUT = `You are tasked with generating an image prompt based on a content and a specified style.
-            Your goal is to create a detailed and vivid image prompt that captures the essence of the content while incorporating an appropriate subject based on your analysis of the content.\n\nYou will be given the following inputs:\n<content>\n${CONTENT}\n</content>\n\n<style>\n${STYLE}\n</style>\n\nA good image prompt consists of the following elements:\n\n
-
-1. Main subject
-2. Detailed description
-3. Style
-4. Lighting
-5. Composition
-6. Quality modifiers
-
-To generate the image prompt, follow these steps:\n\n1. Analyze the content text carefully, identifying key themes, emotions, and visual elements mentioned or implied.
-\n\n
-
-2. Determine the most appropriate main subject by:
-   - Identifying concrete objects or persons mentioned in the content
-   - Analyzing the central theme or message
-   - Considering metaphorical representations of abstract concepts
-   - Selecting a subject that best captures the content's essence
-
-3. Determine an appropriate environment or setting based on the content's context and your chosen subject.
-
-4. Decide on suitable lighting that enhances the mood or atmosphere of the scene.
-
-5. Choose a color palette that reflects the content's tone and complements the subject.
-
-6. Identify the overall mood or emotion conveyed by the content.
-
-7. Plan a composition that effectively showcases the subject and captures the content's essence.
-
-8. Incorporate the specified style into your description, considering how it affects the overall look and feel of the image.
-
-9. Use concrete nouns and avoid abstract concepts when describing the main subject and elements of the scene.
-
-Construct your image prompt using the following structure:\n\n
-1. Main subject: Describe the primary focus of the image based on your analysis
-2. Environment: Detail the setting or background
-3. Lighting: Specify the type and quality of light in the scene
-4. Colors: Mention the key colors and their relationships
-5. Mood: Convey the overall emotional tone
-6. Composition: Describe how elements are arranged in the frame
-7. Style: Incorporate the given style into the description
+        const { name: styleName, profile: style } = await selectImageStyle(
+            runtime,
+            message.content.text
+        );
+        elizaLogger.log(`Using image style "${styleName}"`);
 
-Ensure that your prompt is detailed, vivid, and incorporates all the elements mentioned above while staying true to the content and the specified style. LIMIT the image prompt 50 words or less. \n\nWrite a prompt. Only include the prompt and nothing else.`;
+        const imagePromptContext = composeContext({
+            state: {
+                ...state,
+                imageContent: message.content.text,
+                imageStyle: formatImageStyle(style),
+            },
+            template: style.promptTemplate || imagePromptTemplate,
+        });
 
         const imagePrompt = await generateText({
             runtime,
-            context: IMAGE_PROMPT_INPUT,
+            context: imagePromptContext,
             modelClass: ModelClass.MEDIUM,
-            customSystemPrompt: IMAGE_SYSTEM_PROMPT,
+            customSystemPrompt: style.systemPrompt || imageSystemPrompt,
         });
 
         elizaLogger.log("Image prompt received:", imagePrompt);
+
+        const catalog = getImageCatalog(runtime);
+        const reuseThreshold = parseFloat(
+            runtime.getSetting("IMAGE_REUSE_THRESHOLD") ??
+                String(DEFAULT_REUSE_THRESHOLD)
+        );
+        // Explicit options ask for a new image, which a reused one would ignore
+        const hasOptions = Object.values(options ?? {}).some(
+            (value) => value !== undefined
+        );
+        if (reuseThreshold > 0 && !hasOptions) {
+            try {
+                const existing = await catalog.findReusable(
+                    imagePrompt,
+                    reuseThreshold,
+                    styleName
+                );
+                if (existing) {
+                    elizaLogger.log(
+                        `Reusing image ${existing.id} (similarity ${existing.similarity.toFixed(3)})`
+                    );
+                    callback(
+                        {
+                            text: "...",
+                            attachments: [
+                                {
+                                    id: existing.id,
+                                    url: existing.url,
+                                    title: "Generated image",
+                                    source: "imageGeneration",
+                                    description: `Image storage: ${existing.url}`,
+                                    text: "...",
+                                    contentType: existing.contentType,
+                                },
+                            ],
+                        },
+                        [
+                            {
+                                attachment: fs.existsSync(existing.filepath)
+                                    ? existing.filepath
+                                    : existing.url,
+                                name: path.basename(existing.filepath),
+                            },
+                        ]
+                    );
+                    return;
+                }
+            } catch (error) {
+                elizaLogger.error("Failed to search image catalog:", error);
+            }
+        }
+
         const imageSettings = runtime.character?.settings?.imageSettings || {};
         elizaLogger.log("Image settings:", imageSettings);
 
@@ -193,16 +264,26 @@ Ensure that your prompt is detailed, vivid, and incorporates all the elements me
         const images = await generateImage(
             {
                 prompt: imagePrompt,
-                width: options.width || imageSettings.width || 1024,
-                height: options.height || imageSettings.height || 1024,
+                ...(options.width || options.height
+                    ? {
+                          width: options.width || imageSettings.width || 1024,
+                          height:
+                              options.height || imageSettings.height || 1024,
+                      }
+                    : getImageStyleDimensions(style, {
+                          width: imageSettings.width || 1024,
+                          height: imageSettings.height || 1024,
+                      })),
                 ...(options.count != null || imageSettings.count != null
-                    ? { count: options.count || imageSettings.count || 1 }
+                    ? { count: options.count ?? imageSettings.count ?? 1 }
                     : {}),
                 ...(options.negativePrompt != null ||
+                style.negativePrompt != null ||
                 imageSettings.negativePrompt != null
                     ? {
                           negativePrompt:
-                              options.negativePrompt ||
+                              options.negativePrompt ??
+                              style.negativePrompt ??
                               imageSettings.negativePrompt,
                       }
                     : {}),
@@ -210,7 +291,7 @@ Ensure that your prompt is detailed, vivid, and incorporates all the elements me
                 imageSettings.numIterations != null
                     ? {
                           numIterations:
-                              options.numIterations ||
+                              options.numIterations ??
                               imageSettings.numIterations,
                       }
                     : {}),
@@ -218,31 +299,38 @@ Ensure that your prompt is detailed, vivid, and incorporates all the elements me
                 imageSettings.guidanceScale != null
                     ? {
                           guidanceScale:
-                              options.guidanceScale ||
+                              options.guidanceScale ??
                               imageSettings.guidanceScale,
                       }
                     : {}),
                 ...(options.seed != null || imageSettings.seed != null
-                    ? { seed: options.seed || imageSettings.seed }
+                    ? { seed: options.seed ?? imageSettings.seed }
                     : {}),
-                ...(options.modelId != null || imageSettings.modelId != null
-                    ? { modelId: options.modelId || imageSettings.modelId }
+                ...(options.modelId != null ||
+                style.modelId != null ||
+                imageSettings.modelId != null
+                    ? {
+                          modelId:
+                              options.modelId ??
+                              style.modelId ??
+                              imageSettings.modelId,
+                      }
                     : {}),
                 ...(options.jobId != null || imageSettings.jobId != null
-                    ? { jobId: options.jobId || imageSettings.jobId }
+                    ? { jobId: options.jobId ?? imageSettings.jobId }
                     : {}),
                 ...(options.stylePreset != null ||
                 imageSettings.stylePreset != null
                     ? {
                           stylePreset:
-                              options.stylePreset || imageSettings.stylePreset,
+                              options.stylePreset ?? imageSettings.stylePreset,
                       }
                     : {}),
                 ...(options.hideWatermark != null ||
                 imageSettings.hideWatermark != null
                     ? {
                           hideWatermark:
-                              options.hideWatermark ||
+                              options.hideWatermark ??
                               imageSettings.hideWatermark,
                       }
                     : {}),
@@ -251,54 +339,35 @@ Ensure that your prompt is detailed, vivid, and incorporates all the elements me
         );
 
         if (images.success && images.data && images.data.length > 0) {
-            elizaLogger.log("Image generation successful");
+            elizaLogger.log(
+                `Image generation successful with ${images.provider}`
+            );
 
-            for (let i = 0; i < images.data.length; i++) {
-                const image = images.data[i];
-
-                // Save the image and get filepath
-                const filename = `generated_${Date.now()}_${i}`;
-
-                // Choose save function based on image data format
-                const filepath = image.startsWith("http")
-                    ? await saveHeuristImage(image, filename)
-                    : saveBase64Image(image, filename);
-
-                elizaLogger.log(`Processing image ${i + 1}:`, filename);
-
-                // Upload to Supabase
-                const uploadResult = await uploadGeneratedImage(filepath, message.content.text);
-                if (uploadResult) {
-                    elizaLogger.log("Image uploaded to Supabase successfully:", uploadResult);
-                } else {
-                    elizaLogger.error("Failed to upload image to Supabase");
-                }
-
-                callback(
-                    {
-                        text: "...",
-                        attachments: [
-                            {
-                                id: uploadResult?.id || crypto.randomUUID(),
-                                url: uploadResult?.storage_path || filepath,
-                                title: "Generated image",
-                                source: "imageGeneration",
-                                description: uploadResult ? `Supabase storage: ${uploadResult.storage_path}` : "...",
-                                text: "...",
-                                contentType: "image/png"
-                            },
-                        ],
-                    },
-                    [
-                        {
-                            attachment: filepath,
-                            name: `${filename}.png`,
-                        },
-                    ]
-                );
-            }
+            await deliverGeneratedImages(runtime, message, callback, {
+                images: images.data,
+                prompt: imagePrompt,
+                provider: images.provider,
+                seeds: images.data.map(
+                    (_, i) =>
+                        images.images?.[i]?.seed ??
+                        options.seed ??
+                        imageSettings.seed
+                ),
+                style: styleName,
+            });
         } else {
-            elizaLogger.error("Image generation failed or returned no data.");
+            elizaLogger.error(
+                "Image generation failed or returned no data:",
+                images.error,
+                images.attempts
+            );
+            const reason =
+                images.error instanceof Error
+                    ? images.error.message
+                    : images.error;
+            throw new Error(
+                `Image generation failed: ${reason ?? "no images returned"}`
+            );
         }
     },
     examples: [
@@ -375,9 +444,11 @@ Ensure that your prompt is detailed, vivid, and incorporates all the elements me
 export const imageGenerationPlugin: Plugin = {
     name: "imageGeneration",
     description: "Generate images",
-    actions: [imageGeneration],
+    actions: [imageGeneration, editImage, varyImage, upscaleImage],
     evaluators: [],
-    providers: [],
+    providers: [generatedImagesProvider],
+    imageProviders: [sharpImageProvider],
+    imagePostProcessors: [sharpImagePostProcessor],
 };
 
 export default imageGenerationPlugin;
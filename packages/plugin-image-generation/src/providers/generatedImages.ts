@@ -0,0 +1,35 @@
+import {
+    elizaLogger,
+    IAgentRuntime,
+    Memory,
+    Provider,
+    State,
+} from "@elizaos/core";
+import { getImageCatalog } from "../catalog";
+
+const RECENT_IMAGE_COUNT = 10;
+
+const generatedImagesProvider: Provider = {
+    get: async (runtime: IAgentRuntime, _message: Memory, _state?: State) => {
+        try {
+            const images = await getImageCatalog(runtime).list({
+                status: "completed",
+                count: RECENT_IMAGE_COUNT,
+            });
+            if (images.length === 0) {
+                return "";
+            }
+
+            const lines = images.map(
+                (image) =>
+                    `- ${new Date(image.createdAt).toISOString().slice(0, 10)}: ${image.prompt} (${image.url})`
+            );
+            return `Images ${runtime.character.name} has already drawn, newest first:\n${lines.join("\n")}`;
+        } catch (error) {
+            elizaLogger.error("Error reading generated image catalog:", error);
+            return "";
+        }
+    },
+};
+
+export { generatedImagesProvider };
@@ -0,0 +1,31 @@
+import { ImageProviderAdapter } from "@elizaos/core";
+import sharp from "sharp";
+
+/**
+ * Local upscaler that resizes with a Lanczos filter. It adds no detail, but
+ * needs no API key, so it works as the last entry of fallbackProviders for
+ * UPSCALE_IMAGE.
+ */
+export const sharpImageProvider: ImageProviderAdapter = {
+    name: "sharp",
+    operations: ["upscale"],
+    generate: async (request) => {
+        if (!request.sourceImage) {
+            throw new Error("A source image is required to upscale");
+        }
+
+        const source = Buffer.from(request.sourceImage.base64, "base64");
+        const { width, height } = await sharp(source).metadata();
+        const scale = request.scale ?? 2;
+        const upscaled = await sharp(source)
+            .resize({
+                width: Math.round((width ?? request.width) * scale),
+                height: Math.round((height ?? request.height) * scale),
+                kernel: "lanczos3",
+            })
+            .png()
+            .toBuffer();
+
+        return [{ base64: upscaled.toString("base64"), mimeType: "image/png" }];
+    },
+};
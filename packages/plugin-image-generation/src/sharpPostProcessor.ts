@@ -0,0 +1,252 @@
+import {
+    elizaLogger,
+    ImagePlatformProfile,
+    ImagePostProcessContext,
+    ImagePostProcessor,
+    ImageWatermark,
+    ProcessedImage,
+} from "@elizaos/core";
+import fs from "fs";
+import sharp, { Sharp } from "sharp";
+
+const OUTPUT_FORMATS: Record<string, "png" | "jpeg" | "webp"> = {
+    "image/png": "png",
+    "image/jpeg": "jpeg",
+    "image/webp": "webp",
+};
+
+const WATERMARK_GRAVITY: Record<
+    NonNullable<ImageWatermark["position"]>,
+    string
+> = {
+    "top-left": "northwest",
+    "top-right": "northeast",
+    "bottom-left": "southwest",
+    "bottom-right": "southeast",
+};
+
+/** Quality steps tried for lossy formats before shrinking the image */
+const QUALITY_STEPS = [90, 80, 70, 60, 50];
+
+/** Shrink steps applied when the lowest quality is still too large */
+const MAX_DOWNSCALES = 4;
+const DOWNSCALE_FACTOR = 0.8;
+
+function parseAspectRatio(aspectRatio?: string): number | null {
+    const match = aspectRatio?.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+    return match ? parseFloat(match[1]) / parseFloat(match[2]) : null;
+}
+
+/**
+ * Target size for a profile: the aspect ratio applied by cropping the longer
+ * dimension, then scaled down to fit maxWidth and maxHeight.
+ */
+export function getTargetSize(
+    width: number,
+    height: number,
+    profile: ImagePlatformProfile
+): { width: number; height: number } {
+    const ratio = parseAspectRatio(profile.aspectRatio);
+    if (ratio) {
+        if (width / height > ratio) {
+            width = Math.round(height * ratio);
+        } else {
+            height = Math.round(width / ratio);
+        }
+    }
+
+    const scale = Math.min(
+        1,
+        (profile.maxWidth ?? width) / width,
+        (profile.maxHeight ?? height) / height
+    );
+    return {
+        width: Math.round(width * scale),
+        height: Math.round(height * scale),
+    };
+}
+
+function escapeXml(text: string): string {
+    return text.replace(
+        /[<>&"']/g,
+        (char) =>
+            ({
+                "<": "&lt;",
+                ">": "&gt;",
+                "&": "&amp;",
+                '"': "&quot;",
+                "'": "&apos;",
+            })[char]
+    );
+}
+
+async function renderWatermark(
+    watermark: ImageWatermark,
+    width: number
+): Promise<Buffer | null> {
+    const opacity = watermark.opacity ?? 0.6;
+
+    if (watermark.imagePath) {
+        if (!fs.existsSync(watermark.imagePath)) {
+            elizaLogger.warn("Watermark image not found:", watermark.imagePath);
+            return null;
+        }
+        return sharp(watermark.imagePath)
+            .resize({ width: Math.max(16, Math.round(width * 0.15)) })
+            .ensureAlpha(opacity)
+            .png()
+            .toBuffer();
+    }
+
+    if (!watermark.text) {
+        return null;
+    }
+    const fontSize = Math.max(12, Math.round(width * 0.03));
+    const svgWidth = Math.min(
+        width,
+        Math.round(fontSize * 0.6 * watermark.text.length) + fontSize
+    );
+    const svgHeight = Math.round(fontSize * 1.6);
+    return Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}">` +
+            `<text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" ` +
+            `font-family="sans-serif" font-size="${fontSize}" fill="white" ` +
+            `fill-opacity="${opacity}" stroke="black" stroke-opacity="${opacity / 2}">` +
+            `${escapeXml(watermark.text)}</text></svg>`
+    );
+}
+
+function encode(
+    pipeline: Sharp,
+    format: "png" | "jpeg" | "webp",
+    quality: number
+): Promise<Buffer> {
+    switch (format) {
+        case "jpeg":
+            return pipeline.jpeg({ quality, mozjpeg: true }).toBuffer();
+        case "webp":
+            return pipeline.webp({ quality }).toBuffer();
+        default:
+            return pipeline.png({ compressionLevel: 9 }).toBuffer();
+    }
+}
+
+/**
+ * Crops or pads an image to its platform profile, stamps the watermark,
+ * writes or strips metadata and recompresses it under the platform's size
+ * limit. PNGs that cannot fit are converted to JPEG, or WebP when they have
+ * transparency; lossy images then step down in quality and finally in size.
+ */
+export async function processImage(
+    image: ProcessedImage,
+    context: Omit<ImagePostProcessContext, "runtime"> & {
+        character?: string;
+    }
+): Promise<ProcessedImage> {
+    const { profile, settings } = context;
+    const metadata = await sharp(image.data).metadata();
+    if (!metadata.width || !metadata.height) {
+        return image;
+    }
+
+    const target = getTargetSize(metadata.width, metadata.height, profile);
+    let base = sharp(image.data)
+        .rotate()
+        .resize({
+            ...target,
+            fit: profile.fit === "contain" ? "contain" : "cover",
+            position: "attention",
+            background: { r: 0, g: 0, b: 0, alpha: 1 },
+        });
+
+    const watermark = settings.watermark
+        ? await renderWatermark(settings.watermark, target.width)
+        : null;
+    if (watermark) {
+        base = sharp(await base.png().toBuffer()).composite([
+            {
+                input: watermark,
+                gravity:
+                    WATERMARK_GRAVITY[
+                        settings.watermark.position ?? "bottom-right"
+                    ],
+            },
+        ]);
+    }
+
+    const rendered = await base.png().toBuffer();
+    let format =
+        profile.format ?? OUTPUT_FORMATS[image.mimeType] ?? ("png" as const);
+    const withMetadata = (pipeline: Sharp) =>
+        settings.metadata === "write"
+            ? pipeline.withExif({
+                  IFD0: {
+                      ...(context.prompt
+                          ? { ImageDescription: context.prompt }
+                          : {}),
+                      ...(context.character
+                          ? { Artist: context.character }
+                          : {}),
+                      Software: "elizaOS",
+                  },
+              })
+            : pipeline;
+
+    let size = target;
+    let data = await encode(
+        withMetadata(sharp(rendered)),
+        format,
+        settings.quality ?? QUALITY_STEPS[0]
+    );
+    if (
+        profile.maxBytes &&
+        data.length > profile.maxBytes &&
+        format === "png"
+    ) {
+        format = metadata.hasAlpha ? "webp" : "jpeg";
+    }
+
+    for (
+        let downscale = 0;
+        profile.maxBytes &&
+        data.length > profile.maxBytes &&
+        downscale <= MAX_DOWNSCALES;
+        downscale++
+    ) {
+        const scale = DOWNSCALE_FACTOR ** downscale;
+        size = {
+            width: Math.round(target.width * scale),
+            height: Math.round(target.height * scale),
+        };
+        for (const quality of format === "png" ? [0] : QUALITY_STEPS) {
+            data = await encode(
+                withMetadata(sharp(rendered).resize(size)),
+                format,
+                quality
+            );
+            if (data.length <= profile.maxBytes) break;
+        }
+    }
+
+    if (profile.maxBytes && data.length > profile.maxBytes) {
+        elizaLogger.warn(
+            `Image is still ${data.length} bytes after recompression, over the ${profile.maxBytes} byte limit`
+        );
+    }
+
+    return {
+        data,
+        mimeType: `image/${format}`,
+        width: size.width,
+        height: size.height,
+    };
+}
+
+export const sharpImagePostProcessor: ImagePostProcessor = {
+    name: "sharp",
+    process: (image, context) =>
+        processImage(image, {
+            ...context,
+            character: context.runtime.character?.name,
+        }),
+};
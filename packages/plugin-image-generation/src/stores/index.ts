@@ -0,0 +1,100 @@
+import {
+    IAgentRuntime,
+    IAwsS3Service,
+    ServiceType,
+    settings,
+} from "@elizaos/core";
+import { getImageCatalog } from "../catalog";
+import { ImageStore, ImageStoreType } from "../types";
+import { LocalImageStore } from "./local";
+import { S3ImageStore } from "./s3";
+import { SupabaseImageStore } from "./supabase";
+
+export { LocalImageStore, S3ImageStore, SupabaseImageStore };
+
+const IMAGE_STORE_TYPES: ImageStoreType[] = ["local", "s3", "supabase"];
+
+const imageStores = new WeakMap<IAgentRuntime, ImageStore>();
+
+/**
+ * Picks the image store for a character: imageSettings.storage, then the
+ * IMAGE_STORAGE setting, then Supabase when it is configured and the local
+ * filesystem otherwise.
+ */
+export function getImageStoreType(runtime: IAgentRuntime): ImageStoreType {
+    const configured =
+        runtime.character?.settings?.imageSettings?.storage ||
+        runtime.getSetting("IMAGE_STORAGE");
+
+    if (configured) {
+        if (!IMAGE_STORE_TYPES.includes(configured as ImageStoreType)) {
+            throw new Error(
+                `Unknown image storage "${configured}", expected one of: ${IMAGE_STORE_TYPES.join(", ")}`
+            );
+        }
+        return configured as ImageStoreType;
+    }
+
+    return runtime.getSetting("SUPABASE_URL") &&
+        runtime.getSetting("SUPABASE_ANON_KEY")
+        ? "supabase"
+        : "local";
+}
+
+function createImageStore(runtime: IAgentRuntime): ImageStore {
+    const type = getImageStoreType(runtime);
+
+    switch (type) {
+        case "supabase": {
+            const url = runtime.getSetting("SUPABASE_URL");
+            const key = runtime.getSetting("SUPABASE_ANON_KEY");
+            if (!url || !key) {
+                throw new Error(
+                    "SUPABASE_URL and SUPABASE_ANON_KEY are required for the supabase image storage"
+                );
+            }
+            return new SupabaseImageStore(url, key);
+        }
+        case "s3": {
+            const s3Service = runtime.getService<IAwsS3Service>(
+                ServiceType.AWS_S3
+            );
+            if (!s3Service) {
+                throw new Error(
+                    "The s3 image storage requires the AWS S3 service from plugin-node"
+                );
+            }
+            return new S3ImageStore(s3Service, {
+                subDirectory: "generated-images",
+                useSignedUrl:
+                    runtime.getSetting("IMAGE_STORAGE_S3_SIGNED_URL") ===
+                    "true",
+                expiresIn:
+                    parseInt(
+                        runtime.getSetting("IMAGE_STORAGE_S3_URL_EXPIRES_IN")
+                    ) || 900,
+                hasImage: async (key) =>
+                    !!(await getImageCatalog(runtime).findByKey(key)),
+            });
+        }
+        case "local":
+        default:
+            return new LocalImageStore(
+                runtime.getSetting("IMAGE_STORAGE_LOCAL_URL") ||
+                    `http://localhost:${settings.SERVER_PORT || "3000"}/media/generated`
+            );
+    }
+}
+
+/**
+ * Returns the image store configured for the runtime's character, creating
+ * it on first use.
+ */
+export function getImageStore(runtime: IAgentRuntime): ImageStore {
+    let store = imageStores.get(runtime);
+    if (!store) {
+        store = createImageStore(runtime);
+        imageStores.set(runtime, store);
+    }
+    return store;
+}
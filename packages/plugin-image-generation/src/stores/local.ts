@@ -0,0 +1,44 @@
+import fs from "fs";
+import path from "path";
+import { ImageStore, StoredImage } from "../types";
+import { getImageContentType } from "../utils/contentType";
+
+/**
+ * Keeps generated images in the local generatedImages directory, which the
+ * direct client serves under /media/generated.
+ */
+export class LocalImageStore implements ImageStore {
+    readonly type = "local";
+
+    constructor(
+        private readonly baseUrl: string,
+        private readonly directory: string = path.join(
+            process.cwd(),
+            "generatedImages"
+        )
+    ) {}
+
+    async save(filepath: string, _prompt: string): Promise<StoredImage> {
+        const filename = path.basename(filepath);
+        const target = path.join(this.directory, filename);
+
+        if (path.resolve(filepath) !== path.resolve(target)) {
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            await fs.promises.copyFile(filepath, target);
+        }
+
+        return {
+            key: filename,
+            url: `${this.baseUrl}/${filename}`,
+            contentType: getImageContentType(filename),
+        };
+    }
+
+    async resolveUrl(key: string): Promise<string | null> {
+        const filename = path.basename(key);
+        if (!fs.existsSync(path.join(this.directory, filename))) {
+            return null;
+        }
+        return `${this.baseUrl}/${filename}`;
+    }
+}
@@ -0,0 +1,55 @@
+import { IAwsS3Service } from "@elizaos/core";
+import { ImageStore, StoredImage } from "../types";
+import { getImageContentType } from "../utils/contentType";
+
+/**
+ * Uploads generated images to an S3-compatible bucket through the
+ * AWS S3 service registered by plugin-node.
+ */
+export class S3ImageStore implements ImageStore {
+    readonly type = "s3";
+
+    constructor(
+        private readonly s3Service: IAwsS3Service,
+        private readonly options: {
+            subDirectory: string;
+            useSignedUrl: boolean;
+            expiresIn: number;
+            /** Tells whether a key is one of the agent's generated images */
+            hasImage: (key: string) => Promise<boolean>;
+        }
+    ) {}
+
+    async save(filepath: string, _prompt: string): Promise<StoredImage> {
+        const result = await this.s3Service.uploadFile(
+            filepath,
+            this.options.subDirectory,
+            this.options.useSignedUrl,
+            this.options.expiresIn
+        );
+
+        if (!result.success || !result.url) {
+            throw new Error(`S3 upload failed: ${result.error}`);
+        }
+
+        // The service does not return the object key, but both public and
+        // signed URLs carry it as the path
+        const key = decodeURIComponent(new URL(result.url).pathname.slice(1));
+
+        return {
+            key,
+            url: result.url,
+            contentType: getImageContentType(filepath),
+        };
+    }
+
+    async resolveUrl(key: string): Promise<string | null> {
+        // Only sign keys of generated images, not any object in the bucket
+        if (!(await this.options.hasImage(key))) return null;
+
+        return await this.s3Service.generateSignedUrl(
+            key,
+            this.options.expiresIn
+        );
+    }
+}
@@ -0,0 +1,40 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { ImageStore, StoredImage } from "../types";
+import { getImageContentType } from "../utils/contentType";
+import { getGeneratedImageById, uploadGeneratedImage } from "../utils/supabase";
+
+/**
+ * Uploads generated images to the generated-images Supabase bucket and
+ * tracks them in the generated_images table.
+ */
+export class SupabaseImageStore implements ImageStore {
+    readonly type = "supabase";
+    private readonly client: SupabaseClient;
+
+    constructor(url: string, key: string) {
+        this.client = createClient(url, key);
+    }
+
+    async save(filepath: string, prompt: string): Promise<StoredImage> {
+        const record = await uploadGeneratedImage(
+            this.client,
+            filepath,
+            prompt
+        );
+        if (!record) {
+            throw new Error("Failed to upload image to Supabase");
+        }
+
+        return {
+            id: record.id,
+            key: record.id,
+            url: record.storage_path,
+            contentType: getImageContentType(filepath),
+        };
+    }
+
+    async resolveUrl(key: string): Promise<string | null> {
+        const record = await getGeneratedImageById(this.client, key);
+        return record?.status === "completed" ? record.storage_path : null;
+    }
+}
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { IAgentRuntime, Memory, UUID } from "@elizaos/core";
+
+const embeddings: Record<string, number[]> = {
+    "a red fox in the snow": [1, 0, 0],
+    "a red fox in snow": [0.99, 0.1, 0],
+    "a blue whale": [0, 0, 1],
+};
+
+vi.mock("@elizaos/core", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("@elizaos/core")>();
+    return {
+        ...actual,
+        embed: vi.fn(
+            async (_runtime, input: string) => embeddings[input] ?? []
+        ),
+    };
+});
+
+import { GeneratedImageCatalog } from "../catalog";
+import {
+    computePerceptualHash,
+    hammingDistance,
+} from "../utils/perceptualHash";
+
+function createRuntime(): IAgentRuntime {
+    const memories = new Map<UUID, Memory>();
+
+    return {
+        agentId: "00000000-0000-0000-0000-000000000001" as UUID,
+        character: { name: "Artist" },
+        databaseAdapter: {
+            getMemoryById: async (id: UUID) => memories.get(id) ?? null,
+            createMemory: async (memory: Memory) => {
+                memories.set(memory.id, memory);
+            },
+            removeMemory: async (id: UUID) => {
+                memories.delete(id);
+            },
+            getMemories: async ({ start, end }) =>
+                [...memories.values()].filter(
+                    (memory) =>
+                        (!start || memory.createdAt >= start) &&
+                        (!end || memory.createdAt <= end)
+                ),
+            searchMemories: async () => [...memories.values()],
+        },
+    } as unknown as IAgentRuntime;
+}
+
+async function writeImage(
+    dir: string,
+    name: string,
+    color: { r: number; g: number; b: number },
+    gradient = false
+): Promise<string> {
+    const filepath = path.join(dir, `${name}.png`);
+    const image = gradient
+        ? sharp(
+              Buffer.from(
+                  Array.from({ length: 32 * 32 }, (_, i) => 255 - (i % 32) * 8)
+              ),
+              { raw: { width: 32, height: 32, channels: 1 } }
+          )
+        : sharp({
+              create: { width: 32, height: 32, channels: 3, background: color },
+          });
+    await image.png().toFile(filepath);
+    return filepath;
+}
+
+describe("Perceptual hash", () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "image-hash-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("hashes identical images the same", async () => {
+        const a = await writeImage(tmpDir, "a", { r: 255, g: 0, b: 0 });
+        const b = await writeImage(tmpDir, "b", { r: 255, g: 0, b: 0 });
+
+        const hashA = await computePerceptualHash(a);
+        expect(hashA).toMatch(/^[0-9a-f]{16}$/);
+        expect(hammingDistance(hashA, await computePerceptualHash(b))).toBe(0);
+    });
+
+    it("separates visually different images", async () => {
+        const flat = await writeImage(tmpDir, "flat", { r: 0, g: 0, b: 0 });
+        const gradient = await writeImage(
+            tmpDir,
+            "gradient",
+            { r: 0, g: 0, b: 0 },
+            true
+        );
+
+        expect(
+            hammingDistance(
+                await computePerceptualHash(flat),
+                await computePerceptualHash(gradient)
+            )
+        ).toBeGreaterThan(4);
+    });
+});
+
+describe("GeneratedImageCatalog", () => {
+    let tmpDir: string;
+    let catalog: GeneratedImageCatalog;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "image-catalog-"));
+        catalog = new GeneratedImageCatalog(createRuntime());
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    async function addImage(prompt: string, name: string, stored = true) {
+        const filepath = await writeImage(tmpDir, name, { r: 0, g: 0, b: 0 });
+        return catalog.add({
+            prompt,
+            filepath,
+            stored: stored
+                ? {
+                      key: `${name}.png`,
+                      url: `http://localhost/${name}.png`,
+                      contentType: "image/png",
+                  }
+                : null,
+            storage: "local",
+            error: stored ? undefined : "upload failed",
+        });
+    }
+
+    it("records the prompt, status, character and hash", async () => {
+        const image = await addImage("a red fox in the snow", "fox");
+
+        expect(image.status).toBe("completed");
+        expect(image.character).toBe("Artist");
+        expect(image.perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+        expect(await catalog.get(image.id)).toMatchObject({
+            prompt: "a red fox in the snow",
+            url: "http://localhost/fox.png",
+        });
+    });
+
+    it("marks images that failed to store as errors", async () => {
+        const image = await addImage("a blue whale", "whale", false);
+        expect(image.status).toBe("error");
+        expect(image.error).toBe("upload failed");
+    });
+
+    it("filters by status, text and character", async () => {
+        await addImage("a red fox in the snow", "fox");
+        await addImage("a blue whale", "whale", false);
+
+        expect(await catalog.list({ status: "completed" })).toHaveLength(1);
+        expect(await catalog.list({ text: "WHALE" })).toHaveLength(1);
+        expect(await catalog.list({ character: "Someone else" })).toHaveLength(
+            0
+        );
+        expect(await catalog.list({ count: 1 })).toHaveLength(1);
+    });
+
+    it("flags images that duplicate an earlier one", async () => {
+        const first = await addImage("a red fox in the snow", "fox");
+        const second = await addImage("a blue whale", "whale");
+        expect(second.duplicateOf).toBe(first.id);
+    });
+
+    it("reuses an image for a near-duplicate prompt", async () => {
+        const fox = await addImage("a red fox in the snow", "fox");
+        await addImage("a blue whale", "whale");
+
+        const reusable = await catalog.findReusable("a red fox in snow");
+        expect(reusable?.id).toBe(fox.id);
+        expect(reusable?.similarity).toBeGreaterThan(0.95);
+        expect(
+            await catalog.findReusable("a red fox in snow", 0.999)
+        ).toBeNull();
+    });
+
+    it("reuses only text-to-image entries of the same style", async () => {
+        const filepath = await writeImage(tmpDir, "fox", { r: 0, g: 0, b: 0 });
+        const stored = {
+            key: "fox.png",
+            url: "http://localhost/fox.png",
+            contentType: "image/png",
+        };
+        await catalog.add({
+            prompt: "a red fox in the snow",
+            filepath,
+            stored,
+            style: "sketch",
+        });
+        await catalog.add({
+            prompt: "a red fox in the snow",
+            filepath,
+            stored,
+            style: "photo",
+            operation: "upscale",
+        });
+
+        expect(
+            await catalog.findReusable("a red fox in snow", 0.95, "sketch")
+        ).toMatchObject({ style: "sketch" });
+        expect(
+            await catalog.findReusable("a red fox in snow", 0.95, "photo")
+        ).toBeNull();
+    });
+
+    it("does not reuse images that failed to store", async () => {
+        await addImage("a red fox in the snow", "fox", false);
+        expect(await catalog.findReusable("a red fox in snow")).toBeNull();
+    });
+
+    it("updates the status of an entry", async () => {
+        const image = await addImage("a red fox in the snow", "fox");
+        await catalog.updateStatus(image.id, "error", "removed from storage");
+
+        expect(await catalog.get(image.id)).toMatchObject({
+            status: "error",
+            error: "removed from storage",
+        });
+    });
+});
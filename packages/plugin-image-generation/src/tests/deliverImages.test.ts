@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { IAgentRuntime, Memory, moderateImage, UUID } from "@elizaos/core";
+
+vi.mock("@elizaos/core", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("@elizaos/core")>();
+    return {
+        ...actual,
+        embed: vi.fn(async () => []),
+        moderateImage: vi.fn(),
+    };
+});
+
+import { getImageCatalog } from "../catalog";
+import { deliverGeneratedImages } from "../utils/deliverImages";
+
+function createRuntime(): IAgentRuntime {
+    const memories = new Map<UUID, Memory>();
+
+    return {
+        agentId: "00000000-0000-0000-0000-000000000001" as UUID,
+        character: { name: "Brand", settings: {} },
+        getSetting: (key: string) => (key === "IMAGE_STORAGE" ? "local" : null),
+        databaseAdapter: {
+            getMemoryById: async (id: UUID) => memories.get(id) ?? null,
+            createMemory: async (memory: Memory) => {
+                memories.set(memory.id, memory);
+            },
+            getMemories: async () => [...memories.values()],
+        },
+    } as unknown as IAgentRuntime;
+}
+
+const message = {
+    content: { text: "draw our mascot", source: "discord" },
+} as Memory;
+
+describe("deliverGeneratedImages", () => {
+    let cwd: string;
+    let tmpDir: string;
+    let image: string;
+
+    beforeEach(async () => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "deliver-images-"));
+        cwd = process.cwd();
+        process.chdir(tmpDir);
+        const data = await sharp({
+            create: {
+                width: 16,
+                height: 16,
+                channels: 3,
+                background: { r: 0, g: 0, b: 255 },
+            },
+        })
+            .jpeg()
+            .toBuffer();
+        image = `data:image/png;base64,${data.toString("base64")}`;
+    });
+
+    afterEach(() => {
+        process.chdir(cwd);
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("sends approved images with their real format", async () => {
+        vi.mocked(moderateImage).mockResolvedValue({ allowed: true });
+        const runtime = createRuntime();
+        const callback = vi.fn();
+
+        await deliverGeneratedImages(runtime, message, callback, {
+            images: [image],
+            prompt: "a blue mascot",
+        });
+
+        const [content, files] = callback.mock.calls[0];
+        expect(content.attachments[0].contentType).toBe("image/jpeg");
+        expect(files[0].name).toMatch(/\.jpg$/);
+        expect((await getImageCatalog(runtime).list())[0].status).toBe(
+            "completed"
+        );
+    });
+
+    it("returns the catalog entries with their seeds", async () => {
+        vi.mocked(moderateImage).mockResolvedValue({ allowed: true });
+        const runtime = createRuntime();
+
+        const entries = await deliverGeneratedImages(
+            runtime,
+            message,
+            vi.fn(),
+            {
+                images: [image, image],
+                prompt: "a blue mascot",
+                provider: "fal",
+                seeds: [7, undefined],
+            }
+        );
+
+        expect(entries.map((entry) => [entry.provider, entry.seed])).toEqual([
+            ["fal", 7],
+            ["fal", undefined],
+        ]);
+        expect((await getImageCatalog(runtime).get(entries[0].id)).seed).toBe(
+            7
+        );
+    });
+
+    it("catalogs rejected images and never sends them", async () => {
+        vi.mocked(moderateImage).mockResolvedValue({
+            allowed: false,
+            reason: "Image shows blocked content: logo",
+        });
+        const runtime = createRuntime();
+        const callback = vi.fn();
+
+        await deliverGeneratedImages(runtime, message, callback, {
+            images: [image],
+            prompt: "a blue mascot",
+        });
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback.mock.calls[0][0].attachments).toBeUndefined();
+        expect(callback.mock.calls[0][1]).toBeUndefined();
+
+        const [entry] = await getImageCatalog(runtime).list();
+        expect(entry).toMatchObject({
+            status: "rejected",
+            rejectionReason: "Image shows blocked content: logo",
+        });
+        expect(fs.existsSync(entry.filepath)).toBe(false);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+    generateImage,
+    IAgentRuntime,
+    Memory,
+    State,
+    UUID,
+} from "@elizaos/core";
+
+vi.mock("@elizaos/core", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("@elizaos/core")>();
+    return {
+        ...actual,
+        generateText: vi.fn(async () => "a mascot"),
+        selectImageStyle: vi.fn(async () => ({
+            name: "default",
+            profile: {},
+        })),
+        generateImage: vi.fn(async () => ({
+            success: false,
+            error: "stopped",
+        })),
+    };
+});
+
+const findReusable = vi.fn();
+
+vi.mock("../catalog", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("../catalog")>();
+    return {
+        ...actual,
+        getImageCatalog: () => ({ findReusable }),
+    };
+});
+
+import imageGenerationPlugin from "../index";
+
+function createRuntime(reuseThreshold = "0"): IAgentRuntime {
+    return {
+        agentId: "00000000-0000-0000-0000-000000000001" as UUID,
+        character: {
+            name: "Brand",
+            settings: { imageSettings: { seed: 42, hideWatermark: true } },
+        },
+        getSetting: (key: string) =>
+            key === "IMAGE_REUSE_THRESHOLD" ? reuseThreshold : null,
+        composeState: async () => ({}),
+    } as unknown as IAgentRuntime;
+}
+
+describe("GENERATE_IMAGE options", () => {
+    it("keeps explicit zero and false over the image settings", async () => {
+        const [action] = imageGenerationPlugin.actions;
+
+        await expect(
+            action.handler(
+                createRuntime(),
+                { content: { text: "draw our mascot" } } as Memory,
+                {} as State,
+                { seed: 0, hideWatermark: false },
+                vi.fn()
+            )
+        ).rejects.toThrow("stopped");
+
+        expect(generateImage).toHaveBeenCalledWith(
+            expect.objectContaining({ seed: 0, hideWatermark: false }),
+            expect.anything()
+        );
+    });
+
+    it("does not reuse an image when options are given", async () => {
+        const [action] = imageGenerationPlugin.actions;
+
+        await expect(
+            action.handler(
+                createRuntime("0.95"),
+                { content: { text: "draw our mascot" } } as Memory,
+                {} as State,
+                { width: 512, height: 512 },
+                vi.fn()
+            )
+        ).rejects.toThrow("stopped");
+
+        expect(findReusable).not.toHaveBeenCalled();
+        expect(generateImage).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { IAgentRuntime, IAwsS3Service } from "@elizaos/core";
+
+import { getImageStoreType, LocalImageStore, S3ImageStore } from "../stores";
+
+function createRuntime(
+    settings: Record<string, string>,
+    storage?: string
+): IAgentRuntime {
+    return {
+        character: {
+            settings: { imageSettings: storage ? { storage } : {} },
+        },
+        getSetting: (key: string) => settings[key] ?? null,
+    } as unknown as IAgentRuntime;
+}
+
+describe("Image store selection", () => {
+    it("uses the character's storage setting first", () => {
+        const runtime = createRuntime({ IMAGE_STORAGE: "supabase" }, "s3");
+        expect(getImageStoreType(runtime)).toBe("s3");
+    });
+
+    it("falls back to the IMAGE_STORAGE setting", () => {
+        const runtime = createRuntime({ IMAGE_STORAGE: "local" });
+        expect(getImageStoreType(runtime)).toBe("local");
+    });
+
+    it("defaults to supabase only when it is configured", () => {
+        expect(getImageStoreType(createRuntime({}))).toBe("local");
+        expect(
+            getImageStoreType(
+                createRuntime({
+                    SUPABASE_URL: "https://example.supabase.co",
+                    SUPABASE_ANON_KEY: "key",
+                })
+            )
+        ).toBe("supabase");
+    });
+
+    it("rejects unknown storage types", () => {
+        const runtime = createRuntime({}, "dropbox");
+        expect(() => getImageStoreType(runtime)).toThrow(
+            'Unknown image storage "dropbox"'
+        );
+    });
+});
+
+describe("LocalImageStore", () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "image-store-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("copies images into its directory and resolves their URL", async () => {
+        const source = path.join(tmpDir, "source.png");
+        fs.writeFileSync(source, Buffer.from("89504e47", "hex"));
+
+        const store = new LocalImageStore(
+            "http://localhost:3000/media/generated",
+            path.join(tmpDir, "generatedImages")
+        );
+        const stored = await store.save(source, "a cat");
+
+        expect(stored).toEqual({
+            key: "source.png",
+            url: "http://localhost:3000/media/generated/source.png",
+            contentType: "image/png",
+        });
+        expect(
+            fs.existsSync(path.join(tmpDir, "generatedImages", "source.png"))
+        ).toBe(true);
+        expect(await store.resolveUrl(stored.key)).toBe(stored.url);
+        expect(await store.resolveUrl("missing.png")).toBeNull();
+    });
+});
+
+describe("S3ImageStore", () => {
+    it("derives the object key from the uploaded URL", async () => {
+        const s3Service = {
+            uploadFile: vi.fn().mockResolvedValue({
+                success: true,
+                url: "https://bucket.s3.us-east-1.amazonaws.com/generated-images/1-image.jpg",
+            }),
+            generateSignedUrl: vi.fn().mockResolvedValue("https://signed"),
+        } as unknown as IAwsS3Service;
+
+        const store = new S3ImageStore(s3Service, {
+            subDirectory: "generated-images",
+            useSignedUrl: false,
+            expiresIn: 900,
+            hasImage: async (key) => key === "generated-images/1-image.jpg",
+        });
+        const stored = await store.save("/tmp/image.jpg", "a dog");
+
+        expect(stored.key).toBe("generated-images/1-image.jpg");
+        expect(stored.contentType).toBe("image/jpeg");
+        expect(await store.resolveUrl(stored.key)).toBe("https://signed");
+        expect(s3Service.generateSignedUrl).toHaveBeenCalledWith(
+            "generated-images/1-image.jpg",
+            900
+        );
+    });
+
+    it("does not sign keys of other objects", async () => {
+        const s3Service = {
+            generateSignedUrl: vi.fn().mockResolvedValue("https://signed"),
+        } as unknown as IAwsS3Service;
+
+        const store = new S3ImageStore(s3Service, {
+            subDirectory: "generated-images",
+            useSignedUrl: false,
+            expiresIn: 900,
+            hasImage: async () => false,
+        });
+
+        expect(await store.resolveUrl("backups/db.sql")).toBeNull();
+        expect(s3Service.generateSignedUrl).not.toHaveBeenCalled();
+    });
+
+    it("throws when the upload fails", async () => {
+        const s3Service = {
+            uploadFile: vi.fn().mockResolvedValue({
+                success: false,
+                error: "AWS S3 credentials not configured",
+            }),
+        } as unknown as IAwsS3Service;
+
+        const store = new S3ImageStore(s3Service, {
+            subDirectory: "generated-images",
+            useSignedUrl: false,
+            expiresIn: 900,
+            hasImage: async () => false,
+        });
+
+        await expect(store.save("/tmp/image.png", "a dog")).rejects.toThrow(
+            "S3 upload failed: AWS S3 credentials not configured"
+        );
+    });
+});
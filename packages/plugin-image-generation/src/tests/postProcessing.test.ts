@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import crypto from "crypto";
+import sharp from "sharp";
+import { ImagePlatformProfile } from "@elizaos/core";
+import { getTargetSize, processImage } from "../sharpPostProcessor";
+
+function noise(width: number, height: number): Promise<Buffer> {
+    const pixels = crypto.randomBytes(width * height * 3);
+    return sharp(pixels, { raw: { width, height, channels: 3 } })
+        .png()
+        .toBuffer();
+}
+
+async function run(data: Buffer, profile: ImagePlatformProfile, settings = {}) {
+    return processImage(
+        { data, mimeType: "image/png" },
+        { profile, settings, prompt: "a fox", character: "Artist" }
+    );
+}
+
+describe("getTargetSize", () => {
+    it("crops to the aspect ratio and fits the maximum size", () => {
+        expect(getTargetSize(1024, 1024, { aspectRatio: "16:9" })).toEqual({
+            width: 1024,
+            height: 576,
+        });
+        expect(getTargetSize(1600, 900, { aspectRatio: "1:1" })).toEqual({
+            width: 900,
+            height: 900,
+        });
+        expect(getTargetSize(2000, 1000, { maxWidth: 1000 })).toEqual({
+            width: 1000,
+            height: 500,
+        });
+    });
+});
+
+describe("processImage", () => {
+    it("crops to the platform aspect ratio", async () => {
+        const result = await run(await noise(128, 128), {
+            aspectRatio: "16:9",
+        });
+
+        const metadata = await sharp(result.data).metadata();
+        expect([metadata.width, metadata.height]).toEqual([128, 72]);
+        expect(result.mimeType).toBe("image/png");
+    });
+
+    it("recompresses images that exceed the size limit", async () => {
+        const data = await noise(256, 256);
+        const result = await run(data, { maxBytes: 40 * 1024 });
+
+        expect(data.length).toBeGreaterThan(40 * 1024);
+        expect(result.data.length).toBeLessThanOrEqual(40 * 1024);
+        expect(result.mimeType).toBe("image/jpeg");
+        expect((await sharp(result.data).metadata()).format).toBe("jpeg");
+    });
+
+    it("converts to the profile's format", async () => {
+        const result = await run(await noise(64, 64), { format: "webp" });
+        expect(result.mimeType).toBe("image/webp");
+        expect((await sharp(result.data).metadata()).format).toBe("webp");
+    });
+
+    it("stamps a text watermark", async () => {
+        const plain = await sharp({
+            create: {
+                width: 200,
+                height: 100,
+                channels: 3,
+                background: { r: 0, g: 0, b: 0 },
+            },
+        })
+            .png()
+            .toBuffer();
+
+        const result = await run(
+            plain,
+            {},
+            { watermark: { text: "@artist", opacity: 1 } }
+        );
+
+        const { data } = await sharp(result.data)
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+        expect(Math.max(...data)).toBeGreaterThan(0);
+    });
+
+    it("writes the prompt into the metadata when asked", async () => {
+        const image = await noise(32, 32);
+
+        const written = await run(image, {}, { metadata: "write" });
+        const stripped = await run(image, {});
+
+        expect((await sharp(written.data).metadata()).exif).toBeDefined();
+        expect((await sharp(stripped.data).metadata()).exif).toBeUndefined();
+    });
+});
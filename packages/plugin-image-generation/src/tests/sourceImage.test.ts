@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { IAgentRuntime, Memory, UUID } from "@elizaos/core";
+
+vi.mock("@elizaos/core", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("@elizaos/core")>();
+    return { ...actual, embed: vi.fn(async () => []) };
+});
+
+import { getImageCatalog } from "../catalog";
+import { sharpImageProvider } from "../sharpImageProvider";
+import { findSourceImage } from "../utils/sourceImage";
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+const userId = "00000000-0000-0000-0000-000000000002" as UUID;
+const roomId = "00000000-0000-0000-0000-000000000003" as UUID;
+
+function createRuntime(roomMessages: Memory[] = []): IAgentRuntime {
+    const memories = new Map<UUID, Memory>();
+
+    return {
+        agentId,
+        character: { name: "Artist" },
+        getSetting: () => null,
+        messageManager: {
+            getMemoryById: async (id: UUID) =>
+                roomMessages.find((memory) => memory.id === id) ?? null,
+            getMemories: async () => roomMessages,
+        },
+        databaseAdapter: {
+            getMemoryById: async (id: UUID) => memories.get(id) ?? null,
+            createMemory: async (memory: Memory) => {
+                memories.set(memory.id, memory);
+            },
+            getMemories: async () => [...memories.values()],
+        },
+    } as unknown as IAgentRuntime;
+}
+
+function createMessage(
+    id: string,
+    content: Memory["content"],
+    from: UUID = userId,
+    createdAt = Date.now()
+): Memory {
+    return {
+        id: id as UUID,
+        agentId,
+        userId: from,
+        roomId,
+        createdAt,
+        content,
+    };
+}
+
+function imageAttachment(url: string) {
+    return {
+        id: url,
+        url,
+        title: "Generated image",
+        source: "imageGeneration",
+        description: "",
+        text: "",
+        contentType: "image/png",
+    };
+}
+
+describe("findSourceImage", () => {
+    let tmpDir: string;
+    let imagePath: string;
+
+    beforeEach(async () => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "source-image-"));
+        imagePath = path.join(tmpDir, "fox.png");
+        await sharp({
+            create: {
+                width: 64,
+                height: 32,
+                channels: 3,
+                background: { r: 200, g: 80, b: 0 },
+            },
+        })
+            .png()
+            .toFile(imagePath);
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("uses an image attached to the message", async () => {
+        const source = await findSourceImage(
+            createRuntime(),
+            createMessage("m1", {
+                text: "make it darker",
+                attachments: [imageAttachment(imagePath)],
+            })
+        );
+
+        expect(source).toMatchObject({
+            mimeType: "image/png",
+            width: 64,
+            height: 32,
+            url: imagePath,
+        });
+        expect(source.base64).toBe(
+            fs.readFileSync(imagePath).toString("base64")
+        );
+    });
+
+    it("follows the reply to the agent's image and its catalog entry", async () => {
+        const posted = createMessage(
+            "m1",
+            { text: "...", attachments: [imageAttachment(imagePath)] },
+            agentId
+        );
+        const runtime = createRuntime([posted]);
+        const catalogImage = await getImageCatalog(runtime).add({
+            prompt: "a fox at sunset",
+            filepath: imagePath,
+            stored: {
+                key: "fox.png",
+                url: imagePath,
+                contentType: "image/png",
+            },
+            style: "painterly",
+        });
+
+        const source = await findSourceImage(
+            runtime,
+            createMessage("m2", {
+                text: "make it darker",
+                inReplyTo: posted.id,
+            })
+        );
+
+        expect(source.catalogImage).toMatchObject({
+            id: catalogImage.id,
+            prompt: "a fox at sunset",
+            style: "painterly",
+        });
+    });
+
+    it("falls back to the agent's latest image in the room", async () => {
+        const older = path.join(tmpDir, "older.png");
+        fs.copyFileSync(imagePath, older);
+        const runtime = createRuntime([
+            createMessage(
+                "m1",
+                { text: "...", attachments: [imageAttachment(older)] },
+                agentId,
+                1
+            ),
+            createMessage(
+                "m2",
+                { text: "...", attachments: [imageAttachment(imagePath)] },
+                agentId,
+                2
+            ),
+            createMessage("m3", { text: "upscale it" }, userId, 3),
+        ]);
+
+        const source = await findSourceImage(
+            runtime,
+            createMessage("m4", { text: "upscale it" })
+        );
+        expect(source?.url).toBe(imagePath);
+    });
+
+    it("returns null when there is no image", async () => {
+        expect(
+            await findSourceImage(
+                createRuntime([createMessage("m1", { text: "hello" })]),
+                createMessage("m2", { text: "make it darker" })
+            )
+        ).toBeNull();
+    });
+});
+
+describe("sharpImageProvider", () => {
+    it("upscales the source image", async () => {
+        const source = await sharp({
+            create: {
+                width: 16,
+                height: 8,
+                channels: 3,
+                background: { r: 0, g: 0, b: 0 },
+            },
+        })
+            .png()
+            .toBuffer();
+
+        const [image] = await sharpImageProvider.generate(
+            {
+                operation: "upscale",
+                prompt: "",
+                width: 32,
+                height: 16,
+                scale: 2,
+                sourceImage: {
+                    base64: source.toString("base64"),
+                    mimeType: "image/png",
+                },
+            },
+            {} as never
+        );
+
+        const metadata = await sharp(
+            Buffer.from(image.base64, "base64")
+        ).metadata();
+        expect([metadata.width, metadata.height]).toEqual([32, 16]);
+    });
+});
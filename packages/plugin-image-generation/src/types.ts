@@ -1,4 +1,4 @@
-import { State } from "@elizaos/core";
+import { ImageOperation, State, UUID } from "@elizaos/core";
 
 declare module "@elizaos/core" {
     interface State {
@@ -14,3 +14,86 @@ export interface ImageGenerationState {
     };
     pendingPost?: boolean;
 }
+
+export type ImageStoreType = "local" | "s3" | "supabase";
+
+export interface StoredImage {
+    /** Store-specific key that can be resolved back to a URL */
+    key: string;
+    /** URL the image can be fetched from */
+    url: string;
+    /** Database record id, for stores that keep one */
+    id?: string;
+    contentType: string;
+}
+
+export interface ImageStore {
+    readonly type: ImageStoreType;
+
+    /** Persist a generated image file and return where it can be fetched from */
+    save(filepath: string, prompt: string): Promise<StoredImage>;
+
+    /** Resolve a key returned by save() to a fetchable URL, or null if unknown */
+    resolveUrl(key: string): Promise<string | null>;
+}
+
+/** "rejected" images were blocked by moderation and never stored */
+export type GeneratedImageStatus = "completed" | "error" | "rejected";
+
+export interface CatalogImage {
+    id: UUID;
+    agentId: UUID;
+    /** Name of the character that generated the image */
+    character: string;
+    prompt: string;
+    createdAt: number;
+    status: GeneratedImageStatus;
+    /** Local file the image was written to before storage */
+    filepath: string;
+    url?: string;
+    key?: string;
+    storage?: ImageStoreType;
+    contentType: string;
+    /** Image provider that produced the image */
+    provider?: string;
+    /** Seed the image was made with, when it is known */
+    seed?: number;
+    /** Name of the style profile the prompt was written with */
+    style?: string;
+    /** How the image was made, "generate" when omitted */
+    operation?: ImageOperation;
+    /** Catalog entry the image was edited, varied or upscaled from */
+    sourceId?: UUID;
+    /** 64-bit difference hash of the image, as 16 hex characters */
+    perceptualHash?: string;
+    /** Id of an earlier catalog entry with a near-identical image */
+    duplicateOf?: UUID;
+    error?: string;
+    /** Why moderation rejected the image */
+    rejectionReason?: string;
+    /** Cosine similarity to the searched prompt, set by search results */
+    similarity?: number;
+}
+
+export interface CatalogQuery {
+    status?: GeneratedImageStatus;
+    /** Case-insensitive substring match against the prompt */
+    text?: string;
+    character?: string;
+    /** Only include images created at or after this timestamp (ms) */
+    start?: number;
+    /** Only include images created at or before this timestamp (ms) */
+    end?: number;
+    count?: number;
+}
+
+/** An existing image that an edit, variation or upscale starts from */
+export interface SourceImage {
+    base64: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    url?: string;
+    /** Catalog entry for the image, when the agent made it */
+    catalogImage?: CatalogImage;
+}
@@ -0,0 +1,16 @@
+import path from "path";
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+};
+
+export function getImageContentType(filepath: string): string {
+    return (
+        IMAGE_CONTENT_TYPES[path.extname(filepath).toLowerCase()] ||
+        "application/octet-stream"
+    );
+}
@@ -0,0 +1,156 @@
+import {
+    elizaLogger,
+    HandlerCallback,
+    IAgentRuntime,
+    ImageOperation,
+    Memory,
+    moderateImage,
+    postProcessImage,
+    UUID,
+} from "@elizaos/core";
+import fs from "fs";
+import path from "path";
+import { getImageCatalog } from "../catalog";
+import { getImageStore, getImageStoreType } from "../stores";
+import { CatalogImage, StoredImage } from "../types";
+import { loadGeneratedImage, saveImageData } from "./saveImage";
+
+/**
+ * Post-processes, saves, stores and catalogs the images returned by
+ * generateImage, then sends each one back through the action callback as an
+ * attachment. Images are processed for the platform the message came from.
+ * Images rejected by moderation are cataloged as rejected and deleted
+ * without being stored or sent. Returns the catalog entries added.
+ */
+export async function deliverGeneratedImages(
+    runtime: IAgentRuntime,
+    message: Memory,
+    callback: HandlerCallback,
+    params: {
+        images: string[];
+        prompt: string;
+        provider?: string;
+        /** Seeds the images were made with, in the same order */
+        seeds?: (number | undefined)[];
+        style?: string;
+        operation?: ImageOperation;
+        sourceId?: UUID;
+    }
+): Promise<CatalogImage[]> {
+    const catalog = getImageCatalog(runtime);
+    const entries: CatalogImage[] = [];
+    let rejected = 0;
+
+    for (let i = 0; i < params.images.length; i++) {
+        const image = params.images[i];
+
+        const filename = `generated_${Date.now()}_${i}`;
+        const processed = await postProcessImage(
+            runtime,
+            await loadGeneratedImage(image),
+            { platform: message.content.source, prompt: params.prompt }
+        );
+        const filepath = saveImageData(processed.data, filename);
+
+        elizaLogger.log(`Processing image ${i + 1}:`, filename);
+
+        const moderation = await moderateImage(
+            runtime,
+            filepath,
+            params.prompt
+        );
+        if (!moderation.allowed) {
+            elizaLogger.warn(
+                `Generated image rejected by moderation: ${moderation.reason}`
+            );
+            rejected++;
+            try {
+                entries.push(
+                    await catalog.add({
+                        prompt: params.prompt,
+                        filepath,
+                        provider: params.provider,
+                        seed: params.seeds?.[i],
+                        style: params.style,
+                        operation: params.operation,
+                        sourceId: params.sourceId,
+                        rejectionReason: moderation.reason,
+                    })
+                );
+            } catch (error) {
+                elizaLogger.error(
+                    "Failed to add rejected image to catalog:",
+                    error
+                );
+            }
+            // generatedImages is served publicly by the local store
+            await fs.promises.rm(filepath, { force: true });
+            continue;
+        }
+
+        let stored: StoredImage | null = null;
+        let storeError: string | undefined;
+        try {
+            const store = getImageStore(runtime);
+            stored = await store.save(filepath, message.content.text);
+            elizaLogger.log(`Image stored in ${store.type} storage:`, stored);
+        } catch (error) {
+            elizaLogger.error("Failed to store generated image:", error);
+            storeError = error instanceof Error ? error.message : String(error);
+        }
+
+        try {
+            entries.push(
+                await catalog.add({
+                    prompt: params.prompt,
+                    filepath,
+                    stored,
+                    storage: stored ? getImageStoreType(runtime) : undefined,
+                    provider: params.provider,
+                    seed: params.seeds?.[i],
+                    style: params.style,
+                    operation: params.operation,
+                    sourceId: params.sourceId,
+                    error: storeError,
+                })
+            );
+        } catch (error) {
+            elizaLogger.error(
+                "Failed to add generated image to catalog:",
+                error
+            );
+        }
+
+        callback(
+            {
+                text: "...",
+                attachments: [
+                    {
+                        id: stored?.id || crypto.randomUUID(),
+                        url: stored?.url || filepath,
+                        title: "Generated image",
+                        source: "imageGeneration",
+                        description: stored
+                            ? `Image storage: ${stored.url}`
+                            : "...",
+                        text: "...",
+                        contentType: stored?.contentType || processed.mimeType,
+                    },
+                ],
+            },
+            [
+                {
+                    attachment: filepath,
+                    name: path.basename(filepath),
+                },
+            ]
+        );
+    }
+
+    if (rejected > 0 && rejected === params.images.length) {
+        callback({
+            text: "I made an image, but it didn't pass my content checks, so I won't share it.",
+        });
+    }
+    return entries;
+}
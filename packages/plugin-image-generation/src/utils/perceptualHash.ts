@@ -0,0 +1,40 @@
+import sharp from "sharp";
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Computes a difference hash (dHash) of an image: the image is shrunk to 9x8
+ * grayscale and each bit records whether a pixel is brighter than its right
+ * neighbour. Visually similar images end up a small hamming distance apart.
+ */
+export async function computePerceptualHash(
+    input: string | Buffer
+): Promise<string> {
+    const pixels = await sharp(input)
+        .grayscale()
+        .resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+        .raw()
+        .toBuffer();
+
+    let hash = 0n;
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        for (let x = 0; x < HASH_WIDTH - 1; x++) {
+            const left = pixels[y * HASH_WIDTH + x];
+            const right = pixels[y * HASH_WIDTH + x + 1];
+            hash = (hash << 1n) | (left > right ? 1n : 0n);
+        }
+    }
+
+    return hash.toString(16).padStart(16, "0");
+}
+
+export function hammingDistance(a: string, b: string): number {
+    let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let distance = 0;
+    while (diff > 0n) {
+        distance += Number(diff & 1n);
+        diff >>= 1n;
+    }
+    return distance;
+}
@@ -0,0 +1,67 @@
+import {
+    generateImage,
+    getImageStyleDimensions,
+    IAgentRuntime,
+    Memory,
+    stringToUuid,
+} from "@elizaos/core";
+import { getImageCatalog } from "../catalog";
+import { CatalogImage } from "../types";
+import { deliverGeneratedImages } from "./deliverImages";
+
+/**
+ * Generates a cataloged image again from its prompt and style, with the
+ * given seed or a fresh one. The new images are moderated, stored and
+ * cataloged like the ones GENERATE_IMAGE makes, and returned.
+ */
+export async function regenerateImage(
+    runtime: IAgentRuntime,
+    image: CatalogImage,
+    options: { seed?: number } = {}
+): Promise<CatalogImage[]> {
+    const imageSettings = runtime.character?.settings?.imageSettings || {};
+    const style = image.style ? imageSettings.styles?.[image.style] : undefined;
+    const size = {
+        width: imageSettings.width || 1024,
+        height: imageSettings.height || 1024,
+    };
+    const negativePrompt =
+        style?.negativePrompt || imageSettings.negativePrompt;
+    const modelId = style?.modelId || imageSettings.modelId;
+
+    const images = await generateImage(
+        {
+            prompt: image.prompt,
+            ...(style ? getImageStyleDimensions(style, size) : size),
+            ...(options.seed != null ? { seed: options.seed } : {}),
+            ...(negativePrompt ? { negativePrompt } : {}),
+            ...(modelId ? { modelId } : {}),
+        },
+        runtime
+    );
+    if (!images.success || !images.data?.length) {
+        const reason =
+            images.error instanceof Error ? images.error.message : images.error;
+        throw new Error(
+            `Image generation failed: ${reason ?? "no images returned"}`
+        );
+    }
+
+    // Not sent anywhere, so the images get the default post-processing
+    const message: Memory = {
+        id: stringToUuid(`regenerate-${image.id}-${Date.now()}`),
+        userId: runtime.agentId,
+        agentId: runtime.agentId,
+        roomId: getImageCatalog(runtime).roomId,
+        content: { text: image.prompt },
+    };
+    return deliverGeneratedImages(runtime, message, async () => [], {
+        images: images.data,
+        prompt: image.prompt,
+        provider: images.provider,
+        seeds: images.data.map(
+            (_, i) => images.images?.[i]?.seed ?? options.seed
+        ),
+        style: image.style,
+    });
+}
@@ -0,0 +1,74 @@
+import {
+    detectImageMimeType,
+    getImageExtension,
+    ProcessedImage,
+} from "@elizaos/core";
+import fs from "fs";
+import path from "path";
+
+function getImageDir(): string {
+    // Create generatedImages directory if it doesn't exist
+    const imageDir = path.join(process.cwd(), "generatedImages");
+    if (!fs.existsSync(imageDir)) {
+        fs.mkdirSync(imageDir, { recursive: true });
+    }
+    return imageDir;
+}
+
+/**
+ * Writes image data to the generatedImages directory, with the extension of
+ * its real format.
+ */
+export function saveImageData(data: Buffer, filename: string): string {
+    const mimeType = detectImageMimeType(data) ?? "image/png";
+    const filepath = path.join(
+        getImageDir(),
+        `${filename}.${getImageExtension(mimeType)}`
+    );
+    fs.writeFileSync(filepath, data);
+    return filepath;
+}
+
+/**
+ * Reads an image returned by generateImage, either a data URL or base64
+ * string or a URL to download.
+ */
+export async function loadGeneratedImage(
+    image: string
+): Promise<ProcessedImage> {
+    if (image.startsWith("http")) {
+        const response = await fetch(image);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch image: ${response.statusText}`);
+        }
+        const data = Buffer.from(await response.arrayBuffer());
+        return {
+            data,
+            mimeType:
+                detectImageMimeType(data) ??
+                response.headers.get("content-type")?.split(";")[0] ??
+                "image/png",
+        };
+    }
+
+    // Remove the data:image/png;base64 prefix if it exists
+    const data = Buffer.from(
+        image.replace(/^data:image\/[\w+.-]+;base64,/, ""),
+        "base64"
+    );
+    return { data, mimeType: detectImageMimeType(data) ?? "image/png" };
+}
+
+export function saveBase64Image(base64Data: string, filename: string): string {
+    // Remove the data:image/png;base64 prefix if it exists
+    const base64Image = base64Data.replace(/^data:image\/[\w+.-]+;base64,/, "");
+    return saveImageData(Buffer.from(base64Image, "base64"), filename);
+}
+
+export async function saveHeuristImage(
+    imageUrl: string,
+    filename: string
+): Promise<string> {
+    const { data } = await loadGeneratedImage(imageUrl);
+    return saveImageData(data, filename);
+}
@@ -0,0 +1,159 @@
+import { elizaLogger, IAgentRuntime, Media, Memory, UUID } from "@elizaos/core";
+import fs from "fs";
+import sharp from "sharp";
+import { getImageCatalog } from "../catalog";
+import { getImageStore } from "../stores";
+import { CatalogImage, SourceImage } from "../types";
+import { getImageContentType } from "./contentType";
+
+/** How many recent room messages are searched for an image to work on */
+const RECENT_MESSAGE_COUNT = 20;
+
+const IMAGE_URL_PATTERN = /\.(png|jpe?g|gif|webp)(\?.*)?$/i;
+
+function isImageAttachment(attachment: Media): boolean {
+    return (
+        !!attachment.url &&
+        (attachment.contentType?.startsWith("image/") ||
+            attachment.url.startsWith("data:image/") ||
+            IMAGE_URL_PATTERN.test(attachment.url))
+    );
+}
+
+function findImageAttachment(memory?: Memory | null): Media | undefined {
+    return memory?.content.attachments?.filter(isImageAttachment).pop();
+}
+
+async function readImage(
+    location: string,
+    contentType?: string
+): Promise<{ buffer: Buffer; mimeType: string }> {
+    const dataUrl = location.match(/^data:([^;]+);base64,(.*)$/);
+    if (dataUrl) {
+        return {
+            buffer: Buffer.from(dataUrl[2], "base64"),
+            mimeType: dataUrl[1],
+        };
+    }
+
+    if (/^https?:\/\//.test(location)) {
+        const response = await fetch(location);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch image: ${response.statusText}`);
+        }
+        return {
+            buffer: Buffer.from(await response.arrayBuffer()),
+            mimeType:
+                response.headers.get("content-type") ||
+                contentType ||
+                getImageContentType(location),
+        };
+    }
+
+    return {
+        buffer: await fs.promises.readFile(location),
+        mimeType: contentType || getImageContentType(location),
+    };
+}
+
+/**
+ * Loads a catalog entry, preferring the local file it was generated into and
+ * falling back to its URL, resolved again through the store if needed.
+ */
+async function loadCatalogImage(
+    runtime: IAgentRuntime,
+    image: CatalogImage
+): Promise<{ buffer: Buffer; mimeType: string }> {
+    if (image.filepath && fs.existsSync(image.filepath)) {
+        return readImage(image.filepath, image.contentType);
+    }
+
+    const url =
+        image.url ||
+        (image.key ? await getImageStore(runtime).resolveUrl(image.key) : null);
+    if (!url) {
+        throw new Error(`Image ${image.id} is no longer available`);
+    }
+    return readImage(url, image.contentType);
+}
+
+async function toSourceImage(
+    image: { buffer: Buffer; mimeType: string },
+    extra: Pick<SourceImage, "url" | "catalogImage">
+): Promise<SourceImage> {
+    const metadata = await sharp(image.buffer).metadata();
+    return {
+        base64: image.buffer.toString("base64"),
+        mimeType: image.mimeType,
+        width: metadata.width ?? 1024,
+        height: metadata.height ?? 1024,
+        ...extra,
+    };
+}
+
+/**
+ * Finds the image an edit, variation or upscale should start from, in order:
+ * an image attached to the message, an image on the message it replies to,
+ * the catalog entry named by imageId, and the most recent image the agent
+ * posted in the room. Returns null when there is none.
+ */
+export async function findSourceImage(
+    runtime: IAgentRuntime,
+    message: Memory,
+    imageId?: UUID
+): Promise<SourceImage | null> {
+    const catalog = getImageCatalog(runtime);
+
+    let attachment = findImageAttachment(message);
+    if (!attachment && message.content.inReplyTo) {
+        attachment = findImageAttachment(
+            await runtime.messageManager.getMemoryById(
+                message.content.inReplyTo
+            )
+        );
+    }
+
+    if (!attachment && imageId) {
+        const catalogImage = await catalog.get(imageId);
+        if (catalogImage) {
+            return toSourceImage(
+                await loadCatalogImage(runtime, catalogImage),
+                { url: catalogImage.url, catalogImage }
+            );
+        }
+    }
+
+    if (!attachment) {
+        const recent = await runtime.messageManager.getMemories({
+            roomId: message.roomId,
+            count: RECENT_MESSAGE_COUNT,
+        });
+        attachment = findImageAttachment(
+            recent
+                .filter(
+                    (memory) =>
+                        memory.userId === runtime.agentId &&
+                        findImageAttachment(memory)
+                )
+                .sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0))[0]
+        );
+    }
+
+    if (!attachment) {
+        return null;
+    }
+
+    let catalogImage: CatalogImage | null = null;
+    try {
+        catalogImage = await catalog.findByUrl(attachment.url);
+    } catch (error) {
+        elizaLogger.warn("Failed to look up image in catalog:", error);
+    }
+
+    return toSourceImage(
+        catalogImage
+            ? await loadCatalogImage(runtime, catalogImage)
+            : await readImage(attachment.url, attachment.contentType),
+        { url: attachment.url, catalogImage: catalogImage ?? undefined }
+    );
+}
@@ -1,18 +1,9 @@
-import { createClient } from '@supabase/supabase-js';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { elizaLogger } from '@elizaos/core';
 import * as fs from 'fs';
+import { getImageContentType } from './contentType';
 
-// Initialize Supabase client
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_ANON_KEY;
-
-if (!supabaseUrl || !supabaseKey) {
-    throw new Error('Missing Supabase credentials in environment variables');
-}
-
-const supabase = createClient(supabaseUrl, supabaseKey);
-
-interface GeneratedImageRecord {
+export interface GeneratedImageRecord {
     id: string;
     created_at: string;
     storage_path: string;
@@ -55,23 +46,24 @@ async function validateImage(filepath: string): Promise<boolean> {
 
         // Check file extension
         const ext = filepath.split('.').pop()?.toLowerCase();
-        if (!ext || !['png', 'jpg', 'jpeg', 'gif'].includes(ext)) {
+        if (!ext || !['png', 'jpg', 'jpeg', 'gif', 'webp'].includes(ext)) {
             elizaLogger.error('Invalid image file extension:', ext);
             return false;
         }
 
         // Try to read the first few bytes to verify it's a valid image
         const fd = await fs.promises.open(filepath, 'r');
-        const buffer = Buffer.alloc(4);
-        await fd.read(buffer, 0, 4, 0);
+        const buffer = Buffer.alloc(12);
+        await fd.read(buffer, 0, 12, 0);
         await fd.close();
 
         // Check magic numbers for common image formats
         const isPNG = buffer.toString('hex').startsWith('89504e47');
         const isJPEG = buffer.toString('hex').startsWith('ffd8');
         const isGIF = buffer.toString('hex').startsWith('47494638');
+        const isWebP = buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP';
 
-        if (!isPNG && !isJPEG && !isGIF) {
+        if (!isPNG && !isJPEG && !isGIF && !isWebP) {
             elizaLogger.error('File does not appear to be a valid image');
             return false;
         }
@@ -108,6 +100,7 @@ async function retryOperation<T>(
 }
 
 export async function uploadGeneratedImage(
+    supabase: SupabaseClient,
     filepath: string,
     prompt: string
 ): Promise<GeneratedImageRecord | null> {
@@ -175,7 +168,7 @@ export async function uploadGeneratedImage(
             const result = await supabase.storage
                 .from('generated-images')
                 .upload(storagePath, fileBuffer, {
-                    contentType: 'image/png',
+                    contentType: getImageContentType(filepath),
                     upsert: true
                 });
 
@@ -270,7 +263,9 @@ export async function uploadGeneratedImage(
     }
 }
 
-export async function getLatestGeneratedImage(): Promise<GeneratedImageRecord | null> {
+export async function getLatestGeneratedImage(
+    supabase: SupabaseClient
+): Promise<GeneratedImageRecord | null> {
     const startTime = Date.now();
     try {
         elizaLogger.log('Fetching latest generated image');
@@ -310,7 +305,10 @@ export async function getLatestGeneratedImage(): Promise<GeneratedImageRecord |
     }
 }
 
-export async function getGeneratedImageById(id: string): Promise<GeneratedImageRecord | null> {
+export async function getGeneratedImageById(
+    supabase: SupabaseClient,
+    id: string
+): Promise<GeneratedImageRecord | null> {
     const startTime = Date.now();
     try {
         elizaLogger.log('Fetching image by ID:', id);
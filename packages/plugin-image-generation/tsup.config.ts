@@ -16,6 +16,7 @@ export default defineConfig({
         "http",
         "agentkeepalive",
         "zod",
+        "sharp",
         // Add other modules you want to externalize
     ],
 });